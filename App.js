@@ -1,23 +1,82 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { Alert, AppState } from "react-native";
 import LoadingScreen from "./src/components/LoadingScreen";
 import MapScreen from "./src/components/MapScreen";
 import ReportScreen from "./src/components/ReportScreen";
 import ConfirmationScreen from "./src/components/ConfirmationScreen";
 import SuccessPopup from "./src/components/SuccessPopup";
+import MySubmissionsModal from "./src/components/MySubmissionsModal";
+import ModerationScreen from "./src/components/ModerationScreen";
 import * as Location from 'expo-location';
-import { saveReport, getAllReports } from './src/dynamodb';
-import { uploadImagesToS3 } from './src/s3Upload';
+import { repository, imageStore } from './src/repository';
+import { IdentityProvider, useIdentity } from './src/IdentityContext';
+import { loadCachedHazards, saveCachedHazards, mergeHazards, confirmHazards } from './src/hazardCache';
+import {
+  submitReport,
+  subscribeToSubmissions,
+  startSubmissionQueue,
+  retrySubmission,
+  discardSubmission,
+} from './src/submissionQueue';
+
+// Region loaded before the map reports its own visible region
+const INITIAL_REGION_DELTA = 0.05;
+
+// How often to pull reports other users created or changed
+const SYNC_INTERVAL_MS = 60 * 1000;
 
 export default function App() {
+  return (
+    <IdentityProvider>
+      <FlagItApp />
+    </IdentityProvider>
+  );
+}
+
+function FlagItApp() {
   const [isLoading, setIsLoading] = useState(true);
-  const [currentScreen, setCurrentScreen] = useState('map'); // 'map', 'report', or 'confirmation'
+  const [currentScreen, setCurrentScreen] = useState('map'); // 'map', 'report', 'confirmation' or 'moderation'
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
   const [hazards, setHazards] = useState([]);
   const [userLocation, setUserLocation] = useState(null);
   const [submittedReport, setSubmittedReport] = useState(null);
   const [locationSubscription, setLocationSubscription] = useState(null);
+  const { reporterId, moderator } = useIdentity();
+  const [submissions, setSubmissions] = useState([]);
+  const [showSubmissions, setShowSubmissions] = useState(false);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState(null);
+  const [isShowingCachedHazards, setIsShowingCachedHazards] = useState(false);
+  const hazardCacheLoaded = useRef(false);
+  // Incremental sync state: the cursor for the next request, when the current unbroken run of syncs
+  // began, and the last region the map showed (reloaded when the server asks for a reset)
+  const syncCursor = useRef(null);
+  const syncCoveredSince = useRef(null);
+  const isSyncing = useRef(false);
+  const lastRegion = useRef(null);
+
+  // Merge reports fresh from the server and record when the map was last updated
+  const applyFetchedReports = (reports) => {
+    const fetchedAt = new Date().toISOString();
+    setHazards(prev => mergeHazards(prev, reports, fetchedAt));
+    setLastUpdatedAt(fetchedAt);
+    setIsShowingCachedHazards(false);
+  };
 
   const handleLoadingComplete = async () => {
+    let initialLocation = null;
+
+    // Show the hazards saved last session right away, before the network is tried
+    try {
+      const cache = await loadCachedHazards();
+      setHazards(prev => mergeHazards(cache.hazards, prev));
+      setLastUpdatedAt(cache.updatedAt);
+      setIsShowingCachedHazards(cache.hazards.length > 0);
+      console.log('Loaded', cache.hazards.length, 'hazards from device cache');
+    } catch (error) {
+      console.error('Error loading hazard cache:', error);
+    }
+    hazardCacheLoaded.current = true;
+
     // Get user location when app loads and start tracking
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -26,10 +85,11 @@ export default function App() {
         const location = await Location.getCurrentPositionAsync({
           accuracy: Location.Accuracy.High,
         });
-        setUserLocation({
+        initialLocation = {
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
-        });
+        };
+        setUserLocation(initialLocation);
 
         // Start watching location changes
         const subscription = await Location.watchPositionAsync(
@@ -52,148 +112,186 @@ export default function App() {
       console.error('Error getting location:', error);
     }
 
-    // Load existing reports from DynamoDB
+    setIsLoading(false);
+
+    // Load reports around the user from DynamoDB; the map loads more as it pans
+    if (initialLocation) {
+      try {
+        const reports = await repository.getReportsInRegion({
+          ...initialLocation,
+          latitudeDelta: INITIAL_REGION_DELTA,
+          longitudeDelta: INITIAL_REGION_DELTA,
+        });
+        applyFetchedReports(reports);
+        console.log('Loaded', reports.length, 'reports from DynamoDB');
+      } catch (error) {
+        console.error('Error loading reports from DynamoDB, showing cached hazards:', error);
+        setIsShowingCachedHazards(true);
+      }
+    }
+  };
+
+
+  const handleRegionChange = async (region) => {
+    lastRegion.current = region;
     try {
-      const reports = await getAllReports();
-      setHazards(reports);
-      console.log('Loaded', reports.length, 'reports from DynamoDB');
+      const reports = await repository.getReportsInRegion(region);
+      applyFetchedReports(reports);
     } catch (error) {
-      console.error('Error loading reports from DynamoDB:', error);
+      console.error('Error loading reports for region:', error);
+      setIsShowingCachedHazards(true);
     }
-
-    setIsLoading(false);
   };
 
+  // Pull reports created or changed since the last sync and merge them in place
+  const syncHazards = async () => {
+    if (isSyncing.current) return;
+    isSyncing.current = true;
+
+    try {
+      const { reports, cursor, reset } = await repository.getReportChanges(syncCursor.current);
+      if (reset) {
+        // Cursor missing or too old to replay: reload what the map shows and start a new run
+        if (lastRegion.current) {
+          applyFetchedReports(await repository.getReportsInRegion(lastRegion.current));
+        }
+        syncCoveredSince.current = cursor;
+      } else {
+        const fetchedAt = new Date().toISOString();
+        setHazards(prev => mergeHazards(confirmHazards(prev, syncCoveredSince.current, fetchedAt), reports, fetchedAt));
+        setLastUpdatedAt(fetchedAt);
+        setIsShowingCachedHazards(false);
+        if (reports.length > 0) {
+          console.log('Synced', reports.length, 'changed reports');
+        }
+      }
+      syncCursor.current = cursor;
+    } catch (error) {
+      console.error('Error syncing reports:', error);
+      setIsShowingCachedHazards(true);
+    } finally {
+      isSyncing.current = false;
+    }
+  };
 
   const handleFlagPress = () => {
     setCurrentScreen('report');
   };
 
+  const handleModerationPress = () => {
+    setShowSubmissions(false);
+    setCurrentScreen('moderation');
+  };
+
   const handleBackToMap = () => {
     setCurrentScreen('map');
     // Clear the submitted report when going back to map
     setSubmittedReport(null);
   };
 
-  const handleReportSubmit = async (reportData, onNavigationComplete) => {
-    console.log('Report submitted:', reportData);
-    console.log('Current user location:', userLocation);
-    
+  // Get a fresh location for a new report, falling back to the stored one
+  const getReportLocation = async () => {
     try {
-      // Get fresh location at the time of submission
       const freshLocation = await Location.getCurrentPositionAsync({
         accuracy: Location.Accuracy.High,
       });
-      
-      const currentLocation = {
+      const location = {
         latitude: freshLocation.coords.latitude,
         longitude: freshLocation.coords.longitude,
       };
-      
-      console.log('Fresh location for report:', currentLocation);
-
-      const reportId = Date.now().toString();
-
-      // Upload images to S3
-      let s3ImageUrls = [];
-      try {
-        console.log('Uploading images to S3...');
-        s3ImageUrls = await uploadImagesToS3(reportData.images, reportId);
-        console.log('Images uploaded to S3:', s3ImageUrls);
-      } catch (s3Error) {
-        console.error('Failed to upload images to S3:', s3Error);
-        // Fall back to local URIs if S3 upload fails
-        s3ImageUrls = reportData.images;
-      }
-
-      // Create the submitted report with fresh location and S3 URLs
-      const newReport = {
-        id: reportId,
-        title: reportData.title,
-        description: reportData.description,
-        images: s3ImageUrls,
-        latitude: currentLocation.latitude,
-        longitude: currentLocation.longitude,
-        timestamp: new Date().toISOString(),
-        category: reportData.category,
+      console.log('Fresh location for report:', location);
+      return location;
+    } catch (error) {
+      console.error('Error getting fresh location:', error);
+      return {
+        latitude: userLocation?.latitude || 37.7749,
+        longitude: userLocation?.longitude || -122.4194,
       };
+    }
+  };
 
-      console.log('New report created:', newReport);
-
-      // Save to DynamoDB
-      try {
-        await saveReport(newReport);
-        console.log('Report saved to DynamoDB successfully');
-      } catch (dbError) {
-        console.error('Failed to save to DynamoDB, continuing anyway:', dbError);
-      }
+  // Look for open reports the one being made would duplicate. The location is returned so the
+  // report is saved where the check was made. Offline, the check is skipped rather than blocking.
+  const handleFindDuplicates = async (category) => {
+    const location = await getReportLocation();
+    try {
+      const duplicates = await repository.findDuplicateReports({ ...location, category });
+      return { location, duplicates };
+    } catch (error) {
+      console.error('Error checking for duplicate reports:', error);
+      return { location, duplicates: [] };
+    }
+  };
 
-      // Add to hazards list for map display
-      setHazards(prev => [...prev, newReport]);
+  // Confirm an existing report instead of submitting a new one: the photos are added to it
+  // along with an up vote
+  const handleConfirmExisting = async (hazard, reportData, onUploadProgress) => {
+    const images = await imageStore.uploadImages(reportData.images, hazard.id, onUploadProgress);
+    const { report } = await repository.confirmReport({
+      reportId: hazard.id,
+      timestamp: hazard.timestamp,
+      reporterId,
+      images,
+    });
+    if (report) {
+      setHazards(prev => mergeHazards(prev, [report]));
+    }
 
-      // Set the submitted report and navigate to confirmation
-      console.log('Setting submitted report and navigating to confirmation');
+    setCurrentScreen('map');
+    Alert.alert('Thanks for confirming', 'Your photos were added to the existing report.');
+  };
 
-      // Use a single state update to avoid race conditions
-      setSubmittedReport(newReport);
-      setTimeout(() => {
-        setCurrentScreen('confirmation');
-        console.log('Navigation to confirmation screen completed');
-        // Call the callback to stop loading animation
-        if (onNavigationComplete) {
-          onNavigationComplete();
-        }
-      }, 0);
-    } catch (error) {
-      console.error('Error getting fresh location:', error);
+  const handleReportSubmit = async (reportData, onNavigationComplete, onUploadProgress) => {
+    console.log('Report submitted:', reportData);
+    console.log('Current user location:', userLocation);
 
-      const reportId = Date.now().toString();
+    const currentLocation = reportData.location || await getReportLocation();
+
+    const newReport = {
+      id: Date.now().toString(),
+      title: reportData.title,
+      description: reportData.description,
+      latitude: currentLocation.latitude,
+      longitude: currentLocation.longitude,
+      timestamp: new Date().toISOString(),
+      category: reportData.category,
+      reporterId,
+      reporterName: reportData.reporterName || null,
+      review: reportData.review || null,
+    };
 
-      // Upload images to S3
-      let s3ImageUrls = [];
-      try {
-        console.log('Uploading images to S3 (fallback)...');
-        s3ImageUrls = await uploadImagesToS3(reportData.images, reportId);
-        console.log('Images uploaded to S3 (fallback):', s3ImageUrls);
-      } catch (s3Error) {
-        console.error('Failed to upload images to S3:', s3Error);
-        s3ImageUrls = reportData.images;
-      }
+    console.log('New report created:', newReport);
 
-      // Fallback to stored location if fresh location fails
-      const newReport = {
-        id: reportId,
-        title: reportData.title,
-        description: reportData.description,
-        images: s3ImageUrls,
-        latitude: userLocation?.latitude || 37.7749,
-        longitude: userLocation?.longitude || -122.4194,
-        timestamp: new Date().toISOString(),
-        category: reportData.category,
+    // The report is kept on the device until the server acknowledges it
+    let result;
+    try {
+      result = await submitReport(newReport, reportData.images, onUploadProgress);
+    } catch (error) {
+      console.error('Error queueing report:', error);
+      result = {
+        status: 'failed',
+        report: { ...newReport, images: reportData.images.map(image => image.uri) },
+        error: error.message,
       };
+    }
+    console.log('Report submission status:', result.status);
 
-      // Save to DynamoDB
-      try {
-        await saveReport(newReport);
-        console.log('Report saved to DynamoDB successfully (fallback)');
-      } catch (dbError) {
-        console.error('Failed to save to DynamoDB, continuing anyway:', dbError);
-      }
-
-      setHazards(prev => [...prev, newReport]);
-      console.log('Setting submitted report (fallback) and navigating to confirmation');
-
-      // Use a single state update to avoid race conditions
-      setSubmittedReport(newReport);
-      setTimeout(() => {
-        setCurrentScreen('confirmation');
-        console.log('Navigation to confirmation screen completed (fallback)');
-        // Call the callback to stop loading animation
-        if (onNavigationComplete) {
-          onNavigationComplete();
-        }
-      }, 0);
+    // Only reports the server has accepted go on the map; queued ones are added when they sync,
+    // and ones sent for review once a moderator approves them
+    if (result.status === 'synced') {
+      setHazards(prev => mergeHazards(prev, [result.report]));
     }
+
+    // Use a single state update to avoid race conditions
+    setSubmittedReport({ ...result.report, syncStatus: result.status, syncError: result.error });
+    setTimeout(() => {
+      setCurrentScreen('confirmation');
+      console.log('Navigation to confirmation screen completed');
+      // Call the callback to stop loading animation
+      if (onNavigationComplete) {
+        onNavigationComplete();
+      }
+    }, 0);
   };
 
   const handleCloseSuccessPopup = () => {
@@ -222,6 +320,83 @@ export default function App() {
     };
   }, [locationSubscription]);
 
+  // Retry queued reports in the background and show them on the map once they sync
+  useEffect(() => {
+    const unsubscribe = subscribeToSubmissions((entries, event) => {
+      setSubmissions(entries);
+      if (event?.type === 'synced') {
+        setHazards(prev => mergeHazards(prev, [event.report]));
+      }
+    });
+    const stopQueue = startSubmissionQueue();
+
+    return () => {
+      unsubscribe();
+      stopQueue();
+    };
+  }, []);
+
+  const handleRetrySubmission = async (id) => {
+    try {
+      await retrySubmission(id);
+    } catch (error) {
+      console.error('Error retrying submission:', error);
+    }
+  };
+
+  const handleDiscardSubmission = async (id) => {
+    try {
+      await discardSubmission(id);
+    } catch (error) {
+      console.error('Error discarding submission:', error);
+    }
+  };
+
+  // Sync on an interval and whenever the app returns to the foreground, and take
+  // live updates from the event stream while the app is in the foreground
+  useEffect(() => {
+    if (isLoading) return;
+
+    let closeLiveUpdates = null;
+    const openLiveUpdates = () => {
+      if (closeLiveUpdates) return;
+      closeLiveUpdates = repository.subscribeToChanges({
+        onReport: (report) => {
+          setHazards(prev => mergeHazards(prev, [report]));
+        },
+        // Catch up on anything sent while the stream was down
+        onOpen: syncHazards,
+      });
+    };
+
+    syncHazards();
+    openLiveUpdates();
+    const timer = setInterval(syncHazards, SYNC_INTERVAL_MS);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncHazards();
+        openLiveUpdates();
+      } else if (state === 'background' && closeLiveUpdates) {
+        closeLiveUpdates();
+        closeLiveUpdates = null;
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      appStateSubscription.remove();
+      if (closeLiveUpdates) {
+        closeLiveUpdates();
+      }
+    };
+  }, [isLoading]);
+
+  // Keep the device copy of the map current so the next launch can show it offline
+  useEffect(() => {
+    if (!hazardCacheLoaded.current) return;
+    saveCachedHazards(hazards, lastUpdatedAt);
+  }, [hazards, lastUpdatedAt]);
+
   // Debug state changes
   useEffect(() => {
     console.log('State changed - currentScreen:', currentScreen, 'submittedReport:', submittedReport ? 'exists' : 'null');
@@ -244,6 +419,8 @@ export default function App() {
       <ReportScreen 
         onBack={handleBackToMap} 
         onSubmit={handleReportSubmit} 
+        onFindDuplicates={handleFindDuplicates}
+        onConfirmExisting={handleConfirmExisting}
       />
     );
   }
@@ -259,10 +436,38 @@ export default function App() {
     );
   }
 
+  if (currentScreen === 'moderation') {
+    return (
+      <ModerationScreen
+        onBack={handleBackToMap}
+        onReportsChanged={(reports) => setHazards(prev => mergeHazards(prev, reports))}
+      />
+    );
+  }
+
   console.log('Rendering MapScreen (default)');
   return (
     <>
-      <MapScreen onFlagPress={handleFlagPress} hazards={hazards} />
+      <MapScreen
+        onFlagPress={handleFlagPress}
+        onRegionChange={handleRegionChange}
+        onHazardUpdated={(report) => setHazards(prev => mergeHazards(prev, [report]))}
+        hazards={hazards}
+        lastUpdatedAt={lastUpdatedAt}
+        isShowingCachedHazards={isShowingCachedHazards}
+        pendingSubmissionCount={submissions.filter(entry => entry.status !== 'synced').length}
+        onMyReportsPress={() => setShowSubmissions(true)}
+        isModerator={!!moderator}
+        onModerationPress={handleModerationPress}
+      />
+      <MySubmissionsModal
+        visible={showSubmissions}
+        submissions={submissions}
+        onClose={() => setShowSubmissions(false)}
+        onRetry={handleRetrySubmission}
+        onDiscard={handleDiscardSubmission}
+        onModerationPress={handleModerationPress}
+      />
       <SuccessPopup 
         visible={showSuccessPopup}
         onClose={handleCloseSuccessPopup}
@@ -3,12 +3,13 @@ import "dotenv/config";
 
 export default ({ config }) => ({
   ...config,
+  // Everything in extra ships inside the app bundle, so never put secrets here.
+  // AWS and Gemini credentials live in the backend (functions/).
   extra: {
-    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-    awsRegion: process.env.AWS_REGION,
-    awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
-    awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-    dynamodbTableName: process.env.DYNAMODB_TABLE_NAME,
-    s3BucketName: process.env.S3_BUCKET_NAME,
+    apiBaseUrl: process.env.FLAGIT_API_URL,
+    // remote (default), memory or device; see src/repository/index.js
+    dataBackend: process.env.FLAGIT_DATA_BACKEND,
+    // remote or rules; see src/classifier.js
+    classifier: process.env.FLAGIT_CLASSIFIER,
   },
 });
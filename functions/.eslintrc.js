@@ -1,6 +1,7 @@
 module.exports = {
   env: {
     es6: true,
+    es2020: true,
     node: true,
   },
   parserOptions: {
@@ -1,15 +1,17 @@
 /**
- * Import function triggers from their respective submodules:
- *
- * const {onCall} = require("firebase-functions/v2/https");
- * const {onDocumentWritten} = require("firebase-functions/v2/firestore");
+ * FlagIt backend. All AWS and Gemini access happens here so that no
+ * credentials ship in the app bundle.
  *
  * See a full list of supported triggers at https://firebase.google.com/docs/functions
  */
 
 const {setGlobalOptions} = require("firebase-functions");
 const {onRequest} = require("firebase-functions/https");
+const {onSchedule} = require("firebase-functions/scheduler");
 const logger = require("firebase-functions/logger");
+const config = require("./src/config");
+const {createApp} = require("./src/app");
+const {getServices} = require("./src/services");
 
 // For cost control, you can set the maximum number of containers that can be
 // running at the same time. This helps mitigate the impact of unexpected
@@ -21,12 +23,62 @@ const logger = require("firebase-functions/logger");
 // functions should each use functions.runWith({ maxInstances: 10 }) instead.
 // In the v1 API, each function can only serve one request per container, so
 // this will be the maximum concurrent request count.
-setGlobalOptions({ maxInstances: 10 });
+setGlobalOptions({maxInstances: 10});
+
+// HTTP API used by the app: analyze, upload, reports, votes, comments and
+// moderation
+exports.api = onRequest({
+  secrets: [
+    config.geminiApiKey,
+    config.awsAccessKeyId,
+    config.awsSecretAccessKey,
+    config.moderatorKeys,
+  ],
+}, createApp(getServices));
+
+// Resolves hazards that stayed "probably resolved" long enough, since that
+// can happen without any new vote arriving
+exports.autoResolve = onSchedule({
+  schedule: "every 1 hours",
+  secrets: [
+    config.geminiApiKey,
+    config.awsAccessKeyId,
+    config.awsSecretAccessKey,
+    config.moderatorKeys,
+  ],
+}, async () => {
+  const result = await getServices().autoResolver.sweep();
+  result.failed.forEach((failure) =>
+    logger.error("Auto-resolve failed", failure));
+  logger.info("Auto-resolve sweep finished", result);
+});
 
-// Create and deploy your first functions
-// https://firebase.google.com/docs/functions/get-started
+// Sends new reports' deliveries to jurisdictions and retries the ones that
+// failed (see src/dispatch.js)
+exports.retryDispatches = onSchedule({
+  schedule: "every 5 minutes",
+  secrets: [
+    config.geminiApiKey,
+    config.awsAccessKeyId,
+    config.awsSecretAccessKey,
+    config.moderatorKeys,
+  ],
+}, async () => {
+  const result = await getServices().dispatcher.retryDue();
+  logger.info("Dispatch retries finished", result);
+});
 
-// exports.helloWorld = onRequest((request, response) => {
-//   logger.info("Hello logs!", {structuredData: true});
-//   response.send("Hello from Firebase!");
-// });
+// Moves reports filed with a city's Open311 server along as the city
+// updates its service requests (see src/open311Sync.js)
+exports.syncOpen311 = onSchedule({
+  schedule: "every 15 minutes",
+  secrets: [
+    config.geminiApiKey,
+    config.awsAccessKeyId,
+    config.awsSecretAccessKey,
+    config.moderatorKeys,
+  ],
+}, async () => {
+  const result = await getServices().open311Sync.sync();
+  logger.info("Open311 sync finished", result);
+});
@@ -0,0 +1,73 @@
+// Adds geohash attributes to reports saved before the geohash index existed.
+// Reads AWS settings from the environment (e.g. functions/.env.local).
+// Usage: npm run backfill:geohash [-- --dry-run]
+const {DynamoDBClient} = require("@aws-sdk/client-dynamodb");
+const {
+  DynamoDBDocumentClient,
+  ScanCommand,
+  UpdateCommand,
+} = require("@aws-sdk/lib-dynamodb");
+const {geohashFields} = require("../src/geohash");
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || "Hazard_flags";
+const dryRun = process.argv.includes("--dry-run");
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({
+  region: process.env.AWS_REGION,
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+  },
+}));
+
+/**
+ * Scan the reports table and backfill items without a geohash.
+ */
+async function main() {
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+  let lastKey;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: TABLE_NAME,
+      FilterExpression: "attribute_not_exists(geohash)",
+      ExclusiveStartKey: lastKey,
+    }));
+    scanned += result.ScannedCount || 0;
+
+    for (const item of result.Items || []) {
+      if (typeof item.latitude !== "number" ||
+          typeof item.longitude !== "number") {
+        console.warn(`Skipping ${item.Hazard_id}: missing coordinates`);
+        skipped++;
+        continue;
+      }
+
+      const fields = geohashFields(item.latitude, item.longitude);
+      if (!dryRun) {
+        await docClient.send(new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: {Hazard_id: item.Hazard_id, time: item.time},
+          UpdateExpression: "SET geohash = :geohash, geohash_cell = :cell",
+          ExpressionAttributeValues: {
+            ":geohash": fields.geohash,
+            ":cell": fields.geohash_cell,
+          },
+        }));
+      }
+      updated++;
+    }
+
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  console.log(`${dryRun ? "[dry run] " : ""}Scanned ${scanned} items, ` +
+    `backfilled ${updated}, skipped ${skipped}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,85 @@
+// Imports an existing hazard dataset (a city's open-data list, say) from a
+// CSV or GeoJSON file through the API's moderator import. Reports are tagged
+// with --source; importing the same source again updates them instead of
+// adding new ones. --dry-run shows what would happen without saving.
+// --mapping names a JSON file of {"columns": {field: column},
+// "categories": {value: category}} for datasets whose columns or categories
+// aren't recognized. The moderator key is read from --key or
+// FLAGIT_MODERATOR_KEY.
+// Usage:
+//   npm run import:hazards -- --file potholes.csv --source sf-311
+//     [--dry-run --format csv --mapping mapping.json --api <url> --key <key>]
+const fs = require("fs");
+const path = require("path");
+
+// The local server's and emulator's API
+const DEFAULT_API = "http://localhost:5001/demo-flagit/us-central1/api";
+
+/**
+ * Read a command line option's value.
+ * @param {string} name Option name without dashes
+ * @param {string} fallback Value when the option is missing
+ * @return {string}
+ */
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+}
+
+/**
+ * Send the file to the API and print what the import did.
+ */
+async function main() {
+  const file = option("file", null);
+  const source = option("source", null);
+  if (!file || !source) {
+    throw new Error("Usage: import-hazards --file <path> --source <name> " +
+      "[--dry-run --format csv|geojson --mapping <path> --api <url> " +
+      "--key <key>]");
+  }
+  const extension = path.extname(file).slice(1).toLowerCase();
+  const format = option("format",
+      extension === "json" ? "geojson" : extension);
+  const mapping = option("mapping", null) ?
+    JSON.parse(fs.readFileSync(option("mapping", null), "utf8")) :
+    {};
+  const api = option("api", process.env.FLAGIT_API_URL || DEFAULT_API);
+  const key = option("key", process.env.FLAGIT_MODERATOR_KEY || "moderator");
+
+  const resp = await fetch(`${api.replace(/\/+$/, "")}/moderation/import`, {
+    method: "POST",
+    headers: {
+      "authorization": `Bearer ${key}`,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({
+      format,
+      content: fs.readFileSync(file, "utf8"),
+      source,
+      columns: mapping.columns,
+      categories: mapping.categories,
+      dryRun: process.argv.includes("--dry-run"),
+    }),
+  });
+  const result = await resp.json().catch(() => null);
+  if (!resp.ok) {
+    throw new Error((result && result.error) || `API error ${resp.status}`);
+  }
+
+  const columns = Object.entries(result.columns)
+      .map(([field, column]) => `${field}=${column || "-"}`)
+      .join(", ");
+  console.log(`Columns: ${columns}`);
+  result.results
+      .filter((row) => row.action === "failed")
+      .forEach((row) => console.warn(`Row ${row.row}: ${row.error}`));
+  console.log(`${result.dryRun ? "[dry run] " : ""}${result.source}: ` +
+    `${result.total} records, ${result.created} created, ` +
+    `${result.updated} updated, ${result.unchanged} unchanged, ` +
+    `${result.skipped} skipped, ${result.failed} failed`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
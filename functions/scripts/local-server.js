@@ -0,0 +1,157 @@
+// Runs the API on plain Node with in-memory data and local images, without
+// the Firebase emulator or any cloud services. Serves the same paths as the
+// emulator, so the app's FLAGIT_API_URL stays the same.
+// With --simulate it also creates reports, votes and comments near
+// --lat/--lng every few seconds so the live event stream can be watched.
+// With JURISDICTIONS_FILE set, new reports are sent on to their jurisdiction
+// (emails go to a local outbox), failed deliveries retried and Open311
+// requests followed; scripts/mock-open311.js can stand in for a city.
+// Usage:
+//   npm run serve:local [-- --port 5001 --simulate --lat 37.77 --lng -122.42]
+const express = require("express");
+const {randomBytes} = require("crypto");
+const {createApp} = require("../src/app");
+const {offlineModeratorKeys, jurisdictionsFile} = require("../src/config");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createLocalImageStore} = require("../src/images/localImages");
+const {createRulesAnalyzer} = require("../src/rulesAnalyzer");
+const {createChangeStream} = require("../src/changeStream");
+const {createAutoResolver} = require("../src/autoResolve");
+const {createDuplicateFinder} = require("../src/duplicates");
+const {createModeration} = require("../src/moderation");
+const {createModerators} = require("../src/moderators");
+const {createFlags} = require("../src/flags");
+const {createImporter} = require("../src/importer");
+const {createAuthoring} = require("../src/authoring");
+const {matchesEditToken} = require("../src/editTokens");
+const {loadJurisdictions} = require("../src/jurisdictions");
+const {createDispatcher} = require("../src/dispatch");
+const {createWebhookSender} = require("../src/notify/webhook");
+const {createOutboxEmailSender} = require("../src/notify/email");
+const {
+  createOpen311Client,
+  createOpen311Sender,
+} = require("../src/notify/open311");
+const {createOpen311Sync} = require("../src/open311Sync");
+
+const PROJECT = "demo-flagit";
+const SIMULATE_INTERVAL_MS = 5000;
+// The deployed backend retries every 5 minutes and syncs Open311 every 15;
+// locally both are quicker
+const DISPATCH_RETRY_INTERVAL_MS = 30 * 1000;
+const OPEN311_SYNC_INTERVAL_MS = 30 * 1000;
+const BODY_LIMIT = "32mb";
+
+/**
+ * Read a command line option's value.
+ * @param {string} name Option name without dashes
+ * @param {string} fallback Value when the option is missing
+ * @return {string}
+ */
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+}
+
+const port = Number(option("port", "5001"));
+const simulate = process.argv.includes("--simulate");
+const center = {
+  latitude: Number(option("lat", "37.7749")),
+  longitude: Number(option("lng", "-122.4194")),
+};
+
+// Upload URLs are built from the project id, as under the emulator
+process.env.GCLOUD_PROJECT = PROJECT;
+
+const store = createMemoryStore();
+const open311 = createOpen311Client();
+const jurisdictions = loadJurisdictions(jurisdictionsFile);
+const services = {
+  store,
+  images: createLocalImageStore(),
+  analyzer: createRulesAnalyzer(),
+  changes: createChangeStream(store),
+  autoResolver: createAutoResolver(store),
+  duplicates: createDuplicateFinder(store),
+  moderation: createModeration(store),
+  moderators: createModerators(offlineModeratorKeys),
+  flags: createFlags(store),
+  importer: createImporter(store),
+  authoring: createAuthoring(store, {matchesEditToken}),
+  dispatcher: createDispatcher(store, {
+    jurisdictions,
+    senders: {
+      webhook: createWebhookSender(),
+      email: createOutboxEmailSender(),
+      open311: createOpen311Sender({client: open311}),
+    },
+  }),
+  open311Sync: createOpen311Sync(store, {client: open311, jurisdictions}),
+};
+
+const server = express();
+// Cloud Functions parses bodies before the app sees them; do the same here
+server.use(express.json({limit: BODY_LIMIT}));
+server.use(express.raw({type: "image/*", limit: BODY_LIMIT}));
+server.use(`/${PROJECT}/us-central1/api`, createApp(() => services));
+
+/**
+ * Make one random change: a new report, a vote or a comment.
+ */
+async function simulateChange() {
+  const reports = await store.getAllReports();
+  const action = reports.length === 0 ? 0 : Math.floor(Math.random() * 3);
+  const target = reports[Math.floor(Math.random() * reports.length)];
+  const voterId = `simulated-${randomBytes(4).toString("hex")}`;
+
+  if (action === 0) {
+    const saved = await store.saveReport({
+      id: Date.now().toString(),
+      title: "Simulated hazard",
+      description: "Created by the local server's --simulate option",
+      latitude: center.latitude + (Math.random() - 0.5) * 0.02,
+      longitude: center.longitude + (Math.random() - 0.5) * 0.02,
+      timestamp: new Date().toISOString(),
+      category: "other",
+    });
+    const report = await services.dispatcher.dispatchReport(saved);
+    console.log(`Simulated report ${report.id}`);
+  } else if (action === 1) {
+    await store.castVote({
+      reportId: target.id,
+      timestamp: target.timestamp,
+      voterId,
+      vote: Math.random() < 0.7 ? "up" : "down",
+    });
+    console.log(`Simulated vote on ${target.id}`);
+  } else {
+    await store.addComment({
+      reportId: target.id,
+      timestamp: target.timestamp,
+      text: "Still there as of a few seconds ago",
+      author: "Simulator",
+    });
+    console.log(`Simulated comment on ${target.id}`);
+  }
+}
+
+server.listen(port, "0.0.0.0", () => {
+  console.log("FlagIt API listening at " +
+    `http://0.0.0.0:${port}/${PROJECT}/us-central1/api`);
+
+  if (jurisdictionsFile) {
+    console.log(`Routing reports with ${jurisdictionsFile}`);
+    setInterval(() => {
+      services.dispatcher.retryDue().catch((error) => console.error(error));
+    }, DISPATCH_RETRY_INTERVAL_MS);
+    setInterval(() => {
+      services.open311Sync.sync().catch((error) => console.error(error));
+    }, OPEN311_SYNC_INTERVAL_MS);
+  }
+
+  if (simulate) {
+    setInterval(() => {
+      simulateChange().catch((error) => console.error(error));
+    }, SIMULATE_INTERVAL_MS);
+  }
+});
@@ -0,0 +1,153 @@
+// A small Open311 GeoReport v2 server that keeps service requests in memory,
+// to try out Open311 contacts without a city's server. Point an open311
+// contact in the jurisdictions file at http://localhost:<port>.
+// - --tokens answers new requests with a token, as some cities' servers do;
+//   looking the token up gives the id from the second lookup on
+// - --close-after <seconds> closes each request that long after it was filed
+// - POST /requests/<id>/status {"status": "open"|"closed", "status_notes"}
+//   changes a request by hand
+// Usage:
+//   npm run open311:mock [-- --port 5070 --tokens --close-after 60]
+const express = require("express");
+
+/**
+ * Read a command line option's value.
+ * @param {string} name Option name without dashes
+ * @param {string} fallback Value when the option is missing
+ * @return {string}
+ */
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+}
+
+const port = Number(option("port", "5070"));
+const useTokens = process.argv.includes("--tokens");
+const closeAfterSeconds = Number(option("close-after", "0"));
+
+// The service codes in jurisdictions.example.json
+const SERVICES = [
+  {service_code: "POTHOLE", service_name: "Pothole"},
+  {service_code: "SIDEWALK", service_name: "Damaged sidewalk"},
+  {service_code: "STREETLIGHT", service_name: "Streetlight out"},
+  {service_code: "DUMPING", service_name: "Illegal dumping"},
+  {service_code: "SIGN", service_name: "Damaged sign"},
+  {service_code: "FLOODING", service_name: "Flooding"},
+  {service_code: "TREE", service_name: "Fallen tree"},
+  {service_code: "GENERAL", service_name: "General request"},
+].map((service) => ({
+  ...service,
+  description: service.service_name,
+  metadata: false,
+  type: "realtime",
+  keywords: "",
+  group: "Streets",
+}));
+
+const requests = new Map(); // service_request_id -> request
+const tokens = new Map(); // token -> {id, assigned}
+let nextId = 1000;
+
+const server = express();
+server.use(express.urlencoded({extended: false}));
+server.use(express.json());
+
+const error = (res, status, description) =>
+  res.status(status).json([{code: status, description}]);
+
+const setStatus = (request, status, notes) => {
+  request.status = status;
+  request.status_notes = notes || null;
+  request.updated_datetime = new Date().toISOString();
+  console.log(`Request ${request.service_request_id} is ${status}`);
+};
+
+server.get("/services.json", (req, res) => res.json(SERVICES));
+
+server.post("/requests.json", (req, res) => {
+  const {service_code: serviceCode, lat, long, description} = req.body;
+  if (!SERVICES.some((service) => service.service_code === serviceCode)) {
+    error(res, 400, `Unknown service_code ${serviceCode}`);
+    return;
+  }
+  if (!lat || !long) {
+    error(res, 400, "lat and long are required");
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const request = {
+    service_request_id: String(nextId++),
+    status: "open",
+    status_notes: null,
+    service_code: serviceCode,
+    description: description || "",
+    lat: Number(lat),
+    long: Number(long),
+    media_url: req.body.media_url || null,
+    requested_datetime: now,
+    updated_datetime: now,
+  };
+  requests.set(request.service_request_id, request);
+  console.log(`Request ${request.service_request_id} filed as ` +
+    `${serviceCode}: ${request.description.split("\n")[0]}`);
+
+  if (closeAfterSeconds > 0) {
+    setTimeout(() => setStatus(request, "closed", "Fixed by the city crew"),
+        closeAfterSeconds * 1000);
+  }
+
+  if (useTokens) {
+    const token = `token-${request.service_request_id}`;
+    tokens.set(token, {id: request.service_request_id, assigned: false});
+    res.status(201).json([{token}]);
+    return;
+  }
+  res.status(201).json([{
+    service_request_id: request.service_request_id,
+    service_notice: "",
+    account_id: null,
+  }]);
+});
+
+server.get("/tokens/:token.json", (req, res) => {
+  if (!tokens.has(req.params.token)) {
+    error(res, 404, "Unknown token");
+    return;
+  }
+  // The first lookup finds no id yet, as when a city assigns ids in batches
+  const entry = tokens.get(req.params.token);
+  const assigned = entry.assigned;
+  entry.assigned = true;
+  res.json([assigned ?
+    {service_request_id: entry.id, token: req.params.token} :
+    {token: req.params.token}]);
+});
+
+server.get("/requests/:id.json", (req, res) => {
+  const request = requests.get(req.params.id);
+  if (!request) {
+    error(res, 404, `No request ${req.params.id}`);
+    return;
+  }
+  res.json([request]);
+});
+
+server.post("/requests/:id/status", (req, res) => {
+  const request = requests.get(req.params.id);
+  if (!request) {
+    error(res, 404, `No request ${req.params.id}`);
+    return;
+  }
+  const {status, status_notes: notes} = req.body;
+  if (status !== "open" && status !== "closed") {
+    error(res, 400, "status must be open or closed");
+    return;
+  }
+  setStatus(request, status, notes);
+  res.json([request]);
+});
+
+server.listen(port, "0.0.0.0", () => {
+  console.log(`Mock Open311 server listening at http://0.0.0.0:${port}`);
+});
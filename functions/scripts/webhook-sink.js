@@ -0,0 +1,44 @@
+// Receives jurisdiction webhooks locally and prints each one, to try out
+// report routing without a real municipality. Point a webhook contact in
+// the jurisdictions file at http://localhost:<port>/<anything>.
+// With --fail N it answers 503 to the first N requests, so retries can be
+// watched.
+// Usage:
+//   npm run webhook:sink [-- --port 5055 --fail 2]
+const express = require("express");
+
+/**
+ * Read a command line option's value.
+ * @param {string} name Option name without dashes
+ * @param {string} fallback Value when the option is missing
+ * @return {string}
+ */
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+}
+
+const port = Number(option("port", "5055"));
+let failuresLeft = Number(option("fail", "0"));
+let received = 0;
+
+const server = express();
+server.use(express.json({limit: "1mb"}));
+
+server.post("*", (req, res) => {
+  received++;
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`#${received} ${req.path}: answering 503 ` +
+      `(${failuresLeft} more to fail)`);
+    res.status(503).json({error: "Failing on purpose"});
+    return;
+  }
+  console.log(`#${received} ${req.path}:`);
+  console.log(JSON.stringify(req.body, null, 2));
+  res.json({received});
+});
+
+server.listen(port, "0.0.0.0", () => {
+  console.log(`Webhook sink listening at http://0.0.0.0:${port}`);
+});
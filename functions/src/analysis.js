@@ -0,0 +1,79 @@
+const {badRequest} = require("./errors");
+
+// What every analyzer (gemini.js, rulesAnalyzer.js) takes and returns.
+// analyzeHazard({title, description, images}) resolves to
+// {title, improved_description, valid_hazard, category, reasons,
+// relevant_images}, relevant_images being indexes of the photos that show
+// the hazard.
+
+// Photos of one report analyzed together; the app leaves any more unchecked
+const MAX_ANALYZED_IMAGES = 4;
+
+// Read only, so the app's type-check knows each category (see
+// src/hazardAnalysis.ts)
+const CATEGORIES = /** @type {const} */ ([
+  "pothole",
+  "broken_sidewalk",
+  "streetlight_out",
+  "trash",
+  "signage_damage",
+  "construction_obstruction",
+  "flooding",
+  "exposed_utility",
+  "tree_blockage",
+  "other",
+]);
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Read and check the photos sent for analysis.
+ * @param {Object} params Request fields
+ * @param {Object[]} params.images [{data, mimeType}], base64 data
+ * @param {string} params.image Single base64 photo, for older app versions
+ * @param {string} params.imageMime MIME type of the single photo
+ * @return {Object[]} [{data, mimeType}]
+ */
+function analysisImages({images, image, imageMime}) {
+  const list = Array.isArray(images) ? images :
+    image ? [{data: image, mimeType: imageMime}] : [];
+  if (list.length === 0) throw badRequest("images are required");
+  if (list.length > MAX_ANALYZED_IMAGES) {
+    throw badRequest(`At most ${MAX_ANALYZED_IMAGES} images can be analyzed`);
+  }
+
+  return list.map((item) => {
+    if (!item || typeof item.data !== "string" || !item.data) {
+      throw badRequest("each image needs base64 data");
+    }
+    return {data: item.data, mimeType: item.mimeType || "image/jpeg"};
+  });
+}
+
+/**
+ * Turn the photo numbers an analyzer lists as showing the hazard into
+ * indexes of the images sent. All of them count when the answer is missing
+ * or unusable.
+ * @param {*} hazardImages Photo numbers, counted from 1
+ * @param {number} imageCount Number of photos sent
+ * @return {number[]} Zero-based indexes
+ */
+function relevantImages(hazardImages, imageCount) {
+  const all = Array.from({length: imageCount}, (_, index) => index);
+  if (!Array.isArray(hazardImages)) return all;
+
+  const indexes = hazardImages
+      .map((number) => Number(number) - 1)
+      .filter((index) => Number.isInteger(index) &&
+        index >= 0 && index < imageCount);
+  if (indexes.length === 0) return all;
+  return Array.from(new Set(indexes)).sort((a, b) => a - b);
+}
+
+module.exports = {
+  MAX_ANALYZED_IMAGES,
+  CATEGORIES,
+  TITLE_MAX_LENGTH,
+  analysisImages,
+  relevantImages,
+};
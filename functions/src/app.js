@@ -0,0 +1,744 @@
+const express = require("express");
+const logger = require("firebase-functions/logger");
+const {HttpError, badRequest, notFound} = require("./errors");
+const {parseCursor, nextCursor} = require("./sync");
+const {requireReporterId, optionalReporterId} = require("./identity");
+const {
+  toReportId,
+  toPublicReport,
+  toPublicComment,
+  toModeratorReport,
+  publicChange,
+} = require("./reports");
+const {isPublicReport} = require("./status");
+const {
+  parseExportQuery,
+  checkExportArea,
+  filterForExport,
+  buildExport,
+} = require("./export");
+const {imageKeyFromUrl, removeReportImages} = require("./images/reportImages");
+const {createEditToken, acceptEditToken} = require("./editTokens");
+const {screenReport} = require("./screening");
+
+// Largest base64 image, and all images together, accepted by the analyze
+// endpoint (Cloud Functions rejects request bodies over 32 MB)
+const MAX_IMAGE_BASE64_LENGTH = 10 * 1024 * 1024;
+const MAX_ANALYZE_BASE64_LENGTH = 30 * 1024 * 1024;
+
+// An event stream is closed before the function timeout (60s) cuts it off;
+// the app reconnects straight away
+const EVENT_STREAM_DURATION_MS = 50 * 1000;
+
+// Comment lines sent while idle so proxies don't drop the connection
+const EVENT_KEEPALIVE_MS = 15 * 1000;
+
+/**
+ * Wrap an async route handler so rejected promises reach the error handler.
+ * @param {Function} handler async (req, res) => any
+ * @return {Function} Express handler
+ */
+function route(handler) {
+  return (req, res, next) => {
+    Promise.resolve(handler(req, res)).catch(next);
+  };
+}
+
+/**
+ * Read a required string field from a request body or query.
+ * @param {Object} source req.body or req.query
+ * @param {string} name Field name
+ * @return {string}
+ */
+function requireString(source, name) {
+  const value = source && source[name];
+  if (typeof value !== "string" || !value) {
+    throw badRequest(`${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Public URL of this API, used to link images served by the emulator.
+ * @param {Object} req Express request
+ * @return {string}
+ */
+function apiBaseUrl(req) {
+  const project = process.env.GCLOUD_PROJECT;
+  return `${req.protocol}://${req.get("host")}/${project}/us-central1/api`;
+}
+
+/**
+ * Parse a visible map region from query parameters.
+ * @param {Object} query req.query
+ * @return {?Object} Region, or null if none was given
+ */
+function parseRegion(query) {
+  if (query.latitude === undefined) return null;
+
+  const region = {
+    latitude: Number(query.latitude),
+    longitude: Number(query.longitude),
+    latitudeDelta: Number(query.latitudeDelta),
+    longitudeDelta: Number(query.longitudeDelta),
+  };
+  if (Object.values(region).some((value) => !Number.isFinite(value))) {
+    throw badRequest(
+        "latitude, longitude, latitudeDelta and longitudeDelta are required");
+  }
+  return region;
+}
+
+/**
+ * Check that image URLs sent for a report were issued by /uploads for it.
+ * @param {*} urls Value from the request body
+ * @param {string} reportId Report the images belong to
+ * @param {Object} images Image store
+ * @param {string} publicBaseUrl Public URL of this API
+ * @return {string[]} The URLs, or an empty list if none were sent
+ */
+function reportImageUrls(urls, reportId, images, publicBaseUrl) {
+  if (urls === undefined || urls === null) return [];
+  if (!Array.isArray(urls)) throw badRequest("images must be a list of URLs");
+
+  urls.forEach((url) => {
+    const key = imageKeyFromUrl(url);
+    if (!key.startsWith(`${reportId}/`) ||
+        images.imageUrl(key, publicBaseUrl) !== url) {
+      throw badRequest(`${url} was not uploaded for report ${reportId}`);
+    }
+  });
+  return urls;
+}
+
+/**
+ * The device asking, from the X-Viewer-Id header the app sends, so its own
+ * reports and comments can be marked. A malformed one is ignored.
+ * @param {Object} req Express request
+ * @return {?string} Reporter ID
+ */
+function requestViewerId(req) {
+  try {
+    return optionalReporterId(req.get("x-viewer-id"));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The edit token a report's author changes it with, from the X-Edit-Token
+ * header. It was returned once, when the report was created.
+ * @param {Object} req Express request
+ * @return {string}
+ */
+function requireEditToken(req) {
+  const token = req.get("x-edit-token");
+  if (!token) {
+    throw new HttpError(401, "The report's edit token is required",
+        "edit_token_required");
+  }
+  return token;
+}
+
+/**
+ * Check the request comes from a moderator.
+ * @param {Object} req Express request with "Authorization: Bearer <key>"
+ * @param {Object} moderators Moderator check
+ * @return {string} The moderator's name
+ */
+function requireModerator(req, moderators) {
+  const header = req.get("authorization") || "";
+  const key = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!key) {
+    throw new HttpError(401, "A moderator key is required",
+        "moderator_required");
+  }
+  const moderator = moderators.authenticate(key);
+  if (!moderator) {
+    throw new HttpError(403, "That is not a moderator key", "not_moderator");
+  }
+  return moderator;
+}
+
+/**
+ * The moderation queue as moderators see it (see toModeratorReport).
+ * @param {Object} queue Queue from the moderation service
+ * @return {Object}
+ */
+function toModeratorQueue(queue) {
+  return {
+    reports: queue.reports.map((entry) =>
+      ({...entry, report: toModeratorReport(entry.report)})),
+    comments: queue.comments.map((entry) =>
+      ({...entry, comment: toPublicComment(entry.comment)})),
+  };
+}
+
+/**
+ * Delete a deleted report's images. The report is deleted either way, so a
+ * failure is only logged.
+ * @param {Object} services {store, images}
+ * @param {Object} report The report, as it was before it was deleted
+ */
+async function deleteReportImages(services, report) {
+  try {
+    await removeReportImages(services, report);
+  } catch (error) {
+    logger.error("Deleting report images failed", {reportId: report.id, error});
+  }
+}
+
+/**
+ * Route a report that just appeared on the map to its jurisdiction; the
+ * scheduled sweep sends its deliveries and retries the ones that fail. The
+ * report is saved either way.
+ * @param {Object} dispatcher Dispatcher
+ * @param {Object} report Report
+ * @return {Promise<Object>} The report, with its dispatch when it was sent
+ */
+async function dispatchNewReport(dispatcher, report) {
+  try {
+    return await dispatcher.dispatchReport(report);
+  } catch (error) {
+    logger.error("Dispatching report failed", {reportId: report.id, error});
+    return report;
+  }
+}
+
+/**
+ * Create the HTTP API.
+ * @param {Function} getServices () => {store, images, analyzer, changes,
+ *   autoResolver, duplicates, moderation, moderators, flags, importer,
+ *   authoring, dispatcher, open311Sync}
+ * @return {Object} Express app
+ */
+function createApp(getServices) {
+  const app = express();
+
+  app.post("/analyze", route(async (req, res) => {
+    const {title, description, images, image, imageMime} = req.body || {};
+    const sizes = Array.isArray(images) ?
+      images.map((item) => String((item && item.data) || "").length) :
+      [String(image || "").length];
+    if (sizes.some((size) => size > MAX_IMAGE_BASE64_LENGTH) ||
+        sizes.reduce((sum, size) => sum + size, 0) >
+          MAX_ANALYZE_BASE64_LENGTH) {
+      throw new HttpError(413, "Images are too large");
+    }
+    const analysis = await getServices().analyzer.analyzeHazard({
+      title: title || null,
+      description,
+      images,
+      image,
+      imageMime,
+    });
+    res.json(analysis);
+  }));
+
+  // Issues a URL the app PUTs the image file to directly
+  app.post("/uploads", route(async (req, res) => {
+    const target = await getServices().images.createUploadTarget({
+      reportId: toReportId(requireString(req.body, "reportId"), "reportId"),
+      contentType: requireString(req.body, "contentType"),
+      size: req.body.size,
+      publicBaseUrl: apiBaseUrl(req),
+    });
+    res.status(201).json(target);
+  }));
+
+  // Only the offline image store receives and serves files itself;
+  // with S3 the app talks to the bucket directly
+  app.put("/uploads/*", route(async (req, res) => {
+    const {images} = getServices();
+    if (!images.receiveUpload) throw notFound("Not found");
+    const data = req.rawBody || (Buffer.isBuffer(req.body) ? req.body : null);
+    if (!data) throw badRequest("Image body is required");
+    await images.receiveUpload(req.params[0], req.get("content-type"), data);
+    res.status(200).end();
+  }));
+
+  app.get("/uploads/*", route(async (req, res) => {
+    const {images} = getServices();
+    if (!images.readImage) throw notFound("Not found");
+    res.type(req.params[0].split(".").pop());
+    res.send(await images.readImage(req.params[0]));
+  }));
+
+  // Photos must have been uploaded for the report through /uploads. The
+  // hazard check runs again here, and a report that doesn't pass it waits
+  // for a moderator; one the reporter sent for review waits anyway. The
+  // response carries the report's edit token: the one the app made for it
+  // and sent in the X-Edit-Token header, or for older apps one made here.
+  app.post("/reports", route(async (req, res) => {
+    const services = getServices();
+    const {store, images, dispatcher} = services;
+    const body = req.body || {};
+    const editToken = req.get("x-edit-token");
+    const {token, hash} =
+      editToken ? acceptEditToken(editToken) : createEditToken();
+    const report = {
+      ...body,
+      images: reportImageUrls(body.images, body.id, images, apiBaseUrl(req)),
+    };
+    const screening = body.review ? null : await screenReport(services, report);
+    const saved =
+      await store.saveReport(report, {editTokenHash: hash, screening});
+    const dispatched = await dispatchNewReport(dispatcher, saved);
+    res.status(201).json({
+      ...toPublicReport(dispatched, saved.reporterId),
+      editToken: token,
+    });
+  }));
+
+  app.get("/reports", route(async (req, res) => {
+    const {store} = getServices();
+    const region = parseRegion(req.query);
+    const reports = region ?
+      await store.getReportsInRegion(region) :
+      await store.getAllReports();
+    const viewerId = requestViewerId(req);
+    res.json({
+      reports: reports
+          .filter(isPublicReport)
+          .map((report) => toPublicReport(report, viewerId)),
+    });
+  }));
+
+  // Reports created or changed since the cursor. Without a usable cursor the
+  // app reloads what it shows and starts syncing from the returned cursor.
+  app.get("/reports/changes", route(async (req, res) => {
+    const startedAt = Date.now();
+    const since = parseCursor(req.query.since);
+    if (!since) {
+      res.json({reports: [], cursor: nextCursor(startedAt), reset: true});
+      return;
+    }
+    const reports = await getServices().store.getReportsChangedSince(since);
+    const viewerId = requestViewerId(req);
+    res.json({
+      reports: reports.map((report) => publicChange(report, viewerId)),
+      cursor: nextCursor(startedAt),
+      reset: false,
+    });
+  }));
+
+  // Public reports in a map region as a GeoJSON or CSV file for GIS tools,
+  // optionally limited to a time range (from/to, ISO), categories and
+  // statuses (comma separated)
+  app.get("/reports/export", route(async (req, res) => {
+    const {store} = getServices();
+    const filters = parseExportQuery(req.query);
+    const region = checkExportArea(parseRegion(req.query));
+    const reports = await store.getReportsInRegion(region);
+    const file =
+      buildExport(filterForExport(reports, filters), filters.format);
+    res.set({
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+    });
+    res.send(file.body);
+  }));
+
+  // Open reports a new report in this category and place would duplicate
+  app.get("/reports/duplicates", route(async (req, res) => {
+    const reports = await getServices().duplicates.findDuplicates({
+      latitude: Number(req.query.latitude),
+      longitude: Number(req.query.longitude),
+      category: req.query.category,
+    });
+    const viewerId = requestViewerId(req);
+    res.json({
+      reports: reports.map((report) => toPublicReport(report, viewerId)),
+    });
+  }));
+
+  // Server-sent events: one "report" event per created or changed report
+  // (new reports, vote counts, comments and status changes)
+  app.get("/events", (req, res) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
+    res.flushHeaders();
+    res.write("retry: 3000\n\n");
+
+    const viewerId = requestViewerId(req);
+    const unsubscribe = getServices().changes.subscribe((report, cursor) => {
+      res.write(`id: ${cursor}\nevent: report\n` +
+        `data: ${JSON.stringify(publicChange(report, viewerId))}\n\n`);
+    });
+    const keepalive = setInterval(
+        () => res.write(": keepalive\n\n"), EVENT_KEEPALIVE_MS);
+    const closeTimer = setTimeout(() => res.end(), EVENT_STREAM_DURATION_MS);
+
+    res.on("close", () => {
+      unsubscribe();
+      clearInterval(keepalive);
+      clearTimeout(closeTimer);
+    });
+  });
+
+  app.get("/reports/:id", route(async (req, res) => {
+    const timestamp = requireString(req.query, "timestamp");
+    const report =
+      await getServices().store.getReport(req.params.id, timestamp);
+    if (!report) throw notFound(`Report ${req.params.id} not found`);
+    res.json(publicChange(report, requestViewerId(req)));
+  }));
+
+  // Moves a report along by hand: a moderator (with their key, audited) or
+  // the report's author (with its edit token). Everyone else's say is
+  // through votes, which resolve reports automatically.
+  app.put("/reports/:id/status", route(async (req, res) => {
+    const {authoring, moderation, moderators} = getServices();
+    const change = {
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      status: requireString(req.body, "status"),
+      note: req.body.note,
+    };
+    const report = req.get("authorization") ?
+      await moderation.setStatus({
+        ...change,
+        moderator: requireModerator(req, moderators),
+      }) :
+      await authoring.changeStatus({
+        ...change,
+        editToken: requireEditToken(req),
+      });
+    res.json(toPublicReport(report, requestViewerId(req)));
+  }));
+
+  // The author's own changes, with the report's edit token in the
+  // X-Edit-Token header. Edits take any of title, description, category and
+  // images (the full list: new photos are uploaded for the report first, and
+  // photos left out are taken off it), and are kept in the edit history.
+  // Edits to a report on the map go through the hazard check like a new
+  // report, and the report waits for a moderator if they don't pass it.
+  app.patch("/reports/:id", route(async (req, res) => {
+    const services = getServices();
+    const {authoring, images} = services;
+    const reportId = req.params.id;
+    const report = await authoring.editReport({
+      reportId,
+      timestamp: requireString(req.body, "timestamp"),
+      editToken: requireEditToken(req),
+      title: req.body.title,
+      description: req.body.description,
+      category: req.body.category,
+      images: req.body.images,
+      validateImages: (urls) =>
+        reportImageUrls(urls, reportId, images, apiBaseUrl(req)),
+      screen: (edited) => screenReport(services, edited),
+    });
+    logger.info("Report edited by its author", {
+      reportId,
+      status: report.status,
+    });
+    res.json(toPublicReport(report, report.reporterId));
+  }));
+
+  // A retracted report leaves the map; it can't be brought back
+  app.post("/reports/:id/retract", route(async (req, res) => {
+    const report = await getServices().authoring.retractReport({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      editToken: requireEditToken(req),
+      note: req.body.note,
+    });
+    res.json(publicChange(report, report.reporterId));
+  }));
+
+  app.delete("/reports/:id", route(async (req, res) => {
+    const services = getServices();
+    const report = await services.authoring.deleteReport({
+      reportId: req.params.id,
+      timestamp: requireString(req.query, "timestamp"),
+      editToken: requireEditToken(req),
+    });
+    logger.info("Report deleted by its author", {reportId: report.id});
+    await deleteReportImages(services, report);
+    res.status(204).end();
+  }));
+
+  app.get("/reports/:id/votes/:voterId", route(async (req, res) => {
+    const vote = await getServices().store.getUserVote(
+        req.params.id, requireReporterId(req.params.voterId, "voterId"));
+    res.json({vote});
+  }));
+
+  app.put("/reports/:id/votes/:voterId", route(async (req, res) => {
+    const {store, autoResolver} = getServices();
+    const timestamp = requireString(req.body, "timestamp");
+    const result = await store.castVote({
+      reportId: req.params.id,
+      timestamp,
+      voterId: requireReporterId(req.params.voterId, "voterId"),
+      vote: req.body.vote,
+    });
+
+    // The vote is saved either way; a failed status check is retried by
+    // the next vote or the scheduled sweep
+    let status;
+    try {
+      const report = await autoResolver.evaluate(req.params.id, timestamp);
+      status = report && report.status;
+    } catch (error) {
+      logger.error("Auto-resolve check failed", error);
+    }
+    res.json({...result, status});
+  }));
+
+  // Someone about to report a hazard that is already reported confirms the
+  // existing report instead: their photos are added to it and it gets their
+  // "still there" vote
+  app.post("/reports/:id/confirmations", route(async (req, res) => {
+    const {store, images, autoResolver} = getServices();
+    const reportId = req.params.id;
+    const timestamp = requireString(req.body, "timestamp");
+    const voterId = requireReporterId(req.body.reporterId, "reporterId");
+    const urls =
+      reportImageUrls(req.body.images, reportId, images, apiBaseUrl(req));
+
+    if (urls.length) {
+      await store.addImages({reportId, timestamp, images: urls});
+    }
+    const {vote} =
+      await store.castVote({reportId, timestamp, voterId, vote: "up"});
+
+    // An up vote can reopen a probably resolved report
+    let report;
+    try {
+      report = await autoResolver.evaluate(reportId, timestamp);
+    } catch (error) {
+      logger.error("Auto-resolve check failed", error);
+      report = await store.getReport(reportId, timestamp);
+    }
+    res.status(201).json({
+      vote,
+      report: report && publicChange(report, voterId),
+    });
+  }));
+
+  app.get("/reports/:id/comments", route(async (req, res) => {
+    const comments = await getServices().store.getComments(
+        req.params.id, requireString(req.query, "timestamp"));
+    const viewerId = requestViewerId(req);
+    res.json({
+      comments: comments.map((comment) => toPublicComment(comment, viewerId)),
+    });
+  }));
+
+  app.post("/reports/:id/comments", route(async (req, res) => {
+    const comment = await getServices().store.addComment({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      text: req.body.text,
+      author: req.body.author,
+      authorId: req.body.authorId,
+    });
+    res.status(201).json(toPublicComment(comment, comment.authorId));
+  }));
+
+  app.get("/reports/:id/comment-votes/:voterId", route(async (req, res) => {
+    const commentIds = String(req.query.commentIds || "")
+        .split(",")
+        .filter(Boolean);
+    const votes = await getServices().store.getUserCommentVotes(
+        req.params.id, commentIds,
+        requireReporterId(req.params.voterId, "voterId"));
+    res.json({votes});
+  }));
+
+  app.put("/reports/:id/comments/:commentId/votes/:voterId",
+      route(async (req, res) => {
+        const result = await getServices().store.castCommentVote({
+          reportId: req.params.id,
+          timestamp: requireString(req.body, "timestamp"),
+          commentId: req.params.commentId,
+          voterId: requireReporterId(req.params.voterId, "voterId"),
+          vote: req.body.vote,
+        });
+        res.json(result);
+      }));
+
+  // Reporting a hazard or comment as abusive. Each person's flag is kept;
+  // enough of them hide it until a moderator reviews it.
+  app.get("/reports/:id/flags/:flaggerId", route(async (req, res) => {
+    const commentIds = String(req.query.commentIds || "")
+        .split(",")
+        .filter(Boolean);
+    const flags = await getServices().flags.getUserFlags(
+        req.params.id, commentIds,
+        requireReporterId(req.params.flaggerId, "flaggerId"));
+    res.json(flags);
+  }));
+
+  app.put("/reports/:id/flags/:flaggerId", route(async (req, res) => {
+    const result = await getServices().flags.flagReport({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      flaggerId: requireReporterId(req.params.flaggerId, "flaggerId"),
+      reason: req.body.reason,
+    });
+    res.json(result);
+  }));
+
+  app.put("/reports/:id/comments/:commentId/flags/:flaggerId",
+      route(async (req, res) => {
+        const result = await getServices().flags.flagComment({
+          reportId: req.params.id,
+          timestamp: requireString(req.body, "timestamp"),
+          commentId: req.params.commentId,
+          flaggerId: requireReporterId(req.params.flaggerId, "flaggerId"),
+          reason: req.body.reason,
+        });
+        res.json(result);
+      }));
+
+  // Moderation. Every route needs a moderator key; the app calls session
+  // to check one before showing moderator mode.
+  app.get("/moderation/session", route(async (req, res) => {
+    res.json({moderator: requireModerator(req, getServices().moderators)});
+  }));
+
+  app.get("/moderation/queue", route(async (req, res) => {
+    const {moderation, moderators} = getServices();
+    requireModerator(req, moderators);
+    res.json(toModeratorQueue(await moderation.getQueue()));
+  }));
+
+  app.get("/moderation/audit", route(async (req, res) => {
+    const {moderation, moderators} = getServices();
+    requireModerator(req, moderators);
+    const entries = await moderation.getAuditLog({
+      reportId: req.query.reportId || null,
+    });
+    res.json({entries});
+  }));
+
+  // Load an existing hazard dataset (CSV or GeoJSON text) as reports tagged
+  // with its source. Importing the same source again updates its reports;
+  // with dryRun nothing is saved. Imported reports are not sent on to
+  // jurisdictions, which usually are where the data came from.
+  app.post("/moderation/import", route(async (req, res) => {
+    const {importer, moderators} = getServices();
+    const moderator = requireModerator(req, moderators);
+    res.json(await importer.importReports(req.body || {}, moderator));
+  }));
+
+  // A report approved out of review is sent on as a new one would have been
+  app.post("/moderation/reports/:id/approve", route(async (req, res) => {
+    const {moderation, moderators, dispatcher} = getServices();
+    const moderator = requireModerator(req, moderators);
+    const report = await moderation.approve({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      moderator,
+      note: req.body.note,
+    });
+    res.json(toModeratorReport(await dispatchNewReport(dispatcher, report)));
+  }));
+
+  app.post("/moderation/reports/:id/reject", route(async (req, res) => {
+    const {moderation, moderators} = getServices();
+    const moderator = requireModerator(req, moderators);
+    const report = await moderation.reject({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      moderator,
+      note: req.body.note,
+    });
+    res.json(toModeratorReport(report));
+  }));
+
+  // Merge a duplicate into the report it duplicates
+  app.post("/moderation/reports/:id/merge", route(async (req, res) => {
+    const {moderation, moderators} = getServices();
+    const moderator = requireModerator(req, moderators);
+    const result = await moderation.merge({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      intoId: requireString(req.body, "intoId"),
+      intoTimestamp: requireString(req.body, "intoTimestamp"),
+      moderator,
+      note: req.body.note,
+    });
+    res.json({
+      report: toModeratorReport(result.report),
+      into: toModeratorReport(result.into),
+    });
+  }));
+
+  app.put("/moderation/reports/:id/category", route(async (req, res) => {
+    const {moderation, moderators} = getServices();
+    const moderator = requireModerator(req, moderators);
+    const report = await moderation.editCategory({
+      reportId: req.params.id,
+      timestamp: requireString(req.body, "timestamp"),
+      category: requireString(req.body, "category"),
+      moderator,
+      note: req.body.note,
+    });
+    res.json(toModeratorReport(report));
+  }));
+
+  app.delete("/moderation/reports/:id", route(async (req, res) => {
+    const services = getServices();
+    const moderator = requireModerator(req, services.moderators);
+    const report = await services.moderation.deleteReport({
+      reportId: req.params.id,
+      timestamp: requireString(req.query, "timestamp"),
+      moderator,
+      note: req.query.note,
+    });
+    await deleteReportImages(services, report);
+    res.status(204).end();
+  }));
+
+  app.delete("/moderation/reports/:id/comments/:commentId",
+      route(async (req, res) => {
+        const {moderation, moderators} = getServices();
+        const moderator = requireModerator(req, moderators);
+        await moderation.deleteComment({
+          reportId: req.params.id,
+          timestamp: requireString(req.query, "timestamp"),
+          commentId: req.params.commentId,
+          moderator,
+          note: req.query.note,
+        });
+        res.status(204).end();
+      }));
+
+  // Put a comment hidden by flags back
+  app.post("/moderation/reports/:id/comments/:commentId/restore",
+      route(async (req, res) => {
+        const {moderation, moderators} = getServices();
+        const moderator = requireModerator(req, moderators);
+        const comment = await moderation.restoreComment({
+          reportId: req.params.id,
+          timestamp: requireString(req.body, "timestamp"),
+          commentId: req.params.commentId,
+          moderator,
+          note: req.body.note,
+        });
+        res.json(toPublicComment(comment));
+      }));
+
+  // eslint-disable-next-line no-unused-vars
+  app.use((error, req, res, next) => {
+    if (error instanceof HttpError) {
+      const body = {error: error.message};
+      if (error.code) body.code = error.code;
+      res.status(error.status).json(body);
+      return;
+    }
+    logger.error("Unhandled API error", error);
+    res.status(500).json({error: "Internal server error"});
+  });
+
+  return app;
+}
+
+module.exports = {createApp};
@@ -0,0 +1,60 @@
+const {randomHex} = require("./ids");
+
+// Moderation actions recorded in the audit log
+const AUDIT_ACTIONS = [
+  "approve", "reject", "merge", "change_status", "edit_category",
+  "delete_report", "delete_comment", "restore_comment", "import",
+];
+
+/**
+ * Build the stored item for an audit log entry.
+ * @param {Object} entry
+ * @param {string} entry.action One of AUDIT_ACTIONS
+ * @param {string} entry.moderator Name of the moderator who acted
+ * @param {string} entry.reportId Report acted on; for an import, the dataset
+ *   as import:<source>
+ * @param {string} entry.reportTimestamp Timestamp of the report, or of the
+ *   import
+ * @param {?string} entry.commentId Comment acted on, for comment actions
+ * @param {?string} entry.note Moderator's note
+ * @param {Object} entry.details What changed, e.g. {from, to}
+ * @return {Object} Item in the Hazard_audit table format
+ */
+function buildAuditItem(entry) {
+  if (!AUDIT_ACTIONS.includes(entry.action)) {
+    throw new Error(`Unknown audit action ${entry.action}`);
+  }
+  const at = new Date().toISOString();
+  return {
+    report_id: entry.reportId, // Partition key
+    entry_id: `${at}#${randomHex(4)}`, // Sort key
+    at,
+    action: entry.action,
+    moderator: entry.moderator,
+    report_time: entry.reportTimestamp,
+    comment_id: entry.commentId || null,
+    note: entry.note || null,
+    details: entry.details || {},
+  };
+}
+
+/**
+ * Transform a stored audit item to the API format.
+ * @param {Object} item Item in the Hazard_audit table format
+ * @return {Object} Audit entry
+ */
+function toAuditEntry(item) {
+  return {
+    id: item.entry_id,
+    at: item.at,
+    action: item.action,
+    moderator: item.moderator,
+    reportId: item.report_id,
+    reportTimestamp: item.report_time,
+    commentId: item.comment_id || null,
+    note: item.note || null,
+    details: item.details || {},
+  };
+}
+
+module.exports = {buildAuditItem, toAuditEntry};
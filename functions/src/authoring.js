@@ -0,0 +1,173 @@
+const {HttpError, badRequest, notFound} = require("./errors");
+const {
+  MAX_REPORT_IMAGES,
+  toTitle,
+  toDescription,
+  toCategory,
+  screeningReview,
+} = require("./reports");
+const {isPublicReport, buildStatusChange} = require("./status");
+
+/**
+ * Create the author's actions on their own reports: editing, moving them
+ * along, retracting and deleting. The author proves it with the edit token
+ * returned when the report was created; reports without one can't be
+ * changed this way.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {Function} options.matchesEditToken (hash, token) => whether the
+ *   token is the report's (see editTokens.js); passed in because the app's
+ *   local repository shares this service without Node's crypto module
+ * @return {Object} {editReport, changeStatus, retractReport,
+ *   deleteReport}
+ */
+function createAuthoring(store, {matchesEditToken}) {
+  const requireOwnReport = async (reportId, timestamp, editToken) => {
+    const report = await store.getReport(reportId, timestamp);
+    if (!report || report.status === "deleted") {
+      throw notFound(`Report ${reportId} not found`);
+    }
+    if (!report.editTokenHash ||
+        !matchesEditToken(report.editTokenHash, editToken)) {
+      throw new HttpError(403, "Only the report's author can change it",
+          "not_author");
+    }
+    return report;
+  };
+
+  // The fields an edit changes, as {field: {from, to}}. Fields left out of
+  // the edit are left alone. Photos new to the report go through
+  // validateImages, which throws for ones not uploaded for it.
+  const editedFields = (report, edit, validateImages) => {
+    const changes = {};
+    const change = (field, value) => {
+      if (JSON.stringify(value) !== JSON.stringify(report[field])) {
+        changes[field] = {from: report[field], to: value};
+      }
+    };
+
+    if (edit.title !== undefined) change("title", toTitle(edit.title));
+    if (edit.description !== undefined) {
+      change("description", toDescription(edit.description));
+    }
+    if (edit.category !== undefined) {
+      change("category", toCategory(edit.category));
+    }
+    if (edit.images !== undefined) {
+      if (!Array.isArray(edit.images) ||
+          new Set(edit.images).size !== edit.images.length) {
+        throw badRequest("images must be a list of different URLs");
+      }
+      if (edit.images.length > MAX_REPORT_IMAGES) {
+        throw badRequest(`Reports are limited to ${MAX_REPORT_IMAGES} images`);
+      }
+      validateImages(edit.images.filter((url) => !report.images.includes(url)));
+      change("images", edit.images);
+    }
+    return changes;
+  };
+
+  // Whether an edit gives the hazard check something new to look at: new
+  // text or new photos. Removing photos or changing the category doesn't.
+  const addsContent = (report, changes) =>
+    Boolean(changes.title || changes.description) ||
+    Boolean(changes.images &&
+      changes.images.to.some((url) => !report.images.includes(url)));
+
+  // A report can be edited while it is on the map or awaiting review; one
+  // hidden by flags waits for a moderator first. An edit that adds text or
+  // photos to a report on the map goes through the hazard check again
+  // (screen, see screening.js), and one that doesn't pass it takes the
+  // report off the map for review like a new report. The check needs a
+  // photo and a description, so such an edit that leaves the report without
+  // either is refused rather than hiding the report.
+  const editReport = async (params) => {
+    const {reportId, timestamp, editToken, validateImages, screen} = params;
+    const report = await requireOwnReport(reportId, timestamp, editToken);
+    if (!isPublicReport(report) && report.status !== "pending_review") {
+      throw badRequest(`A ${report.status} report can't be edited`);
+    }
+
+    const changes = editedFields(report, params, validateImages);
+    if (!Object.keys(changes).length) return report;
+
+    const at = new Date().toISOString();
+    const fields = Object.fromEntries(Object.entries(changes)
+        .map(([field, {to}]) => [field, to]));
+    let statusEntry = null;
+    if (isPublicReport(report) && addsContent(report, changes)) {
+      const edited = {...report, ...fields};
+      if (!edited.images.length || !edited.description) {
+        throw badRequest("A report needs a photo and a description for " +
+          "the hazard check; keep or add them with this edit");
+      }
+      const screening = await screen(edited);
+      if (!screening.valid) {
+        fields.review = screeningReview(screening, at);
+        statusEntry = buildStatusChange(report.status, {
+          status: "pending_review",
+          changedBy: report.reporterId,
+          changedByName: report.reporterName,
+          note: "Held for review after an edit the hazard check didn't pass",
+          snapshot: {reasons: fields.review.aiReasons},
+        });
+      }
+    }
+
+    return store.editReport({
+      reportId,
+      timestamp,
+      editTokenHash: report.editTokenHash,
+      status: report.status,
+      fields,
+      entry: {at, changes},
+      statusEntry,
+    });
+  };
+
+  // Acknowledged, in progress, resolved and the like, as the status rules
+  // allow (see status.js)
+  const changeStatus = async (params) => {
+    const {reportId, timestamp, editToken, status, note} = params;
+    const report = await requireOwnReport(reportId, timestamp, editToken);
+    return store.updateStatus({
+      reportId,
+      timestamp,
+      status,
+      changedBy: report.reporterId,
+      changedByName: report.reporterName,
+      note,
+    });
+  };
+
+  // A retracted report leaves the map for good; its author's note, if any,
+  // is kept with the status change
+  const retractReport = async ({reportId, timestamp, editToken, note}) => {
+    const report = await requireOwnReport(reportId, timestamp, editToken);
+    return store.updateStatus({
+      reportId,
+      timestamp,
+      status: "retracted",
+      changedBy: report.reporterId,
+      changedByName: report.reporterName,
+      note,
+      byAuthor: true,
+    });
+  };
+
+  // The report is replaced by a stub, like a moderator's delete. Resolves
+  // to the report as it was, for deleting its images.
+  const deleteReport = async ({reportId, timestamp, editToken}) => {
+    const report = await requireOwnReport(reportId, timestamp, editToken);
+    await store.deleteReport({
+      reportId,
+      timestamp,
+      deletedBy: report.reporterId,
+    });
+    return report;
+  };
+
+  return {editReport, changeStatus, retractReport, deleteReport};
+}
+
+module.exports = {createAuthoring};
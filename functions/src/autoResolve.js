@@ -0,0 +1,168 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+// Recorded as the author of automatic status changes
+const AUTO_RESOLVER_ID = "auto-resolver";
+const AUTO_RESOLVER_NAME = "Community votes";
+
+// How "Is this still there?" votes close a hazard. A vote's weight halves
+// every halfLifeHours, so old answers count for less than recent ones.
+// - probableMargin: weighted No minus Yes that marks the hazard probably
+//   resolved, once at least minNoVotes people answered No
+// - resolvedMargin: weighted margin that then resolves it, after it has
+//   been probably resolved for resolveAfterHours
+// A probably resolved hazard goes back to active once Yes catches up.
+const DEFAULT_RULE = {
+  halfLifeHours: 48,
+  minNoVotes: 3,
+  probableMargin: 2,
+  resolvedMargin: 4,
+  resolveAfterHours: 24,
+};
+
+// Categories (see the analyzer prompt) that clear faster or slower than usual
+const CATEGORY_RULES = {
+  flooding: {halfLifeHours: 6, minNoVotes: 2, resolveAfterHours: 3},
+  trash: {halfLifeHours: 24, resolveAfterHours: 12},
+  tree_blockage: {halfLifeHours: 24, resolveAfterHours: 12},
+  construction_obstruction: {halfLifeHours: 24, resolveAfterHours: 12},
+  pothole: {halfLifeHours: 168, resolvedMargin: 5, resolveAfterHours: 72},
+  broken_sidewalk: {halfLifeHours: 168, resolvedMargin: 5,
+    resolveAfterHours: 72},
+  exposed_utility: {minNoVotes: 4, resolvedMargin: 6, resolveAfterHours: 48},
+};
+
+// Statuses an open hazard can be auto-resolved from
+const OPEN_STATUSES = ["active", "acknowledged", "in_progress"];
+
+/**
+ * The resolution rule for a category.
+ * @param {string} category Report category
+ * @return {Object} Rule
+ */
+function ruleFor(category) {
+  return {...DEFAULT_RULE, ...(CATEGORY_RULES[category] || {})};
+}
+
+/**
+ * Weigh votes by age.
+ * @param {Object[]} votes [{vote: "up"|"down", updatedAt}]
+ * @param {Object} rule Resolution rule
+ * @param {number} now Current time in milliseconds
+ * @return {Object} Vote snapshot {yes, no, yesVotes, noVotes}
+ */
+function tallyVotes(votes, rule, now) {
+  const tally = {yes: 0, no: 0, yesVotes: 0, noVotes: 0};
+  votes.forEach(({vote, updatedAt}) => {
+    const ageHours = Math.max(0, now - new Date(updatedAt).getTime()) / HOUR_MS;
+    const weight = Math.pow(0.5, ageHours / rule.halfLifeHours);
+    if (vote === "up") {
+      tally.yes += weight;
+      tally.yesVotes++;
+    } else if (vote === "down") {
+      tally.no += weight;
+      tally.noVotes++;
+    }
+  });
+  tally.yes = Math.round(tally.yes * 100) / 100;
+  tally.no = Math.round(tally.no * 100) / 100;
+  return tally;
+}
+
+/**
+ * Decide whether votes should move a report to a new status.
+ * @param {Object} report Report with status, category and statusHistory
+ * @param {Object[]} votes The report's current votes
+ * @param {number} now Current time in milliseconds
+ * @return {?Object} {status, snapshot}, or null to leave the status alone
+ */
+function evaluateResolution(report, votes, now = Date.now()) {
+  const status = report.status || "active";
+  const rule = ruleFor(report.category);
+  const tally = tallyVotes(votes, rule, now);
+  const margin = tally.no - tally.yes;
+  const snapshot = {
+    ...tally,
+    margin: Math.round(margin * 100) / 100,
+    category: report.category || "other",
+    rule,
+    evaluatedAt: new Date(now).toISOString(),
+  };
+
+  if (OPEN_STATUSES.includes(status)) {
+    if (tally.noVotes >= rule.minNoVotes && margin >= rule.probableMargin) {
+      return {status: "probably_resolved", snapshot};
+    }
+    return null;
+  }
+
+  if (status === "probably_resolved") {
+    if (margin <= 0) {
+      return {status: "active", snapshot};
+    }
+    const history = report.statusHistory || [];
+    const since = history.length ? history[history.length - 1].at : null;
+    const waited = since &&
+      now - new Date(since).getTime() >= rule.resolveAfterHours * HOUR_MS;
+    if (waited && margin >= rule.resolvedMargin) {
+      return {status: "resolved", snapshot};
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create the auto-resolver, which applies vote-driven status changes.
+ * @param {Object} store Report store
+ * @return {{evaluate: Function, sweep: Function}} Auto-resolver
+ */
+function createAutoResolver(store) {
+  const evaluate = async (reportId, timestamp) => {
+    const report = await store.getReport(reportId, timestamp);
+    if (!report) return null;
+
+    const decision =
+      evaluateResolution(report, await store.getVotes(reportId));
+    if (!decision) return report;
+
+    return store.updateStatus({
+      reportId,
+      timestamp,
+      status: decision.status,
+      changedBy: AUTO_RESOLVER_ID,
+      changedByName: AUTO_RESOLVER_NAME,
+      note: decision.status === "active" ?
+        "Reopened: people report it is still there" :
+        "Based on recent \"Is this still there?\" votes",
+      snapshot: decision.snapshot,
+    });
+  };
+
+  // Probably resolved hazards can become resolved with no new votes once
+  // enough time has passed, so they are re-checked on a schedule. Reports
+  // that fail are listed in failed, with the error, for the caller to log.
+  const sweep = async () => {
+    const reports = await store.getProbablyResolvedReports();
+    let changed = 0;
+    const failed = [];
+    for (const report of reports) {
+      try {
+        const updated = await evaluate(report.id, report.timestamp);
+        if (updated && updated.status !== report.status) changed++;
+      } catch (error) {
+        failed.push({reportId: report.id, error: error.message});
+      }
+    }
+    return {checked: reports.length, changed, failed};
+  };
+
+  return {evaluate, sweep};
+}
+
+module.exports = {
+  AUTO_RESOLVER_ID,
+  ruleFor,
+  tallyVotes,
+  evaluateResolution,
+  createAutoResolver,
+};
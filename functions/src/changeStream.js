@@ -0,0 +1,73 @@
+const logger = require("firebase-functions/logger");
+const {nextCursor} = require("./sync");
+
+// How often an instance with connected clients checks for changed reports.
+// Reading the change index (rather than watching this instance's own
+// writes) means clients also hear about writes handled by other instances.
+const CHANGE_POLL_MS = 2000;
+
+/**
+ * Create a feed that pushes changed reports to subscribers. One poll loop
+ * runs per instance while anyone is subscribed, however many are connected.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {number} options.pollMs Poll interval in milliseconds
+ * @return {{subscribe: Function}} Change stream
+ */
+function createChangeStream(store, {pollMs = CHANGE_POLL_MS} = {}) {
+  const listeners = new Set();
+  // Report id -> updatedAt last pushed, so the cursor overlap between polls
+  // doesn't push the same change twice
+  const sent = new Map();
+  let cursor = null;
+  let timer = null;
+  let isPolling = false;
+
+  const poll = async () => {
+    if (isPolling) return;
+    isPolling = true;
+    const startedAt = Date.now();
+
+    try {
+      const reports = await store.getReportsChangedSince(cursor);
+      const next = nextCursor(startedAt);
+
+      reports.forEach((report) => {
+        if (sent.get(report.id) === report.updatedAt) return;
+        sent.set(report.id, report.updatedAt);
+        listeners.forEach((listener) => listener(report, next));
+      });
+
+      cursor = new Date(next);
+      // Older changes can't come back from a query starting at the cursor
+      sent.forEach((updatedAt, id) => {
+        if (updatedAt < next) sent.delete(id);
+      });
+    } catch (error) {
+      logger.error("Error polling for changed reports", error);
+    } finally {
+      isPolling = false;
+    }
+  };
+
+  const subscribe = (listener) => {
+    listeners.add(listener);
+    if (!timer) {
+      cursor = new Date();
+      timer = setInterval(poll, pollMs);
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && timer) {
+        clearInterval(timer);
+        timer = null;
+        sent.clear();
+      }
+    };
+  };
+
+  return {subscribe};
+}
+
+module.exports = {createChangeStream};
@@ -0,0 +1,60 @@
+const path = require("path");
+const {defineSecret} = require("firebase-functions/params");
+
+const geminiApiKey = defineSecret("GEMINI_API_KEY");
+const awsAccessKeyId = defineSecret("AWS_ACCESS_KEY_ID");
+const awsSecretAccessKey = defineSecret("AWS_SECRET_ACCESS_KEY");
+// Moderators and their keys, as "name:key,name:key"
+const moderatorKeys = defineSecret("MODERATOR_KEYS");
+
+// The emulator runs fully offline (in-memory data, images on local disk, no
+// Gemini) unless FLAGIT_USE_AWS=true is set in functions/.env.local.
+const isEmulator = process.env.FUNCTIONS_EMULATOR === "true";
+const isOffline = isEmulator && process.env.FLAGIT_USE_AWS !== "true";
+
+// Reports are checked by Gemini ("gemini") or by keyword rules ("rules",
+// the default offline); GEMINI_MODEL and GEMINI_PROMPT_FILE (relative to
+// functions/) change the model and prompt
+const classifierProvider = process.env.CLASSIFIER_PROVIDER ||
+  (isOffline ? "rules" : "gemini");
+
+// Jurisdiction boundaries and contacts (GeoJSON, relative to functions/).
+// New reports are only routed and sent on when this is set.
+const jurisdictionsFile = process.env.JURISDICTIONS_FILE ?
+  path.resolve(__dirname, "..", process.env.JURISDICTIONS_FILE) :
+  null;
+
+// Offline the moderator key is "moderator" unless MODERATOR_KEYS is set
+const OFFLINE_MODERATOR_KEYS = "moderator:moderator";
+
+module.exports = {
+  geminiApiKey,
+  awsAccessKeyId,
+  awsSecretAccessKey,
+  moderatorKeys,
+  offlineModeratorKeys: process.env.MODERATOR_KEYS || OFFLINE_MODERATOR_KEYS,
+  isOffline,
+  classifierProvider,
+  geminiModel: process.env.GEMINI_MODEL || undefined,
+  geminiPromptFile: process.env.GEMINI_PROMPT_FILE ?
+    path.resolve(__dirname, "..", process.env.GEMINI_PROMPT_FILE) :
+    undefined,
+  awsRegion: process.env.AWS_REGION || "us-east-1",
+  tableName: process.env.DYNAMODB_TABLE_NAME || "Hazard_flags",
+  votesTableName: process.env.DYNAMODB_VOTES_TABLE_NAME || "Hazard_votes",
+  auditTableName: process.env.DYNAMODB_AUDIT_TABLE_NAME || "Hazard_audit",
+  bucketName: process.env.S3_BUCKET_NAME || "flagit-images",
+  // Unset falls back to the defaults in duplicates.js
+  duplicateRadiusMeters: Number(process.env.DUPLICATE_RADIUS_METERS) ||
+    undefined,
+  duplicateWindowHours: Number(process.env.DUPLICATE_WINDOW_HOURS) ||
+    undefined,
+  // Unset falls back to the default in moderation.js
+  downvoteThreshold: Number(process.env.MODERATION_DOWNVOTE_THRESHOLD) ||
+    undefined,
+  // Unset falls back to the default in flags.js
+  flagThreshold: Number(process.env.FLAG_HIDE_THRESHOLD) || undefined,
+  jurisdictionsFile,
+  // Firestore collection the Trigger Email extension sends from
+  mailCollection: process.env.MAIL_COLLECTION || "mail",
+};
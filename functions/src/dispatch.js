@@ -0,0 +1,242 @@
+const logger = require("firebase-functions/logger");
+const {isPublicReport} = require("./status");
+const {
+  findJurisdiction,
+  contactsFor,
+  findContact,
+} = require("./jurisdictions");
+
+// Minutes waited before each retry of a failed delivery; a delivery that
+// still fails after the last one is given up as failed
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+const MAX_ERROR_LENGTH = 300;
+
+/**
+ * When to try a delivery again after a failed attempt.
+ * @param {number} attempts Attempts made so far
+ * @param {Date} now Time of the failed attempt
+ * @return {?string} ISO time, or null to give up
+ */
+function retryAt(attempts, now) {
+  const minutes = RETRY_DELAYS_MINUTES[attempts - 1];
+  return minutes === undefined ?
+    null :
+    new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Route a report: the jurisdiction it is in and a pending delivery for
+ * each of that jurisdiction's contacts for its category. Deliveries keep
+ * the contact's id, not its rule, so API keys stay in the jurisdictions
+ * file.
+ * @param {Object} report Report
+ * @param {?Object} jurisdiction Jurisdiction, or null if it is in none
+ * @param {Date} now
+ * @return {Object} Stored dispatch
+ */
+function buildDispatch(report, jurisdiction, now) {
+  const contacts =
+    jurisdiction ? contactsFor(jurisdiction, report.category) : [];
+  return {
+    jurisdictionId: jurisdiction ? jurisdiction.id : null,
+    jurisdictionName: jurisdiction ? jurisdiction.name : null,
+    routedAt: now.toISOString(),
+    deliveries: contacts.map(({contactId, rule}, index) => ({
+      id: String(index + 1),
+      type: rule.type,
+      contactId,
+      status: "pending",
+      attempts: 0,
+      lastAttemptAt: null,
+      nextAttemptAt: now.toISOString(),
+      lastError: null,
+      deliveredAt: null,
+    })),
+  };
+}
+
+/**
+ * What a jurisdiction is sent about a report. Who reported it is left out.
+ * @param {Object} report Report
+ * @param {Object} dispatch Stored dispatch
+ * @param {Date} now
+ * @return {Object}
+ */
+function buildNotification(report, dispatch, now) {
+  return {
+    event: "report.created",
+    sentAt: now.toISOString(),
+    jurisdiction: {
+      id: dispatch.jurisdictionId,
+      name: dispatch.jurisdictionName,
+    },
+    report: {
+      id: report.id,
+      timestamp: report.timestamp,
+      title: report.title,
+      description: report.description,
+      category: report.category,
+      status: report.status,
+      latitude: report.latitude,
+      longitude: report.longitude,
+      images: report.images,
+    },
+  };
+}
+
+/**
+ * Create the dispatcher, which routes new public reports to the
+ * jurisdiction they are in and notifies its contacts, retrying failed
+ * deliveries with growing delays. Every attempt is recorded on the report.
+ * Only the scheduled sweep sends, first attempts included, so two requests
+ * never send the same delivery.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {Object[]} options.jurisdictions Jurisdictions (see
+ *   jurisdictions.js); with none, reports are not routed
+ * @param {Object} options.senders {webhook, email, open311}, each
+ *   {send(rule, notification)}, resolving to fields kept with the delivery
+ *   (an Open311 service request id), if any
+ * @return {{dispatchReport: Function, retryDue: Function}} Dispatcher
+ */
+function createDispatcher(store, {jurisdictions = [], senders}) {
+  const attempt = async (report, dispatch, delivery, notification, now) => {
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = now.toISOString();
+    const rule = findContact(jurisdictions, dispatch.jurisdictionId,
+        delivery.contactId, report.category);
+    if (!rule || rule.type !== delivery.type) {
+      logger.warn("Report delivery contact is gone", {
+        reportId: report.id,
+        contactId: delivery.contactId,
+      });
+      return {
+        ...delivery,
+        status: "failed",
+        attempts,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: null,
+        lastError: "The contact is no longer in the jurisdictions file",
+      };
+    }
+    try {
+      const receipt = await senders[delivery.type].send(rule, notification);
+      logger.info("Report delivered", {
+        reportId: report.id,
+        type: delivery.type,
+        attempts,
+      });
+      return {
+        ...delivery,
+        ...(receipt || {}),
+        status: "delivered",
+        attempts,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: null,
+        lastError: null,
+        deliveredAt: attemptedAt,
+      };
+    } catch (error) {
+      const nextAttemptAt = retryAt(attempts, now);
+      logger.warn("Report delivery failed", {
+        reportId: report.id,
+        type: delivery.type,
+        attempts,
+        nextAttemptAt,
+        error: error.message,
+      });
+      return {
+        ...delivery,
+        status: nextAttemptAt ? "pending" : "failed",
+        attempts,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt,
+        lastError: String(error.message).slice(0, MAX_ERROR_LENGTH),
+      };
+    }
+  };
+
+  // Deliveries are independent, so one slow contact doesn't hold up another
+  const deliverDue = async (report, dispatch, now) => {
+    const notification = buildNotification(report, dispatch, now);
+    const deliveries = await Promise.all(dispatch.deliveries.map(
+        (delivery) => delivery.status === "pending" &&
+          delivery.nextAttemptAt <= now.toISOString() ?
+          attempt(report, dispatch, delivery, notification, now) :
+          delivery));
+    return {...dispatch, deliveries};
+  };
+
+  // A report taken off the map while deliveries were still being retried
+  // is no longer sent
+  const cancelPending = (dispatch) => ({
+    ...dispatch,
+    deliveries: dispatch.deliveries.map((delivery) =>
+      delivery.status === "pending" ?
+        {...delivery, status: "cancelled", nextAttemptAt: null} :
+        delivery),
+  });
+
+  // Reports are routed once, when they first appear on the map: on creation,
+  // or when a moderator approves one that was waiting for review. Their
+  // deliveries are due straight away, for the next sweep to send.
+  const dispatchReport = async (report) => {
+    if (!jurisdictions.length || report.dispatch || !isPublicReport(report)) {
+      return report;
+    }
+
+    const now = new Date();
+    const jurisdiction =
+      findJurisdiction(jurisdictions, report.latitude, report.longitude);
+    const dispatch = buildDispatch(report, jurisdiction, now);
+    const routed = await store.startDispatch({
+      reportId: report.id,
+      timestamp: report.timestamp,
+      dispatch,
+    });
+    // Already routed by another request
+    if (!routed) return report;
+
+    logger.info("Report routed", {
+      reportId: report.id,
+      jurisdictionId: dispatch.jurisdictionId,
+      deliveries: dispatch.deliveries.length,
+    });
+    return routed;
+  };
+
+  // Run on a schedule for deliveries whose first attempt or retry is due
+  const retryDue = async () => {
+    const now = new Date();
+    const due = await store.getDueDispatches(now.toISOString());
+    const result = {checked: due.length, delivered: 0, failed: 0};
+
+    for (const {report, dispatch} of due) {
+      try {
+        const updated = isPublicReport(report) ?
+          await deliverDue(report, dispatch, now) :
+          cancelPending(dispatch);
+        await store.updateDispatch({
+          reportId: report.id,
+          timestamp: report.timestamp,
+          dispatch: updated,
+        });
+        updated.deliveries.forEach((delivery, index) => {
+          if (delivery.status === dispatch.deliveries[index].status) return;
+          if (delivery.status === "delivered") result.delivered++;
+          if (delivery.status === "failed") result.failed++;
+        });
+      } catch (error) {
+        logger.error("Dispatch retry failed", {reportId: report.id, error});
+      }
+    }
+    return result;
+  };
+
+  return {dispatchReport, retryDue};
+}
+
+module.exports = {
+  createDispatcher,
+};
@@ -0,0 +1,75 @@
+const {badRequest} = require("./errors");
+const {isPublicReport} = require("./status");
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// A new report is offered as a confirmation of an existing one when an open
+// report in the same category was made this close by and this recently
+const DUPLICATE_RADIUS_METERS = 50;
+const DUPLICATE_WINDOW_HOURS = 72;
+
+// Reports that are closed aren't offered; a new report starts a fresh one
+const CLOSED_STATUSES = ["resolved", "false_report"];
+
+/**
+ * Great-circle distance between two points.
+ * @param {{latitude: number, longitude: number}} a
+ * @param {{latitude: number, longitude: number}} b
+ * @return {number} Distance in meters
+ */
+function distanceMeters(a, b) {
+  const toRadians = (degrees) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.pow(Math.sin(dLat / 2), 2) +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) *
+    Math.pow(Math.sin(dLng / 2), 2);
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Create the finder for existing reports a new report may duplicate.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {number} options.radiusMeters How far away a duplicate can be
+ * @param {number} options.windowHours How old a duplicate can be
+ * @return {{findDuplicates: Function}} Duplicate finder
+ */
+function createDuplicateFinder(store, {
+  radiusMeters = DUPLICATE_RADIUS_METERS,
+  windowHours = DUPLICATE_WINDOW_HOURS,
+} = {}) {
+  // Open reports of the category near the point, closest first, each with
+  // its distanceMeters
+  const findDuplicates = async ({latitude, longitude, category}) => {
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      throw badRequest("latitude and longitude are required");
+    }
+
+    const latitudeDelta = 2 * radiusMeters / METERS_PER_DEGREE_LATITUDE;
+    const longitudeDelta = latitudeDelta /
+      Math.max(Math.cos(latitude * Math.PI / 180), 0.01);
+    const reports = await store.getReportsInRegion({
+      latitude, longitude, latitudeDelta, longitudeDelta,
+    });
+
+    const since = Date.now() - windowHours * 60 * 60 * 1000;
+    return reports
+        .filter((report) => report.category === (category || "other"))
+        .filter(isPublicReport)
+        .filter((report) => !CLOSED_STATUSES.includes(report.status))
+        .filter((report) => new Date(report.timestamp).getTime() >= since)
+        .map((report) => ({
+          ...report,
+          distanceMeters: Math.round(
+              distanceMeters({latitude, longitude}, report)),
+        }))
+        .filter((report) => report.distanceMeters <= radiusMeters)
+        .sort((a, b) => a.distanceMeters - b.distanceMeters);
+  };
+
+  return {findDuplicates};
+}
+
+module.exports = {distanceMeters, createDuplicateFinder};
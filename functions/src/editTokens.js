@@ -0,0 +1,61 @@
+const crypto = require("crypto");
+const {badRequest} = require("./errors");
+
+// What createEditToken makes, and what the app makes the same way
+const EDIT_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Hash an edit token for storing or comparing; the token itself is only
+ * ever known to the author's device.
+ * @param {string} token Edit token
+ * @return {string} Hex SHA-256 of the token
+ */
+function hashEditToken(token) {
+  return crypto.createHash("sha256").update(String(token)).digest("hex");
+}
+
+/**
+ * Create the secret token a new report's author changes it with. The
+ * reporter ID can't serve for this: other devices see it on comments and
+ * votes, and anyone can send it.
+ * @return {Object} {token, hash}
+ */
+function createEditToken() {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {token, hash: hashEditToken(token)};
+}
+
+/**
+ * Take the token a new report's author made on their device. The app makes
+ * it before its first attempt to send the report and sends it with every
+ * retry, so a report saved by an attempt whose response was lost still has
+ * the token the app kept.
+ * @param {string} token Edit token from the request
+ * @return {Object} {token, hash}
+ */
+function acceptEditToken(token) {
+  if (!EDIT_TOKEN_PATTERN.test(token)) {
+    throw badRequest("The edit token must be 64 lowercase hex characters");
+  }
+  return {token, hash: hashEditToken(token)};
+}
+
+/**
+ * Check an edit token against a report's stored hash, in constant time.
+ * @param {string} hash Stored hash (see hashEditToken)
+ * @param {string} token Edit token from the request
+ * @return {boolean}
+ */
+function matchesEditToken(hash, token) {
+  const expected = Buffer.from(hash, "hex");
+  const given = Buffer.from(hashEditToken(token), "hex");
+  return expected.length === given.length &&
+    crypto.timingSafeEqual(expected, given);
+}
+
+module.exports = {
+  hashEditToken,
+  createEditToken,
+  acceptEditToken,
+  matchesEditToken,
+};
@@ -0,0 +1,22 @@
+/**
+ * An error that maps onto an HTTP response status.
+ */
+class HttpError extends Error {
+  /**
+   * @param {number} status HTTP status code
+   * @param {string} message Message returned to the client
+   * @param {string} code Optional machine-readable reason for the client
+   */
+  constructor(status, message, code) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code || null;
+  }
+}
+
+const badRequest = (message) => new HttpError(400, message);
+const notFound = (message) => new HttpError(404, message);
+const conflict = (message) => new HttpError(409, message);
+
+module.exports = {HttpError, badRequest, notFound, conflict};
@@ -0,0 +1,221 @@
+const {badRequest} = require("./errors");
+const {CATEGORIES} = require("./analysis");
+const {STATUSES, isPublicReport} = require("./status");
+const {MAX_QUERY_DELTA} = require("./geohash");
+const {visibleComments, toPublicComment} = require("./reports");
+
+const EXPORT_FORMATS = {
+  geojson: {contentType: "application/geo+json", extension: "geojson"},
+  csv: {contentType: "text/csv; charset=utf-8", extension: "csv"},
+};
+
+// Fields an export holds, in CSV column order: what anyone sees of a report
+// on the map, without who made it or how it was moderated and routed. Lists
+// and objects are written to CSV as JSON.
+const EXPORT_FIELDS = [
+  "id", "timestamp", "updatedAt", "title", "description", "category",
+  "status", "latitude", "longitude", "upvotes", "downvotes", "netVotes",
+  "commentCount", "comments", "images", "source",
+];
+
+/**
+ * Parse a comma separated list of allowed values.
+ * @param {*} value Query parameter
+ * @param {string} name Parameter name, for error messages
+ * @param {string[]} allowed Allowed values
+ * @return {?Array<string>} The values, or null when none were given
+ */
+function parseList(value, name, allowed) {
+  const values = String(value || "").split(",").filter(Boolean);
+  if (!values.length) return null;
+  const unknown = values.find((item) => !allowed.includes(item));
+  if (unknown) {
+    throw badRequest(`${name} must be a list of ${allowed.join(", ")}`);
+  }
+  return values;
+}
+
+/**
+ * Parse an optional ISO date bound.
+ * @param {*} value Query parameter
+ * @param {string} name Parameter name, for error messages
+ * @return {?string} ISO timestamp
+ */
+function parseDate(value, name) {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw badRequest(`${name} must be an ISO date`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Read the export format and filters from query parameters. The area is a
+ * map region, read separately.
+ * @param {Object} query req.query: format, from, to, categories, statuses
+ * @return {Object} {format, from, to, categories, statuses}
+ */
+function parseExportQuery(query) {
+  const format = query.format || "geojson";
+  if (!EXPORT_FORMATS[format]) {
+    throw badRequest(
+        `format must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}`);
+  }
+  return {
+    format,
+    from: parseDate(query.from, "from"),
+    to: parseDate(query.to, "to"),
+    categories: parseList(query.categories, "categories", CATEGORIES),
+    // Reports kept off the map are never exported
+    statuses: parseList(query.statuses, "statuses",
+        STATUSES.filter((status) => isPublicReport({status}))),
+  };
+}
+
+/**
+ * Whether a map area is small enough to export. Exports are as large as one
+ * map query, so a whole dataset can't be pulled in one request. The app
+ * checks the area it shows with this before asking.
+ * @param {Object} region {latitude, longitude, latitudeDelta, longitudeDelta}
+ * @return {boolean}
+ */
+function canExportArea(region) {
+  return Math.abs(region.latitudeDelta) <= MAX_QUERY_DELTA &&
+    Math.abs(region.longitudeDelta) <= MAX_QUERY_DELTA;
+}
+
+/**
+ * Check the map area an export is limited to (see canExportArea).
+ * @param {?Object} region Region from parseRegion, or null when none was given
+ * @return {Object} The region
+ */
+function checkExportArea(region) {
+  if (!region) {
+    throw badRequest(
+        "latitude, longitude, latitudeDelta and longitudeDelta are required");
+  }
+  if (!canExportArea(region)) {
+    throw badRequest("latitudeDelta and longitudeDelta must be at most " +
+      MAX_QUERY_DELTA);
+  }
+  return region;
+}
+
+/**
+ * The public reports matching export filters, oldest first.
+ * @param {Object[]} reports Reports, already limited to the area
+ * @param {Object} filters {from, to, categories, statuses}
+ * @return {Object[]}
+ */
+function filterForExport(reports, {from, to, categories, statuses}) {
+  return reports
+      .filter(isPublicReport)
+      .filter((report) => !from || report.timestamp >= from)
+      .filter((report) => !to || report.timestamp <= to)
+      .filter((report) => !categories || categories.includes(report.category))
+      .filter((report) => !statuses || statuses.includes(report.status))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * A comment as an export holds it: as everyone sees it, without whose it is.
+ * @param {Object} comment Stored comment
+ * @return {Object}
+ */
+function exportedComment(comment) {
+  // eslint-disable-next-line no-unused-vars
+  const {own, ...visible} = toPublicComment(comment);
+  return visible;
+}
+
+/**
+ * The exported fields of a report, with the totals exports add to it. Only
+ * the comments everyone can see are exported.
+ * @param {Object} report Report
+ * @return {Object}
+ */
+function exportedFields(report) {
+  const comments = visibleComments(report.comments).map(exportedComment);
+  const row = {
+    ...report,
+    netVotes: report.upvotes - report.downvotes,
+    commentCount: comments.length,
+    comments,
+  };
+  return Object.fromEntries(
+      EXPORT_FIELDS.map((field) => [field, row[field]]));
+}
+
+/**
+ * Write reports as a GeoJSON FeatureCollection of points.
+ * @param {Object[]} reports Reports
+ * @return {string}
+ */
+function toGeoJSON(reports) {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: reports.map((report) => ({
+      type: "Feature",
+      id: report.id,
+      geometry: {
+        type: "Point",
+        coordinates: [report.longitude, report.latitude],
+      },
+      properties: exportedFields(report),
+    })),
+  });
+}
+
+/**
+ * Write one CSV cell. Text a spreadsheet would run as a formula is
+ * prefixed with a quote.
+ * @param {*} value Cell value
+ * @return {string}
+ */
+function csvCell(value) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * Write reports as CSV, one row per report.
+ * @param {Object[]} reports Reports
+ * @return {string}
+ */
+function toCsv(reports) {
+  const rows = reports.map((report) => {
+    const row = exportedFields(report);
+    return EXPORT_FIELDS.map((field) => csvCell(row[field])).join(",");
+  });
+  return [EXPORT_FIELDS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Build an export file.
+ * @param {Object[]} reports Reports to export
+ * @param {string} format geojson or csv
+ * @return {Object} {filename, contentType, body}
+ */
+function buildExport(reports, format) {
+  const {contentType, extension} = EXPORT_FORMATS[format];
+  const day = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `flagit-hazards-${day}.${extension}`,
+    contentType,
+    body: format === "csv" ? toCsv(reports) : toGeoJSON(reports),
+  };
+}
+
+module.exports = {
+  parseExportQuery,
+  canExportArea,
+  checkExportArea,
+  filterForExport,
+  buildExport,
+};
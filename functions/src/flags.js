@@ -0,0 +1,131 @@
+const {badRequest, notFound} = require("./errors");
+const {isPublicReport} = require("./status");
+
+// Why someone can report a hazard or comment as abusive
+const FLAG_REASONS = [
+  "spam", "offensive", "private_property", "personal_info",
+];
+
+// Flags from different people that hide a report or comment until a
+// moderator looks at it
+const FLAG_THRESHOLD = 3;
+
+// Starts the votes table keys of flags, apart from the report ids that key
+// votes (see toReportId in reports.js)
+const FLAG_TARGET_PREFIX = "flag";
+
+// Recorded as the author of the status change that hides a flagged report;
+// who flagged it is never shown
+const FLAGS_ID = "community-flags";
+const FLAGS_NAME = "Community flags";
+
+/**
+ * Votes table key for a flag. Flags share the table with votes, one per
+ * person per report or comment, under their own target ids.
+ * @param {string} reportId
+ * @param {?string} commentId Comment flagged, or null for the report
+ * @return {string}
+ */
+function flagTargetId(reportId, commentId) {
+  const targetId = `${FLAG_TARGET_PREFIX}#${reportId}`;
+  return commentId ? `${targetId}#${commentId}` : targetId;
+}
+
+/**
+ * Check a flag reason from a request.
+ * @param {*} reason Reason from the request
+ * @return {string}
+ */
+function normalizeFlagReason(reason) {
+  if (!FLAG_REASONS.includes(reason)) {
+    throw badRequest(`reason must be one of ${FLAG_REASONS.join(", ")}`);
+  }
+  return reason;
+}
+
+/**
+ * Create the flagging service. Each person can flag a report or comment
+ * once; the flag that reaches the threshold hides it for moderators to
+ * review (see moderation.js).
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {number} options.threshold Flags that hide a report or comment
+ * @return {Object} Flagging service
+ */
+function createFlags(store, {threshold = FLAG_THRESHOLD} = {}) {
+  const requirePublicReport = async (reportId, timestamp) => {
+    const report = await store.getReport(reportId, timestamp);
+    if (!report || !isPublicReport(report)) {
+      throw notFound(`Report ${reportId} not found`);
+    }
+    return report;
+  };
+
+  // Flags sent at the same time can each reach the threshold; the first
+  // hides the report, and the rest find it already off the map
+  const hideReport = async (reportId, timestamp, flags) => {
+    const report = await store.getReport(reportId, timestamp);
+    if (!report || !isPublicReport(report)) return;
+    try {
+      await store.updateStatus({
+        reportId,
+        timestamp,
+        status: "flagged",
+        changedBy: FLAGS_ID,
+        changedByName: FLAGS_NAME,
+        note: `Hidden for review after ${flags} people reported it`,
+        snapshot: {
+          flags,
+          reasons: await store.getFlagReasons(reportId, null),
+        },
+      });
+    } catch (error) {
+      const current = await store.getReport(reportId, timestamp);
+      if (current && isPublicReport(current)) throw error;
+    }
+  };
+
+  const flagReport = async ({reportId, timestamp, flaggerId, reason}) => {
+    const flagReason = normalizeFlagReason(reason);
+    await requirePublicReport(reportId, timestamp);
+    const {added, reason: storedReason, flags} = await store.addFlag({
+      reportId,
+      timestamp,
+      flaggerId,
+      reason: flagReason,
+    });
+
+    const hidden = added && flags >= threshold;
+    if (hidden) await hideReport(reportId, timestamp, flags);
+    return {reason: storedReason, hidden};
+  };
+
+  const flagComment = async (params) => {
+    const {reportId, timestamp, commentId, flaggerId, reason} = params;
+    const flagReason = normalizeFlagReason(reason);
+    await requirePublicReport(reportId, timestamp);
+    const {added, reason: storedReason, flags} = await store.addFlag({
+      reportId,
+      timestamp,
+      commentId,
+      flaggerId,
+      reason: flagReason,
+    });
+
+    const hidden = added && flags >= threshold;
+    if (hidden) await store.hideComment({reportId, timestamp, commentId});
+    return {reason: storedReason, hidden};
+  };
+
+  const getUserFlags = (reportId, commentIds, flaggerId) =>
+    store.getUserFlags(reportId, commentIds, flaggerId);
+
+  return {flagReport, flagComment, getUserFlags};
+}
+
+module.exports = {
+  FLAG_REASONS,
+  FLAG_TARGET_PREFIX,
+  flagTargetId,
+  createFlags,
+};
@@ -0,0 +1,264 @@
+const fs = require("fs");
+const path = require("path");
+const logger = require("firebase-functions/logger");
+const {HttpError, badRequest} = require("./errors");
+const {
+  CATEGORIES,
+  TITLE_MAX_LENGTH,
+  analysisImages,
+  relevantImages,
+} = require("./analysis");
+
+const GEMINI_API_URL =
+  "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Used when no model is configured
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+// Classification prompt used unless another file is configured
+const DEFAULT_PROMPT_FILE =
+  path.join(__dirname, "..", "prompts", "classify-hazard.txt");
+
+// Gemini is asked to answer in this shape, and answers are checked against
+// it because the model can still stray from it
+const RESPONSE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    title: {type: "STRING"},
+    improved_description: {type: "STRING"},
+    valid_hazard: {type: "BOOLEAN"},
+    category: {type: "STRING", enum: CATEGORIES},
+    reasons: {type: "ARRAY", items: {type: "STRING"}},
+    hazard_images: {type: "ARRAY", items: {type: "INTEGER"}},
+  },
+  required: [
+    "title",
+    "improved_description",
+    "valid_hazard",
+    "category",
+    "reasons",
+    "hazard_images",
+  ],
+};
+
+// Rate limited (429) or failed (5xx) requests and answers that don't match
+// the schema are retried, waiting twice as long each time
+const MAX_GEMINI_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 8000;
+
+/**
+ * Fill the classification prompt template for a report. The template names
+ * values as {{photos}}, {{description}}, {{title}} and {{categories}}.
+ * @param {string} template Prompt template
+ * @param {string} description User-provided description
+ * @param {?string} title Optional user-provided title
+ * @param {number} imageCount Number of photos attached after the prompt
+ * @return {string}
+ */
+function buildPrompt(template, description, title, imageCount) {
+  const values = {
+    photos: imageCount > 1 ?
+      `${imageCount} street-level photos, numbered 1 to ${imageCount} in ` +
+        "the order attached, that one person took of a single report" :
+      "a single street-level photo",
+    description: JSON.stringify(description),
+    title: title ? JSON.stringify(title) : "(none)",
+    categories: JSON.stringify(CATEGORIES),
+  };
+  return template.replace(/\{\{(\w+)\}\}/g,
+      (placeholder, name) => (name in values ? values[name] : placeholder));
+}
+
+/**
+ * List how a parsed Gemini answer differs from RESPONSE_SCHEMA.
+ * @param {*} parsed Parsed response text
+ * @return {string[]} Problems, empty when the answer is usable
+ */
+function schemaProblems(parsed) {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return ["not a JSON object"];
+  }
+  const problems = [];
+  if (typeof parsed.valid_hazard !== "boolean") {
+    problems.push("valid_hazard is not a boolean");
+  }
+  if (!CATEGORIES.includes(parsed.category)) {
+    problems.push(`unknown category ${JSON.stringify(parsed.category)}`);
+  }
+  ["title", "improved_description"].forEach((key) => {
+    if (typeof parsed[key] !== "string") problems.push(`${key} is missing`);
+  });
+  if (!Array.isArray(parsed.reasons) ||
+      parsed.reasons.some((reason) => typeof reason !== "string")) {
+    problems.push("reasons is not a list of strings");
+  }
+  return problems;
+}
+
+/**
+ * Build the analysis returned to the app from a checked Gemini answer.
+ * @param {Object} parsed Answer that passed schemaProblems
+ * @param {?string} title User-supplied title
+ * @param {string} description User-supplied description
+ * @param {number} imageCount Number of photos sent
+ * @return {Object} {title, improved_description, valid_hazard, category,
+ *   reasons, relevant_images}
+ */
+function toAnalysis(parsed, title, description, imageCount) {
+  return {
+    title: (parsed.title.trim() || title || description)
+        .slice(0, TITLE_MAX_LENGTH),
+    improved_description: parsed.improved_description.trim() || description,
+    valid_hazard: parsed.valid_hazard,
+    category: parsed.category,
+    reasons: parsed.reasons,
+    relevant_images: relevantImages(parsed.hazard_images, imageCount),
+  };
+}
+
+/**
+ * How long to wait before another attempt.
+ * @param {number} attempt Attempt that just failed, from 1
+ * @param {?string} retryAfter Retry-After header of the failed response
+ * @return {number} Delay in milliseconds
+ */
+function retryDelay(attempt, retryAfter) {
+  const seconds = Number(retryAfter);
+  const delay = Number.isFinite(seconds) && seconds > 0 ?
+    seconds * 1000 :
+    BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1) * (0.5 + Math.random());
+  return Math.round(Math.min(delay, MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * The analysis could not run right now; the app asks the user to try again.
+ * @param {string} message
+ * @return {HttpError}
+ */
+function analysisUnavailable(message) {
+  return new HttpError(503, message, "analysis_unavailable");
+}
+
+/**
+ * Gemini refused the request or kept answering outside the schema, which
+ * trying again won't fix.
+ * @param {string} message
+ * @return {HttpError}
+ */
+function analysisFailed(message) {
+  return new HttpError(502, message, "analysis_failed");
+}
+
+/**
+ * Create the Gemini-backed hazard analyzer.
+ * @param {Object} options
+ * @param {string} options.apiKey Gemini API key
+ * @param {string} options.model Gemini model name
+ * @param {string} options.promptFile Path of the prompt template
+ * @return {Object} Analyzer
+ */
+function createGeminiAnalyzer({
+  apiKey,
+  model = DEFAULT_GEMINI_MODEL,
+  promptFile = DEFAULT_PROMPT_FILE,
+}) {
+  const url = `${GEMINI_API_URL}/${encodeURIComponent(model)}:generateContent` +
+    `?key=${encodeURIComponent(apiKey)}`;
+  // Read once per instance rather than for every report
+  const promptTemplate = fs.readFileSync(promptFile, "utf8");
+
+  // One request to Gemini: the parsed answer, or why it should be retried
+  const attemptAnalysis = async (payload) => {
+    let resp;
+    try {
+      resp = await fetch(url, {
+        method: "POST",
+        headers: {"content-type": "application/json"},
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      return {unavailable: `Gemini unreachable: ${error.message}`};
+    }
+
+    if (resp.status === 429 || resp.status >= 500) {
+      return {
+        unavailable: `Gemini error ${resp.status}`,
+        retryAfter: resp.headers.get("retry-after"),
+      };
+    }
+    if (!resp.ok) {
+      const text = await resp.text();
+      throw analysisFailed(
+          `Gemini error ${resp.status}: ${text.slice(0, 400)}`);
+    }
+
+    const data = await resp.json();
+    const parts = (((data.candidates || [])[0] || {}).content || {}).parts;
+    const raw = (parts && parts[0] && parts[0].text) || "";
+
+    let parsed;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      return {invalid: "response is not JSON"};
+    }
+    const problems = schemaProblems(parsed);
+    return problems.length ? {invalid: problems.join(", ")} : {parsed};
+  };
+
+  const analyzeHazard = async (params) => {
+    const {title, description} = params;
+    if (!description) throw badRequest("description is required");
+    const images = analysisImages(params);
+
+    const payload = {
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text:
+                buildPrompt(promptTemplate, description, title, images.length),
+            },
+            ...images.map(({data, mimeType}) =>
+              ({inlineData: {mimeType, data}})),
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: 0.2,
+        response_mime_type: "application/json",
+        response_schema: RESPONSE_SCHEMA,
+      },
+    };
+
+    let result;
+    for (let attempt = 1; attempt <= MAX_GEMINI_ATTEMPTS; attempt++) {
+      result = await attemptAnalysis(payload);
+      if (result.parsed) {
+        return toAnalysis(result.parsed, title, description, images.length);
+      }
+      if (attempt < MAX_GEMINI_ATTEMPTS) {
+        const delay = retryDelay(attempt, result.retryAfter);
+        logger.warn("Retrying hazard analysis", {
+          attempt,
+          delay,
+          reason: result.unavailable || result.invalid,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    if (result.unavailable) {
+      throw analysisUnavailable(
+          `Hazard analysis is unavailable (${result.unavailable})`);
+    }
+    throw analysisFailed(
+        `Gemini returned an invalid analysis: ${result.invalid}`);
+  };
+
+  return {analyzeHazard};
+}
+
+module.exports = {createGeminiAnalyzer};
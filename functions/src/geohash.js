@@ -0,0 +1,75 @@
+const ngeohash = require("ngeohash");
+
+// Full-precision geohash stored on every report (~5m cell)
+const GEOHASH_PRECISION = 9;
+
+// Partition key precision of the geohash index (~39km x 20km cell)
+const GEOHASH_CELL_PRECISION = 4;
+
+// Larger visible regions are clamped around their center so a query never
+// fans out to too many cells
+const MAX_QUERY_DELTA = 1;
+
+/**
+ * Compute the geohash attributes stored on a report.
+ * @param {number} latitude
+ * @param {number} longitude
+ * @return {{geohash: string, geohash_cell: string}}
+ */
+function geohashFields(latitude, longitude) {
+  const geohash = ngeohash.encode(latitude, longitude, GEOHASH_PRECISION);
+  return {
+    geohash,
+    geohash_cell: geohash.slice(0, GEOHASH_CELL_PRECISION),
+  };
+}
+
+/**
+ * Convert a map region (center plus deltas) into a bounding box.
+ * @param {Object} region {latitude, longitude, latitudeDelta, longitudeDelta}
+ * @return {Object} {minLatitude, maxLatitude, minLongitude, maxLongitude}
+ */
+function regionBounds({latitude, longitude, latitudeDelta, longitudeDelta}) {
+  const halfLat = Math.min(Math.abs(latitudeDelta), MAX_QUERY_DELTA) / 2;
+  const halfLng = Math.min(Math.abs(longitudeDelta), MAX_QUERY_DELTA) / 2;
+
+  return {
+    minLatitude: Math.max(-90, latitude - halfLat),
+    maxLatitude: Math.min(90, latitude + halfLat),
+    minLongitude: Math.max(-180, longitude - halfLng),
+    maxLongitude: Math.min(180, longitude + halfLng),
+  };
+}
+
+/**
+ * List the geohash index cells that cover a bounding box.
+ * @param {Object} bounds Output of regionBounds
+ * @return {string[]} Geohash cells at GEOHASH_CELL_PRECISION
+ */
+function cellsForBounds(bounds) {
+  return ngeohash.bboxes(
+      bounds.minLatitude, bounds.minLongitude,
+      bounds.maxLatitude, bounds.maxLongitude,
+      GEOHASH_CELL_PRECISION,
+  );
+}
+
+/**
+ * Check whether a point lies inside a bounding box.
+ * @param {Object} bounds Output of regionBounds
+ * @param {number} latitude
+ * @param {number} longitude
+ * @return {boolean}
+ */
+function inBounds(bounds, latitude, longitude) {
+  return latitude >= bounds.minLatitude && latitude <= bounds.maxLatitude &&
+    longitude >= bounds.minLongitude && longitude <= bounds.maxLongitude;
+}
+
+module.exports = {
+  MAX_QUERY_DELTA,
+  geohashFields,
+  regionBounds,
+  cellsForBounds,
+  inBounds,
+};
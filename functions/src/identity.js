@@ -0,0 +1,41 @@
+const {badRequest} = require("./errors");
+
+// Device IDs are hex strings; allow a little more for tools and tests
+const REPORTER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_DISPLAY_NAME_LENGTH = 40;
+
+/**
+ * Validate the anonymous reporter ID a device sends with its writes.
+ * @param {*} value Reporter ID from the request
+ * @param {string} name Field name used in the error message
+ * @return {string}
+ */
+function requireReporterId(value, name = "reporterId") {
+  if (typeof value !== "string" || !REPORTER_ID_PATTERN.test(value)) {
+    throw badRequest(`${name} must be a device reporter ID`);
+  }
+  return value;
+}
+
+/**
+ * Validate an optional reporter ID; older app versions don't send one.
+ * @param {*} value Reporter ID from the request
+ * @param {string} name Field name used in the error message
+ * @return {?string}
+ */
+function optionalReporterId(value, name = "reporterId") {
+  if (value === undefined || value === null || value === "") return null;
+  return requireReporterId(value, name);
+}
+
+/**
+ * Clean up an optional display name.
+ * @param {*} value Display name from the request
+ * @return {?string}
+ */
+function displayName(value) {
+  if (typeof value !== "string") return null;
+  return value.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || null;
+}
+
+module.exports = {requireReporterId, optionalReporterId, displayName};
@@ -0,0 +1,15 @@
+/**
+ * Random hex for ids, from the Web Crypto API rather than Node's crypto
+ * module: the app runs the in-memory store and the services it uses (see
+ * src/repository/localRepository.js) too, where only that one is there.
+ * @param {number} byteLength Random bytes; the hex is twice as long
+ * @return {string}
+ */
+function randomHex(byteLength) {
+  const bytes = new Uint8Array(byteLength);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+}
+
+module.exports = {randomHex};
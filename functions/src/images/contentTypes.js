@@ -0,0 +1,65 @@
+const {randomUUID} = require("crypto");
+const {badRequest, HttpError} = require("../errors");
+
+// Image types the app may upload, with their file extensions
+const EXTENSIONS = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "image/avif": "avif",
+};
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// How long a pre-signed upload URL stays valid
+const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * Check a declared upload against the allowed types and size limit.
+ * @param {string} contentType Declared MIME type
+ * @param {number} size Declared size in bytes
+ */
+function validateUpload(contentType, size) {
+  if (!EXTENSIONS[contentType]) {
+    throw badRequest(`Unsupported image type ${contentType}`);
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    throw badRequest("size must be a positive number of bytes");
+  }
+  if (size > MAX_IMAGE_BYTES) {
+    throw new HttpError(413,
+        `Images are limited to ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+  }
+}
+
+/**
+ * Build a unique storage key for a report image.
+ * @param {string} reportId
+ * @param {string} contentType MIME type of the image
+ * @return {string} Key under the report's prefix
+ */
+function imageKey(reportId, contentType) {
+  return `${reportId}/${randomUUID()}.${EXTENSIONS[contentType]}`;
+}
+
+/**
+ * The MIME type of a stored image, from its key's file extension.
+ * @param {string} key Storage key (see imageKey)
+ * @return {?string} MIME type, or null for an unknown extension
+ */
+function contentTypeOf(key) {
+  const extension = String(key).split(".").pop();
+  return Object.keys(EXTENSIONS)
+      .find((type) => EXTENSIONS[type] === extension) || null;
+}
+
+module.exports = {
+  EXTENSIONS,
+  MAX_IMAGE_BYTES,
+  UPLOAD_URL_TTL_SECONDS,
+  validateUpload,
+  imageKey,
+  contentTypeOf,
+};
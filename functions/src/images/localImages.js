@@ -0,0 +1,111 @@
+const fs = require("fs/promises");
+const os = require("os");
+const path = require("path");
+const {HttpError, badRequest, notFound} = require("../errors");
+const {
+  UPLOAD_URL_TTL_SECONDS,
+  validateUpload,
+  imageKey,
+  contentTypeOf,
+} = require("./contentTypes");
+
+const UPLOAD_DIR = path.join(os.tmpdir(), "flagit-uploads");
+
+/**
+ * Create an image store that keeps uploads on local disk and serves them
+ * back through the API. Used by the offline emulator; it enforces the same
+ * type and size rules a pre-signed S3 URL would.
+ * @return {Object} Image store
+ */
+function createLocalImageStore() {
+  const pendingUploads = new Map(); // key -> {contentType, size, expiresAt}
+
+  const fileFor = (key) => {
+    const file = path.resolve(UPLOAD_DIR, key);
+    if (!file.startsWith(UPLOAD_DIR + path.sep)) {
+      throw notFound("Image not found");
+    }
+    return file;
+  };
+
+  const imageUrl = (key, publicBaseUrl) => `${publicBaseUrl}/uploads/${key}`;
+
+  const createUploadTarget = async (params) => {
+    const {reportId, contentType, size, publicBaseUrl} = params;
+    validateUpload(contentType, size);
+    const key = imageKey(reportId, contentType);
+
+    pendingUploads.set(key, {
+      contentType,
+      size,
+      expiresAt: Date.now() + UPLOAD_URL_TTL_SECONDS * 1000,
+    });
+
+    return {
+      key,
+      uploadUrl: `${publicBaseUrl}/uploads/${key}`,
+      headers: {"Content-Type": contentType},
+      url: imageUrl(key, publicBaseUrl),
+    };
+  };
+
+  const receiveUpload = async (key, contentType, data) => {
+    const pending = pendingUploads.get(key);
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new HttpError(403, "Upload URL is invalid or expired");
+    }
+    if (contentType !== pending.contentType) {
+      throw badRequest(`Expected ${pending.contentType}, got ${contentType}`);
+    }
+    if (data.length !== pending.size) {
+      throw badRequest(`Expected ${pending.size} bytes, got ${data.length}`);
+    }
+
+    const file = fileFor(key);
+    await fs.mkdir(path.dirname(file), {recursive: true});
+    await fs.writeFile(file, data);
+    pendingUploads.delete(key);
+  };
+
+  const readImage = async (key) => {
+    try {
+      return await fs.readFile(fileFor(key));
+    } catch (error) {
+      throw notFound("Image not found");
+    }
+  };
+
+  // The image's bytes and type, for checking new reports on the server
+  const getImage = async (key) => ({
+    data: await readImage(key),
+    contentType: contentTypeOf(key),
+  });
+
+  // Delete every image under the report's prefix except the keys in keep
+  const deleteReportImages = async (reportId, keep = []) => {
+    const dir = path.dirname(fileFor(`${reportId}/image`));
+    let names;
+    try {
+      names = await fs.readdir(dir);
+    } catch (error) {
+      return 0;
+    }
+    const keys = names
+        .map((name) => `${reportId}/${name}`)
+        .filter((key) => !keep.includes(key));
+    await Promise.all(keys.map((key) => fs.rm(fileFor(key), {force: true})));
+    if (keys.length === names.length) await fs.rm(dir, {recursive: true});
+    return keys.length;
+  };
+
+  return {
+    createUploadTarget,
+    imageUrl,
+    receiveUpload,
+    readImage,
+    getImage,
+    deleteReportImages,
+  };
+}
+
+module.exports = {createLocalImageStore};
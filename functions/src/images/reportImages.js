@@ -0,0 +1,39 @@
+// Audit entries read when looking for the reports one was merged into
+const MAX_AUDIT_ENTRIES = 200;
+
+/**
+ * The storage key of an image from its URL: the report prefix and file name.
+ * @param {string} url Image URL
+ * @return {string}
+ */
+function imageKeyFromUrl(url) {
+  return String(url).split("/").slice(-2).join("/");
+}
+
+/**
+ * Delete a deleted report's images, everything under its `${reportId}/`
+ * prefix. A merge copies the duplicate's image URLs into the report it
+ * duplicates, so images that report still shows are kept.
+ * @param {Object} services
+ * @param {Object} services.store Report store
+ * @param {Object} services.images Image store
+ * @param {Object} report The report, as it was before it was deleted
+ * @return {Promise<number>} How many images were deleted
+ */
+async function removeReportImages({store, images}, report) {
+  const entries =
+    await store.getAuditLog({reportId: report.id, limit: MAX_AUDIT_ENTRIES});
+  const keep = [];
+  for (const entry of entries.filter((e) => e.action === "merge")) {
+    const into = await store.getReport(
+        entry.details.intoId, entry.details.intoTimestamp);
+    if (!into) continue;
+    into.images
+        .map(imageKeyFromUrl)
+        .filter((key) => key.startsWith(`${report.id}/`))
+        .forEach((key) => keep.push(key));
+  }
+  return images.deleteReportImages(report.id, keep);
+}
+
+module.exports = {imageKeyFromUrl, removeReportImages};
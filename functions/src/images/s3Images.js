@@ -0,0 +1,113 @@
+const {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} = require("@aws-sdk/client-s3");
+const {getSignedUrl} = require("@aws-sdk/s3-request-presigner");
+const logger = require("firebase-functions/logger");
+const {notFound} = require("../errors");
+const {
+  UPLOAD_URL_TTL_SECONDS,
+  validateUpload,
+  imageKey,
+} = require("./contentTypes");
+
+/**
+ * Create the S3-backed image store.
+ * @param {Object} options
+ * @param {string} options.region AWS region
+ * @param {Object} options.credentials {accessKeyId, secretAccessKey}
+ * @param {string} options.bucketName Bucket holding report images
+ * @return {Object} Image store
+ */
+function createS3ImageStore({region, credentials, bucketName}) {
+  const s3Client = new S3Client({
+    region,
+    credentials,
+    // Otherwise the presigned URL carries a checksum of an empty body
+    requestChecksumCalculation: "WHEN_REQUIRED",
+  });
+
+  const imageUrl = (key) =>
+    `https://${bucketName}.s3.${region}.amazonaws.com/${key}`;
+
+  // The client PUTs the file straight to S3. Content-Type and Content-Length
+  // are signed, so S3 rejects any other type or size than the one declared.
+  const createUploadTarget = async ({reportId, contentType, size}) => {
+    validateUpload(contentType, size);
+    const key = imageKey(reportId, contentType);
+
+    const uploadUrl = await getSignedUrl(s3Client, new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: size,
+    }), {
+      expiresIn: UPLOAD_URL_TTL_SECONDS,
+      signableHeaders: new Set(["content-type", "content-length"]),
+    });
+
+    logger.info("Issued S3 upload URL", {key, contentType, size});
+    return {
+      key,
+      uploadUrl,
+      headers: {"Content-Type": contentType},
+      url: imageUrl(key),
+    };
+  };
+
+  // The image's bytes and type, for checking new reports on the server
+  const getImage = async (key) => {
+    try {
+      const object = await s3Client.send(new GetObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      }));
+      return {
+        data: Buffer.from(await object.Body.transformToByteArray()),
+        contentType: object.ContentType || null,
+      };
+    } catch (error) {
+      if (error.name === "NoSuchKey") throw notFound("Image not found");
+      throw error;
+    }
+  };
+
+  // Delete every image under the report's prefix except the keys in keep
+  const deleteReportImages = async (reportId, keep = []) => {
+    let deleted = 0;
+    let continuationToken;
+    do {
+      const listed = await s3Client.send(new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: `${reportId}/`,
+        ContinuationToken: continuationToken,
+      }));
+      // A listing page holds at most 1000 keys, as many as one delete takes
+      const keys = (listed.Contents || [])
+          .map((object) => object.Key)
+          .filter((key) => !keep.includes(key));
+      if (keys.length) {
+        await s3Client.send(new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {Objects: keys.map((key) => ({Key: key})), Quiet: true},
+        }));
+        deleted += keys.length;
+      }
+      continuationToken = listed.NextContinuationToken;
+    } while (continuationToken);
+
+    logger.info("Deleted report images from S3", {
+      reportId,
+      deleted,
+      kept: keep.length,
+    });
+    return deleted;
+  };
+
+  return {createUploadTarget, imageUrl, getImage, deleteReportImages};
+}
+
+module.exports = {createS3ImageStore};
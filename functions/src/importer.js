@@ -0,0 +1,510 @@
+const {createHash} = require("crypto");
+const logger = require("firebase-functions/logger");
+const {badRequest} = require("./errors");
+const {buildStatusChange} = require("./status");
+const {CATEGORIES, TITLE_MAX_LENGTH} = require("./analysis");
+const {
+  MAX_REPORT_IMAGES,
+  MAX_DESCRIPTION_LENGTH,
+  toLocation,
+} = require("./reports");
+
+// Rows read from one file at most; split bigger datasets
+const MAX_IMPORT_ROWS = 5000;
+
+const MAX_SOURCE_LENGTH = 100;
+
+// changedBy of the status changes an import makes
+const IMPORTER_ID = "importer";
+
+// Statuses an imported hazard can start in, and the words open-data lists
+// commonly use for them
+const IMPORT_STATUSES = ["active", "acknowledged", "in_progress", "resolved"];
+const STATUS_ALIASES = {
+  open: "active",
+  new: "active",
+  closed: "resolved",
+  fixed: "resolved",
+  completed: "resolved",
+};
+
+// The dataset columns each report field is read from when the import
+// doesn't name one, compared ignoring case, spaces and underscores
+const DEFAULT_COLUMNS = {
+  id: ["id", "objectid", "recordid", "servicerequestid", "caseid"],
+  title: ["title", "name", "summary"],
+  description: ["description", "details", "notes", "comments"],
+  category: ["category", "type", "hazardtype", "servicename"],
+  status: ["status"],
+  timestamp: [
+    "timestamp", "date", "reportedat", "createdat", "requesteddatetime",
+    "opened",
+  ],
+  latitude: ["latitude", "lat", "y"],
+  longitude: ["longitude", "lon", "lng", "long", "x"],
+  images: ["images", "image", "imageurl", "mediaurl", "photo"],
+};
+
+const FORMATS = ["csv", "geojson"];
+
+const normalizeName = (name) =>
+  String(name).toLowerCase().replace(/[\s_]/g, "");
+
+const normalizeValue = (value) =>
+  String(value).trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+/**
+ * Split CSV text into rows of cells, following RFC 4180 quoting.
+ * @param {string} text CSV text
+ * @return {Array<Array<string>>} Rows, blank lines left out
+ */
+function parseCsvRows(text) {
+  const rows = [];
+  let row = [];
+  let cell = "";
+  let quoted = false;
+  const endCell = () => {
+    row.push(cell);
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        cell += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      endCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw badRequest("CSV has an unclosed quote");
+  if (cell !== "" || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Read a CSV file with a header row into records.
+ * @param {string} text CSV text
+ * @return {Object[]} {values} per data row, keyed by header
+ */
+function readCsv(text) {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) throw badRequest("CSV is empty");
+  return rows.map((cells) => ({
+    values: Object.fromEntries(header.map((name, i) => [name, cells[i]])),
+  }));
+}
+
+/**
+ * Read a GeoJSON FeatureCollection of points into records. A point's
+ * coordinates take the place of latitude and longitude columns.
+ * @param {string} text GeoJSON text
+ * @return {Object[]} {values, coordinates} per feature
+ */
+function readGeoJSON(text) {
+  let collection;
+  try {
+    collection = JSON.parse(text);
+  } catch (error) {
+    throw badRequest("GeoJSON is not valid JSON");
+  }
+  if (!collection || collection.type !== "FeatureCollection" ||
+      !Array.isArray(collection.features)) {
+    throw badRequest("GeoJSON must be a FeatureCollection");
+  }
+  return collection.features.map((feature) => {
+    const geometry = (feature && feature.geometry) || {};
+    return {
+      values: {
+        ...((feature && feature.properties) || {}),
+        ...(feature && feature.id !== undefined && {id: feature.id}),
+      },
+      coordinates: geometry.type === "Point" ? geometry.coordinates : null,
+      geometryType: geometry.type || null,
+    };
+  });
+}
+
+/**
+ * Pick the dataset column for each report field.
+ * @param {string[]} names Column names in the dataset
+ * @param {Object} columns Columns named by the import, by field
+ * @return {Object} Column name (or undefined) by field
+ */
+function resolveColumns(names, columns) {
+  return Object.fromEntries(Object.entries(DEFAULT_COLUMNS).map(
+      ([field, candidates]) => {
+        if (columns[field]) return [field, columns[field]];
+        const found = names.find((name) =>
+          candidates.includes(normalizeName(name)));
+        return [field, found];
+      }));
+}
+
+/**
+ * Map a dataset's category to one of ours.
+ * @param {*} value Dataset value
+ * @param {Object} categoryMap Dataset values to categories, from the import
+ * @return {string} Category
+ */
+function toCategory(value, categoryMap) {
+  if (value === undefined || value === null || value === "") return "other";
+  const mapped = categoryMap[value] ||
+    categoryMap[String(value).trim()] ||
+    normalizeValue(value);
+  if (!CATEGORIES.includes(mapped)) {
+    throw new Error(`Unknown category "${value}"; map it to one of ` +
+      CATEGORIES.join(", "));
+  }
+  return mapped;
+}
+
+/**
+ * Map a dataset's status to one an imported hazard can start in.
+ * @param {*} value Dataset value
+ * @return {string} Status
+ */
+function toStatus(value) {
+  if (value === undefined || value === null || value === "") return "active";
+  const normalized = normalizeValue(value);
+  const status = STATUS_ALIASES[normalized] || normalized;
+  if (!IMPORT_STATUSES.includes(status)) {
+    throw new Error(`Unknown status "${value}"; use one of ` +
+      IMPORT_STATUSES.join(", "));
+  }
+  return status;
+}
+
+/**
+ * Read image URLs from a list, or from text separated by spaces, commas,
+ * semicolons or bars.
+ * @param {*} value Dataset value
+ * @return {string[]} http(s) URLs
+ */
+function toImages(value) {
+  if (!value) return [];
+  const urls = Array.isArray(value) ?
+    value.map(String) :
+    String(value).split(/[\s,;|]+/);
+  return urls
+      .filter((url) => /^https?:\/\//.test(url))
+      .slice(0, MAX_REPORT_IMAGES);
+}
+
+/**
+ * Turn one dataset record into a report.
+ * @param {Object} record {values, coordinates} from readCsv or readGeoJSON
+ * @param {Object} columns Column name by field
+ * @param {Object} categoryMap Dataset values to categories
+ * @return {Object} Report, with the dataset's recordId
+ */
+function toImportedReport(record, columns, categoryMap) {
+  const value = (field) => columns[field] ?
+    record.values[columns[field]] :
+    undefined;
+
+  let location;
+  if (record.coordinates) {
+    // GeoJSON positions are [longitude, latitude]
+    location = toLocation(record.coordinates[1], record.coordinates[0]);
+  } else if (record.geometryType) {
+    throw new Error(`geometry must be a Point, not ${record.geometryType}`);
+  } else {
+    location = toLocation(value("latitude"), value("longitude"));
+  }
+  const {latitude, longitude} = location;
+
+  let timestamp = null;
+  if (value("timestamp")) {
+    const date = new Date(value("timestamp"));
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`"${value("timestamp")}" is not a date`);
+    }
+    timestamp = date.toISOString();
+  }
+
+  const category = toCategory(value("category"), categoryMap);
+  const title = String(value("title") || "").trim() ||
+    category.replace(/_/g, " ").replace(/^./, (c) => c.toUpperCase());
+  const id = value("id");
+
+  return {
+    // Without an id column, a record is known by where, when and what it is
+    recordId: id !== undefined && id !== null && id !== "" ?
+      String(id) :
+      `${latitude},${longitude},${timestamp || ""},${category}`,
+    title: title.slice(0, TITLE_MAX_LENGTH),
+    description: String(value("description") || "").trim()
+        .slice(0, MAX_DESCRIPTION_LENGTH),
+    category,
+    status: toStatus(value("status")),
+    timestamp,
+    latitude,
+    longitude,
+    images: toImages(value("images")),
+  };
+}
+
+/**
+ * The report id for a dataset record, the same on every import so that
+ * importing a dataset again updates its reports.
+ * @param {string} source Source name
+ * @param {string} recordId The record's id in the dataset
+ * @return {string}
+ */
+function importedReportId(source, recordId) {
+  return createHash("sha256")
+      .update(`${source}\n${recordId}`)
+      .digest("hex")
+      .slice(0, 32);
+}
+
+/**
+ * The status an existing report takes from the dataset: the dataset's, when
+ * the report can move to it without a moderator or its author. A report a
+ * moderator is holding back, or its author retracted, keeps its status.
+ * @param {Object} existing Report as stored
+ * @param {string} status Status mapped from the dataset
+ * @return {string}
+ */
+function importedStatus(existing, status) {
+  if (existing.status === status) return status;
+  try {
+    buildStatusChange(existing.status, {status, changedBy: IMPORTER_ID});
+    return status;
+  } catch (error) {
+    return existing.status;
+  }
+}
+
+/**
+ * The images an existing report keeps when its record is imported again:
+ * its own, which may include photos added by people confirming it or merged
+ * in by a moderator, and then the dataset's it doesn't have yet, as far as
+ * there is room.
+ * @param {string[]} existing The report's images
+ * @param {string[]} images Image URLs from the dataset
+ * @return {string[]}
+ */
+function importedImages(existing, images) {
+  return [...existing, ...images.filter((url) => !existing.includes(url))]
+      .slice(0, MAX_REPORT_IMAGES);
+}
+
+/**
+ * Whether an import would change an existing report.
+ * @param {Object} existing Report as stored
+ * @param {Object} report Report mapped from the dataset, with the status it
+ *   takes (see importedStatus)
+ * @return {boolean}
+ */
+function importChanges(existing, report) {
+  return [
+    "title", "description", "category", "status", "latitude", "longitude",
+  ].some((field) => existing[field] !== report[field]) ||
+    JSON.stringify(existing.images) !== JSON.stringify(report.images);
+}
+
+/**
+ * Check the import request's options.
+ * @param {Object} options Request body
+ * @return {Object} {format, content, source, columns, categoryMap, dryRun}
+ */
+function parseImportRequest({format, content, source, columns, categories,
+  dryRun}) {
+  if (!FORMATS.includes(format)) {
+    throw badRequest(`format must be one of ${FORMATS.join(", ")}`);
+  }
+  if (typeof content !== "string" || !content.trim()) {
+    throw badRequest("content must be the dataset's text");
+  }
+  const name = typeof source === "string" ? source.trim() : "";
+  if (!name || name.length > MAX_SOURCE_LENGTH) {
+    throw badRequest("source must name the dataset, in up to " +
+      `${MAX_SOURCE_LENGTH} characters`);
+  }
+  [["columns", columns], ["categories", categories]].forEach(
+      ([option, value]) => {
+        if (value !== undefined &&
+            (!value || typeof value !== "object" || Array.isArray(value))) {
+          throw badRequest(`${option} must map names to names`);
+        }
+      });
+  Object.keys(columns || {}).forEach((field) => {
+    if (!DEFAULT_COLUMNS[field]) {
+      throw badRequest(`Unknown field ${field} in columns; use ` +
+        Object.keys(DEFAULT_COLUMNS).join(", "));
+    }
+  });
+
+  return {
+    format,
+    content,
+    source: name,
+    columns: columns || {},
+    categoryMap: categories || {},
+    dryRun: dryRun === true,
+  };
+}
+
+/**
+ * Create the importer, which loads existing hazard datasets (a city's open
+ * data, say) as reports. Each report is tagged with the dataset it came from
+ * and keyed by its record there, so importing the same dataset again
+ * updates the reports instead of adding new ones. Every import that writes
+ * is recorded in the audit log.
+ * @param {Object} store Report store
+ * @return {{importReports: Function}} Importer
+ */
+function createImporter(store) {
+  // Create or update the report for one record, resolving to what was done
+  const importRecord = async ({reportId, report, tag, source, dryRun}) => {
+    const existing = await store.findReport(reportId);
+    if (!existing) {
+      if (!dryRun) {
+        await store.saveImportedReport({
+          report: {
+            ...report,
+            id: reportId,
+            timestamp: report.timestamp || tag.importedAt,
+          },
+          source: tag,
+        });
+      }
+      return "created";
+    }
+    // A moderator removed it; importing again doesn't bring it back
+    if (existing.status === "deleted") return "skipped";
+
+    const update = {
+      ...report,
+      category: existing.category,
+      images: importedImages(existing.images, report.images),
+      status: importedStatus(existing, report.status),
+    };
+    if (!importChanges(existing, update)) return "unchanged";
+    if (!dryRun) {
+      await store.updateImportedReport({
+        reportId,
+        timestamp: existing.timestamp,
+        report: update,
+        source: tag,
+      });
+      if (update.status !== existing.status) {
+        await store.updateStatus({
+          reportId,
+          timestamp: existing.timestamp,
+          status: update.status,
+          changedBy: IMPORTER_ID,
+          changedByName: source,
+          note: `Status in ${source}`,
+        });
+      }
+    }
+    return "updated";
+  };
+
+  // Records that fail checks are reported and left out; the rest are
+  // imported. With dryRun nothing is written, so the result shows what an
+  // import would do. moderator is who asked, for the logs.
+  const importReports = async (request, moderator) => {
+    const {format, content, source, columns, categoryMap, dryRun} =
+      parseImportRequest(request);
+    const records = format === "csv" ? readCsv(content) : readGeoJSON(content);
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw badRequest(`Imports are limited to ${MAX_IMPORT_ROWS} records`);
+    }
+    const fields = resolveColumns(
+        Array.from(new Set(records.flatMap((record) =>
+          Object.keys(record.values)))),
+        columns);
+
+    const importedAt = new Date().toISOString();
+    const seen = new Set();
+    const results = [];
+    for (const [index, record] of records.entries()) {
+      // Rows count from 1, after a CSV's header
+      const row = index + 1;
+      let recordId;
+      let report;
+      try {
+        ({recordId, ...report} =
+          toImportedReport(record, fields, categoryMap));
+        if (seen.has(recordId)) {
+          throw new Error(`Record ${recordId} appears twice`);
+        }
+      } catch (error) {
+        results.push({row, action: "failed", error: error.message});
+        continue;
+      }
+      seen.add(recordId);
+
+      const reportId = importedReportId(source, recordId);
+      const tag = {name: source, recordId, importedAt};
+      // A record that can't be written fails on its own, like one that
+      // fails the checks above
+      try {
+        const action =
+          await importRecord({reportId, report, tag, source, dryRun});
+        results.push({row, recordId, reportId, action});
+      } catch (error) {
+        logger.error("Import of record failed", {source, recordId, error});
+        results.push({
+          row,
+          recordId,
+          reportId,
+          action: "failed",
+          error: error.message,
+        });
+      }
+    }
+
+    const count = (action) =>
+      results.filter((result) => result.action === action).length;
+    const summary = {
+      source,
+      dryRun,
+      total: records.length,
+      created: count("created"),
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+    };
+    logger.info("Reports imported", {moderator, ...summary});
+    if (!dryRun) {
+      // eslint-disable-next-line no-unused-vars
+      const {dryRun: _dryRun, ...details} = summary;
+      await store.addAuditEntry({
+        action: "import",
+        moderator,
+        reportId: `import:${source}`,
+        reportTimestamp: importedAt,
+        details,
+      });
+    }
+    return {...summary, columns: fields, results};
+  };
+
+  return {importReports};
+}
+
+module.exports = {createImporter};
@@ -0,0 +1,217 @@
+const fs = require("fs");
+const {CATEGORIES} = require("./analysis");
+
+// How a jurisdiction wants to hear about reports, and the field naming
+// where each kind is sent
+const CONTACT_TYPES = {
+  webhook: "url",
+  email: "address",
+  open311: "endpoint",
+};
+
+/**
+ * Check one contact rule from the jurisdictions file.
+ * @param {*} rule Rule from the file
+ * @param {string} where Jurisdiction and category, for error messages
+ * @return {Object} The rule
+ */
+function checkContact(rule, where) {
+  const field = rule && CONTACT_TYPES[rule.type];
+  if (!field) {
+    throw new Error(`${where}: contact type must be one of ` +
+      Object.keys(CONTACT_TYPES).join(", "));
+  }
+  if (typeof rule[field] !== "string" || !rule[field]) {
+    throw new Error(`${where}: ${rule.type} contacts need a ${field}`);
+  }
+  if (rule.type !== "email" && !/^https?:\/\//.test(rule[field])) {
+    throw new Error(`${where}: ${rule[field]} is not an http(s) URL`);
+  }
+  if (rule.type === "open311") checkServiceCodes(rule, where);
+  return rule;
+}
+
+/**
+ * Check an open311 contact's service codes: serviceCodes maps categories to
+ * the city's codes, and serviceCode, if set, is used for the rest.
+ * @param {Object} rule open311 contact rule
+ * @param {string} where Jurisdiction and category, for error messages
+ */
+function checkServiceCodes(rule, where) {
+  const codes = rule.serviceCodes || {};
+  if (typeof codes !== "object" || Array.isArray(codes)) {
+    throw new Error(`${where}: serviceCodes must map categories to codes`);
+  }
+  Object.keys(codes).forEach((category) => {
+    if (!CATEGORIES.includes(category)) {
+      throw new Error(`${where}: unknown category ${category} in ` +
+        "serviceCodes");
+    }
+  });
+  if (!rule.serviceCode && !Object.keys(codes).length) {
+    throw new Error(`${where}: open311 contacts need a serviceCode or ` +
+      "serviceCodes");
+  }
+}
+
+/**
+ * The contact rule to use for a report in a category. An open311 contact
+ * gets the service code for the category, or is skipped when the city has
+ * none for it.
+ * @param {Object} rule Contact rule
+ * @param {string} category Report category
+ * @return {?Object}
+ */
+function ruleForCategory(rule, category) {
+  if (rule.type !== "open311") return rule;
+  const serviceCode =
+    (rule.serviceCodes || {})[category] || rule.serviceCode;
+  if (!serviceCode) return null;
+  return {
+    type: rule.type,
+    endpoint: rule.endpoint,
+    serviceCode,
+    apiKey: rule.apiKey || null,
+    jurisdictionId: rule.jurisdictionId || null,
+  };
+}
+
+/**
+ * Turn one GeoJSON feature into a jurisdiction.
+ * @param {Object} feature Feature with a Polygon or MultiPolygon geometry
+ * @param {number} index Position in the file, for error messages
+ * @return {Object} {id, name, polygons, contacts}
+ */
+function toJurisdiction(feature, index) {
+  const properties = (feature && feature.properties) || {};
+  const id = properties.id;
+  if (!id) throw new Error(`Jurisdiction ${index} has no id property`);
+
+  const geometry = feature.geometry || {};
+  let polygons;
+  if (geometry.type === "Polygon") {
+    polygons = [geometry.coordinates];
+  } else if (geometry.type === "MultiPolygon") {
+    polygons = geometry.coordinates;
+  } else {
+    throw new Error(
+        `Jurisdiction ${id}: geometry must be a Polygon or MultiPolygon`);
+  }
+
+  const contacts = {};
+  Object.entries(properties.contacts || {}).forEach(([category, rules]) => {
+    if (category !== "default" && !CATEGORIES.includes(category)) {
+      throw new Error(`Jurisdiction ${id}: unknown category ${category}`);
+    }
+    contacts[category] = (Array.isArray(rules) ? rules : [rules])
+        .map((rule) => checkContact(rule, `Jurisdiction ${id} ${category}`));
+  });
+
+  return {id, name: properties.name || id, polygons, contacts};
+}
+
+/**
+ * Read jurisdictions from a GeoJSON FeatureCollection. Each feature is one
+ * jurisdiction: its boundary, and in its properties an id, a name and the
+ * contacts for each category, with "default" for the others.
+ * @param {?string} file Path of the file, or none to route nowhere
+ * @return {Object[]} Jurisdictions, in file order
+ */
+function loadJurisdictions(file) {
+  if (!file) return [];
+  const collection = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!collection || collection.type !== "FeatureCollection") {
+    throw new Error(`${file} is not a GeoJSON FeatureCollection`);
+  }
+  return (collection.features || []).map(toJurisdiction);
+}
+
+/**
+ * Whether a point is inside a ring, by counting the edges a ray from the
+ * point crosses.
+ * @param {Array} ring [[longitude, latitude], ...]
+ * @param {number} latitude
+ * @param {number} longitude
+ * @return {boolean}
+ */
+function inRing(ring, latitude, longitude) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if ((latI > latitude) !== (latJ > latitude) &&
+        longitude < (lngJ - lngI) * (latitude - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point is inside a jurisdiction: in one of its polygons' outer
+ * rings and none of that polygon's holes.
+ * @param {Object} jurisdiction
+ * @param {number} latitude
+ * @param {number} longitude
+ * @return {boolean}
+ */
+function contains(jurisdiction, latitude, longitude) {
+  return jurisdiction.polygons.some(([outer, ...holes]) =>
+    inRing(outer, latitude, longitude) &&
+    !holes.some((hole) => inRing(hole, latitude, longitude)));
+}
+
+/**
+ * The jurisdiction a place belongs to. Where boundaries overlap the first
+ * in the file wins, so smaller areas go before the ones around them.
+ * @param {Object[]} jurisdictions
+ * @param {number} latitude
+ * @param {number} longitude
+ * @return {?Object}
+ */
+function findJurisdiction(jurisdictions, latitude, longitude) {
+  return jurisdictions.find((jurisdiction) =>
+    contains(jurisdiction, latitude, longitude)) || null;
+}
+
+/**
+ * Who a jurisdiction wants told about a report in a category. Each contact
+ * is known by the category list it is in and its place there, so a delivery
+ * can keep that instead of the rule and its secrets (see findContact).
+ * @param {Object} jurisdiction
+ * @param {string} category Report category
+ * @return {Object[]} [{contactId, rule}]
+ */
+function contactsFor(jurisdiction, category) {
+  const list = jurisdiction.contacts[category] ? category : "default";
+  return (jurisdiction.contacts[list] || [])
+      .map((rule, index) => ({
+        contactId: `${list}/${index}`,
+        rule: ruleForCategory(rule, category),
+      }))
+      .filter((contact) => contact.rule);
+}
+
+/**
+ * The contact rule a delivery is sent with, looked up when it is sent.
+ * @param {Object[]} jurisdictions
+ * @param {string} jurisdictionId Jurisdiction the report was routed to
+ * @param {string} contactId Contact, as given by contactsFor
+ * @param {string} category Report category
+ * @return {?Object} The rule, or null if the jurisdictions file no longer
+ *   has the contact
+ */
+function findContact(jurisdictions, jurisdictionId, contactId, category) {
+  const jurisdiction =
+    jurisdictions.find((candidate) => candidate.id === jurisdictionId);
+  const [list, index] = String(contactId).split("/");
+  const rule = jurisdiction && (jurisdiction.contacts[list] || [])[index];
+  return rule ? ruleForCategory(rule, category) : null;
+}
+
+module.exports = {
+  loadJurisdictions,
+  findJurisdiction,
+  contactsFor,
+  findContact,
+};
@@ -0,0 +1,359 @@
+const {badRequest, notFound} = require("./errors");
+const {CATEGORIES} = require("./analysis");
+const {MAX_REPORT_IMAGES} = require("./reports");
+const {isPublicReport} = require("./status");
+
+// Reports and comments with at least this many down votes, and more down
+// than up, are listed for moderators
+const DOWNVOTE_THRESHOLD = 5;
+
+// Statuses an approved report can come from
+const APPROVABLE_STATUSES = ["pending_review", "flagged", "rejected"];
+
+const MAX_NOTE_LENGTH = 500;
+
+// Audit log entries returned at most
+const MAX_AUDIT_ENTRIES = 200;
+
+// Recorded as changedBy on status changes made by moderators, with the
+// moderator's name as changedByName
+const MODERATOR_ID = "moderator";
+
+/**
+ * Whether something's votes mark it as likely abusive or wrong.
+ * @param {Object} counts {upvotes, downvotes}
+ * @param {number} threshold Down votes needed
+ * @return {boolean}
+ */
+function isHeavilyDownvoted({upvotes = 0, downvotes = 0}, threshold) {
+  return downvotes >= threshold && downvotes > upvotes;
+}
+
+/**
+ * Why a report is listed for moderators, leaving out its comments.
+ * @param {Object} report Report
+ * @param {number} threshold Down votes that list it
+ * @return {Array<string>} Reasons, empty if it isn't listed
+ */
+function reportReasons(report, threshold) {
+  const reasons = [];
+  if (report.status === "pending_review") reasons.push("pending_review");
+  if (report.status === "flagged") reasons.push("flagged");
+  if (isPublicReport(report) && isHeavilyDownvoted(report, threshold)) {
+    reasons.push("downvoted");
+  }
+  return reasons;
+}
+
+/**
+ * Why a comment is listed for moderators.
+ * @param {Object} comment Comment, with hidden set if flags hid it
+ * @param {number} threshold Down votes that list it
+ * @return {Array<string>} Reasons, empty if it isn't listed
+ */
+function commentReasons(comment, threshold) {
+  const reasons = [];
+  if (comment.hidden) reasons.push("flagged");
+  if (isHeavilyDownvoted(comment, threshold)) reasons.push("downvoted");
+  return reasons;
+}
+
+/**
+ * Whether a report or any of its comments belongs in the moderation queue.
+ * The DynamoDB store keys its review index on this.
+ * @param {Object} report Report with its hidden comments
+ * @param {number} threshold Down votes that list a report or comment
+ * @return {boolean}
+ */
+function needsModeration(report, threshold = DOWNVOTE_THRESHOLD) {
+  if (report.status === "deleted" || report.status === "merged") return false;
+  return reportReasons(report, threshold).length > 0 ||
+    report.comments.some(
+        (comment) => commentReasons(comment, threshold).length > 0);
+}
+
+/**
+ * Clean up a moderator's optional note on an action.
+ * @param {*} note Note from the request
+ * @return {?string}
+ */
+function moderatorNote(note) {
+  const trimmed = typeof note === "string" ? note.trim() : "";
+  if (trimmed.length > MAX_NOTE_LENGTH) {
+    throw badRequest(`Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * The status a flagged report had before flags hid it, to approve it back
+ * to. A report flagged while probably resolved goes back to active, as only
+ * votes can make it probably resolved again.
+ * @param {Object} report Flagged report
+ * @return {string}
+ */
+function statusBeforeFlagged(report) {
+  const flaggedAt = [...report.statusHistory]
+      .reverse()
+      .find((entry) => entry.to === "flagged");
+  const previous = flaggedAt && flaggedAt.from;
+  return previous && previous !== "probably_resolved" ? previous : "active";
+}
+
+/**
+ * Create the moderation service. Every action is written to the audit log
+ * after it succeeds.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {number} options.downvoteThreshold Down votes that put a report or
+ *   comment in the queue
+ * @return {Object} Moderation service
+ */
+function createModeration(store, {
+  downvoteThreshold = DOWNVOTE_THRESHOLD,
+} = {}) {
+  const requireReport = async (reportId, timestamp, options) => {
+    const report = await store.getReport(reportId, timestamp, options);
+    if (!report || report.status === "deleted") {
+      throw notFound(`Report ${reportId} not found`);
+    }
+    return report;
+  };
+
+  const audit = (action, moderator, report, fields = {}) =>
+    store.addAuditEntry({
+      action,
+      moderator,
+      reportId: report.id,
+      reportTimestamp: report.timestamp,
+      ...fields,
+    });
+
+  const changeStatus = (report, status, moderator, note) =>
+    store.updateStatus({
+      reportId: report.id,
+      timestamp: report.timestamp,
+      status,
+      changedBy: MODERATOR_ID,
+      changedByName: moderator,
+      note,
+      reviewed: true,
+    });
+
+  // Reports awaiting review, hidden by flags or heavily down voted, and
+  // comments hidden by flags or heavily down voted, each with the reasons it
+  // is listed and, when flagged, how many flags it had for each reason
+  const getQueue = async () => {
+    const reports = (await store.getReportsForReview())
+        .filter((report) => needsModeration(report, downvoteThreshold));
+    const queue = {reports: [], comments: []};
+    // Entries of flagged reports and comments, and what their flags are on
+    const flagged = [];
+    const flagTargets = [];
+
+    for (const report of reports) {
+      const reasons = reportReasons(report, downvoteThreshold);
+      if (reasons.length) {
+        const entry = {report, reasons, flags: {}};
+        queue.reports.push(entry);
+        if (report.status === "flagged") {
+          flagged.push(entry);
+          flagTargets.push({reportId: report.id, commentId: null});
+        }
+      }
+
+      for (const comment of report.comments) {
+        const reasons = commentReasons(comment, downvoteThreshold);
+        if (!reasons.length) continue;
+        const entry = {
+          reportId: report.id,
+          reportTimestamp: report.timestamp,
+          reportTitle: report.title,
+          comment,
+          reasons,
+          flags: {},
+        };
+        queue.comments.push(entry);
+        if (comment.hidden) {
+          flagged.push(entry);
+          flagTargets.push({reportId: report.id, commentId: comment.id});
+        }
+      }
+    }
+
+    const flags = await store.getFlagReasonsFor(flagTargets);
+    flagged.forEach((entry, i) => {
+      entry.flags = flags[i];
+    });
+
+    queue.reports.sort((a, b) => a.report.timestamp.localeCompare(
+        b.report.timestamp));
+    queue.comments.sort((a, b) => a.comment.timestamp.localeCompare(
+        b.comment.timestamp));
+    return queue;
+  };
+
+  const approve = async (params) => {
+    const {reportId, timestamp, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp);
+    if (!APPROVABLE_STATUSES.includes(report.status)) {
+      throw badRequest("Only reports awaiting review, hidden by flags or " +
+          "rejected can be approved");
+    }
+    const flagged = report.status === "flagged";
+    const updated = await changeStatus(report,
+        flagged ? statusBeforeFlagged(report) : "active", moderator, note);
+    if (flagged) await store.clearFlags({reportId, timestamp});
+    await audit("approve", moderator, report, {
+      note,
+      details: {from: report.status, to: updated.status},
+    });
+    return updated;
+  };
+
+  const reject = async (params) => {
+    const {reportId, timestamp, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp);
+    const updated = await changeStatus(report, "rejected", moderator, note);
+    await audit("reject", moderator, report, {
+      note,
+      details: {from: report.status, to: updated.status},
+    });
+    return updated;
+  };
+
+  // The duplicate's photos move to the report it duplicates, as far as that
+  // report has room, and the duplicate leaves the map
+  const merge = async (params) => {
+    const {reportId, timestamp, intoId, intoTimestamp, moderator} = params;
+    if (reportId === intoId) {
+      throw badRequest("A report can't be merged into itself");
+    }
+    const report = await requireReport(reportId, timestamp);
+    const into = await requireReport(intoId, intoTimestamp);
+    if (!isPublicReport(into)) {
+      throw badRequest(`Report ${intoId} is not on the map`);
+    }
+
+    const room = MAX_REPORT_IMAGES - into.images.length;
+    const images = report.images
+        .filter((url) => !into.images.includes(url))
+        .slice(0, Math.max(room, 0));
+    const updatedInto = images.length ?
+      await store.addImages({
+        reportId: intoId,
+        timestamp: intoTimestamp,
+        images,
+      }) :
+      into;
+
+    const note = moderatorNote(params.note) || `Duplicate of "${into.title}"`;
+    const updated = await changeStatus(report, "merged", moderator, note);
+    await audit("merge", moderator, report, {
+      note,
+      details: {
+        from: report.status,
+        intoId,
+        intoTimestamp,
+        imagesMoved: images.length,
+      },
+    });
+    return {report: updated, into: updatedInto};
+  };
+
+  // Any other status change, as the report's author could make it (see
+  // PUT /reports/:id/status)
+  const setStatus = async (params) => {
+    const {reportId, timestamp, status, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp);
+    const updated = await changeStatus(report, status, moderator, note);
+    await audit("change_status", moderator, report, {
+      note,
+      details: {from: report.status, to: updated.status},
+    });
+    return updated;
+  };
+
+  const editCategory = async (params) => {
+    const {reportId, timestamp, category, moderator} = params;
+    const note = moderatorNote(params.note);
+    if (!CATEGORIES.includes(category)) {
+      throw badRequest(`category must be one of ${CATEGORIES.join(", ")}`);
+    }
+    const report = await requireReport(reportId, timestamp);
+    const updated =
+      await store.updateCategory({reportId, timestamp, category});
+    await audit("edit_category", moderator, report, {
+      note,
+      details: {from: report.category, to: category},
+    });
+    return updated;
+  };
+
+  const deleteReport = async (params) => {
+    const {reportId, timestamp, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp);
+    await store.deleteReport({reportId, timestamp, deletedBy: moderator});
+    await audit("delete_report", moderator, report, {
+      note,
+      details: {title: report.title, status: report.status},
+    });
+    return report;
+  };
+
+  const deleteComment = async (params) => {
+    const {reportId, timestamp, commentId, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp);
+    const comment =
+      await store.removeComment({reportId, timestamp, commentId});
+    await audit("delete_comment", moderator, report, {
+      commentId,
+      note,
+      details: {text: comment.text, author: comment.author},
+    });
+    return comment;
+  };
+
+  // Put a comment hidden by flags back
+  const restoreComment = async (params) => {
+    const {reportId, timestamp, commentId, moderator} = params;
+    const note = moderatorNote(params.note);
+    const report = await requireReport(reportId, timestamp,
+        {withHiddenComments: true});
+    const comment = report.comments.find((c) => c.id === commentId);
+    if (!comment) throw notFound(`Comment ${commentId} not found`);
+    if (!comment.hidden) {
+      throw badRequest(`Comment ${commentId} is not hidden`);
+    }
+    await store.clearFlags({reportId, timestamp, commentId});
+    await audit("restore_comment", moderator, report, {
+      commentId,
+      note,
+      details: {text: comment.text, author: comment.author},
+    });
+    return {...comment, hidden: false, flags: 0};
+  };
+
+  const getAuditLog = ({reportId} = {}) =>
+    store.getAuditLog({reportId, limit: MAX_AUDIT_ENTRIES});
+
+  return {
+    getQueue,
+    approve,
+    reject,
+    merge,
+    setStatus,
+    editCategory,
+    deleteReport,
+    deleteComment,
+    restoreComment,
+    getAuditLog,
+  };
+}
+
+module.exports = {createModeration, needsModeration};
@@ -0,0 +1,54 @@
+const {createHash, timingSafeEqual} = require("crypto");
+
+/**
+ * Parse moderator keys from "name:key,name:key".
+ * @param {string} value Setting value
+ * @return {Object[]} [{name, key}]
+ */
+function parseModeratorKeys(value) {
+  return String(value || "")
+      .split(",")
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf(":");
+        return {
+          name: pair.slice(0, separator).trim(),
+          key: pair.slice(separator + 1).trim(),
+        };
+      })
+      .filter(({name, key}) => name && key);
+}
+
+/**
+ * Hash a key so keys of any length compare in constant time.
+ * @param {string} key Moderator key
+ * @return {Buffer}
+ */
+function digest(key) {
+  return createHash("sha256").update(key).digest();
+}
+
+/**
+ * Create the check for who has the moderator role. Each moderator has their
+ * own key, so the audit log records who did what.
+ * @param {string} keys Moderator keys as "name:key,name:key"
+ * @return {{authenticate: Function}} Moderators
+ */
+function createModerators(keys) {
+  const moderators = parseModeratorKeys(keys)
+      .map(({name, key}) => ({name, digest: digest(key)}));
+
+  // The moderator's name for a key, or null if it isn't a moderator key
+  const authenticate = (key) => {
+    if (typeof key !== "string" || !key) return null;
+    const given = digest(key);
+    const match = moderators.find((moderator) =>
+      timingSafeEqual(moderator.digest, given));
+    return match ? match.name : null;
+  };
+
+  return {authenticate};
+}
+
+module.exports = {createModerators};
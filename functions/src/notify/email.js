@@ -0,0 +1,84 @@
+const fs = require("fs/promises");
+const os = require("os");
+const path = require("path");
+const {randomBytes} = require("crypto");
+const logger = require("firebase-functions/logger");
+
+const OUTBOX_DIR = path.join(os.tmpdir(), "flagit-outbox");
+
+/**
+ * Write the email for a report notification.
+ * @param {Object} notification {report, jurisdiction}
+ * @return {{subject: string, text: string}}
+ */
+function formatEmail({report, jurisdiction}) {
+  const category = report.category.replace(/_/g, " ");
+  const lines = [
+    `A ${category} was reported in ${jurisdiction.name} on FlagIt.`,
+    "",
+    report.title,
+    report.description,
+    "",
+    `Location: ${report.latitude}, ${report.longitude}`,
+    "https://www.google.com/maps/search/?api=1&query=" +
+      `${report.latitude},${report.longitude}`,
+    `Reported: ${report.timestamp}`,
+    `Report ID: ${report.id}`,
+  ];
+  if (report.images.length) {
+    lines.push("", "Photos:", ...report.images);
+  }
+  return {
+    subject: `FlagIt: ${category} reported - ${report.title}`,
+    text: lines.filter((line) => line !== undefined).join("\n"),
+  };
+}
+
+/**
+ * Create the email sender used offline, which writes each email as a JSON
+ * file to a local outbox instead of sending it.
+ * @param {Object} options
+ * @param {string} options.outboxDir Directory the emails are written to
+ * @return {{send: Function}} Sender
+ */
+function createOutboxEmailSender({outboxDir = OUTBOX_DIR} = {}) {
+  const send = async (rule, notification) => {
+    await fs.mkdir(outboxDir, {recursive: true});
+    const file = path.join(outboxDir,
+        `${Date.now()}-${randomBytes(4).toString("hex")}.json`);
+    const email = {to: rule.address, ...formatEmail(notification)};
+    await fs.writeFile(file, JSON.stringify(email, null, 2));
+    logger.info("Email written to the outbox", {to: rule.address, file});
+  };
+
+  return {send};
+}
+
+/**
+ * Create the email sender that queues emails in a Firestore collection
+ * watched by the Trigger Email extension, which sends them. An email counts
+ * as delivered once it is queued.
+ * @param {Object} options
+ * @param {string} options.collection Collection the extension watches
+ * @return {{send: Function}} Sender
+ */
+function createFirestoreEmailSender({collection = "mail"} = {}) {
+  // Loaded on first use so the offline emulator never needs Firestore
+  const mailCollection = () => {
+    const {getApps, initializeApp} = require("firebase-admin/app");
+    const {getFirestore} = require("firebase-admin/firestore");
+    if (!getApps().length) initializeApp();
+    return getFirestore().collection(collection);
+  };
+
+  const send = async (rule, notification) => {
+    await mailCollection().add({
+      to: rule.address,
+      message: formatEmail(notification),
+    });
+  };
+
+  return {send};
+}
+
+module.exports = {createOutboxEmailSender, createFirestoreEmailSender};
@@ -0,0 +1,102 @@
+// An Open311 server gets this long to answer before the request counts as
+// failed
+const OPEN311_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Create a GeoReport v2 client. Every call takes the jurisdiction's open311
+ * contact rule: {endpoint, serviceCode, apiKey, jurisdictionId}.
+ * @param {Object} options
+ * @param {number} options.timeoutMs How long to wait for an answer
+ * @return {Object} {submitRequest, lookupToken, getRequest}
+ */
+function createOpen311Client({timeoutMs = OPEN311_TIMEOUT_MS} = {}) {
+  const url = (rule, path, query = {}) => {
+    const params = new URLSearchParams(query);
+    if (rule.jurisdictionId) params.set("jurisdiction_id", rule.jurisdictionId);
+    const search = params.toString();
+    return `${rule.endpoint.replace(/\/+$/, "")}/${path}` +
+      (search ? `?${search}` : "");
+  };
+
+  // GeoReport v2 answers with a list, and errors with [{code, description}]
+  const request = async (target, init = {}) => {
+    const resp = await fetch(target, {
+      ...init,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!resp.ok) {
+      const text = await resp.text();
+      throw new Error(`Open311 answered ${resp.status}: ${text.slice(0, 200)}`);
+    }
+    const body = await resp.json();
+    return Array.isArray(body) ? body : [body];
+  };
+
+  // The server answers with the new service_request_id, or with a token to
+  // look it up by later when it doesn't assign one straight away
+  const submitRequest = async (rule, report) => {
+    const form = new URLSearchParams({
+      service_code: rule.serviceCode,
+      lat: String(report.latitude),
+      long: String(report.longitude),
+      description: [report.title, report.description]
+          .filter(Boolean)
+          .join("\n\n"),
+    });
+    if (report.images.length) form.set("media_url", report.images[0]);
+    if (rule.apiKey) form.set("api_key", rule.apiKey);
+    if (rule.jurisdictionId) form.set("jurisdiction_id", rule.jurisdictionId);
+
+    const [created] = await request(url(rule, "requests.json"), {
+      method: "POST",
+      headers: {"content-type": "application/x-www-form-urlencoded"},
+      body: form.toString(),
+    });
+    if (!created || (!created.service_request_id && !created.token)) {
+      throw new Error("Open311 answered without a service_request_id");
+    }
+    return {
+      serviceRequestId: created.service_request_id ?
+        String(created.service_request_id) :
+        null,
+      token: created.token ? String(created.token) : null,
+    };
+  };
+
+  // Resolves to null while the server has not assigned an id yet
+  const lookupToken = async (rule, token) => {
+    const [found] = await request(
+        url(rule, `tokens/${encodeURIComponent(token)}.json`));
+    return found && found.service_request_id ?
+      String(found.service_request_id) :
+      null;
+  };
+
+  const getRequest = async (rule, serviceRequestId) => {
+    const [found] = await request(url(rule,
+        `requests/${encodeURIComponent(serviceRequestId)}.json`));
+    if (!found) throw new Error(`Open311 has no request ${serviceRequestId}`);
+    return {
+      status: found.status,
+      statusNotes: found.status_notes || null,
+      updatedAt: found.updated_datetime || null,
+    };
+  };
+
+  return {submitRequest, lookupToken, getRequest};
+}
+
+/**
+ * Create the sender that files notifications as GeoReport v2 service
+ * requests under the service code for the report's category.
+ * @param {Object} options
+ * @param {Object} options.client Open311 client
+ * @return {{send: Function}} Sender
+ */
+function createOpen311Sender({client = createOpen311Client()} = {}) {
+  const send = (rule, {report}) => client.submitRequest(rule, report);
+
+  return {send};
+}
+
+module.exports = {createOpen311Client, createOpen311Sender};
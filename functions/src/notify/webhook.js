@@ -0,0 +1,27 @@
+// A webhook gets this long to answer before the delivery counts as failed
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Create the sender that POSTs notifications as JSON to a jurisdiction's
+ * webhook. Any 2xx answer counts as delivered.
+ * @param {Object} options
+ * @param {number} options.timeoutMs How long to wait for an answer
+ * @return {{send: Function}} Sender
+ */
+function createWebhookSender({timeoutMs = WEBHOOK_TIMEOUT_MS} = {}) {
+  const send = async (rule, notification) => {
+    const resp = await fetch(rule.url, {
+      method: "POST",
+      headers: {"content-type": "application/json"},
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!resp.ok) {
+      throw new Error(`Webhook answered ${resp.status}`);
+    }
+  };
+
+  return {send};
+}
+
+module.exports = {createWebhookSender};
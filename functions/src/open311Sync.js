@@ -0,0 +1,128 @@
+const logger = require("firebase-functions/logger");
+const {isPublicReport} = require("./status");
+const {isTrackedDelivery} = require("./reports");
+const {findContact} = require("./jurisdictions");
+
+// Recorded as the author of status changes a city makes through Open311,
+// with the jurisdiction's name as changedByName
+const OPEN311_ID = "open311";
+
+// Status notes are cut to fit a status change note
+const MAX_NOTE_LENGTH = 500;
+
+// The FlagIt status for each GeoReport v2 request status, and the statuses
+// a report can reach it from. A city's update never moves a report back:
+// an open request only acknowledges an active report.
+const STATUS_UPDATES = {
+  open: {status: "acknowledged", from: ["active"]},
+  closed: {
+    status: "resolved",
+    from: ["active", "acknowledged", "in_progress", "probably_resolved"],
+  },
+};
+
+/**
+ * Create the Open311 sync, which follows the service requests reports were
+ * filed as and moves each report along as the city works on its request.
+ * @param {Object} store Report store
+ * @param {Object} options
+ * @param {Object} options.client Open311 client (see notify/open311.js)
+ * @param {Object[]} options.jurisdictions Jurisdictions the reports were
+ *   routed with, for the contacts' endpoints and keys
+ * @return {{sync: Function}} Open311 sync
+ */
+function createOpen311Sync(store, {client, jurisdictions = []}) {
+  // A request filed with a token gets its id once the city assigns one. A
+  // contact no longer in the jurisdictions file isn't followed any more.
+  const refresh = async (report, dispatch, delivery) => {
+    const rule = findContact(jurisdictions, dispatch.jurisdictionId,
+        delivery.contactId, report.category);
+    if (!rule || rule.type !== "open311") return delivery;
+
+    const serviceRequestId = delivery.serviceRequestId ||
+      await client.lookupToken(rule, delivery.token);
+    if (!serviceRequestId) return delivery;
+
+    const request = await client.getRequest(rule, serviceRequestId);
+    return {
+      ...delivery,
+      serviceRequestId,
+      serviceStatus: request.status,
+      serviceStatusNotes: request.statusNotes,
+      serviceUpdatedAt: request.updatedAt,
+    };
+  };
+
+  const applyStatus = async (report, dispatch, delivery) => {
+    const update = STATUS_UPDATES[delivery.serviceStatus];
+    if (!update || !isPublicReport(report) ||
+        !update.from.includes(report.status)) {
+      return report;
+    }
+
+    logger.info("Open311 changed report status", {
+      reportId: report.id,
+      serviceRequestId: delivery.serviceRequestId,
+      from: report.status,
+      to: update.status,
+    });
+    const note = delivery.serviceStatusNotes ||
+      `City request ${delivery.serviceRequestId} is ${delivery.serviceStatus}`;
+    return store.updateStatus({
+      reportId: report.id,
+      timestamp: report.timestamp,
+      status: update.status,
+      changedBy: OPEN311_ID,
+      changedByName: dispatch.jurisdictionName,
+      note: note.slice(0, MAX_NOTE_LENGTH),
+      snapshot: {
+        serviceRequestId: delivery.serviceRequestId,
+        serviceStatus: delivery.serviceStatus,
+      },
+    });
+  };
+
+  // Run on a schedule. The report's status is changed before the new
+  // request state is saved, so a failed change is tried again next time.
+  const sync = async () => {
+    const tracked = await store.getTrackedDispatches();
+    const result = {checked: tracked.length, updated: 0};
+
+    for (const {report, dispatch} of tracked) {
+      try {
+        const deliveries = await Promise.all(dispatch.deliveries.map(
+            (delivery) => isTrackedDelivery(delivery) ?
+              refresh(report, dispatch, delivery) :
+              delivery));
+        if (JSON.stringify(deliveries) ===
+            JSON.stringify(dispatch.deliveries)) {
+          continue;
+        }
+
+        let current = report;
+        for (const [index, delivery] of deliveries.entries()) {
+          if (delivery.serviceStatus !==
+              dispatch.deliveries[index].serviceStatus) {
+            current = await applyStatus(current, dispatch, delivery);
+          }
+        }
+        await store.updateDispatch({
+          reportId: report.id,
+          timestamp: report.timestamp,
+          dispatch: {...dispatch, deliveries},
+        });
+        result.updated++;
+      } catch (error) {
+        logger.error("Open311 sync failed", {reportId: report.id, error});
+      }
+    }
+    return result;
+  };
+
+  return {sync};
+}
+
+module.exports = {
+  OPEN311_ID,
+  createOpen311Sync,
+};
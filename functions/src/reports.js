@@ -0,0 +1,554 @@
+const {badRequest} = require("./errors");
+const {randomHex} = require("./ids");
+const {geohashFields} = require("./geohash");
+const {changeFields} = require("./sync");
+const {optionalReporterId, displayName} = require("./identity");
+const {
+  isPublicReport,
+  initialStatusEntry,
+  publicStatusChange,
+} = require("./status");
+const {CATEGORIES} = require("./analysis");
+const {FLAG_TARGET_PREFIX} = require("./flags");
+
+const MAX_COMMENT_LENGTH = 500;
+
+// Confirmations add their photos to the original report up to this many
+const MAX_REPORT_IMAGES = 20;
+
+const MAX_JUSTIFICATION_LENGTH = 500;
+
+// Report ids also prefix the report's image keys
+const REPORT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Longest title and description a report can have
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// The hazard check's reasons kept with a report sent for review
+const MAX_AI_REASONS = 10;
+const MAX_AI_REASON_LENGTH = 300;
+
+/**
+ * Build the review request of a report the hazard check rejected and the
+ * reporter asked a moderator to look at.
+ * @param {Object} review {aiReasons, justification} as sent by the app
+ * @param {string} requestedAt Report timestamp
+ * @return {Object} Stored review request
+ */
+function buildReviewRequest(review, requestedAt) {
+  const justification = typeof review.justification === "string" ?
+    review.justification.trim() : "";
+  if (!justification) {
+    throw badRequest("review justification is required");
+  }
+  if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+    throw badRequest("Justifications are limited to " +
+      `${MAX_JUSTIFICATION_LENGTH} characters`);
+  }
+  if (review.aiReasons !== undefined && !Array.isArray(review.aiReasons)) {
+    throw badRequest("review aiReasons must be a list");
+  }
+
+  return {
+    aiReasons: (review.aiReasons || [])
+        .slice(0, MAX_AI_REASONS)
+        .map((reason) => String(reason).slice(0, MAX_AI_REASON_LENGTH)),
+    justification,
+    requestedAt,
+  };
+}
+
+/**
+ * Build the review request of a report the server's hazard check didn't
+ * pass (see screening.js) when the reporter hadn't asked for one. It has no
+ * justification; the moderator goes by the check's reasons.
+ * @param {Object} screening {valid, reasons}
+ * @param {string} requestedAt Report timestamp
+ * @return {Object} Stored review request
+ */
+function screeningReview(screening, requestedAt) {
+  return {
+    aiReasons: screening.reasons
+        .slice(0, MAX_AI_REASONS)
+        .map((reason) => String(reason).slice(0, MAX_AI_REASON_LENGTH)),
+    justification: null,
+    requestedAt,
+  };
+}
+
+/**
+ * Read a coordinate, checking it is a number in range.
+ * @param {*} value Value from the request or dataset
+ * @param {string} name latitude or longitude
+ * @param {number} limit 90 or 180
+ * @return {number}
+ */
+function toCoordinate(value, name, limit) {
+  const number = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || value === "" ||
+      !Number.isFinite(number)) {
+    throw badRequest(`${name} must be a number`);
+  }
+  if (Math.abs(number) > limit) {
+    throw badRequest(`${name} must be between -${limit} and ${limit}`);
+  }
+  return number;
+}
+
+/**
+ * Read a report's location. 0, 0 is where a missing location ends up, so it
+ * is refused.
+ * @param {*} latitude Value from the request or dataset
+ * @param {*} longitude Value from the request or dataset
+ * @return {Object} {latitude, longitude}
+ */
+function toLocation(latitude, longitude) {
+  const location = {
+    latitude: toCoordinate(latitude, "latitude", 90),
+    longitude: toCoordinate(longitude, "longitude", 180),
+  };
+  if (location.latitude === 0 && location.longitude === 0) {
+    throw badRequest("latitude and longitude are both 0");
+  }
+  return location;
+}
+
+/**
+ * Check a report id from a request. Ids start the keys of the report's
+ * images (see images/contentTypes.js), so they are limited to characters
+ * safe there. They also key votes in the table flags share, so they have no
+ * # and can't be the flags' prefix: a report named that would have its
+ * comment votes keyed like another report's flags.
+ * @param {*} id Value from the request
+ * @param {string} field Name of the field, for the error
+ * @return {string}
+ */
+function toReportId(id, field = "report id") {
+  if (typeof id !== "string" || !REPORT_ID_PATTERN.test(id)) {
+    throw badRequest(`${field} must be letters, digits, - or _`);
+  }
+  if (id === FLAG_TARGET_PREFIX) {
+    throw badRequest(`${field} "${id}" is reserved`);
+  }
+  return id;
+}
+
+/**
+ * Check a report's category, "other" when none is given.
+ * @param {*} category Value from the request
+ * @return {string}
+ */
+function toCategory(category) {
+  if (category === undefined || category === null || category === "") {
+    return "other";
+  }
+  if (!CATEGORIES.includes(category)) {
+    throw badRequest(`category must be one of ${CATEGORIES.join(", ")}`);
+  }
+  return category;
+}
+
+/**
+ * Check and trim a report's title.
+ * @param {*} title Value from the request
+ * @return {string}
+ */
+function toTitle(title) {
+  const trimmed = typeof title === "string" ? title.trim() : "";
+  if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+    throw badRequest(`title must be 1 to ${MAX_TITLE_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Check and trim a report's description, which may be empty.
+ * @param {*} description Value from the request
+ * @return {string}
+ */
+function toDescription(description) {
+  if (description === undefined || description === null) return "";
+  if (typeof description !== "string") {
+    throw badRequest("description must be text");
+  }
+  const trimmed = description.trim();
+  if (trimmed.length > MAX_DESCRIPTION_LENGTH) {
+    throw badRequest("Descriptions are limited to " +
+      `${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Build the stored item for a new report. Its image URLs are checked by the
+ * API before it gets here (see reportImageUrls in app.js).
+ * @param {Object} report Report as sent by the app
+ * @param {Object} options
+ * @param {?string} options.editTokenHash Hash of the token its author
+ *   changes it with (see authoring.js); imported reports have none
+ * @param {?Object} options.screening The server's hazard check of a report
+ *   from the app, {valid, reasons}; one that didn't pass waits for review
+ * @return {Object} Item in the Hazard_flags table format
+ */
+function buildReportItem(report, {
+  editTokenHash = null,
+  screening = null,
+} = {}) {
+  if (!report || !report.id || !report.timestamp) {
+    throw badRequest("report id and timestamp are required");
+  }
+  toReportId(report.id);
+  if (typeof report.timestamp !== "string" ||
+      Number.isNaN(Date.parse(report.timestamp))) {
+    throw badRequest("report timestamp must be an ISO date");
+  }
+  const {latitude, longitude} = toLocation(report.latitude, report.longitude);
+  if (report.images !== undefined && !Array.isArray(report.images)) {
+    throw badRequest("images must be a list of URLs");
+  }
+  if ((report.images || []).length > MAX_REPORT_IMAGES) {
+    throw badRequest(`Reports are limited to ${MAX_REPORT_IMAGES} images`);
+  }
+
+  const reporterId = optionalReporterId(report.reporterId);
+  const reporterName = displayName(report.reporterName);
+  let review = null;
+  if (report.review) {
+    review = buildReviewRequest(report.review, report.timestamp);
+  } else if (screening && !screening.valid) {
+    review = screeningReview(screening, report.timestamp);
+  }
+  const status = review ? "pending_review" : "active";
+
+  return {
+    Hazard_id: report.id, // Partition key
+    time: report.timestamp, // Sort key
+    title: toTitle(report.title),
+    description: toDescription(report.description),
+    images: report.images || [],
+    latitude,
+    longitude,
+    ...geohashFields(latitude, longitude),
+    category: toCategory(report.category),
+    reporter_id: reporterId,
+    reporter_name: reporterName,
+    edit_token_hash: editTokenHash,
+    // active, acknowledged, in_progress, resolved, false_report, or
+    // pending_review and rejected for reports a moderator has to review
+    status,
+    status_history: [
+      initialStatusEntry(report.timestamp, reporterId, reporterName, status),
+    ],
+    review,
+    upvotes: 0,
+    downvotes: 0,
+    comments: [],
+    ...changeFields(),
+  };
+}
+
+/**
+ * The fields an import sets on a report, on both its first import and when
+ * a later import of the same record updates it. Votes, comments and status
+ * are the app's from then on, and so is the category, which moderators may
+ * correct after the first import. The importer works out the images: on an
+ * update, the dataset's photos are added to the ones the report has.
+ * @param {Object} report Report mapped from the dataset (see importer.js)
+ * @param {Object} source {name, recordId, importedAt}
+ * @return {Object} Attributes in the Hazard_flags table format
+ */
+function importedFields(report, source) {
+  return {
+    title: report.title,
+    description: report.description,
+    images: report.images,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    ...geohashFields(report.latitude, report.longitude),
+    source,
+  };
+}
+
+/**
+ * Build the stored item for a report imported from a dataset. It starts in
+ * the dataset's status, with the source as the first status change's author.
+ * @param {Object} report Report mapped from the dataset (see importer.js)
+ * @param {Object} source {name, recordId, importedAt}
+ * @return {Object} Item in the Hazard_flags table format
+ */
+function buildImportedItem(report, source) {
+  const item = buildReportItem(report);
+  return {
+    ...item,
+    ...importedFields(report, source),
+    status: report.status,
+    status_history: [
+      initialStatusEntry(item.time, null, source.name, report.status),
+    ],
+  };
+}
+
+/**
+ * Build the stub left in place of a deleted report. It keeps the keys,
+ * location and change fields so the change feed tells apps to drop it.
+ * @param {Object} item Item in the Hazard_flags table format
+ * @param {Object} deletion
+ * @param {?string} deletion.deletedBy Who deleted it
+ * @return {Object} Item in the Hazard_flags table format
+ */
+function buildDeletedItem(item, {deletedBy}) {
+  const deletedAt = new Date().toISOString();
+  return {
+    Hazard_id: item.Hazard_id,
+    time: item.time,
+    latitude: item.latitude,
+    longitude: item.longitude,
+    ...geohashFields(item.latitude, item.longitude),
+    status: "deleted",
+    deleted_at: deletedAt,
+    deleted_by: deletedBy || null,
+    images: [],
+    comments: [],
+    ...changeFields(new Date(deletedAt)),
+  };
+}
+
+/**
+ * Comments that have not been removed by a moderator, including ones hidden
+ * by flags until a moderator reviews them.
+ * @param {Object[]} comments Stored comments
+ * @return {Object[]}
+ */
+function existingComments(comments) {
+  return (comments || []).filter((comment) => !comment.removed);
+}
+
+/**
+ * Comments everyone can see: not removed, and not hidden by flags.
+ * @param {Object[]} comments Stored comments
+ * @return {Object[]}
+ */
+function visibleComments(comments) {
+  return existingComments(comments).filter((comment) => !comment.hidden);
+}
+
+/**
+ * The earliest time a report's pending deliveries are due, kept on the
+ * stored report so the retry sweep can find it.
+ * @param {Object} dispatch Stored dispatch
+ * @return {?string} ISO time, or null when nothing is pending
+ */
+function dispatchDueAt(dispatch) {
+  const due = dispatch.deliveries
+      .filter((delivery) => delivery.status === "pending")
+      .map((delivery) => delivery.nextAttemptAt)
+      .sort();
+  return due.length ? due[0] : null;
+}
+
+/**
+ * Whether a delivery is still followed up: an Open311 service request the
+ * city has not closed yet (see open311Sync.js).
+ * @param {Object} delivery Stored delivery
+ * @return {boolean}
+ */
+function isTrackedDelivery(delivery) {
+  return delivery.type === "open311" &&
+    delivery.status === "delivered" &&
+    delivery.serviceStatus !== "closed";
+}
+
+/**
+ * Whether any of a report's deliveries is still followed up, kept on the
+ * stored report so the Open311 sync can find it.
+ * @param {Object} dispatch Stored dispatch
+ * @return {boolean}
+ */
+function isTrackedDispatch(dispatch) {
+  return dispatch.deliveries.some(isTrackedDelivery);
+}
+
+/**
+ * What apps see of where a report was sent: the jurisdiction and how each
+ * delivery is going, without the contacts' addresses or error details.
+ * @param {?Object} dispatch Stored dispatch (see dispatch.js)
+ * @return {?Object}
+ */
+function toDispatch(dispatch) {
+  if (!dispatch) return null;
+  return {
+    jurisdictionId: dispatch.jurisdictionId,
+    jurisdictionName: dispatch.jurisdictionName,
+    routedAt: dispatch.routedAt,
+    deliveries: dispatch.deliveries.map((delivery) => ({
+      id: delivery.id,
+      type: delivery.type,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      lastAttemptAt: delivery.lastAttemptAt,
+      nextAttemptAt: delivery.nextAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      // Open311 only: the city's request id and whether it is open or closed
+      serviceRequestId: delivery.serviceRequestId || null,
+      serviceStatus: delivery.serviceStatus || null,
+    })),
+  };
+}
+
+/**
+ * Transform a stored item to match the app format.
+ * @param {Object} item Item in the Hazard_flags table format
+ * @param {Object} options
+ * @param {boolean} options.withHiddenComments Include comments hidden by
+ *   flags, marked hidden, for moderators
+ * @return {Object} Report
+ */
+function toReport(item, {withHiddenComments = false} = {}) {
+  return {
+    id: item.Hazard_id,
+    title: item.title,
+    description: item.description,
+    images: item.images || [],
+    latitude: item.latitude,
+    longitude: item.longitude,
+    timestamp: item.time,
+    category: item.category,
+    upvotes: item.upvotes || 0,
+    downvotes: item.downvotes || 0,
+    comments: withHiddenComments ?
+      existingComments(item.comments) :
+      visibleComments(item.comments),
+    status: item.status || "active",
+    statusHistory: item.status_history || [],
+    // Changes the author made after submitting it, oldest first
+    editHistory: item.edit_history || [],
+    reporterId: item.reporter_id || null,
+    reporterName: item.reporter_name || null,
+    // Server only, like reporterId
+    editTokenHash: item.edit_token_hash || null,
+    review: item.review || null,
+    dispatch: toDispatch(item.dispatch),
+    // Reports imported from a dataset: {name, recordId, importedAt}
+    source: item.source || null,
+    updatedAt: item.updated_at || item.time,
+  };
+}
+
+/**
+ * A comment as everyone sees it. Reporter IDs are what votes, comments and
+ * flags are made with, so the author's stays on the server; the viewer's own
+ * comments are marked own instead.
+ * @param {Object} comment Stored comment
+ * @param {?string} viewerId Reporter ID of the device asking, if known
+ * @return {Object}
+ */
+function toPublicComment(comment, viewerId = null) {
+  const {authorId, ...visible} = comment;
+  return {...visible, own: Boolean(viewerId && authorId === viewerId)};
+}
+
+/**
+ * A report as everyone sees it, without the reporter IDs of its author and
+ * of who changed its status or commented. The viewer's own report and
+ * comments are marked own.
+ * @param {Object} report Report (see toReport)
+ * @param {?string} viewerId Reporter ID of the device asking, if known
+ * @return {Object}
+ */
+function toPublicReport(report, viewerId = null) {
+  // eslint-disable-next-line no-unused-vars
+  const {reporterId, editTokenHash, ...visible} = report;
+  return {
+    ...visible,
+    statusHistory: (report.statusHistory || [])
+        .map((entry) => publicStatusChange(entry, report)),
+    comments: (report.comments || [])
+        .map((comment) => toPublicComment(comment, viewerId)),
+    own: Boolean(viewerId && reporterId === viewerId),
+  };
+}
+
+/**
+ * A report as moderators see it: whatever its status and with the comments
+ * flags hid, marked hidden, but like everyone else's view without its edit
+ * token hash or the reporter IDs of who made, changed or commented on it.
+ * @param {Object} report Report, with hidden comments for the queue
+ * @return {Object}
+ */
+function toModeratorReport(report) {
+  return toPublicReport(report);
+}
+
+/**
+ * What the change feed and report lookups send for a report: the report as
+ * everyone sees it, or for one that isn't public (awaiting review, hidden by
+ * flags, rejected, merged or deleted) only enough for apps to take it off
+ * the map.
+ * @param {Object} report Report
+ * @param {?string} viewerId Reporter ID of the device asking, if known
+ * @return {Object}
+ */
+function publicChange(report, viewerId) {
+  if (isPublicReport(report)) return toPublicReport(report, viewerId);
+  return {
+    id: report.id,
+    timestamp: report.timestamp,
+    status: report.status,
+    updatedAt: report.updatedAt,
+  };
+}
+
+/**
+ * Build a new comment from user input.
+ * @param {string} text Comment text
+ * @param {string} author Display name of the commenter
+ * @param {string} authorId Reporter ID of the commenter's device
+ * @return {Object} Comment
+ */
+function buildComment(text, author, authorId) {
+  const trimmed = String(text || "").trim();
+  if (!trimmed) throw badRequest("Comment text is required");
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw badRequest(
+        `Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  return {
+    id: `${Date.now()}-${randomHex(4)}`,
+    text: trimmed,
+    author: displayName(author) || "Anonymous User",
+    authorId: optionalReporterId(authorId, "authorId"),
+    timestamp: new Date().toISOString(),
+    upvotes: 0,
+    downvotes: 0,
+  };
+}
+
+module.exports = {
+  MAX_REPORT_IMAGES,
+  MAX_TITLE_LENGTH,
+  MAX_DESCRIPTION_LENGTH,
+  toCoordinate,
+  toLocation,
+  toReportId,
+  toCategory,
+  toTitle,
+  toDescription,
+  screeningReview,
+  buildReportItem,
+  importedFields,
+  buildImportedItem,
+  buildDeletedItem,
+  existingComments,
+  visibleComments,
+  dispatchDueAt,
+  isTrackedDelivery,
+  isTrackedDispatch,
+  toReport,
+  toPublicComment,
+  toPublicReport,
+  toModeratorReport,
+  publicChange,
+  buildComment,
+};
@@ -0,0 +1,88 @@
+const {badRequest} = require("./errors");
+const {TITLE_MAX_LENGTH, analysisImages} = require("./analysis");
+
+// Words in the title or description that pick a category. The category with
+// the most matches wins, earlier ones winning ties; with none it is "other".
+// A word matches at the start of a word, so "pothole" also matches
+// "potholes".
+const CATEGORY_KEYWORDS = {
+  pothole: ["pothole", "pot hole", "crater", "hole in the road"],
+  broken_sidewalk: ["sidewalk", "pavement", "curb", "trip hazard"],
+  streetlight_out: ["streetlight", "street light", "lamp post", "light out",
+    "dark"],
+  trash: ["trash", "garbage", "litter", "rubbish", "dumped", "dumping"],
+  signage_damage: ["sign", "graffiti"],
+  construction_obstruction: ["construction", "barrier", "cone", "scaffold",
+    "roadwork"],
+  flooding: ["flood", "puddle", "standing water", "drain", "overflow"],
+  exposed_utility: ["wire", "cable", "manhole", "utility", "electrical",
+    "gas leak"],
+  tree_blockage: ["tree", "branch", "fallen limb", "overgrown"],
+};
+
+// Reports mentioning these are rejected, as Gemini rejects selfies and
+// private scenes
+const REJECT_KEYWORDS = ["selfie", "my face", "indoors", "inside my",
+  "bedroom", "kitchen", "living room"];
+
+/**
+ * List the keywords found in some text.
+ * @param {string} text Lowercase text
+ * @param {string[]} keywords Keywords to look for
+ * @return {string[]} Keywords found
+ */
+function matchKeywords(text, keywords) {
+  return keywords.filter((keyword) => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`\\b${escaped}`).test(text);
+  });
+}
+
+/**
+ * Create an analyzer that classifies reports by keyword rules instead of
+ * looking at the photos. It answers the same input the same way every time
+ * and needs no network, for the offline emulator and for testing.
+ * @return {Object} Analyzer
+ */
+function createRulesAnalyzer() {
+  const analyzeHazard = async (params) => {
+    const {title, description} = params;
+    if (!description) throw badRequest("description is required");
+    const images = analysisImages(params);
+
+    const text = `${title || ""} ${description}`.toLowerCase();
+    let category = "other";
+    let matched = [];
+    Object.entries(CATEGORY_KEYWORDS).forEach(([name, keywords]) => {
+      const found = matchKeywords(text, keywords);
+      if (found.length > matched.length) {
+        category = name;
+        matched = found;
+      }
+    });
+    const rejectedFor = matchKeywords(text, REJECT_KEYWORDS);
+
+    let reasons;
+    if (rejectedFor.length) {
+      reasons = [`Mentions "${rejectedFor[0]}", which suggests a private ` +
+        "or unrelated scene"];
+    } else if (matched.length) {
+      reasons = [`Matched ${category} keywords: ${matched.join(", ")}`];
+    } else {
+      reasons = ["No category keywords matched"];
+    }
+
+    return {
+      title: (title || String(description)).slice(0, TITLE_MAX_LENGTH),
+      improved_description: description,
+      valid_hazard: rejectedFor.length === 0,
+      category,
+      reasons: ["Keyword rules (no AI)", ...reasons],
+      relevant_images: images.map((image, index) => index),
+    };
+  };
+
+  return {analyzeHazard};
+}
+
+module.exports = {createRulesAnalyzer};
@@ -0,0 +1,43 @@
+const logger = require("firebase-functions/logger");
+const {MAX_ANALYZED_IMAGES} = require("./analysis");
+const {imageKeyFromUrl} = require("./images/reportImages");
+
+/**
+ * Run the hazard check on a new or edited report on the server, on the
+ * photos it has, so a report only reaches the map when the check passed
+ * whatever the app sent. A check that can't run counts as not passed: the
+ * report then waits for a moderator like one the check rejected.
+ * @param {Object} services
+ * @param {Object} services.analyzer Analyzer (see analysis.js)
+ * @param {Object} services.images Image store
+ * @param {Object} report New or edited report, with its checked image URLs
+ * @return {Promise<Object>} {valid, reasons}
+ */
+async function screenReport({analyzer, images}, report) {
+  try {
+    const photos = await Promise.all((report.images || [])
+        .slice(0, MAX_ANALYZED_IMAGES)
+        .map(async (url) => {
+          const {data, contentType} =
+            await images.getImage(imageKeyFromUrl(url));
+          return {data: data.toString("base64"), mimeType: contentType};
+        }));
+    const analysis = await analyzer.analyzeHazard({
+      title: report.title || null,
+      description: report.description,
+      images: photos,
+    });
+    return {valid: analysis.valid_hazard, reasons: analysis.reasons};
+  } catch (error) {
+    logger.warn("Hazard check of report failed", {
+      reportId: report.id,
+      error: error.message,
+    });
+    return {
+      valid: false,
+      reasons: [`The hazard check could not run: ${error.message}`],
+    };
+  }
+}
+
+module.exports = {screenReport};
@@ -0,0 +1,165 @@
+const config = require("./config");
+const {createDynamoStore} = require("./store/dynamoStore");
+const {createMemoryStore} = require("./store/memoryStore");
+const {createS3ImageStore} = require("./images/s3Images");
+const {createLocalImageStore} = require("./images/localImages");
+const {createGeminiAnalyzer} = require("./gemini");
+const {createRulesAnalyzer} = require("./rulesAnalyzer");
+const {createChangeStream} = require("./changeStream");
+const {createAutoResolver} = require("./autoResolve");
+const {createDuplicateFinder} = require("./duplicates");
+const {createModeration} = require("./moderation");
+const {createModerators} = require("./moderators");
+const {createFlags} = require("./flags");
+const {createImporter} = require("./importer");
+const {createAuthoring} = require("./authoring");
+const {matchesEditToken} = require("./editTokens");
+const {loadJurisdictions} = require("./jurisdictions");
+const {createDispatcher} = require("./dispatch");
+const {createWebhookSender} = require("./notify/webhook");
+const {
+  createOutboxEmailSender,
+  createFirestoreEmailSender,
+} = require("./notify/email");
+const {
+  createOpen311Client,
+  createOpen311Sender,
+} = require("./notify/open311");
+const {createOpen311Sync} = require("./open311Sync");
+
+let services = null;
+
+/**
+ * Duplicate detection settings from the environment.
+ * @return {Object} {radiusMeters, windowHours}
+ */
+function duplicateOptions() {
+  return {
+    radiusMeters: config.duplicateRadiusMeters,
+    windowHours: config.duplicateWindowHours,
+  };
+}
+
+/**
+ * Moderation settings from the environment.
+ * @return {Object} {downvoteThreshold}
+ */
+function moderationOptions() {
+  return {downvoteThreshold: config.downvoteThreshold};
+}
+
+/**
+ * Flagging settings from the environment.
+ * @return {Object} {threshold}
+ */
+function flagOptions() {
+  return {threshold: config.flagThreshold};
+}
+
+/**
+ * Create the dispatcher that sends new reports to their jurisdiction, and
+ * the sync that follows the Open311 requests they were filed as. Offline,
+ * emails go to a local outbox instead of being sent.
+ * @param {Object} store Report store
+ * @return {Object} {dispatcher, open311Sync}
+ */
+function createRouting(store) {
+  const open311 = createOpen311Client();
+  const jurisdictions = loadJurisdictions(config.jurisdictionsFile);
+  return {
+    dispatcher: createDispatcher(store, {
+      jurisdictions,
+      senders: {
+        webhook: createWebhookSender(),
+        email: config.isOffline ?
+          createOutboxEmailSender() :
+          createFirestoreEmailSender({collection: config.mailCollection}),
+        open311: createOpen311Sender({client: open311}),
+      },
+    }),
+    open311Sync: createOpen311Sync(store, {client: open311, jurisdictions}),
+  };
+}
+
+/**
+ * Create the analyzer that checks reports, as configured.
+ * @return {Object} Analyzer
+ */
+function createAnalyzer() {
+  if (config.classifierProvider === "rules") return createRulesAnalyzer();
+  if (config.classifierProvider === "gemini") {
+    return createGeminiAnalyzer({
+      apiKey: config.geminiApiKey.value(),
+      model: config.geminiModel,
+      promptFile: config.geminiPromptFile,
+    });
+  }
+  throw new Error(
+      `Unknown CLASSIFIER_PROVIDER "${config.classifierProvider}"`);
+}
+
+/**
+ * Get the report store, image store, analyzer, change stream, auto-resolver,
+ * duplicate finder, moderation, flagging, importer, author actions,
+ * dispatcher and Open311 sync for this instance. Created on first use
+ * because secret values are only readable at runtime.
+ * @return {Object} {store, images, analyzer, changes, autoResolver,
+ *   duplicates, moderation, moderators, flags, importer, authoring,
+ *   dispatcher, open311Sync}
+ */
+function getServices() {
+  if (services) return services;
+
+  if (config.isOffline) {
+    const store = createMemoryStore();
+    services = {
+      store,
+      images: createLocalImageStore(),
+      analyzer: createAnalyzer(),
+      changes: createChangeStream(store),
+      autoResolver: createAutoResolver(store),
+      duplicates: createDuplicateFinder(store, duplicateOptions()),
+      moderation: createModeration(store, moderationOptions()),
+      moderators: createModerators(config.offlineModeratorKeys),
+      flags: createFlags(store, flagOptions()),
+      importer: createImporter(store),
+      authoring: createAuthoring(store, {matchesEditToken}),
+      ...createRouting(store),
+    };
+    return services;
+  }
+
+  const credentials = {
+    accessKeyId: config.awsAccessKeyId.value(),
+    secretAccessKey: config.awsSecretAccessKey.value(),
+  };
+  const store = createDynamoStore({
+    region: config.awsRegion,
+    credentials,
+    tableName: config.tableName,
+    votesTableName: config.votesTableName,
+    auditTableName: config.auditTableName,
+    downvoteThreshold: config.downvoteThreshold,
+  });
+  services = {
+    store,
+    images: createS3ImageStore({
+      region: config.awsRegion,
+      credentials,
+      bucketName: config.bucketName,
+    }),
+    analyzer: createAnalyzer(),
+    changes: createChangeStream(store),
+    autoResolver: createAutoResolver(store),
+    duplicates: createDuplicateFinder(store, duplicateOptions()),
+    moderation: createModeration(store, moderationOptions()),
+    moderators: createModerators(config.moderatorKeys.value()),
+    flags: createFlags(store, flagOptions()),
+    importer: createImporter(store),
+    authoring: createAuthoring(store, {matchesEditToken}),
+    ...createRouting(store),
+  };
+  return services;
+}
+
+module.exports = {getServices};
@@ -0,0 +1,197 @@
+const {badRequest} = require("./errors");
+const {displayName} = require("./identity");
+
+const MAX_NOTE_LENGTH = 500;
+
+// Allowed status changes. Resolved and false reports can be reopened if the
+// hazard turns out to still be there. Reports the hazard check rejected but
+// the reporter asked a person to look at start in pending_review, and an
+// author's edit the hazard check doesn't pass sends a report back there.
+// Enough flags from the community move any public report to flagged.
+// Moderators can reject any report or merge it into another, bring a
+// rejected one back, and return a flagged one to the status it had. A
+// report's author can retract it, unless it was merged into another, and it
+// stays retracted.
+const TRANSITIONS = {
+  active: [
+    "acknowledged", "in_progress", "probably_resolved", "resolved",
+    "false_report", "pending_review", "flagged", "rejected", "merged",
+    "retracted",
+  ],
+  acknowledged: [
+    "in_progress", "probably_resolved", "resolved", "false_report",
+    "pending_review", "flagged", "rejected", "merged", "retracted",
+  ],
+  in_progress: [
+    "probably_resolved", "resolved", "false_report", "pending_review",
+    "flagged", "rejected", "merged", "retracted",
+  ],
+  probably_resolved: [
+    "active", "resolved", "false_report", "pending_review", "flagged",
+    "rejected", "merged", "retracted",
+  ],
+  resolved: [
+    "active", "pending_review", "flagged", "rejected", "merged", "retracted",
+  ],
+  false_report: [
+    "active", "pending_review", "flagged", "rejected", "merged", "retracted",
+  ],
+  pending_review: ["active", "rejected", "merged", "retracted"],
+  flagged: [
+    "active", "acknowledged", "in_progress", "resolved", "false_report",
+    "rejected", "merged", "retracted",
+  ],
+  rejected: ["active", "retracted"],
+  merged: [],
+  retracted: [],
+};
+
+const STATUSES = Object.keys(TRANSITIONS);
+
+// Only the vote-based auto-resolver, or flagging, moves reports into these
+const AUTOMATIC_STATUSES = ["probably_resolved", "flagged"];
+
+// Only moderators move reports into or out of these, apart from flagging
+// moving reports into flagged and the hazard check holding an edited report
+// in pending_review (see authoring.js)
+const MODERATED_STATUSES = [
+  "pending_review", "flagged", "rejected", "merged",
+];
+
+// Only the report's author moves a report into these
+const AUTHOR_STATUSES = ["retracted"];
+
+// Reports in these statuses are kept off the map and out of every public
+// list. Deleted reports are left as a stub (see deleteReport in the stores)
+// so the change feed can tell apps to drop them.
+const HIDDEN_STATUSES = [...MODERATED_STATUSES, ...AUTHOR_STATUSES, "deleted"];
+
+// Who made a status change, as apps are shown it. Changes the services make
+// (moderation.js, autoResolve.js, flags.js, open311Sync.js, importer.js) are
+// recorded with
+// the service's name as changedBy; any other changedBy is a device's reporter
+// ID, which stays on the server.
+const SERVICE_ROLES = {
+  "moderator": "moderator",
+  "auto-resolver": "community",
+  "community-flags": "community",
+  "open311": "city",
+  "importer": "source",
+};
+
+/**
+ * Whether a report can be shown to everyone.
+ * @param {Object} report Report
+ * @return {boolean}
+ */
+function isPublicReport(report) {
+  return !HIDDEN_STATUSES.includes(report.status);
+}
+
+/**
+ * Build the history entry for a status change, checking it is allowed.
+ * @param {string} from Current status
+ * @param {Object} change
+ * @param {string} change.status New status
+ * @param {string} change.changedBy Reporter ID making the change
+ * @param {string} change.changedByName Display name making the change
+ * @param {string} change.note Optional note
+ * @param {Object} change.snapshot Votes or flags behind an automatic change
+ * @param {boolean} change.reviewed Whether a moderator is making the change
+ * @param {boolean} change.byAuthor Whether the report's author is making the
+ *   change
+ * @return {Object} History entry
+ */
+function buildStatusChange(from, change) {
+  const {
+    status, changedBy, changedByName, note, snapshot, reviewed, byAuthor,
+  } = change;
+  if (!STATUSES.includes(status)) {
+    throw badRequest(`status must be one of ${STATUSES.join(", ")}`);
+  }
+  if (AUTOMATIC_STATUSES.includes(status) && !snapshot) {
+    throw badRequest(`${status} is only set automatically`);
+  }
+  if (!(TRANSITIONS[from] || []).includes(status)) {
+    throw badRequest(`A report can't go from ${from} to ${status}`);
+  }
+  if (AUTHOR_STATUSES.includes(status)) {
+    if (!byAuthor) {
+      throw badRequest(`Only the report's author can make it ${status}`);
+    }
+  } else if ((MODERATED_STATUSES.includes(from) ||
+      (MODERATED_STATUSES.includes(status) && !snapshot)) && !reviewed) {
+    throw badRequest(
+        `Only a moderator can move a report from ${from} to ${status}`);
+  }
+  const trimmedNote = typeof note === "string" ? note.trim() : "";
+  if (trimmedNote.length > MAX_NOTE_LENGTH) {
+    throw badRequest(`Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const entry = {
+    from,
+    to: status,
+    changedBy,
+    changedByName: displayName(changedByName),
+    note: trimmedNote || null,
+    at: new Date().toISOString(),
+  };
+  if (snapshot) {
+    entry.automatic = true;
+    entry.snapshot = snapshot;
+  }
+  return entry;
+}
+
+/**
+ * A status history entry as apps see it: who made the change is given as a
+ * role (author, moderator, community, city, or source for an imported
+ * report's first status) rather than by ID.
+ * @param {Object} entry Stored history entry
+ * @param {Object} report
+ * @param {?string} report.reporterId Reporter ID the report was made with
+ * @param {?Object} report.source Dataset an imported report came from
+ * @return {Object}
+ */
+function publicStatusChange(entry, {reporterId, source}) {
+  const {changedBy, ...change} = entry;
+  let role = SERVICE_ROLES[changedBy] || "community";
+  if (changedBy && changedBy === reporterId) {
+    role = "author";
+  } else if (entry.from === null) {
+    role = source ? "source" : "author";
+  }
+  return {...change, role};
+}
+
+/**
+ * The first history entry of a new report.
+ * @param {string} reportedAt Report timestamp
+ * @param {?string} reporterId Reporter ID of the submitting device
+ * @param {?string} reporterName Reporter's display name
+ * @param {string} status Status the report starts in
+ * @return {Object} History entry
+ */
+function initialStatusEntry(reportedAt, reporterId, reporterName,
+    status = "active") {
+  return {
+    from: null,
+    to: status,
+    changedBy: reporterId,
+    changedByName: reporterName,
+    note: null,
+    at: reportedAt,
+  };
+}
+
+module.exports = {
+  TRANSITIONS,
+  STATUSES,
+  AUTOMATIC_STATUSES,
+  HIDDEN_STATUSES,
+  isPublicReport,
+  buildStatusChange,
+  publicStatusChange,
+  initialStatusEntry,
+};
@@ -0,0 +1,1179 @@
+const {DynamoDBClient} = require("@aws-sdk/client-dynamodb");
+const {
+  DynamoDBDocumentClient,
+  PutCommand,
+  ScanCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  BatchGetCommand,
+  TransactWriteCommand,
+} = require("@aws-sdk/lib-dynamodb");
+const logger = require("firebase-functions/logger");
+const {notFound, conflict} = require("../errors");
+const {regionBounds, cellsForBounds} = require("../geohash");
+const {
+  MAX_REPORT_IMAGES,
+  buildReportItem,
+  importedFields,
+  buildImportedItem,
+  buildDeletedItem,
+  visibleComments,
+  toReport,
+  buildComment,
+  dispatchDueAt,
+  isTrackedDispatch,
+} = require("../reports");
+const {normalizeVote, voteDeltas, commentTargetId} = require("../votes");
+const {changeUpdate, daysSince} = require("../sync");
+const {buildStatusChange, HIDDEN_STATUSES} = require("../status");
+const {buildAuditItem, toAuditEntry} = require("../audit");
+const {flagTargetId} = require("../flags");
+const {needsModeration} = require("../moderation");
+
+const GEOHASH_INDEX_NAME = "geohash-index";
+const UPDATED_INDEX_NAME = "updated-index";
+const DISPATCH_DUE_INDEX_NAME = "dispatch-due-index";
+const DISPATCH_TRACKED_INDEX_NAME = "dispatch-tracked-index";
+const PROBABLY_RESOLVED_INDEX_NAME = "probably-resolved-index";
+const REVIEW_INDEX_NAME = "review-index";
+
+// The one dispatch_pending value: the due index's partition key, set only
+// on reports with a pending delivery so the index holds just those
+const DISPATCH_PENDING = "pending";
+
+// The one dispatch_tracked value, keying the tracked index the same way.
+// Index keys can't be booleans.
+const DISPATCH_TRACKED = "open311";
+
+// The one resolve_pending value, keying the probably resolved index: set
+// while a report is probably_resolved, for the auto-resolve sweep
+const RESOLVE_PENDING = "probably_resolved";
+
+/**
+ * Update clauses keeping resolve_pending in step with a status change.
+ * @param {string} status The new status
+ * @return {Object} {set, remove, values}
+ */
+function resolvePendingUpdate(status) {
+  return status === "probably_resolved" ?
+    {
+      set: "resolve_pending = :resolvePending, ",
+      remove: "",
+      values: {":resolvePending": RESOLVE_PENDING},
+    } :
+    {set: "", remove: " REMOVE resolve_pending", values: {}};
+}
+
+// The one review_pending value, keying the review index: set while a
+// report or one of its comments belongs in the moderation queue
+const REVIEW_PENDING = "review";
+
+// Votes and comments are only written to a report that exists and is on
+// the map (see isPublicReport); reports saved before statuses existed have
+// no status attribute
+const PUBLIC_REPORT_CONDITION = "attribute_exists(Hazard_id) AND " +
+  "(attribute_not_exists(#status) OR NOT #status IN (" +
+  HIDDEN_STATUSES.map((status, i) => `:hidden${i}`).join(", ") + "))";
+const PUBLIC_REPORT_VALUES = Object.fromEntries(
+    HIDDEN_STATUSES.map((status, i) => [`:hidden${i}`, status]));
+
+// A vote write is retried when another request changed the same voter's
+// vote in between
+const MAX_VOTE_ATTEMPTS = 3;
+
+// Flag reason queries sent at once for the moderation queue
+const FLAG_QUERY_BATCH = 25;
+
+// Bringing review_pending in step is retried when the report changed after
+// it was read
+const MAX_REVIEW_KEY_ATTEMPTS = 3;
+
+/**
+ * Create the DynamoDB-backed report store.
+ * @param {Object} options
+ * @param {string} options.region AWS region
+ * @param {Object} options.credentials {accessKeyId, secretAccessKey}
+ * @param {string} options.tableName Reports table
+ * @param {string} options.votesTableName Votes table
+ * @param {string} options.auditTableName Moderation audit log table
+ * @param {number} options.downvoteThreshold Down votes that put a report or
+ *   comment in the review index, as in moderation.js
+ * @return {Object} Report store
+ */
+function createDynamoStore({
+  region,
+  credentials,
+  tableName,
+  votesTableName,
+  auditTableName,
+  downvoteThreshold,
+}) {
+  const docClient = DynamoDBDocumentClient.from(
+      new DynamoDBClient({region, credentials}));
+
+  const reportKey = (reportId, timestamp) => ({
+    Hazard_id: reportId,
+    time: timestamp,
+  });
+
+  const collectPages = async (buildCommand) => {
+    const items = [];
+    let lastKey;
+    // A single page stops at 1 MB, so follow LastEvaluatedKey to the end
+    do {
+      const result = await docClient.send(buildCommand(lastKey));
+      items.push(...(result.Items || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return items;
+  };
+
+  // Whether a stored report belongs in the review index
+  const needsReview = (item) => needsModeration(
+      toReport(item, {withHiddenComments: true}), downvoteThreshold);
+
+  const getStoredReport = async (reportId, timestamp) => {
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      ConsistentRead: true,
+    }));
+    return result.Item;
+  };
+
+  // Set or remove review_pending after a write that may have changed whether
+  // a report needs a moderator: its status, its votes or its comments. Only
+  // written if the report wasn't changed since it was read; otherwise it is
+  // read again.
+  const syncReviewKey = async (item) => {
+    let current = item;
+    for (let attempt = 1; current && attempt <= MAX_REVIEW_KEY_ATTEMPTS;
+      attempt++) {
+      const pending = needsReview(current);
+      if (pending === (current.review_pending === REVIEW_PENDING)) return;
+      try {
+        await docClient.send(new UpdateCommand({
+          TableName: tableName,
+          Key: reportKey(current.Hazard_id, current.time),
+          UpdateExpression: pending ?
+            "SET review_pending = :reviewPending" :
+            "REMOVE review_pending",
+          ConditionExpression: "updated_at = :updatedAt",
+          ExpressionAttributeValues: {
+            ":updatedAt": current.updated_at,
+            ...(pending ? {":reviewPending": REVIEW_PENDING} : {}),
+          },
+        }));
+        return;
+      } catch (error) {
+        if (error.name !== "ConditionalCheckFailedException") throw error;
+      }
+      current = await getStoredReport(current.Hazard_id, current.time);
+    }
+    if (current) {
+      logger.warn("Review index key not updated, report keeps changing",
+          {reportId: current.Hazard_id});
+    }
+  };
+
+  const saveReport = async (report, options) => {
+    const item = buildReportItem(report, options);
+    if (needsReview(item)) item.review_pending = REVIEW_PENDING;
+    try {
+      // Never overwrite an existing report (and its votes) on a resubmission
+      await docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: item,
+        ConditionExpression: "attribute_not_exists(Hazard_id)",
+      }));
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${item.Hazard_id} already exists`);
+      }
+      throw error;
+    }
+    logger.info("Report saved to DynamoDB", {reportId: item.Hazard_id});
+    return toReport(item);
+  };
+
+  const saveImportedReport = async ({report, source}) => {
+    const item = buildImportedItem(report, source);
+    try {
+      await docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: item,
+        ConditionExpression: "attribute_not_exists(Hazard_id)",
+      }));
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${item.Hazard_id} already exists`);
+      }
+      throw error;
+    }
+    logger.info("Imported report saved to DynamoDB", {
+      reportId: item.Hazard_id,
+      source: source.name,
+    });
+    return toReport(item);
+  };
+
+  const updateImportedReport = async (params) => {
+    const {reportId, timestamp, report, source} = params;
+    const fields = importedFields(report, source);
+    const names = Object.keys(fields);
+    const change = changeUpdate();
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression: "SET " +
+          names.map((name) => `#${name} = :${name}`).join(", ") +
+          `, ${change.set}`,
+        ConditionExpression: "attribute_exists(Hazard_id)",
+        ExpressionAttributeNames: Object.fromEntries(
+            names.map((name) => [`#${name}`, name])),
+        ExpressionAttributeValues: {
+          ...Object.fromEntries(
+              names.map((name) => [`:${name}`, fields[name]])),
+          ...change.values,
+        },
+        ReturnValues: "ALL_NEW",
+      }));
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw notFound(`Report ${reportId} not found`);
+      }
+      throw error;
+    }
+  };
+
+  const getAllReports = async () => {
+    const items = await collectPages((lastKey) => new ScanCommand({
+      TableName: tableName,
+      ExclusiveStartKey: lastKey,
+    }));
+    return items.map(toReport);
+  };
+
+  const getReportsForReview = async () => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: REVIEW_INDEX_NAME,
+      KeyConditionExpression: "review_pending = :reviewPending",
+      ExpressionAttributeValues: {":reviewPending": REVIEW_PENDING},
+      ExclusiveStartKey: lastKey,
+    }));
+    return items.map((item) => toReport(item, {withHiddenComments: true}));
+  };
+
+  const getProbablyResolvedReports = async () => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: PROBABLY_RESOLVED_INDEX_NAME,
+      KeyConditionExpression: "resolve_pending = :resolvePending",
+      ExpressionAttributeValues: {":resolvePending": RESOLVE_PENDING},
+      ExclusiveStartKey: lastKey,
+    }));
+    return items.map(toReport);
+  };
+
+  const getReportsInRegion = async (region) => {
+    const bounds = regionBounds(region);
+    const cells = cellsForBounds(bounds);
+
+    const queryCell = (cell) => collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: GEOHASH_INDEX_NAME,
+      KeyConditionExpression: "geohash_cell = :cell",
+      // Cells overhang the region, so trim to the exact bounds
+      FilterExpression: "latitude BETWEEN :minLat AND :maxLat AND " +
+        "longitude BETWEEN :minLng AND :maxLng",
+      ExpressionAttributeValues: {
+        ":cell": cell,
+        ":minLat": bounds.minLatitude,
+        ":maxLat": bounds.maxLatitude,
+        ":minLng": bounds.minLongitude,
+        ":maxLng": bounds.maxLongitude,
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+
+    const results = await Promise.all(cells.map(queryCell));
+    return results.flat().map(toReport);
+  };
+
+  const getReportsChangedSince = async (since) => {
+    const queryDay = (day) => collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: UPDATED_INDEX_NAME,
+      KeyConditionExpression: "updated_day = :day AND updated_at >= :since",
+      ExpressionAttributeValues: {
+        ":day": day,
+        ":since": since.toISOString(),
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+
+    const results = await Promise.all(daysSince(since).map(queryDay));
+    return results.flat().map(toReport);
+  };
+
+  // options.withHiddenComments includes comments hidden by flags
+  const getReport = async (reportId, timestamp, options) => {
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+    }));
+    return result.Item ? toReport(result.Item, options) : null;
+  };
+
+  // For callers that know a report's id but not its timestamp
+  const findReport = async (reportId) => {
+    const result = await docClient.send(new QueryCommand({
+      TableName: tableName,
+      KeyConditionExpression: "Hazard_id = :reportId",
+      ExpressionAttributeValues: {":reportId": reportId},
+      ConsistentRead: true,
+      Limit: 1,
+    }));
+    const [item] = result.Items || [];
+    return item ? toReport(item) : null;
+  };
+
+  const updateStatus = async (params) => {
+    const {reportId, timestamp} = params;
+    const report = await getReport(reportId, timestamp);
+    if (!report) throw notFound(`Report ${reportId} not found`);
+
+    const entry = buildStatusChange(report.status, params);
+    const change = changeUpdate();
+    const resolvePending = resolvePendingUpdate(entry.to);
+
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression:
+          "SET #status = :to, status_history = " +
+          "list_append(if_not_exists(status_history, :empty), :entry), " +
+          resolvePending.set + change.set + resolvePending.remove,
+        // Reports saved before statuses existed have no status attribute
+        ConditionExpression: entry.from === "active" ?
+          "#status = :from OR attribute_not_exists(#status)" :
+          "#status = :from",
+        ExpressionAttributeNames: {"#status": "status"},
+        ExpressionAttributeValues: {
+          ":to": entry.to,
+          ":from": entry.from,
+          ":empty": [],
+          ":entry": [entry],
+          ...resolvePending.values,
+          ...change.values,
+        },
+        ReturnValues: "ALL_NEW",
+      }));
+      logger.info("Report status changed", {reportId, ...entry});
+      await syncReviewKey(result.Attributes);
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${reportId} status changed, reload and retry`);
+      }
+      throw error;
+    }
+  };
+
+  const getStoredVote = async (targetId, voterId) => {
+    const result = await docClient.send(new GetCommand({
+      TableName: votesTableName,
+      Key: {target_id: targetId, voter_id: voterId},
+      ConsistentRead: true,
+    }));
+    return result.Item;
+  };
+
+  // Replace a voter's vote on a target and apply the resulting count change
+  // in one transaction
+  const applyVote = async ({targetId, voterId, vote, buildCounterUpdate}) => {
+    const nextVote = normalizeVote(vote);
+
+    for (let attempt = 1; attempt <= MAX_VOTE_ATTEMPTS; attempt++) {
+      const existing = await getStoredVote(targetId, voterId);
+      const previousVote = normalizeVote(existing && existing.vote);
+
+      if (previousVote === nextVote) {
+        return nextVote;
+      }
+
+      const {upDelta, downDelta} = voteDeltas(previousVote, nextVote);
+
+      // The vote record is only replaced if it still holds the vote we read,
+      // so two concurrent requests can never both apply their delta.
+      const voteCondition = existing ?
+        {
+          ConditionExpression: "#vote = :previousVote",
+          ExpressionAttributeNames: {"#vote": "vote"},
+          ExpressionAttributeValues: {":previousVote": existing.vote},
+        } :
+        {ConditionExpression: "attribute_not_exists(voter_id)"};
+
+      try {
+        await docClient.send(new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: votesTableName,
+                Item: {
+                  target_id: targetId,
+                  voter_id: voterId,
+                  vote: nextVote || "cleared", // up, down, cleared
+                  updated_at: new Date().toISOString(),
+                },
+                ...voteCondition,
+              },
+            },
+            {Update: buildCounterUpdate(upDelta, downDelta)},
+          ],
+        }));
+        return nextVote;
+      } catch (error) {
+        const reasons = error.CancellationReasons || [];
+        if (error.name === "TransactionCanceledException" &&
+            reasons[1] && reasons[1].Code === "ConditionalCheckFailed") {
+          throw notFound("Vote target not found");
+        }
+        const voteChanged = error.name === "TransactionCanceledException" &&
+          reasons[0] && reasons[0].Code === "ConditionalCheckFailed";
+        if (!voteChanged || attempt === MAX_VOTE_ATTEMPTS) {
+          throw error;
+        }
+        logger.info("Vote changed concurrently, retrying", {targetId, attempt});
+      }
+    }
+
+    return nextVote;
+  };
+
+  // Only applies while the report still has the edit token and the status
+  // the edit was checked against. statusEntry, if given, is a status change
+  // made with the edit (see authoring.js).
+  const editReport = async (params) => {
+    const {
+      reportId, timestamp, editTokenHash, status, fields, entry, statusEntry,
+    } = params;
+    const names = Object.keys(fields);
+    const change = changeUpdate();
+    const resolvePending = statusEntry ?
+      resolvePendingUpdate(statusEntry.to) : {set: "", remove: "", values: {}};
+    const statusUpdate = statusEntry ?
+      "#status = :to, status_history = " +
+        "list_append(if_not_exists(status_history, :empty), :statusEntry), " +
+        resolvePending.set :
+      "";
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression: "SET " +
+          names.map((name) => `#${name} = :${name}, `).join("") +
+          statusUpdate +
+          "edit_history = list_append(if_not_exists(edit_history, :empty), " +
+          `:entry), ${change.set}${resolvePending.remove}`,
+        ConditionExpression: "edit_token_hash = :editTokenHash AND " +
+          (status === "active" ?
+            "(#status = :status OR attribute_not_exists(#status))" :
+            "#status = :status"),
+        ExpressionAttributeNames: {
+          "#status": "status",
+          ...Object.fromEntries(names.map((name) => [`#${name}`, name])),
+        },
+        ExpressionAttributeValues: {
+          ...Object.fromEntries(
+              names.map((name) => [`:${name}`, fields[name]])),
+          ":editTokenHash": editTokenHash,
+          ":status": status,
+          ":empty": [],
+          ":entry": [entry],
+          ...(statusEntry ?
+            {":to": statusEntry.to, ":statusEntry": [statusEntry]} : {}),
+          ...resolvePending.values,
+          ...change.values,
+        },
+        ReturnValues: "ALL_NEW",
+      }));
+      if (statusEntry) await syncReviewKey(result.Attributes);
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${reportId} changed, reload and retry`);
+      }
+      throw error;
+    }
+  };
+
+  const getUserVote = async (reportId, voterId) => {
+    const item = await getStoredVote(reportId, voterId);
+    return normalizeVote(item && item.vote);
+  };
+
+  const getVotes = async (reportId) => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: votesTableName,
+      KeyConditionExpression: "target_id = :reportId",
+      ExpressionAttributeValues: {":reportId": reportId},
+      ExclusiveStartKey: lastKey,
+    }));
+    return items
+        .filter((item) => normalizeVote(item.vote))
+        .map((item) => ({vote: item.vote, updatedAt: item.updated_at}));
+  };
+
+  const castVote = async ({reportId, timestamp, voterId, vote}) => {
+    const storedVote = await applyVote({
+      targetId: reportId,
+      voterId,
+      vote,
+      buildCounterUpdate: (upDelta, downDelta) => {
+        const change = changeUpdate();
+        return {
+          TableName: tableName,
+          Key: reportKey(reportId, timestamp),
+          UpdateExpression:
+            `ADD upvotes :upDelta, downvotes :downDelta SET ${change.set}`,
+          ConditionExpression: PUBLIC_REPORT_CONDITION,
+          ExpressionAttributeNames: {"#status": "status"},
+          ExpressionAttributeValues: {
+            ":upDelta": upDelta,
+            ":downDelta": downDelta,
+            ...PUBLIC_REPORT_VALUES,
+            ...change.values,
+          },
+        };
+      },
+    });
+
+    const item = await getStoredReport(reportId, timestamp);
+    await syncReviewKey(item);
+    const counts = item || {};
+
+    return {
+      vote: storedVote,
+      upvotes: counts.upvotes || 0,
+      downvotes: counts.downvotes || 0,
+    };
+  };
+
+  const addComment = async (params) => {
+    const {reportId, timestamp, text, author, authorId} = params;
+    const comment = buildComment(text, author, authorId);
+    const change = changeUpdate();
+
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression:
+          "SET comments = list_append(if_not_exists(comments, :empty), " +
+          `:comment), ${change.set}`,
+        ConditionExpression: PUBLIC_REPORT_CONDITION,
+        ExpressionAttributeNames: {"#status": "status"},
+        ExpressionAttributeValues: {
+          ":empty": [],
+          ":comment": [comment],
+          ...PUBLIC_REPORT_VALUES,
+          ...change.values,
+        },
+      }));
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw notFound(`Report ${reportId} not found`);
+      }
+      throw error;
+    }
+
+    return comment;
+  };
+
+  const addImages = async ({reportId, timestamp, images}) => {
+    const change = changeUpdate();
+
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression:
+          "SET images = list_append(if_not_exists(images, :empty), " +
+          `:images), ${change.set}`,
+        ConditionExpression: "attribute_exists(Hazard_id) AND " +
+          "(attribute_not_exists(images) OR size(images) <= :maxBefore)",
+        ExpressionAttributeValues: {
+          ":empty": [],
+          ":images": images,
+          ":maxBefore": MAX_REPORT_IMAGES - images.length,
+          ...change.values,
+        },
+        ReturnValues: "ALL_NEW",
+      }));
+      logger.info("Images added to report", {reportId, count: images.length});
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        if (!(await getReport(reportId, timestamp))) {
+          throw notFound(`Report ${reportId} not found`);
+        }
+        throw conflict(`Reports are limited to ${MAX_REPORT_IMAGES} images`);
+      }
+      throw error;
+    }
+  };
+
+  const updateCategory = async ({reportId, timestamp, category}) => {
+    const change = changeUpdate();
+    try {
+      const result = await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression: `SET category = :category, ${change.set}`,
+        ConditionExpression: "attribute_exists(Hazard_id)",
+        ExpressionAttributeValues: {
+          ":category": category,
+          ...change.values,
+        },
+        ReturnValues: "ALL_NEW",
+      }));
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw notFound(`Report ${reportId} not found`);
+      }
+      throw error;
+    }
+  };
+
+  const deleteReport = async ({reportId, timestamp, deletedBy}) => {
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      ConsistentRead: true,
+    }));
+    if (!result.Item) throw notFound(`Report ${reportId} not found`);
+
+    // Only replace the report as it was read, so a change made meanwhile
+    // isn't lost without the caller knowing. Reports saved before change
+    // tracking existed have no updated_at.
+    const {updated_at: updatedAt} = result.Item;
+    const unchangedCondition = updatedAt ?
+      {
+        ConditionExpression: "updated_at = :updatedAt",
+        ExpressionAttributeValues: {":updatedAt": updatedAt},
+      } :
+      {ConditionExpression: "attribute_not_exists(updated_at)"};
+
+    try {
+      await docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: buildDeletedItem(result.Item, {deletedBy}),
+        ...unchangedCondition,
+      }));
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${reportId} changed, reload and retry`);
+      }
+      throw error;
+    }
+    logger.info("Report deleted", {reportId, deletedBy});
+    return toReport(result.Item);
+  };
+
+  // Comments as stored, including removed ones, so list indexes match
+  const getStoredComments = async (reportId, timestamp) => {
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      ProjectionExpression: "comments",
+      ConsistentRead: true,
+    }));
+    return (result.Item && result.Item.comments) || [];
+  };
+
+  // Find a comment that has not been removed, and its list index. Comments
+  // hidden by flags are only found withHidden, for moderation.
+  const findComment = async (reportId, timestamp, commentId,
+      {withHidden = false} = {}) => {
+    const comments = await getStoredComments(reportId, timestamp);
+    const index = comments.findIndex((comment) => comment.id === commentId);
+    if (index === -1 || comments[index].removed ||
+        (comments[index].hidden && !withHidden)) {
+      throw notFound(`Comment ${commentId} not found`);
+    }
+    return {index, comment: comments[index]};
+  };
+
+  // Removed comments are kept as a marker rather than deleted, because
+  // votes address comments by list index (see castCommentVote)
+  const removeComment = async ({reportId, timestamp, commentId}) => {
+    const {index, comment} = await findComment(
+        reportId, timestamp, commentId, {withHidden: true});
+    const path = `comments[${index}]`;
+    const change = changeUpdate();
+
+    const result = await docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      UpdateExpression:
+        `SET ${path}.removed = :removed, ${change.set} REMOVE ${path}.#text`,
+      ConditionExpression: `${path}.id = :commentId`,
+      ExpressionAttributeNames: {"#text": "text"},
+      ExpressionAttributeValues: {
+        ":removed": true,
+        ":commentId": commentId,
+        ...change.values,
+      },
+      ReturnValues: "ALL_NEW",
+    }));
+    logger.info("Comment removed", {reportId, commentId});
+    await syncReviewKey(result.Attributes);
+    return comment;
+  };
+
+  const getComments = async (reportId, timestamp) =>
+    visibleComments(await getStoredComments(reportId, timestamp));
+
+  const getUserCommentVotes = async (reportId, commentIds, voterId) => {
+    const votes = {};
+
+    // BatchGet accepts at most 100 keys per request
+    for (let i = 0; i < commentIds.length; i += 100) {
+      const keys = commentIds.slice(i, i + 100).map((commentId) => ({
+        target_id: commentTargetId(reportId, commentId),
+        voter_id: voterId,
+      }));
+      const result = await docClient.send(new BatchGetCommand({
+        RequestItems: {[votesTableName]: {Keys: keys}},
+      }));
+
+      const items = (result.Responses || {})[votesTableName] || [];
+      items.forEach((item) => {
+        const vote = normalizeVote(item.vote);
+        if (vote) {
+          votes[item.target_id.slice(reportId.length + 1)] = vote;
+        }
+      });
+    }
+
+    return votes;
+  };
+
+  const castCommentVote = async (params) => {
+    const {reportId, timestamp, commentId, voterId, vote} = params;
+
+    // Comments are only ever appended (removal leaves a marker), so a
+    // comment's list index is stable
+    const {index} = await findComment(reportId, timestamp, commentId);
+    const path = `comments[${index}]`;
+
+    const storedVote = await applyVote({
+      targetId: commentTargetId(reportId, commentId),
+      voterId,
+      vote,
+      buildCounterUpdate: (upDelta, downDelta) => {
+        const change = changeUpdate();
+        return {
+          TableName: tableName,
+          Key: reportKey(reportId, timestamp),
+          UpdateExpression:
+            `SET ${path}.upvotes = ${path}.upvotes + :upDelta, ` +
+            `${path}.downvotes = ${path}.downvotes + :downDelta, ` +
+            change.set,
+          ConditionExpression:
+            `${path}.id = :commentId AND ${PUBLIC_REPORT_CONDITION}`,
+          ExpressionAttributeNames: {"#status": "status"},
+          ExpressionAttributeValues: {
+            ":upDelta": upDelta,
+            ":downDelta": downDelta,
+            ":commentId": commentId,
+            ...PUBLIC_REPORT_VALUES,
+            ...change.values,
+          },
+        };
+      },
+    });
+
+    const item = await getStoredReport(reportId, timestamp);
+    await syncReviewKey(item);
+    const comment = (item && item.comments[index]) || {};
+    return {
+      vote: storedVote,
+      upvotes: comment.upvotes || 0,
+      downvotes: comment.downvotes || 0,
+    };
+  };
+
+  // Each flagger counts once: the flag record is only written if it is new,
+  // in the same transaction as the count. Flagging again keeps the first
+  // reason, which is returned.
+  const addFlag = async (params) => {
+    const {reportId, timestamp, commentId, flaggerId, reason} = params;
+    let counterUpdate;
+    if (commentId) {
+      const {index} = await findComment(reportId, timestamp, commentId);
+      const path = `comments[${index}]`;
+      counterUpdate = {
+        UpdateExpression:
+          `SET ${path}.flags = if_not_exists(${path}.flags, :zero) + :one`,
+        ConditionExpression: `${path}.id = :commentId`,
+        ExpressionAttributeValues: {
+          ":zero": 0,
+          ":one": 1,
+          ":commentId": commentId,
+        },
+      };
+    } else {
+      counterUpdate = {
+        UpdateExpression: "SET flags = if_not_exists(flags, :zero) + :one",
+        ConditionExpression: "attribute_exists(Hazard_id)",
+        ExpressionAttributeValues: {":zero": 0, ":one": 1},
+      };
+    }
+
+    const targetId = flagTargetId(reportId, commentId);
+    let added = true;
+    let storedReason = reason;
+    try {
+      await docClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: votesTableName,
+              Item: {
+                target_id: targetId,
+                voter_id: flaggerId,
+                reason,
+                flagged_at: new Date().toISOString(),
+              },
+              ConditionExpression: "attribute_not_exists(voter_id)",
+            },
+          },
+          {
+            Update: {
+              TableName: tableName,
+              Key: reportKey(reportId, timestamp),
+              ...counterUpdate,
+            },
+          },
+        ],
+      }));
+    } catch (error) {
+      const reasons = error.CancellationReasons || [];
+      if (error.name !== "TransactionCanceledException") throw error;
+      if (reasons[1] && reasons[1].Code === "ConditionalCheckFailed") {
+        throw notFound(commentId ?
+          `Comment ${commentId} not found` :
+          `Report ${reportId} not found`);
+      }
+      if (!reasons[0] || reasons[0].Code !== "ConditionalCheckFailed") {
+        throw error;
+      }
+      const existing = await getStoredVote(targetId, flaggerId);
+      added = false;
+      storedReason = existing.reason;
+    }
+
+    if (commentId) {
+      const {comment} = await findComment(
+          reportId, timestamp, commentId, {withHidden: true});
+      return {added, reason: storedReason, flags: comment.flags || 0};
+    }
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      ProjectionExpression: "flags",
+      ConsistentRead: true,
+    }));
+    return {
+      added,
+      reason: storedReason,
+      flags: (result.Item && result.Item.flags) || 0,
+    };
+  };
+
+  // How many flags a report or comment has had for each reason
+  const getFlagReasons = async (reportId, commentId) => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: votesTableName,
+      KeyConditionExpression: "target_id = :targetId",
+      ExpressionAttributeValues: {
+        ":targetId": flagTargetId(reportId, commentId),
+      },
+      ExclusiveStartKey: lastKey,
+    }));
+    const reasons = {};
+    items.forEach((item) => {
+      reasons[item.reason] = (reasons[item.reason] || 0) + 1;
+    });
+    return reasons;
+  };
+
+  // getFlagReasons for many reports and comments at once, in their order.
+  // Each is its own query, so they run side by side in batches.
+  const getFlagReasonsFor = async (targets) => {
+    const reasons = [];
+    for (let i = 0; i < targets.length; i += FLAG_QUERY_BATCH) {
+      const batch = targets.slice(i, i + FLAG_QUERY_BATCH);
+      reasons.push(...await Promise.all(batch.map(
+          ({reportId, commentId}) => getFlagReasons(reportId, commentId))));
+    }
+    return reasons;
+  };
+
+  const getUserFlags = async (reportId, commentIds, flaggerId) => {
+    const flags = {report: null, comments: {}};
+    const targets = [null, ...commentIds];
+
+    // BatchGet accepts at most 100 keys per request
+    for (let i = 0; i < targets.length; i += 100) {
+      const batch = targets.slice(i, i + 100);
+      const keys = batch.map((commentId) => ({
+        target_id: flagTargetId(reportId, commentId),
+        voter_id: flaggerId,
+      }));
+      const result = await docClient.send(new BatchGetCommand({
+        RequestItems: {[votesTableName]: {Keys: keys}},
+      }));
+
+      const items = (result.Responses || {})[votesTableName] || [];
+      items.forEach((item) => {
+        const commentId =
+          batch.find((id) => flagTargetId(reportId, id) === item.target_id);
+        if (commentId) {
+          flags.comments[commentId] = item.reason;
+        } else {
+          flags.report = item.reason;
+        }
+      });
+    }
+
+    return flags;
+  };
+
+  const hideComment = async ({reportId, timestamp, commentId}) => {
+    const {index} = await findComment(
+        reportId, timestamp, commentId, {withHidden: true});
+    const path = `comments[${index}]`;
+    const change = changeUpdate();
+
+    const result = await docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      UpdateExpression: `SET ${path}.hidden = :hidden, ${change.set}`,
+      ConditionExpression: `${path}.id = :commentId`,
+      ExpressionAttributeValues: {
+        ":hidden": true,
+        ":commentId": commentId,
+        ...change.values,
+      },
+      ReturnValues: "ALL_NEW",
+    }));
+    logger.info("Comment hidden by flags", {reportId, commentId});
+    await syncReviewKey(result.Attributes);
+  };
+
+  // After a moderator's review the count starts again; the flag records
+  // are kept, so the same people can't flag it again
+  const clearFlags = async ({reportId, timestamp, commentId}) => {
+    if (!commentId) {
+      await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: reportKey(reportId, timestamp),
+        UpdateExpression: "SET flags = :zero",
+        ConditionExpression: "attribute_exists(Hazard_id)",
+        ExpressionAttributeValues: {":zero": 0},
+      }));
+      return;
+    }
+
+    const {index} = await findComment(
+        reportId, timestamp, commentId, {withHidden: true});
+    const path = `comments[${index}]`;
+    const change = changeUpdate();
+    const result = await docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      UpdateExpression:
+        `SET ${path}.flags = :zero, ${change.set} REMOVE ${path}.hidden`,
+      ConditionExpression: `${path}.id = :commentId`,
+      ExpressionAttributeValues: {
+        ":zero": 0,
+        ":commentId": commentId,
+        ...change.values,
+      },
+      ReturnValues: "ALL_NEW",
+    }));
+    await syncReviewKey(result.Attributes);
+  };
+
+  // dispatch_due, the earliest pending delivery, is what the retry sweep
+  // queries the due index for, under dispatch_pending, and dispatch_tracked
+  // keys the index of Open311 requests the city has not closed for the
+  // status sync; they are removed when they no longer apply
+  const writeDispatch = ({reportId, timestamp, dispatch}, condition) => {
+    const dueAt = dispatchDueAt(dispatch);
+    const tracked = isTrackedDispatch(dispatch);
+    const change = changeUpdate();
+    const set = ["dispatch = :dispatch", change.set];
+    const remove = [];
+    const values = {":dispatch": dispatch, ...change.values};
+    if (dueAt) {
+      set.push("dispatch_due = :due", "dispatch_pending = :pending");
+      values[":due"] = dueAt;
+      values[":pending"] = DISPATCH_PENDING;
+    } else {
+      remove.push("dispatch_due", "dispatch_pending");
+    }
+    if (tracked) {
+      set.push("dispatch_tracked = :tracked");
+      values[":tracked"] = DISPATCH_TRACKED;
+    } else {
+      remove.push("dispatch_tracked");
+    }
+
+    return docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: reportKey(reportId, timestamp),
+      UpdateExpression: `SET ${set.join(", ")}` +
+        (remove.length ? ` REMOVE ${remove.join(", ")}` : ""),
+      ConditionExpression: condition,
+      ExpressionAttributeValues: values,
+      ReturnValues: "ALL_NEW",
+    }));
+  };
+
+  // A report is routed once; null means it already was
+  const startDispatch = async (params) => {
+    try {
+      const result = await writeDispatch(params,
+          "attribute_exists(Hazard_id) AND attribute_not_exists(dispatch)");
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") return null;
+      throw error;
+    }
+  };
+
+  const updateDispatch = async (params) => {
+    try {
+      const result =
+        await writeDispatch(params, "attribute_exists(dispatch)");
+      return toReport(result.Attributes);
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw conflict(`Report ${params.reportId} was not routed`);
+      }
+      throw error;
+    }
+  };
+
+  const getDueDispatches = async (now) => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: DISPATCH_DUE_INDEX_NAME,
+      KeyConditionExpression:
+        "dispatch_pending = :pending AND dispatch_due <= :now",
+      ExpressionAttributeValues: {":pending": DISPATCH_PENDING, ":now": now},
+      ExclusiveStartKey: lastKey,
+    }));
+    return items.map((item) => ({
+      report: toReport(item),
+      dispatch: item.dispatch,
+    }));
+  };
+
+  const getTrackedDispatches = async () => {
+    const items = await collectPages((lastKey) => new QueryCommand({
+      TableName: tableName,
+      IndexName: DISPATCH_TRACKED_INDEX_NAME,
+      KeyConditionExpression: "dispatch_tracked = :tracked",
+      ExpressionAttributeValues: {":tracked": DISPATCH_TRACKED},
+      ExclusiveStartKey: lastKey,
+    }));
+    return items.map((item) => ({
+      report: toReport(item),
+      dispatch: item.dispatch,
+    }));
+  };
+
+  const addAuditEntry = async (entry) => {
+    const item = buildAuditItem(entry);
+    await docClient.send(new PutCommand({
+      TableName: auditTableName,
+      Item: item,
+    }));
+    return toAuditEntry(item);
+  };
+
+  // One report's entries come from its partition; the whole log is scanned,
+  // which is fine for the size moderation logs reach
+  const getAuditLog = async ({reportId, limit}) => {
+    if (reportId) {
+      const result = await docClient.send(new QueryCommand({
+        TableName: auditTableName,
+        KeyConditionExpression: "report_id = :reportId",
+        ExpressionAttributeValues: {":reportId": reportId},
+        ScanIndexForward: false,
+        Limit: limit,
+      }));
+      return (result.Items || []).map(toAuditEntry);
+    }
+
+    const items = await collectPages((lastKey) => new ScanCommand({
+      TableName: auditTableName,
+      ExclusiveStartKey: lastKey,
+    }));
+    return items
+        .sort((a, b) => b.entry_id.localeCompare(a.entry_id))
+        .slice(0, limit)
+        .map(toAuditEntry);
+  };
+
+  return {
+    saveReport,
+    saveImportedReport,
+    updateImportedReport,
+    getAllReports,
+    getReportsForReview,
+    getProbablyResolvedReports,
+    getReportsInRegion,
+    getReportsChangedSince,
+    getReport,
+    findReport,
+    updateStatus,
+    editReport,
+    getUserVote,
+    getVotes,
+    castVote,
+    addComment,
+    addImages,
+    updateCategory,
+    deleteReport,
+    removeComment,
+    getComments,
+    getUserCommentVotes,
+    castCommentVote,
+    addFlag,
+    getFlagReasons,
+    getFlagReasonsFor,
+    getUserFlags,
+    hideComment,
+    clearFlags,
+    startDispatch,
+    updateDispatch,
+    getDueDispatches,
+    getTrackedDispatches,
+    addAuditEntry,
+    getAuditLog,
+  };
+}
+
+module.exports = {createDynamoStore};
@@ -0,0 +1,426 @@
+const {notFound, conflict} = require("../errors");
+const {regionBounds, inBounds} = require("../geohash");
+const {
+  MAX_REPORT_IMAGES,
+  buildReportItem,
+  importedFields,
+  buildImportedItem,
+  buildDeletedItem,
+  existingComments,
+  visibleComments,
+  toReport,
+  buildComment,
+  dispatchDueAt,
+  isTrackedDispatch,
+} = require("../reports");
+const {normalizeVote, voteDeltas, commentTargetId} = require("../votes");
+const {changeFields} = require("../sync");
+const {buildStatusChange, isPublicReport} = require("../status");
+const {buildAuditItem, toAuditEntry} = require("../audit");
+const {flagTargetId} = require("../flags");
+
+/**
+ * Create an in-memory report store with the same behaviour as the DynamoDB
+ * store. Used by the offline emulator, where data is lost when it restarts,
+ * and by the app's local repository (src/repository/localRepository.js),
+ * which keeps it across restarts with snapshot().
+ * @param {?Object} saved What snapshot() returned, to start from
+ * @return {Object} Report store
+ */
+function createMemoryStore(saved = null) {
+  // `${Hazard_id}|${time}` -> item
+  const items = new Map(saved ? saved.items : []);
+  // `${target_id}|${voter_id}` -> {vote, updated_at}
+  const votes = new Map(saved ? saved.votes : []);
+  // `${target_id}|${voter_id}` -> {reason, flagged_at}
+  const flags = new Map(saved ? saved.flags : []);
+  const auditItems = saved ? [...saved.audit] : [];
+
+  const requireItem = (reportId, timestamp) => {
+    const item = items.get(`${reportId}|${timestamp}`);
+    if (!item) throw notFound(`Report ${reportId} not found`);
+    return item;
+  };
+
+  // Votes and comments only go on reports on the map
+  const requirePublicItem = (reportId, timestamp) => {
+    const item = requireItem(reportId, timestamp);
+    if (!isPublicReport(item)) throw notFound(`Report ${reportId} not found`);
+    return item;
+  };
+
+  const touch = (item) => Object.assign(item, changeFields());
+
+  const requireComment = (item, commentId, {withHidden = false} = {}) => {
+    const comments = withHidden ?
+      existingComments(item.comments) :
+      visibleComments(item.comments);
+    const comment = comments.find((c) => c.id === commentId);
+    if (!comment) throw notFound(`Comment ${commentId} not found`);
+    return comment;
+  };
+
+  // Node runs each request to completion between awaits, so read-modify-write
+  // here is atomic without the conditions the DynamoDB store needs
+  const storedVote = (key) => {
+    const stored = votes.get(key);
+    return normalizeVote(stored && stored.vote);
+  };
+
+  const applyVote = (targetId, voterId, vote, counts) => {
+    const key = `${targetId}|${voterId}`;
+    const nextVote = normalizeVote(vote);
+    const {upDelta, downDelta} = voteDeltas(storedVote(key), nextVote);
+
+    counts.upvotes = (counts.upvotes || 0) + upDelta;
+    counts.downvotes = (counts.downvotes || 0) + downDelta;
+    votes.set(key, {
+      vote: nextVote || "cleared",
+      updated_at: new Date().toISOString(),
+    });
+
+    return {
+      vote: nextVote,
+      upvotes: counts.upvotes,
+      downvotes: counts.downvotes,
+    };
+  };
+
+  const saveReport = async (report, options) => {
+    const item = buildReportItem(report, options);
+    if (items.has(`${item.Hazard_id}|${item.time}`)) {
+      throw conflict(`Report ${item.Hazard_id} already exists`);
+    }
+    items.set(`${item.Hazard_id}|${item.time}`, item);
+    return toReport(item);
+  };
+
+  const saveImportedReport = async ({report, source}) => {
+    const item = buildImportedItem(report, source);
+    if (items.has(`${item.Hazard_id}|${item.time}`)) {
+      throw conflict(`Report ${item.Hazard_id} already exists`);
+    }
+    items.set(`${item.Hazard_id}|${item.time}`, item);
+    return toReport(item);
+  };
+
+  const updateImportedReport = async (params) => {
+    const {reportId, timestamp, report, source} = params;
+    const item = requireItem(reportId, timestamp);
+    Object.assign(item, importedFields(report, source));
+    touch(item);
+    return toReport(item);
+  };
+
+  const getAllReports = async () => Array.from(items.values()).map(toReport);
+
+  const getReportsForReview = async () => Array.from(items.values())
+      .map((item) => toReport(item, {withHiddenComments: true}));
+
+  const getProbablyResolvedReports = async () => Array.from(items.values())
+      .filter((item) => item.status === "probably_resolved")
+      .map(toReport);
+
+  const getReportsInRegion = async (region) => {
+    const bounds = regionBounds(region);
+    return Array.from(items.values())
+        .filter((item) => inBounds(bounds, item.latitude, item.longitude))
+        .map(toReport);
+  };
+
+  const getReportsChangedSince = async (since) => {
+    const cursor = since.toISOString();
+    return Array.from(items.values())
+        .filter((item) => item.updated_at >= cursor)
+        .map(toReport);
+  };
+
+  // options.withHiddenComments includes comments hidden by flags
+  const getReport = async (reportId, timestamp, options) => {
+    const item = items.get(`${reportId}|${timestamp}`);
+    return item ? toReport(item, options) : null;
+  };
+
+  // For callers that know a report's id but not its timestamp
+  const findReport = async (reportId) => {
+    const item = Array.from(items.values())
+        .find((candidate) => candidate.Hazard_id === reportId);
+    return item ? toReport(item) : null;
+  };
+
+  const updateStatus = async (params) => {
+    const item = requireItem(params.reportId, params.timestamp);
+    const entry = buildStatusChange(item.status || "active", params);
+    item.status = entry.to;
+    item.status_history = [...(item.status_history || []), entry];
+    touch(item);
+    return toReport(item);
+  };
+
+  // Only applies while the report still has the edit token and the status
+  // the edit was checked against. statusEntry, if given, is a status change
+  // made with the edit (see authoring.js).
+  const editReport = async (params) => {
+    const {
+      reportId, timestamp, editTokenHash, status, fields, entry, statusEntry,
+    } = params;
+    const item = requireItem(reportId, timestamp);
+    if (item.edit_token_hash !== editTokenHash ||
+        (item.status || "active") !== status) {
+      throw conflict(`Report ${reportId} changed, reload and retry`);
+    }
+    Object.assign(item, fields);
+    item.edit_history = [...(item.edit_history || []), entry];
+    if (statusEntry) {
+      item.status = statusEntry.to;
+      item.status_history = [...(item.status_history || []), statusEntry];
+    }
+    touch(item);
+    return toReport(item);
+  };
+
+  const getUserVote = async (reportId, voterId) =>
+    storedVote(`${reportId}|${voterId}`);
+
+  const getVotes = async (reportId) => {
+    const result = [];
+    votes.forEach((stored, key) => {
+      const vote = normalizeVote(stored.vote);
+      if (vote && key.startsWith(`${reportId}|`)) {
+        result.push({vote, updatedAt: stored.updated_at});
+      }
+    });
+    return result;
+  };
+
+  const castVote = async ({reportId, timestamp, voterId, vote}) => {
+    const item = requirePublicItem(reportId, timestamp);
+    touch(item);
+    return applyVote(reportId, voterId, vote, item);
+  };
+
+  const addComment = async (params) => {
+    const {reportId, timestamp, text, author, authorId} = params;
+    const item = requirePublicItem(reportId, timestamp);
+    const comment = buildComment(text, author, authorId);
+    item.comments = [...(item.comments || []), comment];
+    touch(item);
+    return comment;
+  };
+
+  const addImages = async ({reportId, timestamp, images}) => {
+    const item = requireItem(reportId, timestamp);
+    const current = item.images || [];
+    if (current.length + images.length > MAX_REPORT_IMAGES) {
+      throw conflict(`Reports are limited to ${MAX_REPORT_IMAGES} images`);
+    }
+    item.images = [...current, ...images];
+    touch(item);
+    return toReport(item);
+  };
+
+  const updateCategory = async ({reportId, timestamp, category}) => {
+    const item = requireItem(reportId, timestamp);
+    item.category = category;
+    touch(item);
+    return toReport(item);
+  };
+
+  const deleteReport = async ({reportId, timestamp, deletedBy}) => {
+    const item = requireItem(reportId, timestamp);
+    items.set(`${reportId}|${timestamp}`,
+        buildDeletedItem(item, {deletedBy}));
+    return toReport(item);
+  };
+
+  const removeComment = async ({reportId, timestamp, commentId}) => {
+    const item = requireItem(reportId, timestamp);
+    const comment = requireComment(item, commentId, {withHidden: true});
+    const removed = {...comment};
+    comment.removed = true;
+    delete comment.text;
+    touch(item);
+    return removed;
+  };
+
+  const getComments = async (reportId, timestamp) => {
+    const item = items.get(`${reportId}|${timestamp}`);
+    return item ? visibleComments(item.comments) : [];
+  };
+
+  const getUserCommentVotes = async (reportId, commentIds, voterId) => {
+    const result = {};
+    commentIds.forEach((commentId) => {
+      const key = `${commentTargetId(reportId, commentId)}|${voterId}`;
+      const vote = storedVote(key);
+      if (vote) result[commentId] = vote;
+    });
+    return result;
+  };
+
+  const castCommentVote = async (params) => {
+    const {reportId, timestamp, commentId, voterId, vote} = params;
+    const item = requirePublicItem(reportId, timestamp);
+    const comment = requireComment(item, commentId);
+    touch(item);
+
+    return applyVote(
+        commentTargetId(reportId, commentId), voterId, vote, comment);
+  };
+
+  // Each flagger counts once; flagging again leaves the first reason
+  const addFlag = async (params) => {
+    const {reportId, timestamp, commentId, flaggerId, reason} = params;
+    const item = requireItem(reportId, timestamp);
+    const counts = commentId ? requireComment(item, commentId) : item;
+    const key = `${flagTargetId(reportId, commentId)}|${flaggerId}`;
+    if (flags.has(key)) {
+      return {added: false, reason: flags.get(key).reason,
+        flags: counts.flags || 0};
+    }
+
+    flags.set(key, {reason, flagged_at: new Date().toISOString()});
+    counts.flags = (counts.flags || 0) + 1;
+    return {added: true, reason, flags: counts.flags};
+  };
+
+  const getFlagReasons = async (reportId, commentId) => {
+    const prefix = `${flagTargetId(reportId, commentId)}|`;
+    const reasons = {};
+    flags.forEach((flag, key) => {
+      if (key.startsWith(prefix)) {
+        reasons[flag.reason] = (reasons[flag.reason] || 0) + 1;
+      }
+    });
+    return reasons;
+  };
+
+  const getFlagReasonsFor = (targets) => Promise.all(targets.map(
+      ({reportId, commentId}) => getFlagReasons(reportId, commentId)));
+
+  const getUserFlags = async (reportId, commentIds, flaggerId) => {
+    const reasonFor = (commentId) => {
+      const flag = flags.get(
+          `${flagTargetId(reportId, commentId)}|${flaggerId}`);
+      return flag ? flag.reason : null;
+    };
+    const comments = {};
+    commentIds.forEach((commentId) => {
+      const reason = reasonFor(commentId);
+      if (reason) comments[commentId] = reason;
+    });
+    return {report: reasonFor(null), comments};
+  };
+
+  const hideComment = async ({reportId, timestamp, commentId}) => {
+    const item = requireItem(reportId, timestamp);
+    requireComment(item, commentId, {withHidden: true}).hidden = true;
+    touch(item);
+  };
+
+  // After a moderator's review the count starts again; the flags themselves
+  // are kept, so the same people can't flag it again
+  const clearFlags = async ({reportId, timestamp, commentId}) => {
+    const item = requireItem(reportId, timestamp);
+    if (!commentId) {
+      item.flags = 0;
+      return;
+    }
+    const comment = requireComment(item, commentId, {withHidden: true});
+    comment.flags = 0;
+    delete comment.hidden;
+    touch(item);
+  };
+
+  const setDispatch = (item, dispatch) => {
+    item.dispatch = dispatch;
+    item.dispatch_due = dispatchDueAt(dispatch);
+    if (!item.dispatch_due) delete item.dispatch_due;
+    item.dispatch_tracked = isTrackedDispatch(dispatch);
+    if (!item.dispatch_tracked) delete item.dispatch_tracked;
+    touch(item);
+    return toReport(item);
+  };
+
+  // A report is routed once; null means it already was
+  const startDispatch = async ({reportId, timestamp, dispatch}) => {
+    const item = requireItem(reportId, timestamp);
+    return item.dispatch ? null : setDispatch(item, dispatch);
+  };
+
+  const updateDispatch = async ({reportId, timestamp, dispatch}) => {
+    const item = requireItem(reportId, timestamp);
+    if (!item.dispatch) throw conflict(`Report ${reportId} was not routed`);
+    return setDispatch(item, dispatch);
+  };
+
+  const getDueDispatches = async (now) => Array.from(items.values())
+      .filter((item) => item.dispatch_due && item.dispatch_due <= now)
+      .map((item) => ({report: toReport(item), dispatch: item.dispatch}));
+
+  const getTrackedDispatches = async () => Array.from(items.values())
+      .filter((item) => item.dispatch_tracked)
+      .map((item) => ({report: toReport(item), dispatch: item.dispatch}));
+
+  const addAuditEntry = async (entry) => {
+    const item = buildAuditItem(entry);
+    auditItems.push(item);
+    return toAuditEntry(item);
+  };
+
+  const getAuditLog = async ({reportId, limit}) => auditItems
+      .filter((item) => !reportId || item.report_id === reportId)
+      .sort((a, b) => b.entry_id.localeCompare(a.entry_id))
+      .slice(0, limit)
+      .map(toAuditEntry);
+
+  // Everything in the store as plain data, for createMemoryStore to start
+  // from again
+  const snapshot = () => JSON.parse(JSON.stringify({
+    items: Array.from(items),
+    votes: Array.from(votes),
+    flags: Array.from(flags),
+    audit: auditItems,
+  }));
+
+  return {
+    saveReport,
+    saveImportedReport,
+    updateImportedReport,
+    getAllReports,
+    getReportsForReview,
+    getProbablyResolvedReports,
+    getReportsInRegion,
+    getReportsChangedSince,
+    getReport,
+    findReport,
+    updateStatus,
+    editReport,
+    getUserVote,
+    getVotes,
+    castVote,
+    addComment,
+    addImages,
+    updateCategory,
+    deleteReport,
+    removeComment,
+    getComments,
+    getUserCommentVotes,
+    castCommentVote,
+    addFlag,
+    getFlagReasons,
+    getFlagReasonsFor,
+    getUserFlags,
+    hideComment,
+    clearFlags,
+    startDispatch,
+    updateDispatch,
+    getDueDispatches,
+    getTrackedDispatches,
+    addAuditEntry,
+    getAuditLog,
+    snapshot,
+  };
+}
+
+module.exports = {createMemoryStore};
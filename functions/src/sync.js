@@ -0,0 +1,85 @@
+const {badRequest} = require("./errors");
+
+// Changes are indexed by day; a cursor older than this asks the app to
+// reload instead of replaying every day since
+const MAX_SYNC_DAYS = 7;
+
+// The returned cursor steps back this far so writes that were still
+// propagating to the index when the query ran are picked up next time
+const SYNC_OVERLAP_MS = 5 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Attributes recording when a report last changed, set on every write.
+ * @param {Date} date Time of the change
+ * @return {{updated_at: string, updated_day: string}}
+ */
+function changeFields(date = new Date()) {
+  const updatedAt = date.toISOString();
+  return {updated_at: updatedAt, updated_day: updatedAt.slice(0, 10)};
+}
+
+/**
+ * Update expression parts that stamp a report as changed.
+ * @return {{set: string, values: Object}}
+ */
+function changeUpdate() {
+  const fields = changeFields();
+  return {
+    set: "updated_at = :updatedAt, updated_day = :updatedDay",
+    values: {
+      ":updatedAt": fields.updated_at,
+      ":updatedDay": fields.updated_day,
+    },
+  };
+}
+
+/**
+ * Parse a sync cursor from a query parameter.
+ * @param {string} since ISO timestamp, or empty for the first sync
+ * @return {?Date} Cursor, or null if the app has to reload
+ */
+function parseCursor(since) {
+  if (!since) return null;
+  const cursor = new Date(since);
+  if (Number.isNaN(cursor.getTime())) {
+    throw badRequest("since must be an ISO timestamp");
+  }
+  return Date.now() - cursor.getTime() > MAX_SYNC_DAYS * DAY_MS ?
+    null :
+    cursor;
+}
+
+/**
+ * Days (YYYY-MM-DD) from the cursor's day through today.
+ * @param {Date} cursor
+ * @return {string[]}
+ */
+function daysSince(cursor) {
+  const days = [];
+  const today = new Date().toISOString().slice(0, 10);
+  for (let time = cursor.getTime(); ; time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    days.push(day);
+    if (day >= today) break;
+  }
+  return days;
+}
+
+/**
+ * Cursor the app sends on its next sync.
+ * @param {number} startedAt Time the sync query started, in milliseconds
+ * @return {string}
+ */
+function nextCursor(startedAt) {
+  return new Date(startedAt - SYNC_OVERLAP_MS).toISOString();
+}
+
+module.exports = {
+  changeFields,
+  changeUpdate,
+  parseCursor,
+  daysSince,
+  nextCursor,
+};
@@ -0,0 +1,35 @@
+/**
+ * Normalize a stored or requested vote.
+ * @param {*} vote Raw vote value
+ * @return {?string} "up", "down", or null for none/cleared
+ */
+function normalizeVote(vote) {
+  return vote === "up" || vote === "down" ? vote : null;
+}
+
+/**
+ * Count changes caused by replacing one vote with another.
+ * @param {?string} previousVote
+ * @param {?string} nextVote
+ * @return {{upDelta: number, downDelta: number}}
+ */
+function voteDeltas(previousVote, nextVote) {
+  return {
+    upDelta: (nextVote === "up" ? 1 : 0) - (previousVote === "up" ? 1 : 0),
+    downDelta:
+      (nextVote === "down" ? 1 : 0) - (previousVote === "down" ? 1 : 0),
+  };
+}
+
+/**
+ * Votes table key for a vote on a comment. Comment votes share the table
+ * with hazard votes, keyed under their report.
+ * @param {string} reportId
+ * @param {string} commentId
+ * @return {string}
+ */
+function commentTargetId(reportId, commentId) {
+  return `${reportId}#${commentId}`;
+}
+
+module.exports = {normalizeVote, voteDeltas, commentTargetId};
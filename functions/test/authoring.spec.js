@@ -0,0 +1,80 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createAuthoring} = require("../src/authoring");
+const {createEditToken, matchesEditToken} = require("../src/editTokens");
+
+const PHOTO = "https://api.example/uploads/report-1/photo.jpg";
+
+const setup = async (status = "active") => {
+  const store = createMemoryStore();
+  const {token, hash} = createEditToken();
+  const report = await store.saveReport({
+    id: "report-1",
+    timestamp: "2026-09-02T08:15:00.000Z",
+    title: "Pothole",
+    description: "Deep pothole",
+    category: "pothole",
+    latitude: 37.78,
+    longitude: -122.42,
+    images: [PHOTO],
+    reporterId: "device-1",
+    review: status === "pending_review" ?
+      {justification: "It is there"} : undefined,
+  }, {editTokenHash: hash});
+  const authoring = createAuthoring(store, {matchesEditToken});
+  const edit = (changes, screening) => authoring.editReport({
+    reportId: report.id,
+    timestamp: report.timestamp,
+    editToken: token,
+    validateImages: () => [],
+    screen: async () => screening,
+    ...changes,
+  });
+  return {store, edit};
+};
+
+describe("editReport", () => {
+  it("keeps an edit the hazard check passes on the map", async () => {
+    const {edit} = await setup();
+    const report =
+      await edit({title: "Deep pothole"}, {valid: true, reasons: []});
+    assert.equal(report.title, "Deep pothole");
+    assert.equal(report.status, "active");
+    assert.equal(report.editHistory.length, 1);
+  });
+
+  it("holds an edit the hazard check doesn't pass for review", async () => {
+    const {edit} = await setup();
+    const report = await edit({description: "Nothing to see"},
+        {valid: false, reasons: ["No hazard described"]});
+    assert.equal(report.description, "Nothing to see");
+    assert.equal(report.status, "pending_review");
+    assert.deepEqual(report.review.aiReasons, ["No hazard described"]);
+    const entry = report.statusHistory[report.statusHistory.length - 1];
+    assert.equal(entry.from, "active");
+    assert.equal(entry.to, "pending_review");
+    assert.equal(entry.automatic, true);
+  });
+
+  it("doesn't check an edit that only removes photos", async () => {
+    const {edit} = await setup();
+    const report = await edit({images: []}, null);
+    assert.deepEqual(report.images, []);
+    assert.equal(report.status, "active");
+  });
+
+  it("refuses new text on a report left without photos", async () => {
+    const {edit} = await setup();
+    await assert.rejects(
+        edit({images: [], title: "Deep pothole"}, {valid: true, reasons: []}),
+        {status: 400});
+  });
+
+  it("doesn't check reports already awaiting review", async () => {
+    const {edit} = await setup("pending_review");
+    const report = await edit({title: "Deep pothole"}, null);
+    assert.equal(report.status, "pending_review");
+    assert.equal(report.title, "Deep pothole");
+  });
+});
@@ -0,0 +1,111 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  ruleFor,
+  tallyVotes,
+  evaluateResolution,
+  createAutoResolver,
+} = require("../src/autoResolve");
+const {createMemoryStore} = require("../src/store/memoryStore");
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse("2026-09-10T12:00:00.000Z");
+
+const hoursAgo = (hours) => new Date(NOW - hours * HOUR_MS).toISOString();
+const votes = (vote, count, age = 0) =>
+  Array.from({length: count}, () => ({vote, updatedAt: hoursAgo(age)}));
+
+describe("ruleFor", () => {
+  it("adjusts the default rule per category", () => {
+    assert.equal(ruleFor("other").halfLifeHours, 48);
+    assert.equal(ruleFor("flooding").halfLifeHours, 6);
+    assert.equal(ruleFor("flooding").probableMargin, 2);
+  });
+});
+
+describe("tallyVotes", () => {
+  it("halves a vote's weight every half-life", () => {
+    const tally = tallyVotes(
+        [...votes("down", 1), ...votes("down", 1, 48), ...votes("up", 1, 96)],
+        ruleFor("other"), NOW);
+    assert.deepEqual(tally, {yes: 0.25, no: 1.5, yesVotes: 1, noVotes: 2});
+  });
+});
+
+describe("evaluateResolution", () => {
+  const report = (status, fields = {}) =>
+    ({status, category: "other", statusHistory: [], ...fields});
+
+  it("marks an open hazard probably resolved once enough say No", () => {
+    const decision =
+      evaluateResolution(report("active"), votes("down", 3), NOW);
+    assert.equal(decision.status, "probably_resolved");
+    assert.equal(decision.snapshot.margin, 3);
+    assert.equal(decision.snapshot.noVotes, 3);
+  });
+
+  it("needs the minimum number of No votes and margin", () => {
+    assert.equal(
+        evaluateResolution(report("active"), votes("down", 2), NOW), null);
+    assert.equal(evaluateResolution(report("in_progress"),
+        [...votes("down", 3), ...votes("up", 2)], NOW), null);
+  });
+
+  it("lets old votes count for less", () => {
+    assert.equal(
+        evaluateResolution(report("active"), votes("down", 3, 96), NOW),
+        null);
+  });
+
+  it("reopens a probably resolved hazard once Yes catches up", () => {
+    const decision = evaluateResolution(report("probably_resolved"),
+        [...votes("down", 3), ...votes("up", 3)], NOW);
+    assert.equal(decision.status, "active");
+  });
+
+  it("resolves after the wait with a wide enough margin", () => {
+    const waited = report("probably_resolved",
+        {statusHistory: [{to: "probably_resolved", at: hoursAgo(25)}]});
+    assert.equal(
+        evaluateResolution(waited, votes("down", 4), NOW).status,
+        "resolved");
+    assert.equal(evaluateResolution(waited, votes("down", 3), NOW), null);
+
+    const recent = report("probably_resolved",
+        {statusHistory: [{to: "probably_resolved", at: hoursAgo(2)}]});
+    assert.equal(evaluateResolution(recent, votes("down", 4), NOW), null);
+  });
+
+  it("leaves closed and hidden reports alone", () => {
+    ["resolved", "false_report", "rejected", "flagged"].forEach((status) =>
+      assert.equal(
+          evaluateResolution(report(status), votes("down", 10), NOW), null));
+  });
+});
+
+describe("auto-resolver", () => {
+  it("records vote-driven changes with the vote snapshot", async () => {
+    const store = createMemoryStore();
+    const report = await store.saveReport({
+      id: "report-1",
+      timestamp: "2026-09-01T10:00:00.000Z",
+      title: "Pothole",
+      description: "Deep pothole",
+      category: "other",
+      latitude: 37.78,
+      longitude: -122.42,
+    });
+    for (const voterId of ["a", "b", "c"]) {
+      await store.castVote({reportId: report.id, timestamp: report.timestamp,
+        voterId, vote: "down"});
+    }
+
+    const updated =
+      await createAutoResolver(store).evaluate(report.id, report.timestamp);
+    assert.equal(updated.status, "probably_resolved");
+    const change = updated.statusHistory[updated.statusHistory.length - 1];
+    assert.equal(change.changedBy, "auto-resolver");
+    assert.equal(change.automatic, true);
+    assert.equal(change.snapshot.noVotes, 3);
+  });
+});
@@ -0,0 +1,140 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createDispatcher} = require("../src/dispatch");
+
+const jurisdiction = {
+  id: "city",
+  name: "City",
+  polygons: [[[[-1, -1], [1, -1], [1, 1], [-1, 1], [-1, -1]]]],
+  contacts: {
+    default: [
+      {type: "webhook", url: "https://city.test/hook"},
+      {
+        type: "open311",
+        endpoint: "https://city.test/open311",
+        serviceCode: "GENERAL",
+        apiKey: "secret",
+      },
+    ],
+  },
+};
+
+const newReport = (fields = {}) => ({
+  id: "report-1",
+  timestamp: "2026-09-01T10:00:00.000Z",
+  title: "Pothole",
+  description: "Deep pothole in the right lane",
+  category: "pothole",
+  latitude: 0.5,
+  longitude: 0.5,
+  reporterId: "device-1",
+  ...fields,
+});
+
+// Senders that record what they were asked to send, failing while failures
+// is above zero
+const recordingSender = (failures = 0) => {
+  const sent = [];
+  return {
+    sent,
+    send: async (rule, notification) => {
+      if (failures > 0) {
+        failures--;
+        throw new Error("Service unavailable");
+      }
+      sent.push({rule, notification});
+      return rule.type === "open311" ? {serviceRequestId: "42"} : null;
+    },
+  };
+};
+
+const setup = ({webhookFailures = 0} = {}) => {
+  const store = createMemoryStore();
+  const senders = {
+    webhook: recordingSender(webhookFailures),
+    email: recordingSender(),
+    open311: recordingSender(),
+  };
+  const dispatcher =
+    createDispatcher(store, {jurisdictions: [jurisdiction], senders});
+  return {store, senders, dispatcher};
+};
+
+describe("dispatcher", () => {
+  it("routes a report and leaves sending to the sweep", async () => {
+    const {store, senders, dispatcher} = setup();
+    const routed =
+      await dispatcher.dispatchReport(await store.saveReport(newReport()));
+    assert.equal(routed.dispatch.jurisdictionId, "city");
+    assert.deepEqual(
+        routed.dispatch.deliveries.map(({type, status}) => [type, status]),
+        [["webhook", "pending"], ["open311", "pending"]]);
+    assert.equal(senders.webhook.sent.length, 0);
+
+    const result = await dispatcher.retryDue();
+    assert.deepEqual(result, {checked: 1, delivered: 2, failed: 0});
+    assert.equal(senders.webhook.sent[0].notification.report.id, "report-1");
+    assert.equal(senders.webhook.sent[0].notification.report.reporterId,
+        undefined);
+    const [{dispatch}] = (await store.getTrackedDispatches());
+    assert.equal(dispatch.deliveries[1].serviceRequestId, "42");
+  });
+
+  it("routes each report once", async () => {
+    const {store, dispatcher} = setup();
+    const routed =
+      await dispatcher.dispatchReport(await store.saveReport(newReport()));
+    assert.equal(await dispatcher.dispatchReport(routed), routed);
+  });
+
+  it("doesn't route reports off the map or outside every jurisdiction",
+      async () => {
+        const {store, dispatcher} = setup();
+        const held = await store.saveReport(newReport(),
+            {screening: {valid: false, reasons: ["Not a hazard"]}});
+        assert.equal((await dispatcher.dispatchReport(held)).dispatch, null);
+
+        const outside = await dispatcher.dispatchReport(await store.saveReport(
+            newReport({id: "report-2", latitude: 10})));
+        assert.equal(outside.dispatch.jurisdictionId, null);
+        assert.deepEqual(outside.dispatch.deliveries, []);
+      });
+
+  it("retries a failed delivery later", async () => {
+    const {store, senders, dispatcher} = setup({webhookFailures: 1});
+    await dispatcher.dispatchReport(await store.saveReport(newReport()));
+    await dispatcher.retryDue();
+
+    const report = await store.getReport("report-1",
+        "2026-09-01T10:00:00.000Z");
+    const [webhook] = report.dispatch.deliveries;
+    assert.equal(webhook.status, "pending");
+    assert.equal(webhook.attempts, 1);
+    assert.ok(webhook.nextAttemptAt > webhook.lastAttemptAt);
+    // Not due yet, so the next sweep leaves it alone
+    await dispatcher.retryDue();
+    assert.equal(senders.webhook.sent.length, 0);
+  });
+
+  it("cancels pending deliveries of a report taken off the map",
+      async () => {
+        const {store, senders, dispatcher} = setup();
+        await dispatcher.dispatchReport(await store.saveReport(newReport()));
+        await store.updateStatus({
+          reportId: "report-1",
+          timestamp: "2026-09-01T10:00:00.000Z",
+          status: "rejected",
+          changedBy: "moderator",
+          reviewed: true,
+        });
+        await dispatcher.retryDue();
+
+        const report = await store.getReport("report-1",
+            "2026-09-01T10:00:00.000Z");
+        assert.deepEqual(
+            report.dispatch.deliveries.map(({status}) => status),
+            ["cancelled", "cancelled"]);
+        assert.equal(senders.webhook.sent.length, 0);
+      });
+});
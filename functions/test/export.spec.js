@@ -0,0 +1,136 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  parseExportQuery,
+  checkExportArea,
+  filterForExport,
+  buildExport,
+} = require("../src/export");
+
+const report = (fields = {}) => ({
+  id: "report-1",
+  timestamp: "2026-09-01T10:00:00.000Z",
+  updatedAt: "2026-09-02T10:00:00.000Z",
+  title: "Pothole",
+  description: "Deep pothole",
+  category: "pothole",
+  status: "active",
+  latitude: 37.78,
+  longitude: -122.42,
+  upvotes: 3,
+  downvotes: 1,
+  comments: [
+    {id: "c1", text: "Still there", author: "Sam", authorId: "device-2"},
+    {id: "c2", text: "Buy now", author: "Spam", authorId: "device-3",
+      hidden: true},
+  ],
+  images: ["https://images.test/1.jpg"],
+  reporterId: "device-1",
+  reporterName: "Alex",
+  statusHistory: [{from: null, to: "active", changedBy: "device-1"}],
+  review: null,
+  dispatch: null,
+  source: null,
+  ...fields,
+});
+
+describe("export", () => {
+  it("reads the format and filters", () => {
+    assert.deepEqual(parseExportQuery({
+      format: "csv",
+      from: "2026-09-01",
+      categories: "pothole,trash",
+      statuses: "active",
+    }), {
+      format: "csv",
+      from: "2026-09-01T00:00:00.000Z",
+      to: null,
+      categories: ["pothole", "trash"],
+      statuses: ["active"],
+    });
+    assert.equal(parseExportQuery({}).format, "geojson");
+  });
+
+  it("refuses unknown formats, categories and hidden statuses", () => {
+    assert.throws(() => parseExportQuery({format: "xlsx"}), {status: 400});
+    assert.throws(() => parseExportQuery({categories: "lava"}),
+        {status: 400});
+    assert.throws(() => parseExportQuery({statuses: "rejected"}),
+        {status: 400});
+    assert.throws(() => parseExportQuery({from: "someday"}), {status: 400});
+  });
+
+  it("needs an area no larger than a map query", () => {
+    const area = {
+      latitude: 37.78,
+      longitude: -122.42,
+      latitudeDelta: 1,
+      longitudeDelta: 0.5,
+    };
+    assert.equal(checkExportArea(area), area);
+    assert.throws(() => checkExportArea(null), {status: 400});
+    assert.throws(() => checkExportArea({...area, longitudeDelta: -1.5}),
+        {status: 400});
+  });
+
+  it("keeps public reports matching the filters, oldest first", () => {
+    const reports = [
+      report({id: "late", timestamp: "2026-09-03T00:00:00.000Z"}),
+      report({id: "early", timestamp: "2026-08-01T00:00:00.000Z"}),
+      report({id: "trash", category: "trash"}),
+      report({id: "hidden", status: "pending_review"}),
+      report({id: "resolved", status: "resolved"}),
+    ];
+    const ids = (filters) => filterForExport(reports, {
+      from: null, to: null, categories: null, statuses: null, ...filters,
+    }).map(({id}) => id);
+
+    assert.deepEqual(ids({}), ["early", "trash", "resolved", "late"]);
+    assert.deepEqual(ids({from: "2026-09-01T00:00:00.000Z",
+      categories: ["pothole"], statuses: ["active"]}), ["late"]);
+  });
+
+  it("writes only public fields to GeoJSON", () => {
+    const file = buildExport([report()], "geojson");
+    assert.equal(file.contentType, "application/geo+json");
+    assert.match(file.filename, /^flagit-hazards-\d{4}-\d{2}-\d{2}\.geojson$/);
+
+    const [feature] = JSON.parse(file.body).features;
+    assert.deepEqual(feature.geometry,
+        {type: "Point", coordinates: [-122.42, 37.78]});
+    assert.deepEqual(Object.keys(feature.properties), [
+      "id", "timestamp", "updatedAt", "title", "description", "category",
+      "status", "latitude", "longitude", "upvotes", "downvotes", "netVotes",
+      "commentCount", "comments", "images", "source",
+    ]);
+    assert.equal(feature.properties.netVotes, 2);
+    assert.equal(feature.properties.commentCount, 1);
+  });
+
+  it("writes CSV without private fields, quoting as needed", () => {
+    const {body} = buildExport([report({
+      title: "=HYPERLINK(\"x\")",
+      description: "Deep, wide\npothole",
+    })], "csv");
+    const [header, ...rest] = body.split("\r\n");
+    assert.equal(header, "id,timestamp,updatedAt,title,description," +
+      "category,status,latitude,longitude,upvotes,downvotes,netVotes," +
+      "commentCount,comments,images,source");
+    const row = rest.join("\r\n");
+    assert.match(row, /"'=HYPERLINK\(""x""\)"/);
+    assert.match(row, /"Deep, wide\npothole"/);
+    assert.doesNotMatch(body, /device-1|Alex/);
+  });
+
+  it("writes the comments everyone sees, without their authors' IDs",
+      () => {
+        const [feature] =
+          JSON.parse(buildExport([report()], "geojson").body).features;
+        assert.deepEqual(feature.properties.comments,
+            [{id: "c1", text: "Still there", author: "Sam"}]);
+
+        const {body} = buildExport([report()], "csv");
+        assert.match(body, /""text"":""Still there""/);
+        assert.doesNotMatch(body, /device-2|device-3|Buy now/);
+      });
+});
@@ -0,0 +1,65 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createFlags} = require("../src/flags");
+
+const setup = async (threshold) => {
+  const store = createMemoryStore();
+  const report = await store.saveReport({
+    id: "report-1",
+    timestamp: "2026-09-02T08:15:00.000Z",
+    title: "Pothole",
+    description: "Deep pothole",
+    category: "pothole",
+    latitude: 37.78,
+    longitude: -122.42,
+  });
+  const flags = createFlags(store, {threshold});
+  const flag = (flaggerId) => flags.flagReport({
+    reportId: report.id,
+    timestamp: report.timestamp,
+    flaggerId,
+    reason: "spam",
+  });
+  return {store, report, flag};
+};
+
+describe("flagReport", () => {
+  it("hides the report once enough people flag it", async () => {
+    const {store, report, flag} = await setup(2);
+    assert.equal((await flag("device-1")).hidden, false);
+    assert.equal((await flag("device-2")).hidden, true);
+
+    const stored = await store.getReport(report.id, report.timestamp);
+    assert.equal(stored.status, "flagged");
+    const entry = stored.statusHistory[stored.statusHistory.length - 1];
+    assert.equal(entry.changedBy, "community-flags");
+  });
+
+  it("hides the report once when flags pass the threshold together",
+      async () => {
+        const {store, report, flag} = await setup(1);
+        const results = await Promise.all([flag("device-1"), flag("device-2")]);
+        assert.deepEqual(results.map(({hidden}) => hidden), [true, true]);
+
+        const stored = await store.getReport(report.id, report.timestamp);
+        assert.equal(stored.status, "flagged");
+        assert.equal(stored.statusHistory.filter(
+            ({to}) => to === "flagged").length, 1);
+      });
+});
+
+describe("flagTargetId", () => {
+  // Comment votes are keyed `${reportId}#${commentId}` in the same table
+  it("can't collide with a comment vote's key", async () => {
+    const store = createMemoryStore();
+    await assert.rejects(store.saveReport({
+      id: "flag",
+      timestamp: "2026-09-02T08:15:00.000Z",
+      title: "Pothole",
+      description: "Deep pothole",
+      latitude: 37.78,
+      longitude: -122.42,
+    }), {status: 400});
+  });
+});
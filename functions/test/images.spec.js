@@ -0,0 +1,85 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  MAX_IMAGE_BYTES,
+  validateUpload,
+  imageKey,
+  contentTypeOf,
+} = require("../src/images/contentTypes");
+const {createLocalImageStore} = require("../src/images/localImages");
+
+const BASE_URL = "http://localhost/api";
+
+describe("validateUpload", () => {
+  it("accepts a supported image within the size limit", () => {
+    assert.doesNotThrow(() => validateUpload("image/jpeg", 1024));
+    assert.doesNotThrow(() => validateUpload("image/heic", MAX_IMAGE_BYTES));
+  });
+
+  it("rejects other content types", () => {
+    assert.throws(() => validateUpload("application/pdf", 1024),
+        {status: 400});
+  });
+
+  it("rejects sizes that aren't a positive whole number of bytes", () => {
+    for (const size of [0, -1, 1.5, "1024", undefined]) {
+      assert.throws(() => validateUpload("image/png", size), {status: 400});
+    }
+  });
+
+  it("rejects images over the limit with 413", () => {
+    assert.throws(() => validateUpload("image/png", MAX_IMAGE_BYTES + 1),
+        {status: 413});
+  });
+});
+
+describe("imageKey and contentTypeOf", () => {
+  it("keys images under their report with the type's extension", () => {
+    const key = imageKey("report-1", "image/webp");
+    assert.match(key, /^report-1\/[0-9a-f-]{36}\.webp$/);
+    assert.equal(contentTypeOf(key), "image/webp");
+  });
+
+  it("knows no type for other extensions", () => {
+    assert.equal(contentTypeOf("report-1/notes.txt"), null);
+  });
+});
+
+describe("local image store uploads", () => {
+  const target = (images, size = 4) => images.createUploadTarget({
+    reportId: "report-upload-test",
+    contentType: "image/png",
+    size,
+    publicBaseUrl: BASE_URL,
+  });
+
+  it("stores an upload that matches its target", async () => {
+    const images = createLocalImageStore();
+    const {key, url} = await target(images);
+    await images.receiveUpload(key, "image/png", Buffer.from("abcd"));
+    const image = await images.getImage(key);
+    assert.equal(url, `${BASE_URL}/uploads/${key}`);
+    assert.equal(image.contentType, "image/png");
+    assert.equal(image.data.toString(), "abcd");
+    await images.deleteReportImages("report-upload-test");
+  });
+
+  it("refuses uploads of another type or size", async () => {
+    const images = createLocalImageStore();
+    const {key} = await target(images);
+    await assert.rejects(
+        images.receiveUpload(key, "image/jpeg", Buffer.from("abcd")),
+        {status: 400});
+    await assert.rejects(
+        images.receiveUpload(key, "image/png", Buffer.from("abcde")),
+        {status: 400});
+  });
+
+  it("refuses uploads without a target", async () => {
+    const images = createLocalImageStore();
+    await assert.rejects(
+        images.receiveUpload("report-upload-test/unknown.png", "image/png",
+            Buffer.from("abcd")),
+        {status: 403});
+  });
+});
@@ -0,0 +1,213 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createImporter} = require("../src/importer");
+
+const HEADER = "Case ID,Opened,Type,Status,Details,Latitude,Longitude";
+const csv = (...rows) => [HEADER, ...rows].join("\n");
+const POTHOLE =
+  "SF-1,2026-09-02T08:15:00Z,Pothole,Open,\"Deep, wide pothole\",37.78,-122.42";
+
+const setup = () => {
+  const store = createMemoryStore();
+  const importer = createImporter(store);
+  const importCsv = (content, options = {}) => importer.importReports(
+      {format: "csv", content, source: "sf-311", ...options}, "moderator");
+  return {store, importCsv};
+};
+
+describe("importer", () => {
+  it("creates reports from CSV rows, recognizing common columns",
+      async () => {
+        const {store, importCsv} = setup();
+        const result = await importCsv(csv(POTHOLE));
+        assert.equal(result.created, 1);
+        assert.equal(result.columns.description, "Details");
+
+        const [report] = await store.getAllReports();
+        assert.equal(report.id, result.results[0].reportId);
+        assert.equal(report.description, "Deep, wide pothole");
+        assert.equal(report.category, "pothole");
+        assert.equal(report.status, "active");
+        assert.equal(report.timestamp, "2026-09-02T08:15:00.000Z");
+        assert.deepEqual(report.source,
+            {...report.source, name: "sf-311", recordId: "SF-1"});
+      });
+
+  it("reads GeoJSON points", async () => {
+    const {store} = setup();
+    const result = await createImporter(store).importReports({
+      format: "geojson",
+      source: "city",
+      content: JSON.stringify({type: "FeatureCollection", features: [{
+        type: "Feature",
+        id: 7,
+        properties: {title: "Flooded underpass", type: "flooding"},
+        geometry: {type: "Point", coordinates: [-122.42, 37.78]},
+      }]}),
+    }, "moderator");
+    assert.equal(result.created, 1);
+    const [report] = await store.getAllReports();
+    assert.equal(report.latitude, 37.78);
+    assert.equal(report.longitude, -122.42);
+    assert.equal(report.category, "flooding");
+  });
+
+  it("lists failing rows without stopping", async () => {
+    const {importCsv} = setup();
+    const result = await importCsv(csv(
+        POTHOLE,
+        "SF-2,2026-09-02,Lava,Open,Hot,37.78,-122.42",
+        "SF-3,2026-09-02,Pothole,Pending,Hole,37.78,-122.42",
+        "SF-4,2026-09-02,Pothole,Open,Hole,137.78,-122.42",
+        "SF-1,2026-09-02,Pothole,Open,Again,37.78,-122.42",
+    ));
+    assert.equal(result.created, 1);
+    assert.equal(result.failed, 4);
+    assert.deepEqual(
+        result.results.filter(({action}) => action === "failed")
+            .map(({row}) => row),
+        [2, 3, 4, 5]);
+    assert.match(result.results[1].error, /Unknown category "Lava"/);
+    assert.match(result.results[4].error, /appears twice/);
+  });
+
+  it("maps columns and categories the import names", async () => {
+    const {store, importCsv} = setup();
+    await importCsv(
+        "Ref,Subject,Kind,Lat,Lng\nA1,Tagged wall,Graffiti,37.78,-122.42",
+        {columns: {id: "Ref", title: "Subject", latitude: "Lat",
+          longitude: "Lng", category: "Kind"},
+        categories: {Graffiti: "signage_damage"}});
+    const [report] = await store.getAllReports();
+    assert.equal(report.title, "Tagged wall");
+    assert.equal(report.category, "signage_damage");
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const {store, importCsv} = setup();
+    const result = await importCsv(csv(POTHOLE), {dryRun: true});
+    assert.equal(result.created, 1);
+    assert.deepEqual(await store.getAllReports(), []);
+    assert.deepEqual(await store.getAuditLog({limit: 10}), []);
+  });
+
+  it("updates reports when the same source is imported again", async () => {
+    const {store, importCsv} = setup();
+    await importCsv(csv(POTHOLE));
+    assert.equal((await importCsv(csv(POTHOLE))).unchanged, 1);
+
+    const result = await importCsv(csv(POTHOLE.replace("Deep", "Shallow")));
+    assert.equal(result.updated, 1);
+    const reports = await store.getAllReports();
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].description, "Shallow, wide pothole");
+  });
+
+  it("takes status changes from the source", async () => {
+    const {store, importCsv} = setup();
+    await importCsv(csv(POTHOLE));
+    const result = await importCsv(csv(POTHOLE.replace("Open", "Closed")));
+    assert.equal(result.updated, 1);
+
+    const [report] = await store.getAllReports();
+    assert.equal(report.status, "resolved");
+    const change = report.statusHistory[report.statusHistory.length - 1];
+    assert.equal(change.from, "active");
+    assert.equal(change.changedBy, "importer");
+    assert.equal(change.changedByName, "sf-311");
+  });
+
+  it("keeps the status of a report a moderator is holding back",
+      async () => {
+        const {store, importCsv} = setup();
+        await importCsv(csv(POTHOLE));
+        const [imported] = await store.getAllReports();
+        await store.updateStatus({
+          reportId: imported.id,
+          timestamp: imported.timestamp,
+          status: "rejected",
+          changedBy: "moderator",
+          reviewed: true,
+        });
+        const result =
+          await importCsv(csv(POTHOLE.replace("Open", "Closed")));
+        assert.equal(result.unchanged, 1);
+        const report = await store.getReport(imported.id, imported.timestamp);
+        assert.equal(report.status, "rejected");
+      });
+
+  it("keeps categories and photos changed since the last import",
+      async () => {
+        const {store, importCsv} = setup();
+        const HEADER_WITH_IMAGES = `${HEADER},Photo`;
+        const withPhoto = (photo) =>
+          `${HEADER_WITH_IMAGES}\n${POTHOLE},${photo}`;
+        await importCsv(withPhoto("https://city.example/1.jpg"));
+        const [imported] = await store.getAllReports();
+        const key = {reportId: imported.id, timestamp: imported.timestamp};
+        await store.updateCategory({...key, category: "broken_sidewalk"});
+        await store.addImages({...key, images: ["https://app.example/2.jpg"]});
+
+        const result = await importCsv(withPhoto("https://city.example/3.jpg"));
+        assert.equal(result.updated, 1);
+        const report = await store.getReport(imported.id, imported.timestamp);
+        assert.equal(report.category, "broken_sidewalk");
+        assert.deepEqual(report.images, [
+          "https://city.example/1.jpg",
+          "https://app.example/2.jpg",
+          "https://city.example/3.jpg",
+        ]);
+      });
+
+  it("lists records that can't be written without stopping", async () => {
+    const store = createMemoryStore();
+    const importer = createImporter({
+      ...store,
+      saveImportedReport: async (params) => {
+        if (params.source.recordId === "SF-1") throw new Error("Write failed");
+        return store.saveImportedReport(params);
+      },
+    });
+    const result = await importer.importReports({
+      format: "csv",
+      source: "sf-311",
+      content: csv(POTHOLE, POTHOLE.replace("SF-1", "SF-2")),
+    }, "moderator");
+    assert.equal(result.created, 1);
+    assert.equal(result.failed, 1);
+    assert.equal(result.results[0].action, "failed");
+    assert.equal(result.results[0].recordId, "SF-1");
+    assert.equal(result.results[0].error, "Write failed");
+    assert.equal((await store.getAllReports()).length, 1);
+  });
+
+  it("records each import in the audit log", async () => {
+    const {store, importCsv} = setup();
+    await importCsv(csv(POTHOLE));
+    const [entry] = await store.getAuditLog({limit: 10});
+    assert.equal(entry.action, "import");
+    assert.equal(entry.moderator, "moderator");
+    assert.equal(entry.reportId, "import:sf-311");
+    assert.deepEqual(entry.details, {
+      source: "sf-311",
+      total: 1,
+      created: 1,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      failed: 0,
+    });
+  });
+
+  it("checks the request", async () => {
+    const {importCsv} = setup();
+    await assert.rejects(importCsv(csv(POTHOLE), {format: "xlsx"}),
+        {status: 400});
+    await assert.rejects(importCsv(csv(POTHOLE), {source: " "}),
+        {status: 400});
+    await assert.rejects(importCsv(csv(POTHOLE), {columns: {color: "C"}}),
+        {status: 400});
+    await assert.rejects(importCsv("\"unclosed"), {status: 400});
+  });
+});
@@ -0,0 +1,165 @@
+const {describe, it, before, after} = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const {
+  loadJurisdictions,
+  findJurisdiction,
+  contactsFor,
+  findContact,
+} = require("../src/jurisdictions");
+
+// A square around a point, as a GeoJSON ring
+const square = (longitude, latitude, half) => [[
+  [longitude - half, latitude - half],
+  [longitude + half, latitude - half],
+  [longitude + half, latitude + half],
+  [longitude - half, latitude + half],
+  [longitude - half, latitude - half],
+]];
+
+const feature = (properties, geometry) => ({
+  type: "Feature",
+  properties,
+  geometry: geometry || {type: "Polygon", coordinates: square(0, 0, 1)},
+});
+
+describe("jurisdictions", () => {
+  let dir;
+  let files = 0;
+  const write = (features) => {
+    const file = path.join(dir, `jurisdictions-${++files}.json`);
+    fs.writeFileSync(file,
+        JSON.stringify({type: "FeatureCollection", features}));
+    return file;
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flagit-jurisdictions-"));
+  });
+  after(() => fs.rmSync(dir, {recursive: true, force: true}));
+
+  it("routes nowhere without a file", () => {
+    assert.deepEqual(loadJurisdictions(null), []);
+  });
+
+  it("loads the example file", () => {
+    const jurisdictions = loadJurisdictions(
+        path.join(__dirname, "..", "jurisdictions.example.json"));
+    assert.deepEqual(jurisdictions.map(({id}) => id), ["sf-downtown", "sf"]);
+  });
+
+  it("rejects unknown contact types and categories", () => {
+    assert.throws(() => loadJurisdictions(write([feature({
+      id: "a", contacts: {default: [{type: "fax", number: "1"}]},
+    })])), /contact type must be one of/);
+    assert.throws(() => loadJurisdictions(write([feature({
+      id: "a", contacts: {lava: [{type: "email", address: "a@example.org"}]},
+    })])), /unknown category lava/);
+  });
+
+  it("needs a URL for webhooks and a service code for Open311", () => {
+    assert.throws(() => loadJurisdictions(write([feature({
+      id: "a", contacts: {default: {type: "webhook", url: "ftp://x"}},
+    })])), /not an http\(s\) URL/);
+    assert.throws(() => loadJurisdictions(write([feature({
+      id: "a",
+      contacts: {default: {type: "open311", endpoint: "https://city.test"}},
+    })])), /need a serviceCode or serviceCodes/);
+  });
+
+  it("rejects geometries other than polygons", () => {
+    assert.throws(() => loadJurisdictions(write([feature(
+        {id: "a"}, {type: "Point", coordinates: [0, 0]})])),
+    /Polygon or MultiPolygon/);
+  });
+
+  it("finds the first jurisdiction containing a point", () => {
+    const jurisdictions = loadJurisdictions(write([
+      feature({id: "inner"}, {
+        type: "Polygon",
+        // The inner square has a hole around (0.5, 0.5)
+        coordinates: [...square(0.5, 0.5, 1), ...square(0.5, 0.5, 0.1)],
+      }),
+      feature({id: "outer"}, {
+        type: "MultiPolygon",
+        coordinates: [square(0, 0, 3), square(10, 10, 1)],
+      }),
+    ]));
+    const at = (latitude, longitude) => {
+      const found = findJurisdiction(jurisdictions, latitude, longitude);
+      return found && found.id;
+    };
+    assert.equal(at(0, 0), "inner");
+    assert.equal(at(0.5, 0.5), "outer");
+    assert.equal(at(10, 10), "outer");
+    assert.equal(at(20, 20), null);
+  });
+
+  it("gives a category's contacts, or the default ones", () => {
+    const [jurisdiction] = loadJurisdictions(write([feature({
+      id: "a",
+      contacts: {
+        default: [{type: "webhook", url: "https://city.test/hook"}],
+        pothole: [
+          {type: "email", address: "roads@example.org"},
+          {
+            type: "open311",
+            endpoint: "https://city.test/open311",
+            serviceCodes: {pothole: "PH"},
+            apiKey: "secret",
+          },
+        ],
+      },
+    })]));
+    assert.deepEqual(contactsFor(jurisdiction, "pothole"), [
+      {
+        contactId: "pothole/0",
+        rule: {type: "email", address: "roads@example.org"},
+      },
+      {
+        contactId: "pothole/1",
+        rule: {
+          type: "open311",
+          endpoint: "https://city.test/open311",
+          serviceCode: "PH",
+          apiKey: "secret",
+          jurisdictionId: null,
+        },
+      },
+    ]);
+    assert.deepEqual(contactsFor(jurisdiction, "trash"), [{
+      contactId: "default/0",
+      rule: {type: "webhook", url: "https://city.test/hook"},
+    }]);
+  });
+
+  it("skips Open311 contacts with no service code for a category", () => {
+    const [jurisdiction] = loadJurisdictions(write([feature({
+      id: "a",
+      contacts: {default: [
+        {type: "open311", endpoint: "https://city.test", serviceCodes: {
+          pothole: "PH",
+        }},
+        {type: "email", address: "all@example.org"},
+      ]},
+    })]));
+    assert.deepEqual(
+        contactsFor(jurisdiction, "trash").map(({contactId}) => contactId),
+        ["default/1"]);
+  });
+
+  it("looks contacts up by id", () => {
+    const jurisdictions = loadJurisdictions(write([feature({
+      id: "a",
+      contacts: {default: [{type: "webhook", url: "https://city.test/a"}]},
+    })]));
+    assert.deepEqual(findContact(jurisdictions, "a", "default/0", "trash"),
+        {type: "webhook", url: "https://city.test/a"});
+    assert.equal(findContact(jurisdictions, "a", "default/1", "trash"), null);
+    assert.equal(findContact(jurisdictions, "a", "pothole/0", "pothole"),
+        null);
+    assert.equal(findContact(jurisdictions, "b", "default/0", "trash"), null);
+  });
+});
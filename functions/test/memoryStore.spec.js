@@ -0,0 +1,76 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+
+const report = {
+  id: "report-1",
+  timestamp: "2026-09-01T10:00:00.000Z",
+  title: "Pothole",
+  description: "Deep pothole in the right lane",
+  category: "pothole",
+  latitude: 37.7793,
+  longitude: -122.4193,
+  reporterId: "device-1",
+};
+
+describe("memory store saveReport", () => {
+  it("saves a new report as active", async () => {
+    const store = createMemoryStore();
+    const saved = await store.saveReport(report);
+    assert.equal(saved.id, "report-1");
+    assert.equal(saved.status, "active");
+    assert.deepEqual(await store.getAllReports(), [saved]);
+  });
+
+  // The app's submission queue resends a report when it can't tell whether
+  // an attempt arrived, and takes 409 as "already sent"
+  it("refuses a report it already has with 409", async () => {
+    const store = createMemoryStore();
+    await store.saveReport(report);
+    await assert.rejects(
+        store.saveReport({...report, title: "Resent"}),
+        {status: 409});
+    const reports = await store.getAllReports();
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].title, "Pothole");
+  });
+});
+
+describe("memory store votes and comments", () => {
+  it("refuses them on reports that left the map with 404", async () => {
+    const store = createMemoryStore();
+    const saved = await store.saveReport(report);
+    const key = {reportId: saved.id, timestamp: saved.timestamp};
+    await store.updateStatus({...key, status: "rejected",
+      changedBy: "moderator", reviewed: true});
+
+    await assert.rejects(
+        store.castVote({...key, voterId: "device-2", vote: "up"}),
+        {status: 404});
+    await assert.rejects(
+        store.addComment({...key, text: "Still there", author: "Sam",
+          authorId: "device-2"}),
+        {status: 404});
+  });
+});
+
+describe("memory store snapshot", () => {
+  it("starts a new store with the same reports, votes and flags",
+      async () => {
+        const store = createMemoryStore();
+        await store.saveReport(report);
+        await store.castVote({...report, reportId: report.id,
+          voterId: "device-2", vote: "down"});
+        await store.addFlag({reportId: report.id,
+          timestamp: report.timestamp, flaggerId: "device-3", reason: "spam"});
+
+        const restored = createMemoryStore(
+            JSON.parse(JSON.stringify(store.snapshot())));
+        assert.deepEqual(await restored.getAllReports(),
+            await store.getAllReports());
+        assert.equal(
+            await restored.getUserVote(report.id, "device-2"), "down");
+        assert.deepEqual(await restored.getFlagReasons(report.id, null),
+            {spam: 1});
+      });
+});
@@ -0,0 +1,72 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createModeration, needsModeration} = require("../src/moderation");
+const {createFlags} = require("../src/flags");
+
+const report = (fields = {}) =>
+  ({status: "active", upvotes: 0, downvotes: 0, comments: [], ...fields});
+
+describe("needsModeration", () => {
+  it("holds for reports and comments moderators have to look at", () => {
+    assert.equal(needsModeration(report()), false);
+    assert.equal(needsModeration(report({status: "pending_review"})), true);
+    assert.equal(needsModeration(report({downvotes: 5})), true);
+    assert.equal(needsModeration(report({downvotes: 5, upvotes: 6})), false);
+    assert.equal(needsModeration(
+        report({comments: [{hidden: true, upvotes: 0, downvotes: 0}]})), true);
+  });
+
+  it("leaves out deleted and merged reports", () => {
+    assert.equal(needsModeration(report({status: "merged", downvotes: 9})),
+        false);
+    assert.equal(needsModeration(report({
+      status: "deleted",
+      comments: [{hidden: true, upvotes: 0, downvotes: 0}],
+    })), false);
+  });
+});
+
+describe("getQueue", () => {
+  it("lists flagged reports and comments with their flag reasons",
+      async () => {
+        const store = createMemoryStore();
+        const saved = await store.saveReport({
+          id: "report-1",
+          timestamp: "2026-09-02T08:15:00.000Z",
+          title: "Pothole",
+          description: "Deep pothole",
+          category: "pothole",
+          latitude: 37.78,
+          longitude: -122.42,
+        });
+        await store.saveReport({
+          id: "report-2",
+          timestamp: "2026-09-03T08:15:00.000Z",
+          title: "Flooding",
+          description: "Flooded underpass",
+          category: "flooding",
+          latitude: 37.78,
+          longitude: -122.42,
+        });
+        const key = {reportId: saved.id, timestamp: saved.timestamp};
+        const comment = await store.addComment({
+          ...key, text: "Buy now", author: "Sam", authorId: "device-2",
+        });
+        const flags = createFlags(store, {threshold: 1});
+        // Comments can only be flagged while the report is on the map
+        await flags.flagComment({
+          ...key, commentId: comment.id, flaggerId: "device-3",
+          reason: "offensive",
+        });
+        await flags.flagReport({...key, flaggerId: "device-3", reason: "spam"});
+
+        const queue = await createModeration(store).getQueue();
+        assert.deepEqual(queue.reports.map(({report, reasons, flags}) =>
+          [report.id, reasons, flags]),
+        [["report-1", ["flagged"], {spam: 1}]]);
+        assert.deepEqual(queue.comments.map(({comment, reasons, flags}) =>
+          [comment.id, reasons, flags]),
+        [[comment.id, ["flagged"], {offensive: 1}]]);
+      });
+});
@@ -0,0 +1,169 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createMemoryStore} = require("../src/store/memoryStore");
+const {createDispatcher} = require("../src/dispatch");
+const {createOpen311Sync} = require("../src/open311Sync");
+
+const TIMESTAMP = "2026-09-01T10:00:00.000Z";
+
+const cityWith = (contacts) => ({
+  id: "city",
+  name: "City",
+  polygons: [[[[-1, -1], [1, -1], [1, 1], [-1, 1], [-1, -1]]]],
+  contacts: {default: contacts},
+});
+
+const open311Contact = {
+  type: "open311",
+  endpoint: "https://city.test/open311",
+  serviceCode: "GENERAL",
+  apiKey: "secret",
+};
+
+// A city that files requests under a token and answers with the request's
+// current status
+const fakeCity = () => {
+  const city = {status: "open", notes: null, rules: []};
+  city.client = {
+    lookupToken: async (rule, token) => {
+      city.rules.push(rule);
+      return token === "token-1" ? "42" : null;
+    },
+    getRequest: async (rule, serviceRequestId) => {
+      city.rules.push(rule);
+      return {
+        serviceRequestId,
+        status: city.status,
+        statusNotes: city.notes,
+        updatedAt: "2026-09-02T10:00:00.000Z",
+      };
+    },
+  };
+  return city;
+};
+
+// Route and file a report, returning the store, the city and the sync
+const fileReport = async (jurisdictions = [cityWith([open311Contact])]) => {
+  const store = createMemoryStore();
+  const city = fakeCity();
+  const dispatcher = createDispatcher(store, {
+    jurisdictions,
+    senders: {open311: {send: async () => ({token: "token-1"})}},
+  });
+  await dispatcher.dispatchReport(await store.saveReport({
+    id: "report-1",
+    timestamp: TIMESTAMP,
+    title: "Pothole",
+    description: "Deep pothole in the right lane",
+    category: "pothole",
+    latitude: 0.5,
+    longitude: 0.5,
+    reporterId: "device-1",
+  }));
+  await dispatcher.retryDue();
+  const {sync} =
+    createOpen311Sync(store, {client: city.client, jurisdictions});
+  return {store, city, sync};
+};
+
+const storedDelivery = async (store) => {
+  const [{dispatch}] = await store.getTrackedDispatches();
+  return dispatch.deliveries[0];
+};
+
+describe("Open311 sync", () => {
+  it("keeps the contact's id, not its settings, on the delivery",
+      async () => {
+        const {store} = await fileReport();
+        const delivery = await storedDelivery(store);
+        assert.equal(delivery.contactId, "default/0");
+        assert.equal(delivery.rule, undefined);
+        assert.doesNotMatch(JSON.stringify(delivery), /secret/);
+      });
+
+  it("finds the request for a token and acknowledges the report",
+      async () => {
+        const {store, city, sync} = await fileReport();
+        assert.deepEqual(await sync(), {checked: 1, updated: 1});
+
+        const delivery = await storedDelivery(store);
+        assert.equal(delivery.serviceRequestId, "42");
+        assert.equal(delivery.serviceStatus, "open");
+        assert.equal(city.rules[0].apiKey, "secret");
+
+        const report = await store.getReport("report-1", TIMESTAMP);
+        assert.equal(report.status, "acknowledged");
+        const change = report.statusHistory[report.statusHistory.length - 1];
+        assert.equal(change.changedBy, "open311");
+        assert.equal(change.changedByName, "City");
+      });
+
+  it("resolves the report when the city closes the request", async () => {
+    const {store, city, sync} = await fileReport();
+    await sync();
+    city.status = "closed";
+    city.notes = "Filled";
+    await sync();
+
+    const report = await store.getReport("report-1", TIMESTAMP);
+    assert.equal(report.status, "resolved");
+    assert.equal(
+        report.statusHistory[report.statusHistory.length - 1].note,
+        "Filled");
+    // A closed request is no longer followed
+    assert.deepEqual(await store.getTrackedDispatches(), []);
+  });
+
+  it("leaves reports a moderator took off the map alone", async () => {
+    const {store, sync} = await fileReport();
+    await store.updateStatus({
+      reportId: "report-1",
+      timestamp: TIMESTAMP,
+      status: "rejected",
+      changedBy: "moderator",
+      reviewed: true,
+    });
+    await sync();
+    const report = await store.getReport("report-1", TIMESTAMP);
+    assert.equal(report.status, "rejected");
+  });
+
+  it("stops following a contact that left the jurisdictions file",
+      async () => {
+        const {store, city} = await fileReport();
+        const {sync} = createOpen311Sync(store, {
+          client: city.client,
+          jurisdictions: [cityWith([])],
+        });
+        assert.deepEqual(await sync(), {checked: 1, updated: 0});
+        assert.deepEqual(city.rules, []);
+      });
+});
+
+describe("Open311 delivery", () => {
+  it("fails a delivery whose contact left the jurisdictions file",
+      async () => {
+        const store = createMemoryStore();
+        const report = await store.saveReport({
+          id: "report-1",
+          timestamp: TIMESTAMP,
+          title: "Pothole",
+          description: "Deep pothole in the right lane",
+          category: "pothole",
+          latitude: 0.5,
+          longitude: 0.5,
+        });
+        const send = async () => ({token: "token-1"});
+        await createDispatcher(store, {
+          jurisdictions: [cityWith([open311Contact])],
+          senders: {open311: {send}},
+        }).dispatchReport(report);
+
+        await createDispatcher(store, {
+          jurisdictions: [cityWith([])],
+          senders: {open311: {send}},
+        }).retryDue();
+        const {dispatch} = await store.getReport("report-1", TIMESTAMP);
+        assert.equal(dispatch.deliveries[0].status, "failed");
+      });
+});
@@ -0,0 +1,58 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {createRulesAnalyzer} = require("../src/rulesAnalyzer");
+
+const photo = {data: "aGF6YXJk", mimeType: "image/jpeg"};
+
+describe("rules analyzer", () => {
+  const {analyzeHazard} = createRulesAnalyzer();
+
+  it("picks the category with the most keyword matches", async () => {
+    const analysis = await analyzeHazard({
+      title: "Fallen tree",
+      description: "A branch from a tree is blocking the sidewalk",
+      images: [photo],
+    });
+    assert.equal(analysis.valid_hazard, true);
+    assert.equal(analysis.category, "tree_blockage");
+    assert.deepEqual(analysis.relevant_images, [0]);
+  });
+
+  it("matches keywords at the start of words", async () => {
+    const analysis = await analyzeHazard({
+      description: "Two potholes by the bus stop",
+      images: [photo],
+    });
+    assert.equal(analysis.category, "pothole");
+  });
+
+  it("falls back to other when nothing matches", async () => {
+    const analysis = await analyzeHazard({
+      description: "Something odd on the corner",
+      images: [photo, photo],
+    });
+    assert.equal(analysis.valid_hazard, true);
+    assert.equal(analysis.category, "other");
+    assert.deepEqual(analysis.relevant_images, [0, 1]);
+  });
+
+  it("rejects private scenes", async () => {
+    const analysis = await analyzeHazard({
+      description: "Selfie in my kitchen",
+      images: [photo],
+    });
+    assert.equal(analysis.valid_hazard, false);
+    assert.match(analysis.reasons[1], /selfie/);
+  });
+
+  it("answers the same input the same way", async () => {
+    const params = {description: "Flooded drain", images: [photo]};
+    assert.deepEqual(await analyzeHazard(params), await analyzeHazard(params));
+  });
+
+  it("needs a description and images", async () => {
+    await assert.rejects(analyzeHazard({images: [photo]}), {status: 400});
+    await assert.rejects(analyzeHazard({description: "Pothole"}),
+        {status: 400});
+  });
+});
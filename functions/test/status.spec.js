@@ -0,0 +1,116 @@
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  TRANSITIONS,
+  STATUSES,
+  isPublicReport,
+  buildStatusChange,
+  publicStatusChange,
+  initialStatusEntry,
+} = require("../src/status");
+
+describe("status transitions", () => {
+  it("only lead to known statuses", () => {
+    Object.values(TRANSITIONS).flat().forEach((status) =>
+      assert.ok(STATUSES.includes(status), status));
+  });
+
+  it("build a history entry for an allowed change", () => {
+    const entry = buildStatusChange("active", {
+      status: "in_progress",
+      changedBy: "device-1",
+      changedByName: "  Alex  ",
+      note: " Crew on site ",
+    });
+    assert.equal(entry.from, "active");
+    assert.equal(entry.to, "in_progress");
+    assert.equal(entry.changedByName, "Alex");
+    assert.equal(entry.note, "Crew on site");
+    assert.equal(entry.automatic, undefined);
+  });
+
+  it("refuse unknown statuses and changes that aren't allowed", () => {
+    assert.throws(() => buildStatusChange("active", {status: "gone"}),
+        {status: 400});
+    assert.throws(() => buildStatusChange("resolved", {status: "in_progress"}),
+        {status: 400});
+    assert.throws(() => buildStatusChange("merged", {status: "active"}),
+        {status: 400});
+  });
+
+  it("leave automatic statuses to votes and flags", () => {
+    assert.throws(
+        () => buildStatusChange("active", {status: "probably_resolved"}),
+        /only set automatically/);
+    const entry = buildStatusChange("active", {
+      status: "flagged",
+      changedBy: "community-flags",
+      snapshot: {flags: 3},
+    });
+    assert.equal(entry.automatic, true);
+    assert.deepEqual(entry.snapshot, {flags: 3});
+  });
+
+  it("leave moderated statuses to moderators", () => {
+    assert.throws(() => buildStatusChange("active", {status: "rejected"}),
+        /Only a moderator/);
+    assert.throws(() => buildStatusChange("flagged", {status: "active"}),
+        /Only a moderator/);
+    assert.equal(buildStatusChange("pending_review",
+        {status: "active", reviewed: true}).to, "active");
+  });
+
+  it("leave retracting to the author", () => {
+    assert.throws(
+        () => buildStatusChange("active", {status: "retracted",
+          reviewed: true}),
+        /Only the report's author/);
+    assert.equal(buildStatusChange("rejected",
+        {status: "retracted", byAuthor: true}).to, "retracted");
+  });
+
+  it("limit notes", () => {
+    assert.throws(() => buildStatusChange("active", {
+      status: "resolved",
+      note: "x".repeat(501),
+    }), {status: 400});
+  });
+});
+
+describe("isPublicReport", () => {
+  it("hides moderated, retracted and deleted reports", () => {
+    ["active", "acknowledged", "probably_resolved", "resolved",
+      "false_report"].forEach((status) =>
+      assert.equal(isPublicReport({status}), true, status));
+    ["pending_review", "flagged", "rejected", "merged", "retracted",
+      "deleted"].forEach((status) =>
+      assert.equal(isPublicReport({status}), false, status));
+  });
+});
+
+describe("publicStatusChange", () => {
+  const change = (changedBy, from = "active") =>
+    ({from, to: "resolved", changedBy, changedByName: "Name", note: null});
+
+  it("names who made a change by role, never by reporter ID", () => {
+    const report = {reporterId: "device-1", source: null};
+    const role = (entry) => publicStatusChange(entry, report).role;
+    assert.equal(role(change("device-1")), "author");
+    assert.equal(role(change("device-2")), "community");
+    assert.equal(role(change("moderator")), "moderator");
+    assert.equal(role(change("auto-resolver")), "community");
+    assert.equal(role(change("open311")), "city");
+    assert.equal(role(change("importer")), "source");
+    assert.equal(publicStatusChange(change("device-2"), report).changedBy,
+        undefined);
+  });
+
+  it("credits an imported report's first status to its source", () => {
+    const first = initialStatusEntry("2026-09-01T00:00:00.000Z", null,
+        "sf-311", "resolved");
+    assert.equal(publicStatusChange(first, {reporterId: null,
+      source: {name: "sf-311"}}).role, "source");
+    assert.equal(publicStatusChange(first, {reporterId: null,
+      source: null}).role, "author");
+  });
+});
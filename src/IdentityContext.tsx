@@ -0,0 +1,104 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { loadIdentity, saveDisplayName, loadModeratorSession, saveModeratorSession } from './identity';
+import { moderation } from './repository';
+
+interface Identity {
+  reporterId: string | null;
+  displayName: string | null;
+  isReady: boolean;
+  setDisplayName: (name: string | null) => Promise<void>;
+  // Set while signed in with a moderator key; moderator mode is only offered then
+  moderator: string | null;
+  moderatorKey: string | null;
+  signInAsModerator: (key: string) => Promise<void>;
+  signOutModerator: () => Promise<void>;
+}
+
+const IdentityContext = createContext<Identity>({
+  reporterId: null,
+  displayName: null,
+  isReady: false,
+  setDisplayName: async () => {},
+  moderator: null,
+  moderatorKey: null,
+  signInAsModerator: async () => {},
+  signOutModerator: async () => {},
+});
+
+// Loads the device's anonymous identity once and shares it with every screen
+export function IdentityProvider({ children }: { children: React.ReactNode }) {
+  const [reporterId, setReporterId] = useState<string | null>(null);
+  const [displayName, setDisplayNameState] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [moderatorSession, setModeratorSession] = useState<{ key: string, moderator: string | null } | null>(null);
+
+  useEffect(() => {
+    loadIdentity()
+      .then(identity => {
+        setReporterId(identity.reporterId);
+        setDisplayNameState(identity.displayName);
+      })
+      .catch(error => console.error('Error loading identity:', error))
+      .finally(() => setIsReady(true));
+
+    // A saved moderator key is used straight away and dropped if the backend no longer accepts it
+    loadModeratorSession()
+      .then(async session => {
+        if (!session) return;
+        setModeratorSession(session);
+        try {
+          await moderation.getModeratorSession(session.key);
+        } catch (error) {
+          if (error.status === 401 || error.status === 403) {
+            setModeratorSession(null);
+            await saveModeratorSession(null);
+          }
+        }
+      })
+      .catch(error => console.error('Error loading moderator session:', error));
+  }, []);
+
+  const setDisplayName = async (name: string | null) => {
+    try {
+      setDisplayNameState(await saveDisplayName(name));
+    } catch (error) {
+      console.error('Error saving display name:', error);
+      throw error;
+    }
+  };
+
+  const signInAsModerator = async (key: string) => {
+    const { moderator } = await moderation.getModeratorSession(key);
+    const session = { key, moderator };
+    await saveModeratorSession(session);
+    setModeratorSession(session);
+  };
+
+  const signOutModerator = async () => {
+    setModeratorSession(null);
+    try {
+      await saveModeratorSession(null);
+    } catch (error) {
+      console.error('Error signing out moderator:', error);
+    }
+  };
+
+  return (
+    <IdentityContext.Provider
+      value={{
+        reporterId,
+        displayName,
+        isReady,
+        setDisplayName,
+        moderator: moderatorSession ? moderatorSession.moderator || 'Moderator' : null,
+        moderatorKey: moderatorSession?.key || null,
+        signInAsModerator,
+        signOutModerator,
+      }}
+    >
+      {children}
+    </IdentityContext.Provider>
+  );
+}
+
+export const useIdentity = () => useContext(IdentityContext);
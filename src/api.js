@@ -0,0 +1,51 @@
+import Constants from 'expo-constants';
+import { getDeviceId } from './deviceId';
+
+// Base URL of the FlagIt backend (functions/), e.g. the emulator's
+// http://<your-ip>:5001/demo-flagit/us-central1/api
+export const API_BASE_URL = Constants.expoConfig?.extra?.apiBaseUrl || process.env.FLAGIT_API_URL;
+
+/**
+ * Call the FlagIt backend API. Requests say which device is asking (X-Viewer-Id), so the backend can
+ * mark this device's own reports and comments without sending anyone's device ID back.
+ * @param {string} path - Path below the API base URL, e.g. '/reports'
+ * @param {Object} options
+ * @param {string} options.method - HTTP method (default GET)
+ * @param {Object} options.query - Query string parameters
+ * @param {Object} options.body - JSON request body
+ * @param {Object} options.headers - Extra request headers, e.g. a moderator's Authorization
+ * @param {string} options.responseType - 'json' (default), or 'text' for a file such as an export
+ * @returns {Promise<Object>} - The parsed JSON response, or null for an empty one; the text for responseType 'text'
+ */
+export const apiRequest = async (path, { method = 'GET', query, body, headers, responseType = 'json' } = {}) => {
+  if (!API_BASE_URL) throw new Error('Missing FLAGIT_API_URL');
+
+  const search = query
+    ? '?' + Object.entries(query)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .join('&')
+    : '';
+
+  const resp = await fetch(`${API_BASE_URL}${path}${search}`, {
+    method,
+    headers: {
+      'x-viewer-id': await getDeviceId(),
+      ...(body && { 'content-type': 'application/json' }),
+      ...headers,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  // Errors are JSON whatever was asked for
+  if (resp.ok && responseType === 'text') return resp.text();
+
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok) {
+    const error = new Error(data?.error || `API error ${resp.status}`);
+    error.status = resp.status;
+    error.code = data?.code || null;
+    throw error;
+  }
+  return data;
+};
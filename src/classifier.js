@@ -0,0 +1,25 @@
+import Constants from 'expo-constants';
+import { isLocalBackend } from './repository';
+import { geminiClassifier } from './gemini';
+import { rulesClassifier } from './rulesClassifier';
+
+// How reports are checked before posting, set with FLAGIT_CLASSIFIER (see app.config.js):
+// - remote: the backend, which asks Gemini; the default with the remote data backend
+// - rules: keyword rules on the device, no network; the default with a local data backend
+const CLASSIFIERS = {
+  remote: geminiClassifier,
+  rules: rulesClassifier,
+};
+
+const resolveClassifierProvider = () => {
+  const requested = Constants.expoConfig?.extra?.classifier || process.env.FLAGIT_CLASSIFIER ||
+    (isLocalBackend ? 'rules' : 'remote');
+  if (CLASSIFIERS[requested]) return requested;
+  console.error(`Unknown FLAGIT_CLASSIFIER "${requested}", using remote`);
+  return 'remote';
+};
+
+export const classifierProvider = resolveClassifierProvider();
+
+/** @type {import('./hazardAnalysis').HazardClassifier} */
+export const classifier = CLASSIFIERS[classifierProvider];
@@ -25,10 +25,19 @@ interface ConfirmationScreenProps {
     latitude: number;
     longitude: number;
     timestamp: string;
+    syncStatus: 'synced' | 'pending' | 'failed';
+    syncError?: string | null;
+    // Set when the report waits for human review: the reporter sent it after the hazard check rejected it,
+    // or the server's own check didn't pass it (no justification then)
+    review?: { justification: string | null } | null;
   };
 }
 
 export default function ConfirmationScreen({ onBack, onComplete, reportData }: ConfirmationScreenProps) {
+  // Only claim success once the server has acknowledged the report
+  const isSynced = reportData.syncStatus === 'synced';
+  const isFailed = reportData.syncStatus === 'failed';
+  const isForReview = !!reportData.review;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.8)).current;
   const slideAnim = useRef(new Animated.Value(height)).current;
@@ -61,13 +70,14 @@ export default function ConfirmationScreen({ onBack, onComplete, reportData }: C
       }),
     ]).start();
 
-    // Auto navigate back after 2 seconds
+    // Auto navigate back after 2 seconds; an unsent report stays up so the user can read why
+    if (!isSynced) return;
     const timer = setTimeout(() => {
       onComplete();
     }, 2000);
 
     return () => clearTimeout(timer);
-  }, [onComplete]);
+  }, [onComplete, isSynced]);
 
   const handleBackToMap = () => {
     onBack();
@@ -117,6 +127,7 @@ export default function ConfirmationScreen({ onBack, onComplete, reportData }: C
       <Animated.View 
         style={[
           styles.banner,
+          !isSynced && (isFailed ? styles.bannerFailed : styles.bannerPending),
           {
             opacity: fadeAnim,
             transform: [{ scale: scaleAnim }],
@@ -124,8 +135,14 @@ export default function ConfirmationScreen({ onBack, onComplete, reportData }: C
         ]}
       >
         <View style={styles.bannerContent}>
-          <Ionicons name="checkmark-circle" size={28} color="#27AE60" />
-          <Text style={styles.bannerText}>Report Submitted Successfully!</Text>
+          <Ionicons
+            name={isSynced ? 'checkmark-circle' : isFailed ? 'alert-circle' : 'cloud-offline'}
+            size={28}
+            color="#FFFFFF"
+          />
+          <Text style={styles.bannerText}>
+            {isSynced ? (isForReview ? 'Sent for Review' : 'Report Submitted Successfully!') : isFailed ? 'Report Not Sent' : 'Report Saved on Your Device'}
+          </Text>
         </View>
       </Animated.View>
 
@@ -223,13 +240,26 @@ export default function ConfirmationScreen({ onBack, onComplete, reportData }: C
         ]}
       >
         <View style={styles.cardHeader}>
-          <Ionicons name="checkmark-circle" size={32} color="#27AE60" />
-          <Text style={styles.cardTitle}>Report Submitted!</Text>
+          <Ionicons
+            name={isSynced ? 'checkmark-circle' : isFailed ? 'alert-circle' : 'time'}
+            size={32}
+            color={isSynced ? '#27AE60' : isFailed ? '#E74C3C' : '#F39C12'}
+          />
+          <Text style={styles.cardTitle}>
+            {isSynced ? (isForReview ? 'Sent for Review' : 'Report Submitted!') : isFailed ? 'Report Not Sent' : 'Waiting to Send'}
+          </Text>
         </View>
         
         <Text style={styles.cardSubtext}>
-          Your hazardous waste report has been submitted and is being reviewed. 
-          You'll receive updates on the status of your report.
+          {isSynced
+            ? isForReview
+              ? reportData.review?.justification
+                ? 'A moderator will look at your report and your explanation. It will appear on the map once they approve it.'
+                : 'The hazard check could not confirm this report, so a moderator will look at it. It will appear on the map once they approve it.'
+              : "Your hazardous waste report has been submitted and is being reviewed. You'll receive updates on the status of your report."
+            : isFailed
+              ? `The server rejected this report${reportData.syncError ? `: ${reportData.syncError}` : '.'} You can retry or discard it from My Reports.`
+              : "We couldn't reach the server, so your report is saved on this device. It will be sent automatically when you're back online."}
         </Text>
         
         <View style={styles.reportDetails}>
@@ -272,6 +302,12 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  bannerPending: {
+    backgroundColor: '#F39C12',
+  },
+  bannerFailed: {
+    backgroundColor: '#E74C3C',
+  },
   bannerContent: {
     flexDirection: 'row',
     alignItems: 'center',
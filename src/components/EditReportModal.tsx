@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Image,
+  Dimensions,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { repository, imageStore } from '../repository';
+import type { LocalImage, Report } from '../repository/types';
+import { HAZARD_CATEGORIES } from '../hazardAnalysis';
+
+const { width, height } = Dimensions.get('window');
+
+// Same limits as the backend (functions/src/reports.js)
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_REPORT_IMAGES = 20;
+
+interface EditableReport {
+  id: string;
+  timestamp: string;
+  title: string;
+  description: string;
+  category?: string;
+  images: string[];
+}
+
+interface EditReportModalProps {
+  // The author's report, or null when the modal is closed
+  report: EditableReport | null;
+  onClose: () => void;
+  onSaved: (report: Report) => void;
+}
+
+const formatCategory = (category: string) => category.replace(/_/g, ' ');
+
+export default function EditReportModal({ report, onClose, onSaved }: EditReportModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('other');
+  const [images, setImages] = useState<string[]>([]);
+  // Photos picked in this edit, uploaded when it is saved
+  const [newPhotos, setNewPhotos] = useState<LocalImage[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start each edit from the report as it is now
+  useEffect(() => {
+    if (!report) return;
+    setTitle(report.title);
+    setDescription(report.description || '');
+    setCategory(report.category || 'other');
+    setImages(report.images || []);
+    setNewPhotos([]);
+  }, [report]);
+
+  const photoCount = images.length + newPhotos.length;
+
+  const addPhotos = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Photo library permission is required to select photos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+    if (!result.canceled && result.assets) {
+      const picked = result.assets.map(a => ({ uri: a.uri, mimeType: a.mimeType || 'image/jpeg' }));
+      setNewPhotos(prev => [...prev, ...picked].slice(0, MAX_REPORT_IMAGES - images.length));
+    }
+  };
+
+  const save = async () => {
+    if (!report) return;
+    if (!title.trim()) {
+      Alert.alert('Title required', 'Please give the hazard a title.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const uploaded = newPhotos.length ? await imageStore.uploadImages(newPhotos, report.id) : [];
+      const updated = await repository.editReport({
+        reportId: report.id,
+        timestamp: report.timestamp,
+        title,
+        description,
+        category,
+        images: [...images, ...uploaded],
+      });
+      onSaved(updated);
+    } catch (error) {
+      Alert.alert('Changes not saved', error?.message ? String(error.message) : 'Could not save your changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!report}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Edit Report</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666666" />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionTitle}>Title</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              maxLength={MAX_TITLE_LENGTH}
+              placeholder="Hazard title"
+            />
+
+            <Text style={styles.sectionTitle}>Description</Text>
+            <TextInput
+              style={[styles.input, styles.descriptionInput]}
+              value={description}
+              onChangeText={setDescription}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              placeholder="Describe the hazard"
+              multiline
+            />
+
+            <Text style={styles.sectionTitle}>Category</Text>
+            <View style={styles.chips}>
+              {HAZARD_CATEGORIES.map(key => (
+                <Pressable
+                  key={key}
+                  style={[styles.chip, category === key && styles.chipSelected]}
+                  onPress={() => setCategory(key)}
+                >
+                  <Text style={[styles.chipText, category === key && styles.chipTextSelected]}>
+                    {formatCategory(key)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Photos</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {images.map(url => (
+                <View key={url} style={styles.photo}>
+                  <Image source={{ uri: url }} style={styles.photoImage} />
+                  <Pressable
+                    style={styles.removePhoto}
+                    onPress={() => setImages(prev => prev.filter(image => image !== url))}
+                  >
+                    <Ionicons name="close-circle" size={22} color="#E74C3C" />
+                  </Pressable>
+                </View>
+              ))}
+              {newPhotos.map(photo => (
+                <View key={photo.uri} style={styles.photo}>
+                  <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                  <Pressable
+                    style={styles.removePhoto}
+                    onPress={() => setNewPhotos(prev => prev.filter(item => item.uri !== photo.uri))}
+                  >
+                    <Ionicons name="close-circle" size={22} color="#E74C3C" />
+                  </Pressable>
+                </View>
+              ))}
+              {photoCount < MAX_REPORT_IMAGES && (
+                <Pressable style={styles.addPhoto} onPress={addPhotos}>
+                  <Ionicons name="add" size={28} color="#3498DB" />
+                </Pressable>
+              )}
+            </ScrollView>
+          </ScrollView>
+
+          <Pressable
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            disabled={isSaving}
+            onPress={save}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save changes</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginHorizontal: 20,
+    maxHeight: height * 0.8,
+    width: width - 40,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 5 },
+    elevation: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    flex: 1,
+    marginRight: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  descriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#3498DB',
+    borderColor: '#3498DB',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  photo: {
+    marginRight: 8,
+  },
+  photoImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 11,
+  },
+  addPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3498DB',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3498DB',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
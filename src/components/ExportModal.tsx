@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Dimensions,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repository } from '../repository';
+import type { ExportFormat, HazardStatus, Region } from '../repository/types';
+import { HAZARD_CATEGORIES } from '../hazardAnalysis';
+import { STATUS_DISPLAY, isPublicStatus } from '../hazardStatus';
+import { EXPORT_FORMATS, canExportRegion, shareExport } from '../hazardExport';
+
+const { width, height } = Dimensions.get('window');
+
+interface ExportModalProps {
+  visible: boolean;
+  // The map area on screen, or null before the map has one
+  visibleRegion: Region | null;
+  onClose: () => void;
+}
+
+// How far back an export reaches; null takes every report
+const DATE_RANGES: { label: string; days: number | null }[] = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'All time', days: null },
+];
+
+// Only reports on the map can be exported
+const EXPORT_STATUSES = (Object.keys(STATUS_DISPLAY) as HazardStatus[]).filter(isPublicStatus);
+
+const formatCategory = (category: string) => category.replace(/_/g, ' ');
+
+// Selecting a chip adds it to the filter; no chips selected means no filter
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+export default function ExportModal({ visible, visibleRegion, onClose }: ExportModalProps) {
+  const [days, setDays] = useState<number | null>(30);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<HazardStatus[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Exports cover the map area on screen, once it is zoomed in far enough
+  const canExport = canExportRegion(visibleRegion);
+
+  const exportHazards = async () => {
+    if (!canExport) return;
+    setIsExporting(true);
+    try {
+      const file = await repository.exportReports({
+        format,
+        region: visibleRegion,
+        from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null,
+        categories,
+        statuses,
+      });
+      await shareExport(file);
+    } catch (error) {
+      Alert.alert('Export failed', error?.message ? String(error.message) : 'Could not export hazards. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <Pressable key={label} style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Export Hazards</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666666" />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>Area</Text>
+            <Text style={styles.hint}>
+              {canExport
+                ? 'Hazards in the visible map area are exported.'
+                : 'Zoom the map in to a city-sized area to export the hazards in it.'}
+            </Text>
+
+            <Text style={styles.sectionTitle}>Reported</Text>
+            <View style={styles.chips}>
+              {DATE_RANGES.map(range => renderChip(range.label, days === range.days, () => setDays(range.days)))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Categories</Text>
+            <View style={styles.chips}>
+              {HAZARD_CATEGORIES.map(category => renderChip(
+                formatCategory(category),
+                categories.includes(category),
+                () => setCategories(toggle(categories, category))
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Statuses</Text>
+            <View style={styles.chips}>
+              {EXPORT_STATUSES.map(status => renderChip(
+                STATUS_DISPLAY[status].label,
+                statuses.includes(status),
+                () => setStatuses(toggle(statuses, status))
+              ))}
+            </View>
+            <Text style={styles.hint}>Leave categories or statuses unselected to include them all.</Text>
+
+            <Text style={styles.sectionTitle}>Format</Text>
+            <View style={styles.chips}>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key =>
+                renderChip(EXPORT_FORMATS[key].label, format === key, () => setFormat(key))
+              )}
+            </View>
+          </ScrollView>
+
+          <Pressable
+            style={[styles.exportButton, (isExporting || !canExport) && styles.exportButtonDisabled]}
+            disabled={isExporting || !canExport}
+            onPress={exportHazards}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+                <Text style={styles.exportButtonText}>Export and share</Text>
+              </>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginHorizontal: 20,
+    maxHeight: height * 0.8,
+    width: width - 40,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 5 },
+    elevation: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    flex: 1,
+    marginRight: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#3498DB',
+    borderColor: '#3498DB',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#7F8C8D',
+    marginTop: 6,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3498DB',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { FLAG_REASONS, FLAG_REASON_LABELS } from '../flagReasons';
+import type { FlagReason } from '../repository/types';
+
+interface FlagReasonPickerProps {
+  // What is being reported, e.g. "this hazard"
+  subject: string;
+  onSelect: (reason: FlagReason) => void;
+  onCancel: () => void;
+}
+
+// Asks why something is being reported; drawn over the hazard modal's content
+export default function FlagReasonPicker({ subject, onSelect, onCancel }: FlagReasonPickerProps) {
+  return (
+    <View style={styles.overlay}>
+      <Ionicons name="flag" size={28} color="#8E44AD" />
+      <Text style={styles.title}>Report {subject}</Text>
+      <Text style={styles.subtitle}>
+        What's wrong with it? If enough people report it, it is hidden until a moderator reviews it.
+      </Text>
+      {FLAG_REASONS.map((reason: FlagReason) => (
+        <Pressable key={reason} style={styles.reasonButton} onPress={() => onSelect(reason)}>
+          <Text style={styles.reasonText}>{FLAG_REASON_LABELS[reason]}</Text>
+        </Pressable>
+      ))}
+      <Pressable style={styles.cancelButton} onPress={onCancel}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(255, 255, 255, 0.97)',
+    borderRadius: 16,
+    padding: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  reasonButton: {
+    alignSelf: 'stretch',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F8F9FA',
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  reasonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7F8C8D',
+  },
+});
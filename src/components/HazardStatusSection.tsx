@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, TextInput, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { STATUS_DISPLAY, NEXT_STATUSES } from '../hazardStatus';
+import type { ReportDispatch, StatusChangeRole } from '../repository/types';
+
+type HazardStatus = keyof typeof STATUS_DISPLAY;
+
+export interface StatusChange {
+  from: HazardStatus | null;
+  to: HazardStatus;
+  role: StatusChangeRole;
+  changedByName: string | null;
+  note: string | null;
+  at: string;
+  automatic?: boolean;
+  // Votes behind an automatic resolution, the flags that hid the report, or the city's request
+  snapshot?:
+    | { yes: number, no: number, yesVotes: number, noVotes: number }
+    | { flags: number }
+    | { serviceRequestId: string, serviceStatus: string };
+}
+
+interface HazardStatusSectionProps {
+  status: HazardStatus;
+  history: StatusChange[];
+  // Whether this device submitted the report, so its author's changes read as "you"
+  ownReport: boolean;
+  // Whether the status actions are shown: to the report's author and to moderators
+  canChangeStatus: boolean;
+  // Where the backend sent the report, if anywhere
+  dispatch?: ReportDispatch | null;
+  onChangeStatus: (status: HazardStatus, note: string) => Promise<void>;
+}
+
+// How sending the report to its jurisdiction went, or null if it wasn't sent anywhere
+const dispatchLabel = (dispatch?: ReportDispatch | null) => {
+  if (!dispatch?.jurisdictionName || dispatch.deliveries.length === 0) return null;
+  const statuses = dispatch.deliveries.map((delivery) => delivery.status);
+  const request = dispatch.deliveries.find((delivery) => delivery.serviceRequestId);
+  if (request) return `Sent to ${dispatch.jurisdictionName} as request #${request.serviceRequestId}`;
+  if (statuses.includes('delivered')) return `Sent to ${dispatch.jurisdictionName}`;
+  if (statuses.includes('pending')) return `Sending to ${dispatch.jurisdictionName}…`;
+  if (statuses.includes('failed')) return `Could not reach ${dispatch.jurisdictionName}`;
+  return null;
+};
+
+// Shown for changes made without a display name
+const ROLE_LABELS: Record<StatusChangeRole, string> = {
+  author: 'the reporter',
+  moderator: 'a moderator',
+  community: 'Anonymous User',
+  city: 'the city',
+  source: 'the imported dataset',
+};
+
+const actionLabel = (to: HazardStatus) =>
+  to === 'active' ? 'Reopen' : `Mark ${STATUS_DISPLAY[to].label.toLowerCase()}`;
+
+// Status badge, actions to move the hazard along, and its status history
+export default function HazardStatusSection({
+  status,
+  history,
+  ownReport,
+  canChangeStatus,
+  dispatch,
+  onChangeStatus,
+}: HazardStatusSectionProps) {
+  const [note, setNote] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const display = STATUS_DISPLAY[status] || STATUS_DISPLAY.active;
+  const sentTo = dispatchLabel(dispatch);
+
+  const handleChange = async (next: HazardStatus) => {
+    if (isUpdating) return;
+    setIsUpdating(true);
+    try {
+      await onChangeStatus(next, note.trim());
+      setNote('');
+    } catch (error: any) {
+      Alert.alert('Status not changed', error?.message ? String(error.message) : 'Could not change the status. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const changedByLabel = (change: StatusChange) => {
+    if (change.role === 'author' && ownReport) return 'you';
+    return change.changedByName || ROLE_LABELS[change.role] || 'Anonymous User';
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.badge, { backgroundColor: display.color }]}>
+        <Ionicons name={display.icon} size={14} color="#FFFFFF" />
+        <Text style={styles.badgeText}>{display.label}</Text>
+      </View>
+      {sentTo && (
+        <View style={styles.dispatchRow}>
+          <Ionicons name="business-outline" size={14} color="#7F8C8D" />
+          <Text style={styles.dispatchText}>{sentTo}</Text>
+        </View>
+      )}
+
+      {canChangeStatus && (
+        <>
+          <View style={styles.actions}>
+            {(NEXT_STATUSES[status] || []).map((next: HazardStatus) => (
+              <Pressable
+                key={next}
+                style={[styles.actionButton, { borderColor: STATUS_DISPLAY[next].color }, isUpdating && styles.actionButtonDisabled]}
+                onPress={() => handleChange(next)}
+                disabled={isUpdating}
+              >
+                <Text style={[styles.actionButtonText, { color: STATUS_DISPLAY[next].color }]}>
+                  {actionLabel(next)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Add a note with the status change (optional)"
+            placeholderTextColor="#999999"
+            maxLength={500}
+          />
+        </>
+      )}
+
+      {history.length > 0 && (
+        <View style={styles.timeline}>
+          <Text style={styles.timelineTitle}>History</Text>
+          {[...history].reverse().map((change, index) => (
+            <View key={`${change.at}-${index}`} style={styles.timelineItem}>
+              <View style={[styles.timelineDot, { backgroundColor: (STATUS_DISPLAY[change.to] || STATUS_DISPLAY.active).color }]} />
+              <View style={styles.timelineContent}>
+                <Text style={styles.timelineText}>
+                  {change.from
+                    ? `${(STATUS_DISPLAY[change.to] || STATUS_DISPLAY.active).label} by ${changedByLabel(change)}`
+                    : `Reported by ${changedByLabel(change)}`}
+                </Text>
+                <Text style={styles.timelineTime}>{new Date(change.at).toLocaleString()}</Text>
+                {change.note && <Text style={styles.timelineNote}>{change.note}</Text>}
+                {change.automatic && change.snapshot && 'yesVotes' in change.snapshot && (
+                  <Text style={styles.timelineSnapshot}>
+                    {`Yes ${change.snapshot.yesVotes} · No ${change.snapshot.noVotes} (weighted by age: ${change.snapshot.yes} vs ${change.snapshot.no})`}
+                  </Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 10,
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  dispatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  dispatchText: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginLeft: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  noteInput: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2C3E50',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  timeline: {
+    marginTop: 12,
+  },
+  timelineTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+    marginRight: 8,
+  },
+  timelineContent: {
+    flex: 1,
+  },
+  timelineText: {
+    fontSize: 13,
+    color: '#2C3E50',
+  },
+  timelineTime: {
+    fontSize: 11,
+    color: '#95A5A6',
+  },
+  timelineSnapshot: {
+    fontSize: 11,
+    color: '#95A5A6',
+    marginTop: 2,
+  },
+  timelineNote: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+});
@@ -12,11 +12,22 @@ import {
   Dimensions,
   ScrollView,
   TextInput,
+  Animated,
 } from 'react-native';
 import MapView, { PROVIDER_GOOGLE, Marker } from 'react-native-maps';
 import * as Location from 'expo-location';
 import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
+import { repository } from '../repository';
+import type { HazardStatus, FlagReason, ReportDispatch, ReportEdit, ReportSource } from '../repository/types';
+import { isClosedStatus, isPublicStatus } from '../hazardStatus';
+import { FLAG_REASON_LABELS } from '../flagReasons';
+import HazardStatusSection, { StatusChange } from './HazardStatusSection';
+import FlagReasonPicker from './FlagReasonPicker';
+import ExportModal from './ExportModal';
+import EditReportModal from './EditReportModal';
+import { useIdentity } from '../IdentityContext';
+import { isHazardStale } from '../hazardCache';
 
 const { width, height } = Dimensions.get('window');
 
@@ -32,47 +43,181 @@ interface Hazard {
   downvotes?: number;
   comments?: Comment[];
   category?: string;
+  fetchedAt?: string;
+  reporterName?: string | null;
+  // Whether this device submitted it
+  own?: boolean;
+  status?: HazardStatus;
+  statusHistory?: StatusChange[];
+  editHistory?: ReportEdit[];
+  dispatch?: ReportDispatch | null;
+  source?: ReportSource | null;
+  updatedAt?: string;
 }
 
 interface Comment {
   id: string;
   text: string;
   author: string;
+  own?: boolean;
   timestamp: string;
   upvotes?: number;
   downvotes?: number;
 }
 
+type Vote = 'up' | 'down' | null;
+type VoteCounts = { upvotes: number, downvotes: number };
+
+// Toggle logic: voting the same way again removes the vote; otherwise the new vote replaces the old one
+const toggleVote = (currentVote: Vote, voteType: 'up' | 'down', counts: VoteCounts) => {
+  const newVote: Vote = currentVote === voteType ? null : voteType;
+  const newCounts = { ...counts };
+
+  if (currentVote === 'up') {
+    newCounts.upvotes = Math.max(0, newCounts.upvotes - 1);
+  } else if (currentVote === 'down') {
+    newCounts.downvotes = Math.max(0, newCounts.downvotes - 1);
+  }
+
+  if (newVote === 'up') {
+    newCounts.upvotes += 1;
+  } else if (newVote === 'down') {
+    newCounts.downvotes += 1;
+  }
+
+  return { newVote, newCounts };
+};
+
+// "just now", "5 min ago", "3 h ago", or the date for anything older than a day
+const formatUpdatedAgo = (updatedAt: string, now: number) => {
+  const minutes = Math.floor((now - new Date(updatedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return new Date(updatedAt).toLocaleDateString();
+};
+
+// Pin for a hazard; pins for hazards that arrive after the map first loads pop in.
+// Stale and resolved hazards are greyed out.
+const HazardPin = ({ stale, animateIn }: { stale: boolean, animateIn: boolean }) => {
+  const scale = useRef(new Animated.Value(animateIn ? 0 : 1)).current;
+
+  useEffect(() => {
+    if (!animateIn) return;
+    Animated.spring(scale, {
+      toValue: 1,
+      tension: 120,
+      friction: 5,
+      useNativeDriver: true,
+    }).start();
+  }, [animateIn]);
+
+  return (
+    <Animated.View style={[styles.markerContainer, stale && styles.markerStale, { transform: [{ scale }] }]}>
+      <Ionicons name="flag" size={24} color={stale ? '#95A5A6' : '#E74C3C'} />
+    </Animated.View>
+  );
+};
+
+interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
 interface MapScreenProps {
   onFlagPress: () => void;
+  onRegionChange: (region: MapRegion) => void;
   hazards: Hazard[];
+  onHazardUpdated: (hazard: Hazard) => void;
+  lastUpdatedAt: string | null;
+  isShowingCachedHazards: boolean;
+  pendingSubmissionCount: number;
+  onMyReportsPress: () => void;
+  // Only moderators get a shortcut to the moderation queue
+  isModerator: boolean;
+  onModerationPress: () => void;
 }
 
-export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
+// Wait for panning to settle before querying hazards for the new region
+const REGION_QUERY_DEBOUNCE_MS = 500;
+
+export default function MapScreen({
+  onFlagPress,
+  onRegionChange,
+  hazards,
+  onHazardUpdated,
+  lastUpdatedAt,
+  isShowingCachedHazards,
+  pendingSubmissionCount,
+  onMyReportsPress,
+  isModerator,
+  onModerationPress,
+}: MapScreenProps) {
+  const { reporterId: voterId, displayName, moderatorKey } = useIdentity();
   const mapRef = useRef(null);
+  const regionQueryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The area on screen, which exports default to
+  const visibleRegion = useRef<MapRegion | null>(null);
+  // Latest vote request per hazard, so slower earlier responses can't overwrite newer ones
+  const voteRequestIds = useRef<{[key: string]: number}>({});
+  const commentVoteRequestIds = useRef<{[key: string]: number}>({});
   const [region, setRegion] = useState(null);
   const [hasLocation, setHasLocation] = useState(false);
   const [isLoadingLocation, setIsLoadingLocation] = useState(true);
   const [selectedHazard, setSelectedHazard] = useState<Hazard | null>(null);
   const [showHazardModal, setShowHazardModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [newComment, setNewComment] = useState('');
   const [userVotes, setUserVotes] = useState<{[key: string]: 'up' | 'down' | null}>({});
   const [liveVoteCounts, setLiveVoteCounts] = useState<{[key: string]: {upvotes: number, downvotes: number}}>({});
   const [commentVoteCounts, setCommentVoteCounts] = useState<{[key: string]: {upvotes: number, downvotes: number}}>({});
   const [hazardCategories, setHazardCategories] = useState<{[key: string]: string}>({});
+  const [hazardComments, setHazardComments] = useState<{[key: string]: Comment[]}>({});
+  const [userCommentVotes, setUserCommentVotes] = useState<{[key: string]: Vote}>({});
+  const [isPostingComment, setIsPostingComment] = useState(false);
+  // Why the user flagged each hazard (by id) and comment (by `${hazardId}#${commentId}`), if they did
+  const [userFlags, setUserFlags] = useState<{[key: string]: FlagReason}>({});
+  const [flagTarget, setFlagTarget] = useState<{ hazard: Hazard, commentId: string | null } | null>(null);
+  const [editingHazard, setEditingHazard] = useState<Hazard | null>(null);
+  // Ticks every minute so "last updated" and stale markers stay current
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Hazards already on the map, so ones arriving later (new reports, live updates) can animate in
+  const knownHazardIds = useRef<Set<string> | null>(null);
 
-  // Initialize vote counts when hazards change
   useEffect(() => {
-    const initialCounts: {[key: string]: {upvotes: number, downvotes: number}} = {};
-    const initialCommentCounts: {[key: string]: {upvotes: number, downvotes: number}} = {};
+    knownHazardIds.current = new Set(hazards.map(hazard => hazard.id));
+  }, [hazards]);
+
+  // Server counts last applied per hazard and comment, so a sync only overwrites counts that changed on the server
+  const syncedVoteCounts = useRef<{[key: string]: VoteCounts}>({});
+  const syncedCommentVoteCounts = useRef<{[key: string]: VoteCounts}>({});
+  // The updatedAt of the hazard each hazard's comments were last taken from, so a sync only replaces
+  // comments that changed on the server since, including ones a moderator removed
+  const syncedCommentsAt = useRef<{[key: string]: string | undefined}>({});
+
+  // Apply vote counts, comments and categories from new or synced hazards
+  useEffect(() => {
+    const changedCounts: {[key: string]: VoteCounts} = {};
+    const changedCommentCounts: {[key: string]: VoteCounts} = {};
+    const changedComments: {[key: string]: Comment[]} = {};
     const initialCategories: {[key: string]: string} = {};
-    
+
+    const hasChanged = (previous: VoteCounts | undefined, next: VoteCounts) =>
+      !previous || previous.upvotes !== next.upvotes || previous.downvotes !== next.downvotes;
+
     hazards.forEach(hazard => {
-      if (!liveVoteCounts[hazard.id]) {
-        initialCounts[hazard.id] = {
-          upvotes: hazard.upvotes || 0,
-          downvotes: hazard.downvotes || 0,
-        };
+      const counts = { upvotes: hazard.upvotes || 0, downvotes: hazard.downvotes || 0 };
+      if (hasChanged(syncedVoteCounts.current[hazard.id], counts)) {
+        syncedVoteCounts.current[hazard.id] = counts;
+        changedCounts[hazard.id] = counts;
       }
       
       // Initialize hazard categories
@@ -80,28 +225,42 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
         initialCategories[hazard.id] = hazard.category || 'Hazard';
       }
       
-      // Initialize comment vote counts
       if (hazard.comments) {
+        const syncedAt = syncedCommentsAt.current[hazard.id];
+        if (!syncedAt || !hazard.updatedAt || hazard.updatedAt > syncedAt) {
+          syncedCommentsAt.current[hazard.id] = hazard.updatedAt;
+          if (hazardComments[hazard.id]) changedComments[hazard.id] = hazard.comments;
+        }
         hazard.comments.forEach(comment => {
-          if (!commentVoteCounts[comment.id]) {
-            initialCommentCounts[comment.id] = {
-              upvotes: comment.upvotes || 0,
-              downvotes: comment.downvotes || 0,
-            };
+          const commentCounts = { upvotes: comment.upvotes || 0, downvotes: comment.downvotes || 0 };
+          if (hasChanged(syncedCommentVoteCounts.current[comment.id], commentCounts)) {
+            syncedCommentVoteCounts.current[comment.id] = commentCounts;
+            changedCommentCounts[comment.id] = commentCounts;
           }
         });
       }
     });
     
-    if (Object.keys(initialCounts).length > 0) {
-      setLiveVoteCounts(prev => ({ ...prev, ...initialCounts }));
+    if (Object.keys(changedCounts).length > 0) {
+      setLiveVoteCounts(prev => ({ ...prev, ...changedCounts }));
+    }
+    if (Object.keys(changedCommentCounts).length > 0) {
+      setCommentVoteCounts(prev => ({ ...prev, ...changedCommentCounts }));
     }
-    if (Object.keys(initialCommentCounts).length > 0) {
-      setCommentVoteCounts(prev => ({ ...prev, ...initialCommentCounts }));
+    if (Object.keys(changedComments).length > 0) {
+      setHazardComments(prev => ({ ...prev, ...changedComments }));
     }
     if (Object.keys(initialCategories).length > 0) {
       setHazardCategories(prev => ({ ...prev, ...initialCategories }));
     }
+
+    // Keep the open hazard's details current without closing the modal, unless it has left the map
+    // (deleted, retracted or hidden)
+    if (selectedHazard && !hazards.some(hazard => hazard.id === selectedHazard.id)) {
+      closeHazardModal();
+    } else {
+      setSelectedHazard(prev => (prev ? hazards.find(hazard => hazard.id === prev.id) || prev : prev));
+    }
   }, [hazards]);
 
   // Simple location initialization - no watching
@@ -144,6 +303,25 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
     initializeLocation();
   }, []);
 
+  const queryRegion = (mapRegion: MapRegion) => {
+    visibleRegion.current = mapRegion;
+    if (regionQueryTimer.current) {
+      clearTimeout(regionQueryTimer.current);
+    }
+    regionQueryTimer.current = setTimeout(() => {
+      regionQueryTimer.current = null;
+      onRegionChange(mapRegion);
+    }, REGION_QUERY_DEBOUNCE_MS);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (regionQueryTimer.current) {
+        clearTimeout(regionQueryTimer.current);
+      }
+    };
+  }, []);
+
   const recenter = async () => {
     try {
       const loc = await Location.getCurrentPositionAsync({ 
@@ -193,50 +371,195 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
     }
   };
 
-  const handleMarkerPress = (hazard: Hazard) => {
+  // Fetch the latest comments so other users' comments show up
+  const loadComments = async (hazard: Hazard) => {
+    try {
+      const comments: Comment[] = await repository.getComments(hazard.id, hazard.timestamp);
+      setHazardComments(prev => ({
+        ...prev,
+        [hazard.id]: comments
+      }));
+      setCommentVoteCounts(prev => {
+        const next = { ...prev };
+        comments.forEach(comment => {
+          next[comment.id] = {
+            upvotes: comment.upvotes || 0,
+            downvotes: comment.downvotes || 0,
+          };
+        });
+        return next;
+      });
+
+      if (voterId) {
+        const storedFlags = await repository.getUserFlags(hazard.id, comments.map(c => c.id), voterId);
+        setUserFlags(prev => {
+          const next = { ...prev };
+          if (storedFlags.report) next[hazard.id] = storedFlags.report;
+          Object.entries(storedFlags.comments).forEach(([commentId, reason]) => {
+            next[`${hazard.id}#${commentId}`] = reason;
+          });
+          return next;
+        });
+      }
+
+      if (voterId && comments.length > 0) {
+        const storedVotes = await repository.getUserCommentVotes(hazard.id, comments.map(c => c.id), voterId);
+        setUserCommentVotes(prev => {
+          const next = { ...prev };
+          comments.forEach(comment => {
+            next[comment.id] = storedVotes[comment.id] || null;
+          });
+          return next;
+        });
+      }
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  };
+
+  const handleMarkerPress = async (hazard: Hazard) => {
     setSelectedHazard(hazard);
     setShowHazardModal(true);
+    loadComments(hazard);
+
+    // Restore the user's stored vote for this hazard
+    if (!voterId) return;
+    const requestId = voteRequestIds.current[hazard.id] || 0;
+    try {
+      const storedVote = await repository.getUserVote(hazard.id, voterId);
+      // Skip if the user voted while the stored vote was loading
+      if ((voteRequestIds.current[hazard.id] || 0) !== requestId) return;
+      setUserVotes(prev => ({
+        ...prev,
+        [hazard.id]: storedVote
+      }));
+    } catch (error) {
+      console.error('Error loading stored vote:', error);
+    }
   };
 
   const closeHazardModal = () => {
     setShowHazardModal(false);
     setSelectedHazard(null);
     setNewComment('');
+    setFlagTarget(null);
+    setEditingHazard(null);
   };
 
-  const handleVote = (hazardId: string, voteType: 'up' | 'down') => {
-    const currentVote = userVotes[hazardId];
-    const currentCounts = liveVoteCounts[hazardId] || { upvotes: 0, downvotes: 0 };
-    let newVote: 'up' | 'down' | null = null;
-    let newCounts = { ...currentCounts };
-    
-    // Toggle logic: if same vote, remove it; otherwise set new vote
-    if (currentVote === voteType) {
-      newVote = null; // Remove vote
-      // Decrease the count for the vote being removed
-      if (voteType === 'up') {
-        newCounts.upvotes = Math.max(0, newCounts.upvotes - 1);
-      } else {
-        newCounts.downvotes = Math.max(0, newCounts.downvotes - 1);
-      }
-    } else {
-      newVote = voteType; // Set new vote
-      
-      // Remove previous vote if exists
-      if (currentVote === 'up') {
-        newCounts.upvotes = Math.max(0, newCounts.upvotes - 1);
-      } else if (currentVote === 'down') {
-        newCounts.downvotes = Math.max(0, newCounts.downvotes - 1);
+  // An edit the backend's hazard check doesn't pass takes the hazard off the map until a moderator
+  // reviews it
+  const handleEditSaved = (updated: Hazard) => {
+    setEditingHazard(null);
+    setHazardCategories(prev => ({ ...prev, [updated.id]: updated.category || 'Hazard' }));
+    onHazardUpdated(updated);
+    if (!isPublicStatus(updated.status)) {
+      closeHazardModal();
+      Alert.alert('Sent for review', 'Your changes did not pass the hazard check, so the report is hidden until a moderator reviews it.');
+    }
+  };
+
+  // Retracted and deleted hazards leave the map, so the modal closes
+  const confirmRetract = (hazard: Hazard) => {
+    Alert.alert(
+      'Retract this report?',
+      'It will be taken off the map for everyone. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Retract',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated: Hazard = await repository.retractReport({
+                reportId: hazard.id,
+                timestamp: hazard.timestamp,
+              });
+              closeHazardModal();
+              onHazardUpdated(updated);
+            } catch (error) {
+              Alert.alert('Not retracted', error?.message ? String(error.message) : 'Could not retract your report. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmDelete = (hazard: Hazard) => {
+    Alert.alert(
+      'Delete this report?',
+      'The report and its photos will be deleted for good.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await repository.deleteOwnReport({ reportId: hazard.id, timestamp: hazard.timestamp });
+              closeHazardModal();
+              onHazardUpdated({ ...hazard, status: 'deleted' });
+            } catch (error) {
+              Alert.alert('Not deleted', error?.message ? String(error.message) : 'Could not delete your report. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Report a hazard or comment as abusive; enough reports hide it until a moderator reviews it
+  const handleFlag = async (reason: FlagReason) => {
+    const target = flagTarget;
+    setFlagTarget(null);
+    if (!target || !voterId) return;
+    const { hazard, commentId } = target;
+
+    try {
+      const result = commentId
+        ? await repository.flagComment({
+          reportId: hazard.id,
+          timestamp: hazard.timestamp,
+          commentId,
+          flaggerId: voterId,
+          reason,
+        })
+        : await repository.flagReport({ reportId: hazard.id, timestamp: hazard.timestamp, flaggerId: voterId, reason });
+      setUserFlags(prev => ({
+        ...prev,
+        [commentId ? `${hazard.id}#${commentId}` : hazard.id]: result.reason
+      }));
+
+      if (result.hidden && commentId) {
+        setHazardComments(prev => ({
+          ...prev,
+          [hazard.id]: (prev[hazard.id] || hazard.comments || []).filter(comment => comment.id !== commentId)
+        }));
       }
-      
-      // Add new vote
-      if (voteType === 'up') {
-        newCounts.upvotes += 1;
-      } else {
-        newCounts.downvotes += 1;
+      if (result.hidden && !commentId) {
+        // A flagged hazard leaves the map like any other hidden status
+        closeHazardModal();
+        onHazardUpdated({ ...hazard, status: 'flagged' });
       }
+      Alert.alert(
+        'Thanks for letting us know',
+        result.hidden
+          ? 'It has been hidden until a moderator reviews it.'
+          : 'A moderator will review it if others report it too.'
+      );
+    } catch (error) {
+      console.error('Error flagging:', error);
+      Alert.alert('Report not sent', error?.message ? String(error.message) : 'Could not send your report. Please try again.');
     }
+  };
+
+  const handleVote = async (hazard: Hazard, voteType: 'up' | 'down') => {
+    const hazardId = hazard.id;
+    const currentVote = userVotes[hazardId] ?? null;
+    const currentCounts = liveVoteCounts[hazardId] || { upvotes: 0, downvotes: 0 };
+    const { newVote, newCounts } = toggleVote(currentVote, voteType, currentCounts);
     
+    // Optimistic update, replaced by the server's counts below
     setUserVotes(prev => ({
       ...prev,
       [hazardId]: newVote
@@ -246,54 +569,160 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
       ...prev,
       [hazardId]: newCounts
     }));
-    
-    // TODO: Send vote to backend
-    console.log(`Voted ${voteType} for hazard ${hazardId}`, newCounts);
+
+    if (!voterId) return;
+
+    const requestId = (voteRequestIds.current[hazardId] || 0) + 1;
+    voteRequestIds.current[hazardId] = requestId;
+
+    try {
+      const result = await repository.castVote({
+        reportId: hazardId,
+        timestamp: hazard.timestamp,
+        voterId,
+        vote: newVote,
+      });
+      if (voteRequestIds.current[hazardId] !== requestId) return;
+
+      setUserVotes(prev => ({
+        ...prev,
+        [hazardId]: result.vote
+      }));
+      setLiveVoteCounts(prev => ({
+        ...prev,
+        [hazardId]: { upvotes: result.upvotes, downvotes: result.downvotes }
+      }));
+      console.log(`Voted ${voteType} for hazard ${hazardId}`, result);
+
+      // Enough votes can change the hazard's status; load its new status and history
+      if (result.status && result.status !== (hazard.status || 'active')) {
+        repository.getReport(hazardId, hazard.timestamp)
+          .then(updated => updated && onHazardUpdated(updated))
+          .catch(error => console.error('Error loading updated hazard:', error));
+      }
+    } catch (error) {
+      console.error('Error saving vote:', error);
+      if (voteRequestIds.current[hazardId] !== requestId) return;
+
+      // Roll back the optimistic update
+      setUserVotes(prev => ({
+        ...prev,
+        [hazardId]: currentVote
+      }));
+      setLiveVoteCounts(prev => ({
+        ...prev,
+        [hazardId]: currentCounts
+      }));
+      Alert.alert('Vote not saved', 'Could not save your vote. Please try again.');
+    }
   };
 
-  const handleAddComment = () => {
-    if (!newComment.trim() || !selectedHazard) return;
-    
-    const comment: Comment = {
-      id: Date.now().toString(),
-      text: newComment.trim(),
-      author: 'Anonymous User', // TODO: Get from user context
-      timestamp: new Date().toISOString(),
-      upvotes: 0,
-      downvotes: 0,
-    };
-    
-    // TODO: Send comment to backend
-    console.log('Adding comment:', comment);
-    
-    // Clear comment input
-    setNewComment('');
-    
-    // Show success message
-    Alert.alert('Success', 'Comment added successfully!');
+  // Only the hazard's author, or a moderator, moves it along by hand; everyone else votes
+  const handleStatusChange = async (hazard: Hazard, status: HazardStatus, note: string) => {
+    const updated: Hazard = await repository.updateReportStatus({
+      reportId: hazard.id,
+      timestamp: hazard.timestamp,
+      status,
+      note,
+      moderatorKey: hazard.own ? undefined : moderatorKey || undefined,
+    });
+    onHazardUpdated(updated);
   };
 
-  const handleCommentVote = (commentId: string, voteType: 'up' | 'down') => {
-    const currentCounts = commentVoteCounts[commentId] || { upvotes: 0, downvotes: 0 };
-    let newCounts = { ...currentCounts };
-    
-    // Simple increment for comment votes (no toggle logic for comments)
-    if (voteType === 'up') {
-      newCounts.upvotes += 1;
-    } else {
-      newCounts.downvotes += 1;
+  const handleAddComment = async () => {
+    if (!newComment.trim() || !selectedHazard || isPostingComment) return;
+
+    const hazard = selectedHazard;
+    setIsPostingComment(true);
+    try {
+      const comment: Comment = await repository.addComment({
+        reportId: hazard.id,
+        timestamp: hazard.timestamp,
+        text: newComment.trim(),
+        author: displayName || 'Anonymous User',
+        authorId: voterId,
+      });
+      console.log('Comment added:', comment);
+
+      // Show the new comment right away
+      setHazardComments(prev => ({
+        ...prev,
+        [hazard.id]: [...(prev[hazard.id] || hazard.comments || []), comment]
+      }));
+      setCommentVoteCounts(prev => ({
+        ...prev,
+        [comment.id]: { upvotes: 0, downvotes: 0 }
+      }));
+
+      // Clear comment input
+      setNewComment('');
+    } catch (error: any) {
+      console.error('Error adding comment:', error);
+      Alert.alert('Comment not posted', error?.message ? String(error.message) : 'Could not post your comment. Please try again.');
+    } finally {
+      setIsPostingComment(false);
     }
-    
+  };
+
+  const handleCommentVote = async (hazard: Hazard, commentId: string, voteType: 'up' | 'down') => {
+    const currentVote = userCommentVotes[commentId] ?? null;
+    const currentCounts = commentVoteCounts[commentId] || { upvotes: 0, downvotes: 0 };
+    const { newVote, newCounts } = toggleVote(currentVote, voteType, currentCounts);
+
+    setUserCommentVotes(prev => ({
+      ...prev,
+      [commentId]: newVote
+    }));
     setCommentVoteCounts(prev => ({
       ...prev,
       [commentId]: newCounts
     }));
-    
-    // TODO: Send comment vote to backend
-    console.log(`Voted ${voteType} for comment ${commentId}`, newCounts);
+
+    if (!voterId) return;
+
+    const requestId = (commentVoteRequestIds.current[commentId] || 0) + 1;
+    commentVoteRequestIds.current[commentId] = requestId;
+
+    try {
+      const result = await repository.castCommentVote({
+        reportId: hazard.id,
+        timestamp: hazard.timestamp,
+        commentId,
+        voterId,
+        vote: newVote,
+      });
+      if (commentVoteRequestIds.current[commentId] !== requestId) return;
+
+      setUserCommentVotes(prev => ({
+        ...prev,
+        [commentId]: result.vote
+      }));
+      setCommentVoteCounts(prev => ({
+        ...prev,
+        [commentId]: { upvotes: result.upvotes, downvotes: result.downvotes }
+      }));
+      console.log(`Voted ${voteType} for comment ${commentId}`, result);
+    } catch (error) {
+      console.error('Error saving comment vote:', error);
+      if (commentVoteRequestIds.current[commentId] !== requestId) return;
+
+      setUserCommentVotes(prev => ({
+        ...prev,
+        [commentId]: currentVote
+      }));
+      setCommentVoteCounts(prev => ({
+        ...prev,
+        [commentId]: currentCounts
+      }));
+      Alert.alert('Vote not saved', 'Could not save your vote. Please try again.');
+    }
   };
 
 
+  const selectedComments: Comment[] = selectedHazard
+    ? hazardComments[selectedHazard.id] || selectedHazard.comments || []
+    : [];
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
@@ -305,6 +734,19 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
           style={styles.logo}
           resizeMode="contain"
         />
+        {(lastUpdatedAt || isShowingCachedHazards) && (
+          <View style={styles.lastUpdatedRow}>
+            <Ionicons
+              name={isShowingCachedHazards ? 'cloud-offline-outline' : 'refresh'}
+              size={12}
+              color={isShowingCachedHazards ? '#E67E22' : '#95A5A6'}
+            />
+            <Text style={[styles.lastUpdatedText, isShowingCachedHazards && styles.lastUpdatedOffline]}>
+              {isShowingCachedHazards ? 'Offline · saved hazards' : 'Updated'}
+              {lastUpdatedAt ? ` ${isShowingCachedHazards ? 'from ' : ''}${formatUpdatedAgo(lastUpdatedAt, now)}` : ''}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Loading Indicator */}
@@ -327,13 +769,15 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
           onMapReady={() => {
             // Don't call recenter here to avoid conflicts
             console.log('Map is ready');
+            queryRegion(region);
           }}
+          onRegionChangeComplete={queryRegion}
           mapType="standard"
           followsUserLocation={false}
           userLocationAnnotationTitle="Your Location"
         >
           {/* Hazard Markers */}
-          {hazards.map((hazard) => (
+          {hazards.filter(hazard => hazard.status !== 'false_report').map((hazard) => (
             <Marker
               key={hazard.id}
               coordinate={{
@@ -342,9 +786,10 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
               }}
               onPress={() => handleMarkerPress(hazard)}
             >
-              <View style={styles.markerContainer}>
-                <Ionicons name="flag" size={24} color="#E74C3C" />
-              </View>
+              <HazardPin
+                stale={isHazardStale(hazard, now) || isClosedStatus(hazard.status)}
+                animateIn={!!knownHazardIds.current && !knownHazardIds.current.has(hazard.id)}
+              />
             </Marker>
           ))}
         </MapView>
@@ -360,6 +805,33 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
         <Ionicons name="locate" size={20} color="#2C3E50" />
       </Pressable>
 
+      {/* My Reports Button - shows how many are still waiting to send */}
+      <Pressable style={styles.myReportsBtn} onPress={onMyReportsPress}>
+        <Ionicons name="document-text-outline" size={20} color="#2C3E50" />
+        {pendingSubmissionCount > 0 && (
+          <View style={styles.pendingBadge}>
+            <Text style={styles.pendingBadgeText}>{pendingSubmissionCount}</Text>
+          </View>
+        )}
+      </Pressable>
+
+      {/* Export Button */}
+      <Pressable style={styles.exportBtn} onPress={() => setShowExportModal(true)}>
+        <Ionicons name="share-outline" size={20} color="#2C3E50" />
+      </Pressable>
+
+      {isModerator && (
+        <Pressable style={styles.moderationBtn} onPress={onModerationPress}>
+          <Ionicons name="shield-checkmark" size={20} color="#8E44AD" />
+        </Pressable>
+      )}
+
+      <ExportModal
+        visible={showExportModal}
+        visibleRegion={visibleRegion.current}
+        onClose={() => setShowExportModal(false)}
+      />
+
       {/* Hazard Details Modal */}
       <Modal
         visible={showHazardModal}
@@ -378,7 +850,59 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                   </Pressable>
                 </View>
                 
+                {isHazardStale(selectedHazard, now) && (
+                  <View style={styles.staleNotice}>
+                    <Ionicons name="time-outline" size={16} color="#E67E22" />
+                    <Text style={styles.staleNoticeText}>
+                      {selectedHazard.fetchedAt
+                        ? `Saved data from ${formatUpdatedAgo(selectedHazard.fetchedAt, now)}; it may be out of date.`
+                        : 'This hazard may be out of date.'}
+                    </Text>
+                  </View>
+                )}
+
+                <Text style={styles.reportedBy}>
+                  {selectedHazard.source
+                    ? `Imported from ${selectedHazard.source.name}`
+                    : `Reported by ${selectedHazard.own
+                      ? 'you'
+                      : selectedHazard.reporterName || 'Anonymous User'}`}
+                </Text>
+
+                {/* Only the report's author can change it; hazards on the map can all be edited */}
+                {voterId && selectedHazard.own && !selectedHazard.source && (
+                  <View style={styles.authorActions}>
+                    <Pressable style={styles.authorAction} onPress={() => setEditingHazard(selectedHazard)}>
+                      <Ionicons name="create-outline" size={14} color="#3498DB" />
+                      <Text style={styles.authorActionText}>Edit</Text>
+                    </Pressable>
+                    <Pressable style={styles.authorAction} onPress={() => confirmRetract(selectedHazard)}>
+                      <Ionicons name="arrow-undo-outline" size={14} color="#E67E22" />
+                      <Text style={[styles.authorActionText, { color: '#E67E22' }]}>Retract</Text>
+                    </Pressable>
+                    <Pressable style={styles.authorAction} onPress={() => confirmDelete(selectedHazard)}>
+                      <Ionicons name="trash-outline" size={14} color="#E74C3C" />
+                      <Text style={[styles.authorActionText, { color: '#E74C3C' }]}>Delete</Text>
+                    </Pressable>
+                  </View>
+                )}
+
                 <Text style={styles.modalDescription}>{selectedHazard.description}</Text>
+
+                {(selectedHazard.editHistory || []).map(edit => (
+                  <Text key={edit.at} style={styles.editedNote}>
+                    Edited {new Date(edit.at).toLocaleDateString()}: {Object.keys(edit.changes).join(', ')}
+                  </Text>
+                ))}
+
+                <HazardStatusSection
+                  status={selectedHazard.status || 'active'}
+                  history={selectedHazard.statusHistory || []}
+                  ownReport={!!selectedHazard.own}
+                  canChangeStatus={!!selectedHazard.own || !!moderatorKey}
+                  dispatch={selectedHazard.dispatch}
+                  onChangeStatus={(status, note) => handleStatusChange(selectedHazard, status, note)}
+                />
                 
                 {selectedHazard.images.length > 0 && (
                   <View style={styles.imageContainer}>
@@ -407,6 +931,25 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                   </View>
                 </View>
 
+                {voterId && (
+                  <Pressable
+                    style={styles.flagLink}
+                    disabled={!!userFlags[selectedHazard.id]}
+                    onPress={() => setFlagTarget({ hazard: selectedHazard, commentId: null })}
+                  >
+                    <Ionicons
+                      name={userFlags[selectedHazard.id] ? 'flag' : 'flag-outline'}
+                      size={14}
+                      color="#8E44AD"
+                    />
+                    <Text style={styles.flagLinkText}>
+                      {userFlags[selectedHazard.id]
+                        ? `You reported this as ${FLAG_REASON_LABELS[userFlags[selectedHazard.id]].toLowerCase()}`
+                        : 'Report this'}
+                    </Text>
+                  </Pressable>
+                )}
+
                 {/* Voting Section */}
                 <View style={styles.votingSection}>
                   <Text style={styles.sectionTitle}>Is this still there?</Text>
@@ -417,7 +960,7 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                         styles.upvoteButton,
                         userVotes[selectedHazard.id] === 'up' && styles.voteButtonActive
                       ]}
-                      onPress={() => handleVote(selectedHazard.id, 'up')}
+                      onPress={() => handleVote(selectedHazard, 'up')}
                     >
                       <Ionicons 
                         name="thumbs-up" 
@@ -428,7 +971,7 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                         styles.voteButtonText,
                         userVotes[selectedHazard.id] === 'up' && styles.voteButtonTextActive
                       ]}>
-                        Yes ({liveVoteCounts[selectedHazard.id]?.upvotes || selectedHazard.upvotes || 0})
+                        Yes ({liveVoteCounts[selectedHazard.id]?.upvotes ?? selectedHazard.upvotes ?? 0})
                       </Text>
                     </Pressable>
                     
@@ -438,7 +981,7 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                         styles.downvoteButton,
                         userVotes[selectedHazard.id] === 'down' && styles.voteButtonActive
                       ]}
-                      onPress={() => handleVote(selectedHazard.id, 'down')}
+                      onPress={() => handleVote(selectedHazard, 'down')}
                     >
                       <Ionicons 
                         name="thumbs-down" 
@@ -449,7 +992,7 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                         styles.voteButtonText,
                         userVotes[selectedHazard.id] === 'down' && styles.voteButtonTextActive
                       ]}>
-                        No ({liveVoteCounts[selectedHazard.id]?.downvotes || selectedHazard.downvotes || 0})
+                        No ({liveVoteCounts[selectedHazard.id]?.downvotes ?? selectedHazard.downvotes ?? 0})
                       </Text>
                     </Pressable>
                   </View>
@@ -471,8 +1014,9 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                       numberOfLines={2}
                     />
                     <Pressable 
-                      style={styles.addCommentButton}
+                      style={[styles.addCommentButton, isPostingComment && styles.addCommentButtonDisabled]}
                       onPress={handleAddComment}
+                      disabled={isPostingComment}
                     >
                       <Ionicons name="send" size={20} color="#FFFFFF" />
                     </Pressable>
@@ -480,10 +1024,12 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
 
                   {/* Comments List */}
                   <View style={styles.commentsList}>
-                    {(selectedHazard.comments || []).map((comment) => (
+                    {selectedComments.map((comment) => (
                       <View key={comment.id} style={styles.commentItem}>
                         <View style={styles.commentHeader}>
-                          <Text style={styles.commentAuthor}>{comment.author}</Text>
+                          <Text style={styles.commentAuthor}>
+                            {comment.author}{comment.own ? ' (you)' : ''}
+                          </Text>
                           <Text style={styles.commentTime}>
                             {new Date(comment.timestamp).toLocaleDateString()}
                           </Text>
@@ -492,29 +1038,63 @@ export default function MapScreen({ onFlagPress, hazards }: MapScreenProps) {
                         <View style={styles.commentVotes}>
                           <Pressable 
                             style={styles.commentVoteButton}
-                            onPress={() => handleCommentVote(comment.id, 'up')}
+                            onPress={() => handleCommentVote(selectedHazard, comment.id, 'up')}
                           >
-                            <Ionicons name="thumbs-up" size={16} color="#27AE60" />
-                            <Text style={styles.commentVoteText}>{commentVoteCounts[comment.id]?.upvotes || comment.upvotes || 0}</Text>
+                            <Ionicons
+                              name={userCommentVotes[comment.id] === 'up' ? 'thumbs-up' : 'thumbs-up-outline'}
+                              size={16}
+                              color="#27AE60"
+                            />
+                            <Text style={styles.commentVoteText}>{commentVoteCounts[comment.id]?.upvotes ?? comment.upvotes ?? 0}</Text>
                           </Pressable>
                           <Pressable 
                             style={styles.commentVoteButton}
-                            onPress={() => handleCommentVote(comment.id, 'down')}
+                            onPress={() => handleCommentVote(selectedHazard, comment.id, 'down')}
                           >
-                            <Ionicons name="thumbs-down" size={16} color="#E74C3C" />
-                            <Text style={styles.commentVoteText}>{commentVoteCounts[comment.id]?.downvotes || comment.downvotes || 0}</Text>
+                            <Ionicons
+                              name={userCommentVotes[comment.id] === 'down' ? 'thumbs-down' : 'thumbs-down-outline'}
+                              size={16}
+                              color="#E74C3C"
+                            />
+                            <Text style={styles.commentVoteText}>{commentVoteCounts[comment.id]?.downvotes ?? comment.downvotes ?? 0}</Text>
                           </Pressable>
+                          {voterId && (
+                            <Pressable
+                              style={styles.commentFlagButton}
+                              disabled={!!userFlags[`${selectedHazard.id}#${comment.id}`]}
+                              onPress={() => setFlagTarget({ hazard: selectedHazard, commentId: comment.id })}
+                              accessibilityLabel="Report this comment"
+                            >
+                              <Ionicons
+                                name={userFlags[`${selectedHazard.id}#${comment.id}`] ? 'flag' : 'flag-outline'}
+                                size={14}
+                                color="#95A5A6"
+                              />
+                            </Pressable>
+                          )}
                         </View>
                       </View>
                     ))}
                     
-                    {(!selectedHazard.comments || selectedHazard.comments.length === 0) && (
+                    {selectedComments.length === 0 && (
                       <Text style={styles.noCommentsText}>No comments yet. Be the first to comment!</Text>
                     )}
                   </View>
                 </View>
               </ScrollView>
             )}
+            {flagTarget && (
+              <FlagReasonPicker
+                subject={flagTarget.commentId ? 'this comment' : 'this hazard'}
+                onSelect={handleFlag}
+                onCancel={() => setFlagTarget(null)}
+              />
+            )}
+            <EditReportModal
+              report={editingHazard}
+              onClose={() => setEditingHazard(null)}
+              onSaved={handleEditSaved}
+            />
           </View>
         </View>
       </Modal>
@@ -548,6 +1128,19 @@ const styles = StyleSheet.create({
     height: 40,
     width: 120,
   },
+  lastUpdatedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  lastUpdatedText: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginLeft: 4,
+  },
+  lastUpdatedOffline: {
+    color: '#E67E22',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -593,6 +1186,77 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E0E0E0',
   },
+  myReportsBtn: {
+    position: 'absolute',
+    right: 20,
+    bottom: 180,
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  exportBtn: {
+    position: 'absolute',
+    left: 20,
+    bottom: 120,
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  moderationBtn: {
+    position: 'absolute',
+    right: 20,
+    bottom: 240,
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  pendingBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 5,
+    backgroundColor: '#F39C12',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pendingBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   markerContainer: {
     backgroundColor: '#FFFFFF',
     borderRadius: 20,
@@ -605,6 +1269,10 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#E74C3C',
   },
+  markerStale: {
+    borderColor: '#95A5A6',
+    opacity: 0.7,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -640,6 +1308,46 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  staleNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF5E7',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  staleNoticeText: {
+    fontSize: 13,
+    color: '#E67E22',
+    marginLeft: 6,
+    flex: 1,
+  },
+  reportedBy: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginBottom: 8,
+  },
+  authorActions: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  authorAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  authorActionText: {
+    fontSize: 13,
+    color: '#3498DB',
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  editedNote: {
+    fontSize: 12,
+    color: '#95A5A6',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   modalDescription: {
     fontSize: 16,
     color: '#7F8C8D',
@@ -767,6 +1475,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  addCommentButtonDisabled: {
+    opacity: 0.5,
+  },
   commentsList: {
     gap: 12,
   },
@@ -812,6 +1523,22 @@ const styles = StyleSheet.create({
     color: '#7F8C8D',
     fontWeight: '500',
   },
+  commentFlagButton: {
+    marginLeft: 'auto',
+    padding: 4,
+  },
+  flagLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  flagLinkText: {
+    fontSize: 13,
+    color: '#8E44AD',
+    fontWeight: '500',
+    marginLeft: 4,
+  },
   noCommentsText: {
     fontSize: 14,
     color: '#95A5A6',
@@ -0,0 +1,828 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { moderation, repository } from '../repository';
+import { useIdentity } from '../IdentityContext';
+import { STATUS_DISPLAY } from '../hazardStatus';
+import { HAZARD_CATEGORIES } from '../hazardAnalysis';
+import { describeFlags } from '../flagReasons';
+import type {
+  Report,
+  ModerationQueue,
+  ModerationReason,
+  AuditEntry,
+  AuditAction,
+} from '../repository/types';
+
+interface ModerationScreenProps {
+  onBack: () => void;
+  // Called with reports a moderator action changed, so the map can show or drop them
+  onReportsChanged: (reports: Report[]) => void;
+}
+
+type Tab = 'reports' | 'comments' | 'audit';
+
+type QueuedReport = ModerationQueue['reports'][number];
+type QueuedComment = ModerationQueue['comments'][number];
+
+const REASON_LABELS: Record<ModerationReason, string> = {
+  pending_review: 'Awaiting review',
+  flagged: 'Hidden by flags',
+  downvoted: 'Heavily down voted',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  merge: 'Merged',
+  change_status: 'Changed status',
+  edit_category: 'Changed category',
+  delete_report: 'Deleted report',
+  delete_comment: 'Deleted comment',
+  restore_comment: 'Restored comment',
+  import: 'Imported dataset',
+};
+
+const formatCategory = (category: string) => category.replace(/_/g, ' ');
+
+// Ask before an action that can't be undone from the app
+const confirmAction = (title: string, message: string, confirmText: string) =>
+  new Promise<boolean>(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
+export default function ModerationScreen({ onBack, onReportsChanged }: ModerationScreenProps) {
+  const { moderator, moderatorKey, signInAsModerator, signOutModerator } = useIdentity();
+  const [tab, setTab] = useState<Tab>('reports');
+  const [queue, setQueue] = useState<ModerationQueue>({ reports: [], comments: [] });
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [keyInput, setKeyInput] = useState('');
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  // A key the backend stopped accepting signs the moderator out
+  const handleError = useCallback((error: any, title: string) => {
+    console.error(`${title}:`, error);
+    if (error?.status === 401 || error?.status === 403) {
+      signOutModerator();
+      Alert.alert('Signed out', 'Your moderator key is no longer accepted.');
+      return;
+    }
+    Alert.alert(title, error?.message ? String(error.message) : 'Please try again.');
+  }, [signOutModerator]);
+
+  const loadQueue = useCallback(async () => {
+    if (!moderatorKey) return;
+    setIsLoading(true);
+    try {
+      const [nextQueue, entries] = await Promise.all([
+        moderation.getModerationQueue(moderatorKey),
+        moderation.getAuditLog({ moderatorKey }),
+      ]);
+      setQueue(nextQueue);
+      setAuditLog(entries);
+    } catch (error) {
+      handleError(error, 'Couldn\'t load the moderation queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [moderatorKey, handleError]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleSignIn = async () => {
+    const key = keyInput.trim();
+    if (!key) return;
+    setIsSigningIn(true);
+    setSignInError(null);
+    try {
+      await signInAsModerator(key);
+      setKeyInput('');
+    } catch (error: any) {
+      console.error('Error signing in as moderator:', error);
+      setSignInError(error?.status === 401 || error?.status === 403
+        ? 'That is not a moderator key.'
+        : 'Couldn\'t check the key. Check your connection and try again.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  // Run an action, then refresh the queue and tell the map what changed
+  const runAction = async (title: string, action: () => Promise<Report[]>) => {
+    try {
+      const changed = await action();
+      if (changed.length) onReportsChanged(changed);
+      await loadQueue();
+      return true;
+    } catch (error) {
+      handleError(error, title);
+      return false;
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <Pressable onPress={onBack} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color="#000000" />
+      </Pressable>
+      <Text style={styles.headerTitle}>Moderation</Text>
+      {moderator ? (
+        <Pressable onPress={signOutModerator} style={styles.signOutButton}>
+          <Text style={styles.signOutText}>Sign out</Text>
+        </Pressable>
+      ) : (
+        <View style={styles.signOutButton} />
+      )}
+    </View>
+  );
+
+  if (!moderatorKey) {
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        {header}
+        <View style={styles.signIn}>
+          <Ionicons name="shield-checkmark" size={40} color="#8E44AD" />
+          <Text style={styles.signInTitle}>Moderator sign in</Text>
+          <Text style={styles.signInText}>
+            Enter the moderator key you were given to review reports and comments.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={keyInput}
+            onChangeText={setKeyInput}
+            placeholder="Moderator key"
+            placeholderTextColor="#999999"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={handleSignIn}
+          />
+          {signInError && <Text style={styles.errorText}>{signInError}</Text>}
+          <Pressable
+            style={[styles.primaryButton, (isSigningIn || !keyInput.trim()) && styles.buttonDisabled]}
+            onPress={handleSignIn}
+            disabled={isSigningIn || !keyInput.trim()}
+          >
+            <Text style={styles.primaryButtonText}>{isSigningIn ? 'Checking...' : 'Sign in'}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const tabs: { id: Tab, label: string, count?: number }[] = [
+    { id: 'reports', label: 'Reports', count: queue.reports.length },
+    { id: 'comments', label: 'Comments', count: queue.comments.length },
+    { id: 'audit', label: 'Audit log' },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      {header}
+      <Text style={styles.signedInAs}>Signed in as {moderator}</Text>
+
+      <View style={styles.tabs}>
+        {tabs.map(({ id, label, count }) => (
+          <Pressable key={id} style={[styles.tab, tab === id && styles.tabActive]} onPress={() => setTab(id)}>
+            <Text style={[styles.tabText, tab === id && styles.tabTextActive]}>
+              {label}{count ? ` (${count})` : ''}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {isLoading && <ActivityIndicator style={styles.loading} color="#8E44AD" />}
+
+        {tab === 'reports' && !isLoading && queue.reports.length === 0 && (
+          <Text style={styles.emptyText}>No reports are waiting for a moderator.</Text>
+        )}
+        {tab === 'reports' && queue.reports.map(item => (
+          <QueuedReportCard
+            key={item.report.id}
+            item={item}
+            moderatorKey={moderatorKey}
+            onAction={runAction}
+          />
+        ))}
+
+        {tab === 'comments' && !isLoading && queue.comments.length === 0 && (
+          <Text style={styles.emptyText}>No comments are waiting for a moderator.</Text>
+        )}
+        {tab === 'comments' && queue.comments.map(item => (
+          <QueuedCommentCard
+            key={`${item.reportId}#${item.comment.id}`}
+            item={item}
+            moderatorKey={moderatorKey}
+            onAction={runAction}
+          />
+        ))}
+
+        {tab === 'audit' && !isLoading && auditLog.length === 0 && (
+          <Text style={styles.emptyText}>No moderation actions yet.</Text>
+        )}
+        {tab === 'audit' && auditLog.map(entry => (
+          <View key={entry.id} style={styles.card}>
+            <Text style={styles.cardTitle}>{ACTION_LABELS[entry.action] || entry.action}</Text>
+            <Text style={styles.cardMeta}>
+              {entry.moderator} · {new Date(entry.at).toLocaleString()}
+            </Text>
+            {entry.action === 'import' ? (
+              <Text style={styles.cardText}>
+                {entry.details.source}: {entry.details.created} created, {entry.details.updated} updated,{' '}
+                {entry.details.unchanged} unchanged, {entry.details.skipped} skipped, {entry.details.failed} failed
+              </Text>
+            ) : (
+              <Text style={styles.cardMeta}>
+                Report {entry.reportId}{entry.commentId ? `, comment ${entry.commentId}` : ''}
+              </Text>
+            )}
+            {entry.details?.from && entry.details?.to && (
+              <Text style={styles.cardText}>{entry.details.from} → {entry.details.to}</Text>
+            )}
+            {entry.details?.intoId && (
+              <Text style={styles.cardText}>Into report {entry.details.intoId}</Text>
+            )}
+            {entry.note && <Text style={styles.cardText}>"{entry.note}"</Text>}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+interface CardProps<T> {
+  item: T;
+  moderatorKey: string;
+  onAction: (title: string, action: () => Promise<Report[]>) => Promise<boolean>;
+}
+
+function QueuedReportCard({ item, moderatorKey, onAction }: CardProps<QueuedReport>) {
+  const { report, reasons, flags } = item;
+  const [note, setNote] = useState('');
+  const [panel, setPanel] = useState<'category' | 'merge' | null>(null);
+  const [mergeCandidates, setMergeCandidates] = useState<(Report & { distanceMeters: number })[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const status = STATUS_DISPLAY[report.status];
+  const target = { moderatorKey, reportId: report.id, timestamp: report.timestamp, note: note.trim() || undefined };
+
+  const act = async (title: string, action: () => Promise<Report[]>) => {
+    setIsBusy(true);
+    const done = await onAction(title, action);
+    setIsBusy(false);
+    if (done) {
+      setNote('');
+      setPanel(null);
+    }
+  };
+
+  // Open reports close by in the same category are the likely originals
+  const openMerge = async () => {
+    if (panel === 'merge') {
+      setPanel(null);
+      return;
+    }
+    setPanel('merge');
+    setMergeCandidates(null);
+    try {
+      const nearby = await repository.findDuplicateReports({
+        latitude: report.latitude,
+        longitude: report.longitude,
+        category: report.category,
+      });
+      setMergeCandidates(nearby.filter(candidate => candidate.id !== report.id));
+    } catch (error) {
+      console.error('Error finding reports to merge into:', error);
+      setMergeCandidates([]);
+    }
+  };
+
+  const merge = async (into: Report) => {
+    const confirmed = await confirmAction(
+      'Merge report?',
+      `"${report.title}" will leave the map and its photos will be added to "${into.title}".`,
+      'Merge'
+    );
+    if (!confirmed) return;
+    act('Couldn\'t merge the report', async () => {
+      const result = await moderation.mergeReport({ ...target, intoId: into.id, intoTimestamp: into.timestamp });
+      return [result.report, result.into];
+    });
+  };
+
+  const remove = async () => {
+    const confirmed = await confirmAction('Delete report?', `"${report.title}" will be deleted for everyone.`, 'Delete');
+    if (!confirmed) return;
+    act('Couldn\'t delete the report', async () => {
+      await moderation.deleteReport(target);
+      return [{ ...report, status: 'deleted' }];
+    });
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle} numberOfLines={2}>{report.title}</Text>
+        {status && (
+          <View style={styles.statusBadge}>
+            <Ionicons name={status.icon} size={14} color={status.color} />
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.reasons}>
+        {reasons.map(reason => (
+          <Text key={reason} style={styles.reason}>{REASON_LABELS[reason] || reason}</Text>
+        ))}
+      </View>
+
+      {describeFlags(flags) !== '' && (
+        <Text style={styles.flagSummary}>Flagged as {describeFlags(flags)}</Text>
+      )}
+
+      <Text style={styles.cardMeta}>
+        {formatCategory(report.category)} · {new Date(report.timestamp).toLocaleString()} ·
+        {' '}{report.upvotes} up, {report.downvotes} down
+      </Text>
+      <Text style={styles.cardText}>{report.description}</Text>
+
+      {report.review && (
+        <View style={styles.review}>
+          <Text style={styles.reviewLabel}>Hazard check said</Text>
+          {report.review.aiReasons.map((reason, index) => (
+            <Text key={index} style={styles.cardText}>• {reason}</Text>
+          ))}
+          {report.review.justification && (
+            <>
+              <Text style={styles.reviewLabel}>Reporter says</Text>
+              <Text style={styles.cardText}>{report.review.justification}</Text>
+            </>
+          )}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.noteInput}
+        value={note}
+        onChangeText={setNote}
+        placeholder="Note for the audit log (optional)"
+        placeholderTextColor="#999999"
+        maxLength={500}
+      />
+
+      <View style={styles.actions}>
+        {['pending_review', 'flagged', 'rejected'].includes(report.status) && (
+          <Pressable
+            style={[styles.actionButton, styles.approveButton]}
+            disabled={isBusy}
+            onPress={() => act('Couldn\'t approve the report', async () => [await moderation.approveReport(target)])}
+          >
+            <Text style={styles.actionButtonTextLight}>Approve</Text>
+          </Pressable>
+        )}
+        {report.status !== 'rejected' && (
+          <Pressable
+            style={styles.actionButton}
+            disabled={isBusy}
+            onPress={() => act('Couldn\'t reject the report', async () => [await moderation.rejectReport(target)])}
+          >
+            <Text style={styles.actionButtonText}>Reject</Text>
+          </Pressable>
+        )}
+        <Pressable
+          style={[styles.actionButton, panel === 'category' && styles.actionButtonActive]}
+          disabled={isBusy}
+          onPress={() => setPanel(panel === 'category' ? null : 'category')}
+        >
+          <Text style={styles.actionButtonText}>Category</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.actionButton, panel === 'merge' && styles.actionButtonActive]}
+          disabled={isBusy}
+          onPress={openMerge}
+        >
+          <Text style={styles.actionButtonText}>Merge</Text>
+        </Pressable>
+        <Pressable style={[styles.actionButton, styles.deleteButton]} disabled={isBusy} onPress={remove}>
+          <Text style={styles.actionButtonTextLight}>Delete</Text>
+        </Pressable>
+      </View>
+
+      {panel === 'category' && (
+        <View style={styles.panel}>
+          {HAZARD_CATEGORIES.map(category => (
+            <Pressable
+              key={category}
+              style={[styles.chip, category === report.category && styles.chipSelected]}
+              disabled={isBusy || category === report.category}
+              onPress={() => act('Couldn\'t change the category', async () =>
+                [await moderation.editReportCategory({ ...target, category })]
+              )}
+            >
+              <Text style={[styles.chipText, category === report.category && styles.chipTextSelected]}>
+                {formatCategory(category)}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {panel === 'merge' && (
+        <View style={styles.mergePanel}>
+          {!mergeCandidates && <ActivityIndicator color="#8E44AD" />}
+          {mergeCandidates?.length === 0 && (
+            <Text style={styles.cardMeta}>No open {formatCategory(report.category)} reports close by.</Text>
+          )}
+          {mergeCandidates?.map(candidate => (
+            <Pressable key={candidate.id} style={styles.mergeCandidate} disabled={isBusy} onPress={() => merge(candidate)}>
+              <Ionicons name="git-merge" size={16} color="#2C3E50" />
+              <Text style={styles.mergeCandidateText} numberOfLines={1}>
+                {candidate.title} ({candidate.distanceMeters} m)
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function QueuedCommentCard({ item, moderatorKey, onAction }: CardProps<QueuedComment>) {
+  const { comment } = item;
+  const [note, setNote] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const target = {
+    moderatorKey,
+    reportId: item.reportId,
+    timestamp: item.reportTimestamp,
+    commentId: comment.id,
+    note: note.trim() || undefined,
+  };
+
+  const act = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    const done = await onAction(title, async () => {
+      await action();
+      return [];
+    });
+    setIsBusy(false);
+    if (done) setNote('');
+  };
+
+  const remove = async () => {
+    const confirmed = await confirmAction('Delete comment?', 'The comment will be removed for everyone.', 'Delete');
+    if (!confirmed) return;
+    act('Couldn\'t delete the comment', () => moderation.deleteComment(target));
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardMeta} numberOfLines={1}>On "{item.reportTitle}"</Text>
+      <View style={styles.reasons}>
+        {item.reasons.map(reason => (
+          <Text key={reason} style={styles.reason}>{REASON_LABELS[reason] || reason}</Text>
+        ))}
+      </View>
+      {describeFlags(item.flags) !== '' && (
+        <Text style={styles.flagSummary}>Flagged as {describeFlags(item.flags)}</Text>
+      )}
+      <Text style={styles.cardText}>{comment.text}</Text>
+      <Text style={styles.cardMeta}>
+        {comment.author} · {new Date(comment.timestamp).toLocaleString()} · {comment.upvotes} up, {comment.downvotes} down
+      </Text>
+      <TextInput
+        style={styles.noteInput}
+        value={note}
+        onChangeText={setNote}
+        placeholder="Note for the audit log (optional)"
+        placeholderTextColor="#999999"
+        maxLength={500}
+      />
+      <View style={styles.actions}>
+        {comment.hidden && (
+          <Pressable
+            style={[styles.actionButton, styles.approveButton]}
+            disabled={isBusy}
+            onPress={() => act('Couldn\'t restore the comment', async () => {
+              await moderation.restoreComment(target);
+            })}
+          >
+            <Text style={styles.actionButtonTextLight}>Restore</Text>
+          </Pressable>
+        )}
+        <Pressable style={[styles.actionButton, styles.deleteButton]} disabled={isBusy} onPress={remove}>
+          <Text style={styles.actionButtonTextLight}>Delete comment</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  signOutButton: {
+    minWidth: 60,
+    alignItems: 'flex-end',
+  },
+  signOutText: {
+    fontSize: 14,
+    color: '#8E44AD',
+    fontWeight: '600',
+  },
+  signedInAs: {
+    fontSize: 12,
+    color: '#7F8C8D',
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  signIn: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  signInTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginTop: 12,
+  },
+  signInText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  input: {
+    alignSelf: 'stretch',
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000000',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  errorText: {
+    alignSelf: 'stretch',
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: 4,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#8E44AD',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  tabs: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  tab: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#8E44AD',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    fontWeight: '600',
+  },
+  tabTextActive: {
+    color: '#8E44AD',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  loading: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  card: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    flex: 1,
+    marginRight: 8,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginTop: 4,
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#2C3E50',
+    marginTop: 4,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  reason: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#8E44AD',
+    backgroundColor: '#F3E8F8',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  flagSummary: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E44AD',
+    marginTop: 4,
+  },
+  review: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 8,
+  },
+  reviewLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7F8C8D',
+    marginTop: 4,
+  },
+  noteInput: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#000000',
+    marginTop: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionButtonActive: {
+    borderColor: '#8E44AD',
+  },
+  approveButton: {
+    backgroundColor: '#27AE60',
+    borderColor: '#27AE60',
+  },
+  deleteButton: {
+    backgroundColor: '#E74C3C',
+    borderColor: '#E74C3C',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  actionButtonTextLight: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  panel: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  chip: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#8E44AD',
+    borderColor: '#8E44AD',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  mergePanel: {
+    marginTop: 10,
+  },
+  mergeCandidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 6,
+  },
+  mergeCandidateText: {
+    fontSize: 14,
+    color: '#2C3E50',
+    marginLeft: 8,
+    flex: 1,
+  },
+});
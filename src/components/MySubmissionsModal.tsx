@@ -0,0 +1,267 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+const { width, height } = Dimensions.get('window');
+
+type SubmissionStatus = 'pending' | 'synced' | 'failed';
+
+interface Submission {
+  id: string;
+  status: SubmissionStatus;
+  report: {
+    title: string;
+    timestamp: string;
+    review?: { justification: string } | null;
+  };
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+}
+
+interface MySubmissionsModalProps {
+  visible: boolean;
+  submissions: Submission[];
+  onClose: () => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onModerationPress: () => void;
+}
+
+const STATUS_DISPLAY: Record<SubmissionStatus, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  pending: { label: 'Waiting to send', icon: 'time', color: '#F39C12' },
+  synced: { label: 'Sent', icon: 'checkmark-circle', color: '#27AE60' },
+  failed: { label: 'Not sent', icon: 'alert-circle', color: '#E74C3C' },
+};
+
+export default function MySubmissionsModal({
+  visible,
+  submissions,
+  onClose,
+  onRetry,
+  onDiscard,
+  onModerationPress,
+}: MySubmissionsModalProps) {
+  // Newest first
+  const sorted = [...submissions].sort((a, b) => b.report.timestamp.localeCompare(a.report.timestamp));
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>My Reports</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666666" />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {sorted.length === 0 && (
+              <Text style={styles.emptyText}>Reports you submit from this device will appear here.</Text>
+            )}
+
+            {sorted.map((submission) => {
+              const display = STATUS_DISPLAY[submission.status];
+              return (
+                <View key={submission.id} style={styles.submissionItem}>
+                  <View style={styles.submissionHeader}>
+                    <Text style={styles.submissionTitle} numberOfLines={1}>
+                      {submission.report.title}
+                    </Text>
+                    <View style={styles.statusBadge}>
+                      <Ionicons name={display.icon} size={16} color={display.color} />
+                      <Text style={[styles.statusText, { color: display.color }]}>{display.label}</Text>
+                    </View>
+                  </View>
+
+                  <Text style={styles.submissionTime}>
+                    {new Date(submission.report.timestamp).toLocaleString()}
+                  </Text>
+
+                  {submission.status === 'pending' && submission.attempts > 0 && submission.nextAttemptAt && (
+                    <Text style={styles.submissionDetail}>
+                      Next try around {new Date(submission.nextAttemptAt).toLocaleTimeString()}
+                    </Text>
+                  )}
+
+                  {submission.status === 'synced' && submission.report.review && (
+                    <Text style={styles.submissionDetail}>
+                      Sent for review; it will appear on the map once a moderator approves it
+                    </Text>
+                  )}
+
+                  {submission.status !== 'synced' && submission.lastError && (
+                    <Text style={styles.submissionError}>{submission.lastError}</Text>
+                  )}
+
+                  {submission.status !== 'synced' && (
+                    <View style={styles.actions}>
+                      <Pressable style={styles.retryButton} onPress={() => onRetry(submission.id)}>
+                        <Ionicons name="refresh" size={16} color="#FFFFFF" />
+                        <Text style={styles.retryButtonText}>Retry now</Text>
+                      </Pressable>
+                      <Pressable style={styles.discardButton} onPress={() => onDiscard(submission.id)}>
+                        <Text style={styles.discardButtonText}>Discard</Text>
+                      </Pressable>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <Pressable style={styles.moderationLink} onPress={onModerationPress}>
+            <Ionicons name="shield-checkmark-outline" size={16} color="#8E44AD" />
+            <Text style={styles.moderationLinkText}>Moderation</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginHorizontal: 20,
+    maxHeight: height * 0.8,
+    width: width - 40,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 5 },
+    elevation: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    flex: 1,
+    marginRight: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  submissionItem: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  submissionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  submissionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    flex: 1,
+    marginRight: 8,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  submissionTime: {
+    fontSize: 12,
+    color: '#95A5A6',
+  },
+  submissionDetail: {
+    fontSize: 12,
+    color: '#7F8C8D',
+    marginTop: 4,
+  },
+  submissionError: {
+    fontSize: 12,
+    color: '#E74C3C',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#3498DB',
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  discardButton: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#BDC3C7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  discardButtonText: {
+    color: '#7F8C8D',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  moderationLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 12,
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+  moderationLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E44AD',
+    marginLeft: 6,
+  },
+});
@@ -1,5 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeHazardDirect } from '../gemini';
+import { classifier } from '../classifier';
+import { MAX_ANALYZED_IMAGES, AnalysisUnavailableError, AnalysisFailedError } from '../hazardAnalysis';
+import { useIdentity } from '../IdentityContext';
+import { MAX_DISPLAY_NAME_LENGTH } from '../identity';
 import {
   View,
   Text,
@@ -19,18 +22,65 @@ import { Ionicons } from '@expo/vector-icons';
 
 const { width } = Dimensions.get('window');
 
+// Same limit as the backend (functions/src/reports.js)
+const MAX_TITLE_LENGTH = 100;
+
 interface ReportScreenProps {
   onBack: () => void;
-  onSubmit: (data: ReportData, onNavigationComplete?: () => void) => void;
+  onSubmit: (
+    data: ReportData,
+    onNavigationComplete?: () => void,
+    onUploadProgress?: (progress: number[]) => void,
+  ) => void;
+  onFindDuplicates: (category: string) => Promise<{ location: ReportLocation, duplicates: ExistingReport[] }>;
+  onConfirmExisting: (
+    report: ExistingReport,
+    data: ReportData,
+    onUploadProgress?: (progress: number[]) => void,
+  ) => Promise<void>;
+}
+
+interface ReportLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// An open report that the one being made looks like a duplicate of
+interface ExistingReport {
+  id: string;
+  timestamp: string;
+  title: string;
+  distanceMeters: number;
+}
+
+interface ReportImage {
+  uri: string;
+  mimeType: string;
 }
 
 interface ReportData {
   title: string;
   description: string;
-  images: string[];
+  images: ReportImage[];
   category?: string;
+  reporterName?: string | null;
+  location?: ReportLocation;
+  // Set when the hazard check rejected the report and the reporter asked for a person to review it
+  review?: {
+    aiReasons: string[];
+    justification: string;
+  };
+}
+
+// What the hazard check said when it rejected the report, kept for an appeal
+interface Rejection {
+  title: string;
+  category: string;
+  reasons: string[];
 }
 
+const MAX_JUSTIFICATION_LENGTH = 500;
+
 interface PhotoItem {
   id: string;
   uri: string;
@@ -39,12 +89,60 @@ interface PhotoItem {
   mimeType?: string;
 }
 
-export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
+// Ask what to do with photos the analysis says don't show the hazard
+const askAboutIrrelevantPhotos = (count: number, total: number) =>
+  new Promise<'remove' | 'keep' | 'cancel'>(resolve => {
+    Alert.alert(
+      count === 1 ? 'A photo doesn\'t show the hazard' : 'Some photos don\'t show the hazard',
+      `${count} of your ${total} photos don't appear to show the hazard. They are marked on the form.\n\n` +
+        'Remove them before posting?',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+        { text: 'Keep them', onPress: () => resolve('keep') },
+        { text: 'Remove them', onPress: () => resolve('remove') },
+      ],
+      { cancelable: true, onDismiss: () => resolve('cancel') }
+    );
+  });
+
+// Ask whether to confirm the closest existing report instead of posting a duplicate
+const askAboutDuplicate = (existing: ExistingReport, otherCount: number) =>
+  new Promise<'confirm' | 'post' | 'cancel'>(resolve => {
+    const others = otherCount > 0 ? ` (and ${otherCount} more nearby)` : '';
+    Alert.alert(
+      'This looks like an existing report',
+      `"${existing.title}" was reported ${existing.distanceMeters} m from here on ` +
+        `${new Date(existing.timestamp).toLocaleDateString()}${others}.\n\n` +
+        'Confirm it instead? Your photos will be added to it and count as a "still there" vote.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+        { text: 'Post as new', onPress: () => resolve('post') },
+        { text: 'Confirm existing', onPress: () => resolve('confirm') },
+      ],
+      { cancelable: true, onDismiss: () => resolve('cancel') }
+    );
+  });
+
+export default function ReportScreen({ onBack, onSubmit, onFindDuplicates, onConfirmExisting }: ReportScreenProps) {
+  const { displayName, setDisplayName } = useIdentity();
+  const [reporterName, setReporterName] = useState(displayName || '');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [photos, setPhotos] = useState<PhotoItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number[]>([]);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
+  // Photos the analysis found don't show the hazard
+  const [irrelevantPhotoIds, setIrrelevantPhotoIds] = useState<string[]>([]);
+  // Set when the hazard check rejected the report, offering to send it for review instead
+  const [rejection, setRejection] = useState<Rejection | null>(null);
+  const [justification, setJustification] = useState('');
+
+  // A rejection only holds for what was checked: once the report changes, the reasons and category no longer
+  // describe it, so it has to be checked again before it can be sent for review
+  useEffect(() => {
+    setRejection(null);
+  }, [title, description, photos]);
   
   // Animation for loading spinner
   const spinValue = useRef(new Animated.Value(0)).current;
@@ -147,81 +245,179 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Remember the name for the next report and for comments
+  const rememberReporterName = async () => {
+    const finalReporterName = reporterName.trim() || null;
+    if (finalReporterName !== displayName) {
+      await setDisplayName(finalReporterName).catch(() => {});
+    }
+    return finalReporterName;
+  };
+
+  // Post a report the hazard check rejected anyway, as it is now and with the reasons it was rejected for; it
+  // stays off the map until a moderator approves it
+  const handleSubmitForReview = async () => {
+    if (!rejection || !validateForm()) return;
+    if (!justification.trim()) {
+      setErrors(prev => ({ ...prev, justification: 'Explain why this is a public hazard' }));
+      return;
+    }
+
+    setIsSubmitting(true);
+    setUploadProgress([]);
+    try {
+      const reportData: ReportData = {
+        title: title.trim() || rejection.title.trim() || 'Hazard Report',
+        description: description.trim(),
+        images: photos.map(p => ({ uri: p.uri, mimeType: p.mimeType || 'image/jpeg' })),
+        category: rejection.category,
+        reporterName: await rememberReporterName(),
+        review: {
+          aiReasons: rejection.reasons,
+          justification: justification.trim(),
+        },
+      };
+
+      onSubmit(reportData, () => setIsSubmitting(false), setUploadProgress);
+    } catch (error: any) {
+      console.error('Error submitting report for review:', error);
+      setIsSubmitting(false);
+      Alert.alert('Error', error?.message ? String(error.message) : 'Failed to submit report. Please try again.');
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async () => {
     if (!validateForm()) return;
 
     setIsSubmitting(true);
+    setUploadProgress([]);
+    setIrrelevantPhotoIds([]);
+    setRejection(null);
     try {
-      const primary = photos[0];
-      if (!primary) {
+      if (photos.length === 0) {
         Alert.alert('Error', 'Please attach at least one photo.');
         setIsSubmitting(false);
         return;
       }
 
-      // Convert MIME type to Gemini-supported format
-      const supportedMimeType = primary.mimeType === 'image/avif' ? 'image/jpeg' : (primary.mimeType || 'image/jpeg');
-
-      // Prefer data URL if base64 is present; fallback to URI (gemini.js can still read URI)
-      const imageForGemini = primary.base64
-        ? `data:${supportedMimeType};base64,${primary.base64}`
-        : primary.uri;
-
-      // Ask Gemini (frontend direct)
-      const ai = await analyzeHazardDirect({
+      // All photos up to the cap are judged together, so one misleading photo can't reject the report
+      const analyzedPhotos = photos.slice(0, MAX_ANALYZED_IMAGES);
+      const ai = await classifier.classify({
         title: title.trim() || null,
         description: description.trim(),
-        image: imageForGemini,
-        imageMime: supportedMimeType,
+        images: analyzedPhotos.map(photo => {
+          // Convert MIME type to Gemini-supported format
+          const supportedMimeType = photo.mimeType === 'image/avif' ? 'image/jpeg' : (photo.mimeType || 'image/jpeg');
+          return {
+            // Prefer data URL if base64 is present; fallback to URI (gemini.js can still read URI)
+            image: photo.base64 ? `data:${supportedMimeType};base64,${photo.base64}` : photo.uri,
+            imageMime: supportedMimeType,
+          };
+        }),
       });
 
-      if (!ai?.valid_hazard) {
-        const reasons =
-          Array.isArray(ai?.reasons) && ai.reasons.length
-            ? `\n\nWhy:\n• ${ai.reasons.join('\n• ')}`
-            : '';
+      if (!ai.valid_hazard) {
+        const reasons = ai.reasons.length ? `\n\nWhy:\n• ${ai.reasons.join('\n• ')}` : '';
 
         Alert.alert(
           'Not a Public Hazard',
-          `This submission doesn't look like a public hazard.${reasons}`
+          `This submission doesn't look like a public hazard.${reasons}\n\n` +
+            'If you think this is wrong, explain why below and submit it for human review.'
         );
+        setRejection({ title: ai.title, category: ai.category, reasons: ai.reasons });
 
         setIsSubmitting(false);
         return;
       }
 
-      const finalCategory = (typeof ai?.category === 'string' && ai.category) || 'other';
+      // Flag photos that don't show the hazard before anything is uploaded
+      let photosToSubmit = photos;
+      const irrelevantPhotos = analyzedPhotos.filter((_, index) => !ai.relevant_images.includes(index));
+      if (irrelevantPhotos.length > 0 && irrelevantPhotos.length < photos.length) {
+        const irrelevantIds = irrelevantPhotos.map(photo => photo.id);
+        setIrrelevantPhotoIds(irrelevantIds);
+
+        const choice = await askAboutIrrelevantPhotos(irrelevantPhotos.length, photos.length);
+        if (choice === 'cancel') {
+          setIsSubmitting(false);
+          return;
+        }
+        if (choice === 'remove') {
+          photosToSubmit = photos.filter(photo => !irrelevantIds.includes(photo.id));
+          setPhotos(photosToSubmit);
+          setIrrelevantPhotoIds([]);
+        }
+      }
+
+      const finalCategory = ai.category;
 
       // Prefer user-provided title; otherwise AI’s title
       const finalTitle =
         (title && title.trim()) ||
-        (ai?.title && String(ai.title).trim()) ||
+        ai.title.trim() ||
         'Hazard Report';
 
       // Prefer AI-improved description if present
       const finalDescription =
-        (ai?.improved_description && String(ai.improved_description).trim()) ||
+        ai.improved_description.trim() ||
         description.trim();
 
+      const finalReporterName = await rememberReporterName();
+
+      // Nothing stops several people reporting the same hazard, so offer to confirm a matching
+      // open report nearby instead
+      const { location, duplicates } = await onFindDuplicates(finalCategory);
+
       const reportData: ReportData = {
         title: finalTitle,
         description: finalDescription,
-        images: photos.map(p => p.uri),
+        images: photosToSubmit.map(p => ({ uri: p.uri, mimeType: p.mimeType || 'image/jpeg' })),
         category: finalCategory,
+        reporterName: finalReporterName,
+        location,
       };
 
+      if (duplicates.length > 0) {
+        const choice = await askAboutDuplicate(duplicates[0], duplicates.length - 1);
+        if (choice === 'cancel') {
+          setIsSubmitting(false);
+          return;
+        }
+        if (choice === 'confirm') {
+          await onConfirmExisting(duplicates[0], reportData, setUploadProgress);
+          return;
+        }
+      }
+
       console.log('ReportScreen: Calling onSubmit with reportData:', reportData);
-      onSubmit(reportData, () => {
-        // This callback will be called when navigation is complete
-        setIsSubmitting(false);
-        console.log('ReportScreen: Navigation complete, stopping loading animation');
-      });
+      onSubmit(
+        reportData,
+        () => {
+          // This callback will be called when navigation is complete
+          setIsSubmitting(false);
+          console.log('ReportScreen: Navigation complete, stopping loading animation');
+        },
+        setUploadProgress,
+      );
       console.log('ReportScreen: onSubmit call completed');
     } catch (error: any) {
       console.error('Error submitting report:', error);
-      Alert.alert('Error', error?.message ? String(error.message) : 'Failed to submit report. Please try again.');
       setIsSubmitting(false); // Only stop loading on error
+      if (error instanceof AnalysisUnavailableError) {
+        Alert.alert(
+          'Couldn\'t check your report',
+          'The hazard check is busy or unreachable right now. Check your connection and try again in a moment.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Try again', onPress: () => handleSubmit() },
+          ]
+        );
+      } else if (error instanceof AnalysisFailedError) {
+        Alert.alert('Couldn\'t check your report', 'Something went wrong while checking your photos. Please try again later.');
+      } else {
+        Alert.alert('Error', error?.message ? String(error.message) : 'Failed to submit report. Please try again.');
+      }
     }
   };
 
@@ -257,7 +453,23 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
             onChangeText={setTitle}
             placeholder="Enter title for your report"
             placeholderTextColor="#999999"
+            maxLength={MAX_TITLE_LENGTH}
+          />
+        </View>
+
+        {/* Reporter Name Section */}
+        <View style={styles.section}>
+          <Text style={styles.label}>Your Name (Optional)</Text>
+          <TextInput
+            style={styles.titleInput}
+            value={reporterName}
+            onChangeText={setReporterName}
+            placeholder="Anonymous User"
+            placeholderTextColor="#999999"
+            maxLength={MAX_DISPLAY_NAME_LENGTH}
+            autoCapitalize="words"
           />
+          <Text style={styles.helperText}>Shown on your reports and comments. Leave blank to stay anonymous.</Text>
         </View>
 
         {/* Description Section */}
@@ -299,6 +511,9 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
           </View>
 
           {errors.photos && <Text style={styles.errorText}>{errors.photos}</Text>}
+          {photos.length > MAX_ANALYZED_IMAGES && (
+            <Text style={styles.helperText}>Only the first {MAX_ANALYZED_IMAGES} photos are checked before posting.</Text>
+          )}
 
           {/* Photo Grid */}
           {photos.length > 0 && (
@@ -306,10 +521,17 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
               {photos.map((photo) => (
                 <View key={photo.id} style={styles.photoItem}>
                   <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                  {irrelevantPhotoIds.includes(photo.id) && (
+                    <View style={styles.irrelevantPhotoOverlay}>
+                      <Ionicons name="eye-off" size={16} color="#FFFFFF" />
+                      <Text style={styles.irrelevantPhotoText}>No hazard seen</Text>
+                    </View>
+                  )}
                   <TouchableOpacity
                     style={styles.deleteButton}
                     onPress={() => {
                       deletePhoto(photo.id);
+                      setIrrelevantPhotoIds(prev => prev.filter(id => id !== photo.id));
                       if (errors.photos) {
                         setErrors(prev => ({ ...prev, photos: '' }));
                       }
@@ -329,6 +551,44 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
             </View>
           )}
         </View>
+
+        {/* Appeal of a rejected report */}
+        {rejection && (
+          <View style={[styles.section, styles.reviewSection]}>
+            <Text style={styles.label}>Not a Public Hazard?</Text>
+            {rejection.reasons.map((reason, index) => (
+              <Text key={index} style={styles.reviewReason}>• {reason}</Text>
+            ))}
+            <TextInput
+              style={[styles.descriptionInput, styles.justificationInput, errors.justification && styles.inputError]}
+              value={justification}
+              onChangeText={(text) => {
+                setJustification(text);
+                if (errors.justification) {
+                  setErrors(prev => ({ ...prev, justification: '' }));
+                }
+              }}
+              placeholder="Why should this be posted? e.g. the hazard is on a public path"
+              placeholderTextColor="#999999"
+              maxLength={MAX_JUSTIFICATION_LENGTH}
+              multiline
+              numberOfLines={3}
+              textAlignVertical="top"
+            />
+            {errors.justification && <Text style={styles.errorText}>{errors.justification}</Text>}
+            <Text style={styles.helperText}>
+              A moderator will read this. The report stays off the map until they approve it.
+            </Text>
+            <TouchableOpacity
+              style={[styles.reviewButton, isSubmitting && styles.submitButtonDisabled]}
+              onPress={handleSubmitForReview}
+              disabled={isSubmitting}
+            >
+              <Ionicons name="people" size={18} color="#8E44AD" />
+              <Text style={styles.reviewButtonText}>Submit for human review anyway</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
 
       {/* Submit Button */}
@@ -382,6 +642,20 @@ export default function ReportScreen({ onBack, onSubmit }: ReportScreenProps) {
             </Animated.View>
             <Text style={styles.loadingText}>Submitting Report...</Text>
             <Text style={styles.loadingSubtext}>Please wait while we process your submission</Text>
+            {uploadProgress.length > 0 && (
+              <View style={styles.uploadProgressList}>
+                {uploadProgress.map((fraction, index) => (
+                  <View key={index} style={styles.uploadProgressRow}>
+                    <Text style={styles.uploadProgressLabel}>
+                      Photo {index + 1}: {Math.round(fraction * 100)}%
+                    </Text>
+                    <View style={styles.uploadProgressTrack}>
+                      <View style={[styles.uploadProgressFill, { width: `${Math.round(fraction * 100)}%` }]} />
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
           </View>
         </View>
       )}
@@ -452,6 +726,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E0E0E0',
   },
+  helperText: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 6,
+  },
   descriptionInput: {
     backgroundColor: '#F5F5F5',
     borderRadius: 8,
@@ -501,6 +780,22 @@ const styles = StyleSheet.create({
     height: '100%',
     resizeMode: 'cover',
   },
+  irrelevantPhotoOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  irrelevantPhotoText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   deleteButton: {
     position: 'absolute',
     top: 4,
@@ -516,6 +811,37 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     padding: 4,
   },
+  reviewSection: {
+    backgroundColor: '#F8F4FB',
+    borderRadius: 8,
+    padding: 16,
+  },
+  reviewReason: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  justificationInput: {
+    marginTop: 8,
+    minHeight: 80,
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#8E44AD',
+    backgroundColor: '#FFFFFF',
+  },
+  reviewButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#8E44AD',
+  },
   footer: {
     paddingHorizontal: 20,
     paddingVertical: 20,
@@ -591,4 +917,28 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  uploadProgressList: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+    gap: 10,
+  },
+  uploadProgressRow: {
+    gap: 4,
+  },
+  uploadProgressLabel: {
+    fontSize: 12,
+    color: '#2C3E50',
+    fontWeight: '500',
+  },
+  uploadProgressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E0E0E0',
+    overflow: 'hidden',
+  },
+  uploadProgressFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E74C3C',
+  },
 });
@@ -0,0 +1,27 @@
+import { readJSON, writeJSON } from './deviceStorage';
+import { randomId } from './ids';
+
+const DEVICE_ID_KEY = 'device-id';
+
+let cachedDeviceId = null;
+
+/**
+ * Get the persistent identifier for this install, creating it on first use.
+ * Used to enforce one vote per user.
+ * @returns {Promise<string>} - The device ID
+ */
+export const getDeviceId = async () => {
+  if (cachedDeviceId) {
+    return cachedDeviceId;
+  }
+
+  const stored = await readJSON(DEVICE_ID_KEY);
+  if (stored?.id) {
+    cachedDeviceId = stored.id;
+    return cachedDeviceId;
+  }
+
+  cachedDeviceId = randomId();
+  await writeJSON(DEVICE_ID_KEY, { id: cachedDeviceId, createdAt: new Date().toISOString() });
+  return cachedDeviceId;
+};
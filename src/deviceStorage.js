@@ -0,0 +1,38 @@
+import {
+  documentDirectory,
+  getInfoAsync,
+  readAsStringAsync,
+  writeAsStringAsync,
+} from 'expo-file-system/legacy';
+
+const fileUriFor = (name) => `${documentDirectory}${name}.json`;
+
+/**
+ * Read a JSON value persisted on the device
+ * @param {string} name - Storage key (used as the file name)
+ * @param {*} fallback - Value returned when nothing is stored or the file is unreadable
+ * @returns {Promise<*>} - The stored value or the fallback
+ */
+export const readJSON = async (name, fallback = null) => {
+  try {
+    const uri = fileUriFor(name);
+    const info = await getInfoAsync(uri);
+    if (!info.exists) {
+      return fallback;
+    }
+    return JSON.parse(await readAsStringAsync(uri));
+  } catch (error) {
+    console.error(`Error reading ${name} from device storage:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Persist a JSON value on the device
+ * @param {string} name - Storage key (used as the file name)
+ * @param {*} value - Any JSON-serializable value
+ * @returns {Promise<void>}
+ */
+export const writeJSON = async (name, value) => {
+  await writeAsStringAsync(fileUriFor(name), JSON.stringify(value));
+};
@@ -1,50 +1,27 @@
-import 'react-native-get-random-values';
-import '@azure/core-asynciterator-polyfill';
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, PutCommand, ScanCommand, GetCommand } from "@aws-sdk/lib-dynamodb";
-import Constants from 'expo-constants';
+import { apiRequest } from './api';
+import { saveEditToken, getEditToken, forgetEditToken } from './editTokens';
+import { EXPORT_FORMATS, exportFilename } from './hazardExport';
 
-// Initialize DynamoDB client
-const client = new DynamoDBClient({
-  region: Constants.expoConfig?.extra?.awsRegion || process.env.AWS_REGION,
-  credentials: {
-    accessKeyId: Constants.expoConfig?.extra?.awsAccessKeyId || process.env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: Constants.expoConfig?.extra?.awsSecretAccessKey || process.env.AWS_SECRET_ACCESS_KEY,
-  },
-});
-
-const docClient = DynamoDBDocumentClient.from(client);
-
-const TABLE_NAME = Constants.expoConfig?.extra?.dynamodbTableName || process.env.DYNAMODB_TABLE_NAME || 'Hazard_flags';
+// Reports, votes and comments are stored in DynamoDB by the backend API
 
 /**
- * Save a hazard report to DynamoDB
+ * Save a hazard report, keeping the edit token its author changes it with on the device
  * @param {Object} report - The report object containing title, description, images, location, etc.
+ * @param {Object} options
+ * @param {string} options.editToken - Edit token made for the report on this device (see submissionQueue.js);
+ *   without one the backend makes it
  * @returns {Promise<Object>} - The saved report
  */
-export const saveReport = async (report) => {
-  try {
-    const params = {
-      TableName: TABLE_NAME,
-      Item: {
-        Hazard_id: report.id,                    // Partition key
-        time: report.timestamp,                   // Sort key
-        title: report.title,
-        description: report.description,
-        images: report.images || [],
-        latitude: report.latitude,
-        longitude: report.longitude,
-        category: report.category || 'other',
-        status: 'active',                         // active, resolved, false_report
-        upvotes: 0,
-        downvotes: 0,
-        comments: [],
-      },
-    };
-
-    await docClient.send(new PutCommand(params));
+export const saveReport = async (report, { editToken: madeToken } = {}) => {
+  try {
+    const { editToken, ...saved } = await apiRequest('/reports', {
+      method: 'POST',
+      body: report,
+      headers: madeToken ? { 'x-edit-token': madeToken } : undefined,
+    });
+    if (editToken) await saveEditToken(saved.id, editToken);
     console.log('Report saved to DynamoDB:', report.id);
-    return params.Item;
+    return saved;
   } catch (error) {
     console.error('Error saving report to DynamoDB:', error);
     throw error;
@@ -52,34 +29,14 @@ export const saveReport = async (report) => {
 };
 
 /**
- * Get all reports from DynamoDB
+ * Get all reports.
+ * Scans the whole table, so prefer getReportsInRegion for the map.
  * @returns {Promise<Array>} - Array of all reports
  */
 export const getAllReports = async () => {
   try {
-    const params = {
-      TableName: TABLE_NAME,
-    };
-
-    const result = await docClient.send(new ScanCommand(params));
-    console.log(`Retrieved ${result.Items?.length || 0} reports from DynamoDB`);
-
-    // Transform DynamoDB items to match app format
-    const reports = (result.Items || []).map(item => ({
-      id: item.Hazard_id,
-      title: item.title,
-      description: item.description,
-      images: item.images || [],
-      latitude: item.latitude,
-      longitude: item.longitude,
-      timestamp: item.time,
-      category: item.category,
-      upvotes: item.upvotes || 0,
-      downvotes: item.downvotes || 0,
-      comments: item.comments || [],
-      status: item.status || 'active',
-    }));
-
+    const { reports } = await apiRequest('/reports');
+    console.log(`Retrieved ${reports.length} reports from DynamoDB`);
     return reports;
   } catch (error) {
     console.error('Error getting reports from DynamoDB:', error);
@@ -87,6 +44,121 @@ export const getAllReports = async () => {
   }
 };
 
+/**
+ * Get the reports inside a visible map region
+ * @param {Object} region - { latitude, longitude, latitudeDelta, longitudeDelta }
+ * @returns {Promise<Array>} - Array of reports inside the region
+ */
+export const getReportsInRegion = async ({ latitude, longitude, latitudeDelta, longitudeDelta }) => {
+  try {
+    const { reports } = await apiRequest('/reports', {
+      query: { latitude, longitude, latitudeDelta, longitudeDelta },
+    });
+    console.log(`Retrieved ${reports.length} reports in region from DynamoDB`);
+    return reports;
+  } catch (error) {
+    console.error('Error getting reports in region from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Export public reports as a GeoJSON or CSV file
+ * @param {Object} filters
+ * @param {string} filters.format - geojson or csv
+ * @param {Object} filters.region - Map region to export, small enough to export (see canExportRegion)
+ * @param {string|null} filters.from - Only reports made at or after this ISO date
+ * @param {string|null} filters.to - Only reports made at or before this ISO date
+ * @param {Array<string>} filters.categories - Only reports in these categories
+ * @param {Array<string>} filters.statuses - Only reports in these statuses
+ * @returns {Promise<Object>} - { filename, mimeType, content }
+ */
+export const exportReports = async ({ format, region, from, to, categories, statuses }) => {
+  try {
+    const content = await apiRequest('/reports/export', {
+      query: {
+        format,
+        ...region,
+        from,
+        to,
+        categories: categories?.length ? categories.join(',') : null,
+        statuses: statuses?.length ? statuses.join(',') : null,
+      },
+      responseType: 'text',
+    });
+    console.log(`Exported reports from DynamoDB as ${format}`);
+    return { filename: exportFilename(format), mimeType: EXPORT_FORMATS[format].mimeType, content };
+  } catch (error) {
+    console.error('Error exporting reports from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get reports created or changed (status, votes, comments) since a sync cursor
+ * @param {string|null} since - Cursor from the previous sync, or null for the first one
+ * @returns {Promise<Object>} - { reports, cursor, reset }; reset means the cursor was missing or too old and
+ * the caller should reload the reports it shows before syncing from the new cursor
+ */
+export const getReportChanges = async (since) => {
+  try {
+    const result = await apiRequest('/reports/changes', {
+      query: { since },
+    });
+    console.log(`Retrieved ${result.reports.length} changed reports from DynamoDB`);
+    return result;
+  } catch (error) {
+    console.error('Error getting report changes from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find open reports a new report would duplicate: same category, close by and recent
+ * (the radius and time window are set on the backend, see functions/src/duplicates.js)
+ * @param {Object} params
+ * @param {number} params.latitude - Where the new report is being made
+ * @param {number} params.longitude - Where the new report is being made
+ * @param {string} params.category - Category of the new report
+ * @returns {Promise<Array>} - Matching reports, closest first, each with distanceMeters
+ */
+export const findDuplicateReports = async ({ latitude, longitude, category }) => {
+  try {
+    const { reports } = await apiRequest('/reports/duplicates', {
+      query: { latitude, longitude, category },
+    });
+    console.log(`Found ${reports.length} possible duplicate reports`);
+    return reports;
+  } catch (error) {
+    console.error('Error finding duplicate reports:', error);
+    throw error;
+  }
+};
+
+/**
+ * Confirm an existing report instead of submitting a duplicate: adds the user's
+ * "still there" vote and attaches their photos to it
+ * @param {Object} params
+ * @param {string} params.reportId - The existing report's ID
+ * @param {string} params.timestamp - The existing report's timestamp (sort key)
+ * @param {string} params.reporterId - Reporter ID of the confirming device
+ * @param {string[]} params.images - URLs of photos uploaded for the existing report
+ * @returns {Promise<Object>} - { vote, report } with the updated report
+ */
+export const confirmReport = async ({ reportId, timestamp, reporterId, images }) => {
+  try {
+    const result = await apiRequest(`/reports/${encodeURIComponent(reportId)}/confirmations`, {
+      method: 'POST',
+      body: { timestamp, reporterId, images },
+    });
+    console.log(`Report ${reportId} confirmed`);
+    return result;
+  } catch (error) {
+    console.error('Error confirming report:', error);
+    throw error;
+  }
+};
+
 /**
  * Get a specific report by ID
  * @param {string} reportId - The report ID
@@ -95,37 +167,325 @@ export const getAllReports = async () => {
  */
 export const getReport = async (reportId, timestamp) => {
   try {
-    const params = {
-      TableName: TABLE_NAME,
-      Key: {
-        Hazard_id: reportId,
-        time: timestamp,
-      },
-    };
-
-    const result = await docClient.send(new GetCommand(params));
-
-    if (!result.Item) {
+    return await apiRequest(`/reports/${encodeURIComponent(reportId)}`, {
+      query: { timestamp },
+    });
+  } catch (error) {
+    if (error.status === 404) {
       return null;
     }
+    console.error('Error getting report from DynamoDB:', error);
+    throw error;
+  }
+};
 
-    // Transform to app format
-    return {
-      id: result.Item.Hazard_id,
-      title: result.Item.title,
-      description: result.Item.description,
-      images: result.Item.images || [],
-      latitude: result.Item.latitude,
-      longitude: result.Item.longitude,
-      timestamp: result.Item.time,
-      category: result.Item.category,
-      upvotes: result.Item.upvotes || 0,
-      downvotes: result.Item.downvotes || 0,
-      comments: result.Item.comments || [],
-      status: result.Item.status || 'active',
-    };
+/**
+ * Get the vote a user has stored for a hazard
+ * @param {string} reportId - The report ID
+ * @param {string} voterId - The voting user's ID
+ * @returns {Promise<'up'|'down'|null>} - The stored vote, or null if none/cleared
+ */
+export const getUserVote = async (reportId, voterId) => {
+  try {
+    const { vote } = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/votes/${encodeURIComponent(voterId)}`
+    );
+    return vote;
   } catch (error) {
-    console.error('Error getting report from DynamoDB:', error);
+    console.error('Error getting vote from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Headers proving the user wrote a report, from the edit token kept when it was submitted
+ * @param {string} reportId - The report ID
+ * @returns {Promise<Object>} - Headers for apiRequest
+ */
+const authorHeaders = async (reportId) => {
+  const token = await getEditToken(reportId);
+  if (!token) {
+    const error = new Error('This report was not submitted from this device');
+    error.status = 403;
+    error.code = 'not_author';
+    throw error;
+  }
+  return { 'x-edit-token': token };
+};
+
+/**
+ * Move a hazard to a new status, recording who changed it in the report's history.
+ * Only the report's author, or a moderator, can.
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.status - acknowledged, in_progress, resolved, false_report or active (reopen)
+ * @param {string} params.note - Optional note shown in the history
+ * @param {string} params.moderatorKey - The moderator's key, or undefined for the user's own report
+ * @returns {Promise<Object>} - The updated report
+ */
+export const updateReportStatus = async ({ reportId, timestamp, status, note, moderatorKey }) => {
+  try {
+    const report = await apiRequest(`/reports/${encodeURIComponent(reportId)}/status`, {
+      method: 'PUT',
+      headers: moderatorKey ? { authorization: `Bearer ${moderatorKey}` } : await authorHeaders(reportId),
+      body: { timestamp, status, note },
+    });
+    console.log(`Report ${reportId} is now ${report.status}`);
+    return report;
+  } catch (error) {
+    console.error('Error updating report status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Edit the user's own report; each change is kept in the report's edit history
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.title - New title, or undefined to keep it
+ * @param {string} params.description - New description, or undefined to keep it
+ * @param {string} params.category - New category, or undefined to keep it
+ * @param {Array<string>} params.images - The report's images after the edit, new ones uploaded for it first,
+ * or undefined to keep them
+ * @returns {Promise<Object>} - The updated report
+ */
+export const editReport = async ({ reportId, timestamp, title, description, category, images }) => {
+  try {
+    const report = await apiRequest(`/reports/${encodeURIComponent(reportId)}`, {
+      method: 'PATCH',
+      headers: await authorHeaders(reportId),
+      body: { timestamp, title, description, category, images },
+    });
+    console.log(`Report ${reportId} edited`);
+    return report;
+  } catch (error) {
+    console.error('Error editing report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Retract the user's own report, taking it off the map for good
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.note - Optional reason shown in the history
+ * @returns {Promise<Object>} - The retracted report
+ */
+export const retractReport = async ({ reportId, timestamp, note }) => {
+  try {
+    const report = await apiRequest(`/reports/${encodeURIComponent(reportId)}/retract`, {
+      method: 'POST',
+      headers: await authorHeaders(reportId),
+      body: { timestamp, note },
+    });
+    console.log(`Report ${reportId} retracted`);
+    return report;
+  } catch (error) {
+    console.error('Error retracting report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete the user's own report and its images
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @returns {Promise<void>}
+ */
+export const deleteOwnReport = async ({ reportId, timestamp }) => {
+  try {
+    await apiRequest(`/reports/${encodeURIComponent(reportId)}`, {
+      method: 'DELETE',
+      headers: await authorHeaders(reportId),
+      query: { timestamp },
+    });
+    await forgetEditToken(reportId);
+    console.log(`Report ${reportId} deleted`);
+  } catch (error) {
+    console.error('Error deleting report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record a user's vote on a hazard; the backend updates the report's counts atomically.
+ * Each voter has a single vote per hazard; casting a new one replaces the old one.
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.voterId - The voting user's ID
+ * @param {'up'|'down'|null} params.vote - The new vote, or null to clear it
+ * @returns {Promise<Object>} - The stored vote, authoritative { upvotes, downvotes }, and the hazard's
+ * status, which votes can change (see functions/src/autoResolve.js)
+ */
+export const castVote = async ({ reportId, timestamp, voterId, vote }) => {
+  try {
+    const result = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/votes/${encodeURIComponent(voterId)}`,
+      { method: 'PUT', body: { timestamp, vote } }
+    );
+    console.log(`Vote ${result.vote || 'cleared'} recorded for ${reportId}`);
+    return result;
+  } catch (error) {
+    console.error('Error saving vote to DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add a comment to a hazard report
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.text - The comment text
+ * @param {string} params.author - Display name of the commenter
+ * @param {string} params.authorId - Reporter ID of the commenter's device
+ * @returns {Promise<Object>} - The saved comment
+ */
+export const addComment = async ({ reportId, timestamp, text, author, authorId }) => {
+  try {
+    const comment = await apiRequest(`/reports/${encodeURIComponent(reportId)}/comments`, {
+      method: 'POST',
+      body: { timestamp, text, author, authorId },
+    });
+    console.log('Comment saved to DynamoDB:', comment.id);
+    return comment;
+  } catch (error) {
+    console.error('Error saving comment to DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the comments on a hazard report, oldest first
+ * @param {string} reportId - The report ID
+ * @param {string} timestamp - The report timestamp (sort key)
+ * @returns {Promise<Array>} - Array of comments
+ */
+export const getComments = async (reportId, timestamp) => {
+  try {
+    const { comments } = await apiRequest(`/reports/${encodeURIComponent(reportId)}/comments`, {
+      query: { timestamp },
+    });
+    return comments;
+  } catch (error) {
+    console.error('Error getting comments from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the votes a user has stored for comments on a hazard
+ * @param {string} reportId - The report ID
+ * @param {string[]} commentIds - IDs of the comments to look up
+ * @param {string} voterId - The voting user's ID
+ * @returns {Promise<Object>} - Map of comment ID to 'up' | 'down'
+ */
+export const getUserCommentVotes = async (reportId, commentIds, voterId) => {
+  if (!commentIds.length) return {};
+
+  try {
+    const { votes } = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/comment-votes/${encodeURIComponent(voterId)}`,
+      { query: { commentIds: commentIds.join(',') } }
+    );
+    return votes;
+  } catch (error) {
+    console.error('Error getting comment votes from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record a user's vote on a comment; the backend updates the comment's counts atomically
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.commentId - The comment ID
+ * @param {string} params.voterId - The voting user's ID
+ * @param {'up'|'down'|null} params.vote - The new vote, or null to clear it
+ * @returns {Promise<Object>} - The stored vote and authoritative { upvotes, downvotes }
+ */
+export const castCommentVote = async ({ reportId, timestamp, commentId, voterId, vote }) => {
+  try {
+    const result = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/comments/${encodeURIComponent(commentId)}/votes/${encodeURIComponent(voterId)}`,
+      { method: 'PUT', body: { timestamp, vote } }
+    );
+    console.log(`Vote ${result.vote || 'cleared'} recorded for comment ${commentId}`);
+    return result;
+  } catch (error) {
+    console.error('Error saving comment vote to DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get what a user has flagged on a report and its comments
+ * @param {string} reportId - The report ID
+ * @param {string[]} commentIds - IDs of the report's comments
+ * @param {string} flaggerId - The user's ID
+ * @returns {Promise<Object>} - { report, comments } with the reason for each flag, report null if none
+ */
+export const getUserFlags = async (reportId, commentIds, flaggerId) => {
+  try {
+    return await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/flags/${encodeURIComponent(flaggerId)}`,
+      { query: { commentIds: commentIds.join(',') } }
+    );
+  } catch (error) {
+    console.error('Error getting flags from DynamoDB:', error);
+    throw error;
+  }
+};
+
+/**
+ * Flag a report as abusive; enough flags hide it until a moderator reviews it
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.flaggerId - The flagging user's ID
+ * @param {string} params.reason - spam, offensive, private_property or personal_info
+ * @returns {Promise<Object>} - { reason, hidden }; reason is the user's first one if they flagged it before
+ */
+export const flagReport = async ({ reportId, timestamp, flaggerId, reason }) => {
+  try {
+    const result = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/flags/${encodeURIComponent(flaggerId)}`,
+      { method: 'PUT', body: { timestamp, reason } }
+    );
+    console.log(`Report ${reportId} flagged as ${result.reason}${result.hidden ? ', now hidden' : ''}`);
+    return result;
+  } catch (error) {
+    console.error('Error flagging report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Flag a comment as abusive; enough flags hide it until a moderator reviews it
+ * @param {Object} params
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.commentId - The comment ID
+ * @param {string} params.flaggerId - The flagging user's ID
+ * @param {string} params.reason - spam, offensive, private_property or personal_info
+ * @returns {Promise<Object>} - { reason, hidden }; reason is the user's first one if they flagged it before
+ */
+export const flagComment = async ({ reportId, timestamp, commentId, flaggerId, reason }) => {
+  try {
+    const result = await apiRequest(
+      `/reports/${encodeURIComponent(reportId)}/comments/${encodeURIComponent(commentId)}/flags/${encodeURIComponent(flaggerId)}`,
+      { method: 'PUT', body: { timestamp, reason } }
+    );
+    console.log(`Comment ${commentId} flagged as ${result.reason}${result.hidden ? ', now hidden' : ''}`);
+    return result;
+  } catch (error) {
+    console.error('Error flagging comment:', error);
     throw error;
   }
 };
@@ -0,0 +1,46 @@
+import { readJSON, writeJSON } from './deviceStorage';
+
+const TOKENS_KEY = 'edit-tokens';
+
+// A report's edit token is made on this device when the report is queued (see submissionQueue.js)
+// and the backend returns it once, when the report is created; it is the only proof this device
+// wrote the report, so it is kept here by report ID
+
+/**
+ * Keep the edit token of a report this device just submitted
+ * @param {string} reportId - The report ID
+ * @param {string} token - Edit token returned by the backend
+ * @returns {Promise<void>}
+ */
+export const saveEditToken = async (reportId, token) => {
+  try {
+    const tokens = await readJSON(TOKENS_KEY, {});
+    await writeJSON(TOKENS_KEY, { ...tokens, [reportId]: token });
+  } catch (error) {
+    console.error('Error saving edit token:', error);
+  }
+};
+
+/**
+ * Get the edit token of one of this device's reports
+ * @param {string} reportId - The report ID
+ * @returns {Promise<string|null>} - The token, or null for reports submitted elsewhere
+ */
+export const getEditToken = async (reportId) => {
+  const tokens = await readJSON(TOKENS_KEY, {});
+  return tokens?.[reportId] || null;
+};
+
+/**
+ * Forget the edit token of a deleted report
+ * @param {string} reportId - The report ID
+ * @returns {Promise<void>}
+ */
+export const forgetEditToken = async (reportId) => {
+  try {
+    const { [reportId]: _removed, ...tokens } = await readJSON(TOKENS_KEY, {});
+    await writeJSON(TOKENS_KEY, tokens);
+  } catch (error) {
+    console.error('Error forgetting edit token:', error);
+  }
+};
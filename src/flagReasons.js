@@ -0,0 +1,19 @@
+// Why someone can report a hazard or comment as abusive (functions/src/flags.js), with how the app shows them
+
+export const FLAG_REASON_LABELS = {
+  spam: 'Spam',
+  offensive: 'Offensive',
+  private_property: 'Private property',
+  personal_info: 'Personal information',
+};
+
+export const FLAG_REASONS = Object.keys(FLAG_REASON_LABELS);
+
+/**
+ * Summarize how many flags something had for each reason
+ * @param {Object} flags - Flag count per reason
+ * @returns {string} - e.g. "Spam ×2, Offensive ×1", empty if there are none
+ */
+export const describeFlags = (flags) => Object.entries(flags || {})
+  .map(([reason, count]) => `${FLAG_REASON_LABELS[reason] || reason} ×${count}`)
+  .join(', ');
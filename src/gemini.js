@@ -1,11 +1,8 @@
 // gemini.js
 import * as FileSystem from "expo-file-system";
+import { apiRequest } from "./api";
+import { MAX_ANALYZED_IMAGES, parseHazardAnalysis, toAnalysisError } from "./hazardAnalysis";
 // OPTIONAL (only needed for iOS "ph://" assets)
-import Constants from "expo-constants";
-
-const GEMINI_API_KEY = Constants?.expoConfig?.extra?.GEMINI_API_KEY;
-const GEMINI_URL =
-  "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent";
 
 async function normalizeLocalUri(uri) {
   // iOS gallery can return "ph://..." which FileSystem can't read directly.
@@ -43,14 +40,7 @@ async function toBase64(image) {
   return image;
 }
 
-export async function analyzeHazardDirect({
-  title = null,
-  description,
-  image,
-  imageMime = "image/jpeg",
-}) {
-  if (!GEMINI_API_KEY) throw new Error("Missing GEMINI_API_KEY");
-  if (!description) throw new Error("description is required");
+async function toImageData({ image, imageMime = "image/jpeg" }) {
   if (!image) throw new Error("image is required");
 
   let imageBase64 = await toBase64(image);
@@ -58,56 +48,48 @@ export async function analyzeHazardDirect({
   if (imageBase64.startsWith("data:") && commaIdx > -1) {
     imageBase64 = imageBase64.slice(commaIdx + 1);
   }
+  return { data: imageBase64, mimeType: imageMime };
+}
 
-  const prompt = [
-    "You are classifying a single street-level photo for a civic hazard app.",
-    "User provided description (verbatim):",
-    JSON.stringify(description),
-    title ? `\nUser-supplied title (optional): ${JSON.stringify(title)}` : "",
-    "",
-    "Return STRICT JSON with keys:",
-    '- "title": short (<= 60 chars), human-friendly',
-    '- "improved_description": concise (<= 240 chars), merge photo + text',
-    '- "valid_hazard": boolean (true if clearly a public hazard/nuisance)',
-    '- "category": one of ["pothole","broken_sidewalk","streetlight_out","trash","signage_damage","construction_obstruction","flooding","exposed_utility","tree_blockage","other"]',
-    '- "reasons": array of brief strings explaining the decision',
-    "",
-    "Reject selfies, indoor/private scenes, or unrelated content.",
-  ].join("\n");
-
-  const payload = {
-    contents: [
-      {
-        role: "user",
-        parts: [
-          { text: prompt },
-          { inlineData: { mimeType: imageMime, data: imageBase64 } },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.2,
-      response_mime_type: "application/json",
-    },
-  };
-
-  const resp = await fetch(`${GEMINI_URL}?key=${encodeURIComponent(GEMINI_API_KEY)}`, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify(payload),
-  });
-
-  if (!resp.ok) {
-    const text = await resp.text();
-    throw new Error(`Gemini error ${resp.status}: ${text.slice(0, 400)}`);
+/**
+ * Ask the backend whether a report shows a public hazard.
+ * All photos are judged together, so one misleading photo doesn't reject the report.
+ * @param {Object} params
+ * @param {string|null} params.title - Optional user title
+ * @param {string} params.description - User description
+ * @param {Object[]} params.images - [{ image, imageMime }] where image is a data URL, base64 or file URI;
+ * at most MAX_ANALYZED_IMAGES
+ * @returns {Promise<import('./hazardAnalysis').HazardAnalysis>} - The checked analysis; valid_hazard is false
+ * when the report was rejected. Throws AnalysisUnavailableError when the check couldn't run right now and
+ * trying again may work, or AnalysisFailedError when it won't.
+ */
+export async function analyzeHazardDirect({
+  title = null,
+  description,
+  images = [],
+}) {
+  if (!description) throw new Error("description is required");
+  if (images.length === 0) throw new Error("at least one image is required");
+  if (images.length > MAX_ANALYZED_IMAGES) {
+    throw new Error(`at most ${MAX_ANALYZED_IMAGES} images can be analyzed`);
   }
 
-  const data = await resp.json();
-  const raw = data?.candidates?.[0]?.content?.parts?.[0]?.text || "{}";
-
-  let parsed;
-  try { parsed = JSON.parse(raw); } catch { parsed = { raw }; }
-  if (title && !parsed.title) parsed.title = title;
-
-  return parsed;
+  const imageData = await Promise.all(images.map(toImageData));
+
+  // The backend holds the Gemini key, runs the classification prompt and
+  // retries when Gemini is busy
+  let data;
+  try {
+    data = await apiRequest("/analyze", {
+      method: "POST",
+      body: { title, description, images: imageData },
+    });
+  } catch (error) {
+    throw toAnalysisError(error);
+  }
+  return parseHazardAnalysis(data, images.length);
 }
+
+// Classifies through the backend, which asks Gemini (or its own configured provider)
+/** @type {import('./hazardAnalysis').HazardClassifier} */
+export const geminiClassifier = { classify: analyzeHazardDirect };
@@ -0,0 +1,115 @@
+// Checking a report's photos and text before it is posted (see functions/src/gemini.js)
+
+import { CATEGORIES, MAX_ANALYZED_IMAGES } from '../functions/src/analysis';
+
+// Photos of one report checked together, as on the backend (functions/src/analysis.js); any more are
+// uploaded unchecked
+export { MAX_ANALYZED_IMAGES };
+
+export const HAZARD_CATEGORIES = CATEGORIES;
+
+export type HazardCategory = typeof HAZARD_CATEGORIES[number];
+
+export interface HazardAnalysis {
+  title: string;
+  improved_description: string;
+  // false means the report was rejected as not a public hazard
+  valid_hazard: boolean;
+  category: HazardCategory;
+  reasons: string[];
+  // Indexes of the analyzed photos that show the hazard
+  relevant_images: number[];
+}
+
+export interface ClassificationInput {
+  title: string | null;
+  description: string;
+  // image is a data URL, base64 or file URI; at most MAX_ANALYZED_IMAGES
+  images: { image: string, imageMime: string }[];
+}
+
+// Decides whether a report shows a public hazard; src/classifier.js picks the implementation.
+// Rejection is a result (valid_hazard false), failures throw HazardAnalysisError.
+export interface HazardClassifier {
+  classify(input: ClassificationInput): Promise<HazardAnalysis>;
+}
+
+export class HazardAnalysisError extends Error {
+  // Whether trying again later can succeed
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'HazardAnalysisError';
+    this.retryable = retryable;
+  }
+}
+
+// The check couldn't run right now (offline, rate limited or the service is down); try again
+export class AnalysisUnavailableError extends HazardAnalysisError {
+  constructor(message: string) {
+    super(message, true);
+    this.name = 'AnalysisUnavailableError';
+  }
+}
+
+// The check ran but failed in a way trying again won't fix
+export class AnalysisFailedError extends HazardAnalysisError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'AnalysisFailedError';
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check an analysis from the backend against the HazardAnalysis shape
+ * @param {unknown} data - Response body
+ * @param {number} imageCount - Number of photos sent for analysis
+ * @returns {HazardAnalysis} - The checked analysis
+ */
+export const parseHazardAnalysis = (data: unknown, imageCount: number): HazardAnalysis => {
+  const value = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  if (typeof value.valid_hazard !== 'boolean' ||
+      !HAZARD_CATEGORIES.includes(value.category as HazardCategory) ||
+      typeof value.title !== 'string' ||
+      typeof value.improved_description !== 'string' ||
+      !isStringArray(value.reasons)) {
+    throw new AnalysisFailedError('The hazard check returned an unexpected result');
+  }
+
+  const relevantImages = Array.isArray(value.relevant_images)
+    ? value.relevant_images.filter((index): index is number =>
+      Number.isInteger(index) && index >= 0 && index < imageCount)
+    : [];
+
+  return {
+    title: value.title,
+    improved_description: value.improved_description,
+    valid_hazard: value.valid_hazard,
+    category: value.category as HazardCategory,
+    reasons: value.reasons,
+    relevant_images: relevantImages.length
+      ? relevantImages
+      : Array.from({ length: imageCount }, (_, index) => index),
+  };
+};
+
+// Errors from apiRequest carry the response's HTTP status and the backend's error code
+type ApiError = Error & { status?: number, code?: string | null };
+
+/**
+ * Turn a failed analysis request into an error the UI can act on
+ * @param {unknown} error - Error from apiRequest, or whatever else was thrown
+ * @returns {HazardAnalysisError} - AnalysisUnavailableError when trying again may work
+ */
+export const toAnalysisError = (error: unknown): HazardAnalysisError => {
+  if (!(error instanceof Error)) return new AnalysisUnavailableError('Hazard check failed');
+  const { status, code } = error as ApiError;
+  const retryable = !status || status === 408 || status === 429 ||
+    (status >= 500 && code !== 'analysis_failed');
+  const message = error.message || 'Hazard check failed';
+  return retryable ? new AnalysisUnavailableError(message) : new AnalysisFailedError(message);
+};
@@ -0,0 +1,80 @@
+import { readJSON, writeJSON } from './deviceStorage';
+import { isPublicStatus } from './hazardStatus';
+
+const CACHE_KEY = 'hazard-cache';
+
+// Hazards not confirmed by the server for this long are shown as possibly out of date
+export const STALE_AFTER_MS = 30 * 60 * 1000;
+
+// Most recently fetched hazards kept on the device
+const MAX_CACHED_HAZARDS = 500;
+
+/**
+ * Load the hazards saved on the device by the last session
+ * @returns {Promise<Object>} - { hazards, updatedAt } where updatedAt is the last successful fetch (ISO string or null)
+ */
+export const loadCachedHazards = async () => {
+  const cache = await readJSON(CACHE_KEY, null);
+  return {
+    hazards: Array.isArray(cache?.hazards) ? cache.hazards : [],
+    updatedAt: cache?.updatedAt || null,
+  };
+};
+
+/**
+ * Save hazards on the device, keeping the most recently fetched ones
+ * @param {Object[]} hazards - Hazards with fetchedAt set
+ * @param {string} updatedAt - Time of the last successful fetch (ISO string)
+ * @returns {Promise<void>}
+ */
+export const saveCachedHazards = async (hazards, updatedAt) => {
+  try {
+    const kept = [...hazards]
+      .sort((a, b) => (b.fetchedAt || '').localeCompare(a.fetchedAt || ''))
+      .slice(0, MAX_CACHED_HAZARDS);
+    await writeJSON(CACHE_KEY, { hazards: kept, updatedAt });
+  } catch (error) {
+    console.error('Error saving hazard cache:', error);
+  }
+};
+
+/**
+ * Merge fetched reports into the hazard list, keeping ones loaded for other regions.
+ * Reports that can't be shown on the map, like the user's own report awaiting review, are left out.
+ * @param {Object[]} current - Hazards already shown
+ * @param {Object[]} incoming - Reports just returned by the server
+ * @param {string} fetchedAt - When the reports were fetched (ISO string)
+ * @returns {Object[]} - The merged hazard list
+ */
+export const mergeHazards = (current, incoming, fetchedAt = new Date().toISOString()) => {
+  const byId = new Map(current.map(hazard => [hazard.id, hazard]));
+  incoming.forEach(hazard => {
+    if (isPublicStatus(hazard.status)) {
+      byId.set(hazard.id, { ...byId.get(hazard.id), ...hazard, fetchedAt });
+    } else {
+      byId.delete(hazard.id);
+    }
+  });
+  return Array.from(byId.values());
+};
+
+/**
+ * Mark hazards as current after a sync found no newer changes to them
+ * @param {Object[]} hazards - Hazards shown on the map
+ * @param {string} coveredSince - Start of the unbroken run of syncs; hazards fetched earlier may have missed changes
+ * @param {string} fetchedAt - When the sync ran (ISO string)
+ * @returns {Object[]} - Hazards with fetchedAt moved forward where the syncs covered them
+ */
+export const confirmHazards = (hazards, coveredSince, fetchedAt) =>
+  hazards.map(hazard =>
+    (hazard.fetchedAt && hazard.fetchedAt >= coveredSince ? { ...hazard, fetchedAt } : hazard)
+  );
+
+/**
+ * Whether a hazard's data may be out of date
+ * @param {Object} hazard - Hazard with fetchedAt
+ * @param {number} now - Current time in milliseconds
+ * @returns {boolean}
+ */
+export const isHazardStale = (hazard, now = Date.now()) =>
+  !hazard.fetchedAt || now - new Date(hazard.fetchedAt).getTime() > STALE_AFTER_MS;
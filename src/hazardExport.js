@@ -0,0 +1,47 @@
+import { Platform, Share } from 'react-native';
+import { cacheDirectory, writeAsStringAsync } from 'expo-file-system/legacy';
+import { canExportArea } from '../functions/src/export';
+
+// Sharing a hazard export from the app. The file itself is built the backend's way
+// (functions/src/export.js), also by the local backends.
+
+export const EXPORT_FORMATS = {
+  geojson: { label: 'GeoJSON', mimeType: 'application/geo+json', extension: 'geojson' },
+  csv: { label: 'CSV', mimeType: 'text/csv', extension: 'csv' },
+};
+
+/**
+ * The file name of an export made today
+ * @param {string} format - geojson or csv
+ * @returns {string}
+ */
+export const exportFilename = (format) =>
+  `flagit-hazards-${new Date().toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+
+/**
+ * Whether a map area is small enough to export, as the backend checks it
+ * @param {Object|null} region - { latitude, longitude, latitudeDelta, longitudeDelta }
+ * @returns {boolean}
+ */
+export const canExportRegion = (region) => !!region && canExportArea(region);
+
+/**
+ * Offer an export to other apps through the share sheet. iOS shares the file itself; Android's share sheet
+ * only takes text, so there the file's content is shared.
+ * @param {Object} file - { filename, mimeType, content }
+ * @returns {Promise<void>}
+ */
+export const shareExport = async ({ filename, content }) => {
+  try {
+    if (Platform.OS === 'ios') {
+      const uri = `${cacheDirectory}${filename}`;
+      await writeAsStringAsync(uri, content);
+      await Share.share({ url: uri, title: filename });
+    } else {
+      await Share.share({ title: filename, message: content });
+    }
+  } catch (error) {
+    console.error('Error sharing export:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { TRANSITIONS, AUTOMATIC_STATUSES, isPublicReport } from '../functions/src/status';
+
+// Hazard statuses as the backend stores them (functions/src/status.js), with how the app shows them
+
+/**
+ * @typedef {Object} StatusDisplay
+ * @property {string} label
+ * @property {string} color
+ * @property {keyof typeof import('@expo/vector-icons').Ionicons.glyphMap} icon
+ */
+
+/** @type {Record<import('./repository/types').HazardStatus, StatusDisplay>} */
+export const STATUS_DISPLAY = {
+  active: { label: 'Active', color: '#E74C3C', icon: 'alert-circle' },
+  acknowledged: { label: 'Acknowledged', color: '#F39C12', icon: 'eye' },
+  in_progress: { label: 'In Progress', color: '#3498DB', icon: 'construct' },
+  probably_resolved: { label: 'Probably Resolved', color: '#1ABC9C', icon: 'help-circle' },
+  resolved: { label: 'Resolved', color: '#27AE60', icon: 'checkmark-circle' },
+  false_report: { label: 'False Report', color: '#95A5A6', icon: 'close-circle' },
+  pending_review: { label: 'Awaiting Review', color: '#8E44AD', icon: 'hourglass' },
+  flagged: { label: 'Hidden for Review', color: '#8E44AD', icon: 'flag' },
+  rejected: { label: 'Rejected', color: '#7F8C8D', icon: 'ban' },
+  merged: { label: 'Merged', color: '#7F8C8D', icon: 'git-merge' },
+  retracted: { label: 'Retracted', color: '#7F8C8D', icon: 'arrow-undo' },
+  deleted: { label: 'Deleted', color: '#7F8C8D', icon: 'trash' },
+};
+
+// Status changes offered from each status: the backend's allowed changes (TRANSITIONS) between
+// statuses on the map. probably_resolved is only set by the backend from "Is this still there?" votes,
+// moderators move reports into and out of the hidden statuses from the moderation screen, and the
+// report's author retracts it from the report's own actions.
+export const NEXT_STATUSES = Object.fromEntries(Object.keys(STATUS_DISPLAY).map(from => [
+  from,
+  isPublicReport({ status: from })
+    ? (TRANSITIONS[from] || []).filter(to => isPublicReport({ status: to }) && !AUTOMATIC_STATUSES.includes(to))
+    : [],
+]));
+
+/**
+ * Whether a hazard is closed, so the map greys it out
+ * @param {string} status - The hazard's status
+ * @returns {boolean}
+ */
+export const isClosedStatus = (status) => status === 'resolved' || status === 'false_report';
+
+/**
+ * Whether a hazard can be shown on the map: not awaiting review, hidden by flags, rejected, merged,
+ * retracted or deleted (isPublicReport in functions/src/status.js)
+ * @param {string} status - The hazard's status
+ * @returns {boolean}
+ */
+export const isPublicStatus = (status) => isPublicReport({ status });
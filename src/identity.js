@@ -0,0 +1,50 @@
+import { readJSON, writeJSON } from './deviceStorage';
+import { getDeviceId } from './deviceId';
+
+const PROFILE_KEY = 'identity-profile';
+
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+/**
+ * Load this device's anonymous identity. The reporter ID is the persistent
+ * device ID; the display name is optional and only set by the user.
+ * @returns {Promise<Object>} - { reporterId, displayName }
+ */
+export const loadIdentity = async () => {
+  const [reporterId, profile] = await Promise.all([
+    getDeviceId(),
+    readJSON(PROFILE_KEY, {}),
+  ]);
+  return { reporterId, displayName: profile?.displayName || null };
+};
+
+/**
+ * Save the name shown on this device's reports and comments
+ * @param {string|null} name - Display name; blank clears it
+ * @returns {Promise<string|null>} - The saved display name
+ */
+export const saveDisplayName = async (name) => {
+  const displayName = String(name || '').trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || null;
+  await writeJSON(PROFILE_KEY, { displayName, updatedAt: new Date().toISOString() });
+  return displayName;
+};
+
+const MODERATOR_KEY = 'moderator-session';
+
+/**
+ * Load the moderator key this device signed in with
+ * @returns {Promise<Object|null>} - { key, moderator } with the moderator's name, or null
+ */
+export const loadModeratorSession = async () => {
+  const session = await readJSON(MODERATOR_KEY, null);
+  return session?.key ? { key: session.key, moderator: session.moderator || null } : null;
+};
+
+/**
+ * Remember a moderator key that the backend accepted, or forget it
+ * @param {Object|null} session - { key, moderator }, or null to sign out
+ * @returns {Promise<void>}
+ */
+export const saveModeratorSession = async (session) => {
+  await writeJSON(MODERATOR_KEY, session ? { key: session.key, moderator: session.moderator } : null);
+};
@@ -0,0 +1,12 @@
+import 'react-native-get-random-values';
+
+/**
+ * Generate a random hex identifier
+ * @param {number} byteLength - Number of random bytes (the ID is twice as many hex characters)
+ * @returns {string} - The identifier
+ */
+export const randomId = (byteLength = 16) => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,231 @@
+import { apiRequest } from './api';
+
+// Moderator actions on the backend (functions/src/moderation.js). Every call needs a moderator key,
+// sent as a bearer token; the backend records who did what in its audit log.
+
+const moderatorHeaders = (moderatorKey) => ({ authorization: `Bearer ${moderatorKey}` });
+
+const reportPath = (reportId) => `/moderation/reports/${encodeURIComponent(reportId)}`;
+
+/**
+ * Check a moderator key
+ * @param {string} moderatorKey - The key to check
+ * @returns {Promise<Object>} - { moderator } with the moderator's name; rejects with status 401 or 403
+ * if the key isn't a moderator key
+ */
+export const getModeratorSession = async (moderatorKey) => {
+  try {
+    return await apiRequest('/moderation/session', { headers: moderatorHeaders(moderatorKey) });
+  } catch (error) {
+    console.error('Error checking moderator key:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the reports and comments waiting for a moderator
+ * @param {string} moderatorKey - The moderator's key
+ * @returns {Promise<Object>} - { reports: [{ report, reasons }], comments: [{ reportId, reportTimestamp,
+ * reportTitle, comment, reasons }] }
+ */
+export const getModerationQueue = async (moderatorKey) => {
+  try {
+    const queue = await apiRequest('/moderation/queue', { headers: moderatorHeaders(moderatorKey) });
+    console.log(`Moderation queue: ${queue.reports.length} reports, ${queue.comments.length} comments`);
+    return queue;
+  } catch (error) {
+    console.error('Error getting moderation queue:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the moderation audit log, newest first
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - Only entries for this report; omit for all
+ * @returns {Promise<Array>} - Audit log entries
+ */
+export const getAuditLog = async ({ moderatorKey, reportId }) => {
+  try {
+    const { entries } = await apiRequest('/moderation/audit', {
+      query: { reportId },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    return entries;
+  } catch (error) {
+    console.error('Error getting moderation audit log:', error);
+    throw error;
+  }
+};
+
+/**
+ * Approve a report: one awaiting review (or rejected) goes on the map
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.note - Optional note for the history and audit log
+ * @returns {Promise<Object>} - The updated report
+ */
+export const approveReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+  try {
+    const report = await apiRequest(`${reportPath(reportId)}/approve`, {
+      method: 'POST',
+      body: { timestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Report ${reportId} approved`);
+    return report;
+  } catch (error) {
+    console.error('Error approving report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reject a report, taking it off the map
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.note - Optional note for the history and audit log
+ * @returns {Promise<Object>} - The updated report
+ */
+export const rejectReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+  try {
+    const report = await apiRequest(`${reportPath(reportId)}/reject`, {
+      method: 'POST',
+      body: { timestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Report ${reportId} rejected`);
+    return report;
+  } catch (error) {
+    console.error('Error rejecting report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Merge a duplicate into the report it duplicates; its photos move across and it leaves the map
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The duplicate's ID
+ * @param {string} params.timestamp - The duplicate's timestamp (sort key)
+ * @param {string} params.intoId - ID of the report to keep
+ * @param {string} params.intoTimestamp - Timestamp of the report to keep
+ * @param {string} params.note - Optional note for the history and audit log
+ * @returns {Promise<Object>} - { report, into } with both reports updated
+ */
+export const mergeReport = async ({ moderatorKey, reportId, timestamp, intoId, intoTimestamp, note }) => {
+  try {
+    const result = await apiRequest(`${reportPath(reportId)}/merge`, {
+      method: 'POST',
+      body: { timestamp, intoId, intoTimestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Report ${reportId} merged into ${intoId}`);
+    return result;
+  } catch (error) {
+    console.error('Error merging report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Change a report's category
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.category - The new category
+ * @param {string} params.note - Optional note for the audit log
+ * @returns {Promise<Object>} - The updated report
+ */
+export const editReportCategory = async ({ moderatorKey, reportId, timestamp, category, note }) => {
+  try {
+    const report = await apiRequest(`${reportPath(reportId)}/category`, {
+      method: 'PUT',
+      body: { timestamp, category, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Report ${reportId} is now in ${category}`);
+    return report;
+  } catch (error) {
+    console.error('Error changing report category:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a report
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.note - Optional note for the audit log
+ * @returns {Promise<void>}
+ */
+export const deleteReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+  try {
+    await apiRequest(reportPath(reportId), {
+      method: 'DELETE',
+      query: { timestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Report ${reportId} deleted`);
+  } catch (error) {
+    console.error('Error deleting report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a comment
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.commentId - The comment ID
+ * @param {string} params.note - Optional note for the audit log
+ * @returns {Promise<void>}
+ */
+export const deleteComment = async ({ moderatorKey, reportId, timestamp, commentId, note }) => {
+  try {
+    await apiRequest(`${reportPath(reportId)}/comments/${encodeURIComponent(commentId)}`, {
+      method: 'DELETE',
+      query: { timestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Comment ${commentId} deleted`);
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Put back a comment that flags hid
+ * @param {Object} params
+ * @param {string} params.moderatorKey - The moderator's key
+ * @param {string} params.reportId - The report ID
+ * @param {string} params.timestamp - The report timestamp (sort key)
+ * @param {string} params.commentId - The comment ID
+ * @param {string} params.note - Optional note for the audit log
+ * @returns {Promise<Object>} - The restored comment
+ */
+export const restoreComment = async ({ moderatorKey, reportId, timestamp, commentId, note }) => {
+  try {
+    const comment = await apiRequest(`${reportPath(reportId)}/comments/${encodeURIComponent(commentId)}/restore`, {
+      method: 'POST',
+      body: { timestamp, note },
+      headers: moderatorHeaders(moderatorKey),
+    });
+    console.log(`Comment ${commentId} restored`);
+    return comment;
+  } catch (error) {
+    console.error('Error restoring comment:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,115 @@
+import { API_BASE_URL } from './api';
+import { getDeviceId } from './deviceId';
+
+// Reconnect delays after an error double from 1 second up to 30 seconds;
+// a stream the server closed normally is reopened after the first delay
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Parse one server-sent event block into { event, data, id }
+const parseEvent = (block) => {
+  const event = { event: 'message', data: '', id: null };
+  block.split('\n').forEach(line => {
+    if (!line || line.startsWith(':')) return;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event.event = value;
+    if (field === 'data') event.data += (event.data ? '\n' : '') + value;
+    if (field === 'id') event.id = value;
+  });
+  return event;
+};
+
+/**
+ * Listen to the backend's live stream of created and changed reports.
+ * Uses server-sent events over XMLHttpRequest (React Native's fetch can't
+ * stream) and reconnects by itself until closed.
+ * @param {Object} handlers
+ * @param {Function} handlers.onReport - Called with each created or changed report
+ * @param {Function} handlers.onOpen - Called whenever a connection opens; events sent while
+ * disconnected are not replayed, so use this to catch up
+ * @returns {Function} - Close function
+ */
+export const subscribeToHazardEvents = ({ onReport, onOpen }) => {
+  let xhr = null;
+  let reconnectTimer = null;
+  let reconnectDelay = BASE_RECONNECT_DELAY_MS;
+  let closed = false;
+
+  const scheduleReconnect = (failed) => {
+    if (closed) return;
+    const delay = failed ? reconnectDelay : BASE_RECONNECT_DELAY_MS;
+    if (failed) {
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    if (!API_BASE_URL) {
+      console.error('Missing FLAGIT_API_URL, live updates disabled');
+      return;
+    }
+    // Marks this device's own reports in the events, as with API requests
+    const viewerId = await getDeviceId();
+    if (closed) return;
+
+    let offset = 0;
+    let buffer = '';
+    let opened = false;
+    const request = new XMLHttpRequest();
+    xhr = request;
+    request.open('GET', `${API_BASE_URL}/events`);
+    request.setRequestHeader('Accept', 'text/event-stream');
+    request.setRequestHeader('Cache-Control', 'no-cache');
+    request.setRequestHeader('X-Viewer-Id', viewerId);
+
+    const readChunk = () => {
+      buffer += request.responseText.slice(offset);
+      offset = request.responseText.length;
+
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop();
+      blocks.forEach(block => {
+        const { event, data } = parseEvent(block);
+        if (event !== 'report' || !data) return;
+        try {
+          onReport(JSON.parse(data));
+        } catch (error) {
+          console.error('Error handling live report event:', error);
+        }
+      });
+    };
+
+    request.onreadystatechange = () => {
+      if (request.readyState >= 2 && !opened && request.status === 200) {
+        opened = true;
+        reconnectDelay = BASE_RECONNECT_DELAY_MS;
+        console.log('Live updates connected');
+        if (onOpen) onOpen();
+      }
+      if (request.readyState >= 3 && request.status === 200) {
+        readChunk();
+      }
+      if (request.readyState === 4) {
+        if (xhr === request) xhr = null;
+        scheduleReconnect(!opened);
+      }
+    };
+    request.onprogress = readChunk;
+
+    request.send();
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    if (xhr) {
+      xhr.abort();
+      xhr = null;
+    }
+  };
+};
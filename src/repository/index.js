@@ -0,0 +1,56 @@
+import Constants from 'expo-constants';
+import { readJSON, writeJSON } from '../deviceStorage';
+import { remoteRepository, remoteModeration, remoteImageStore } from './remoteRepository';
+import { createLocalRepository } from './localRepository';
+import { createMemoryImageStore, createDeviceImageStore } from './localImageStores';
+
+// Where hazards and images are kept, set with FLAGIT_DATA_BACKEND (see app.config.js):
+// - remote: the FlagIt backend (DynamoDB and S3), the default
+// - memory: in memory on this device, cleared on restart
+// - device: in files on this device, kept across restarts
+// memory and device need no backend, for demos and working on the app alone.
+const DATA_BACKENDS = ['remote', 'memory', 'device'];
+
+// What the backend's in-memory store keeps (snapshot() in functions/src/store/memoryStore.js); data saved
+// under the old 'local-repository' key was in another format and is left behind
+const LOCAL_REPOSITORY_KEY = 'local-store';
+
+const resolveDataBackend = () => {
+  const requested = Constants.expoConfig?.extra?.dataBackend || process.env.FLAGIT_DATA_BACKEND || 'remote';
+  if (DATA_BACKENDS.includes(requested)) return requested;
+  console.error(`Unknown FLAGIT_DATA_BACKEND "${requested}", using remote`);
+  return 'remote';
+};
+
+/** @type {import('./types').DataBackend} */
+export const dataBackend = resolveDataBackend();
+
+// True when nothing is sent to the backend
+export const isLocalBackend = dataBackend !== 'remote';
+
+// The local repository also does moderation, with its own audit log
+const createBackend = () => {
+  if (dataBackend === 'memory') {
+    const local = createLocalRepository();
+    return { repository: local, moderation: local, imageStore: createMemoryImageStore() };
+  }
+  if (dataBackend === 'device') {
+    const local = createLocalRepository({
+      load: () => readJSON(LOCAL_REPOSITORY_KEY, null),
+      save: (data) => writeJSON(LOCAL_REPOSITORY_KEY, data),
+    });
+    return { repository: local, moderation: local, imageStore: createDeviceImageStore() };
+  }
+  return { repository: remoteRepository, moderation: remoteModeration, imageStore: remoteImageStore };
+};
+
+const backend = createBackend();
+
+/** @type {import('./types').HazardRepository} */
+export const repository = backend.repository;
+
+/** @type {import('./types').ModerationRepository} */
+export const moderation = backend.moderation;
+
+/** @type {import('./types').ImageStore} */
+export const imageStore = backend.imageStore;
@@ -0,0 +1,61 @@
+import {
+  documentDirectory,
+  copyAsync,
+  makeDirectoryAsync,
+  readAsStringAsync,
+} from 'expo-file-system/legacy';
+import { randomId } from '../ids';
+
+const LOCAL_IMAGES_DIR = `${documentDirectory}local-images/`;
+
+const EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/avif': 'avif',
+};
+
+const toLocalImage = (image) => (typeof image === 'string' ? { uri: image } : image);
+
+// Build an image store from its single-image upload
+const withUploadImages = (uploadImage) => ({
+  uploadImage,
+  uploadImages: async (images, reportId, onProgress) => {
+    const progress = images.map(() => 0);
+    return Promise.all(images.map((image, index) =>
+      uploadImage(image, reportId, (fraction) => {
+        progress[index] = fraction;
+        if (onProgress) onProgress([...progress]);
+      })
+    ));
+  },
+});
+
+/**
+ * Create an image store that keeps images in memory as data URLs; they are lost when the app restarts
+ * @returns {import('./types').ImageStore} - The image store
+ */
+export const createMemoryImageStore = () => withUploadImages(async (image, reportId, onProgress) => {
+  const { uri, mimeType = 'image/jpeg' } = toLocalImage(image);
+  // The picked file may be a temporary copy, so the data is read now
+  const base64 = await readAsStringAsync(uri, { encoding: 'base64' });
+  if (onProgress) onProgress(1);
+  return `data:${mimeType};base64,${base64}`;
+});
+
+/**
+ * Create an image store that copies images into the app's document directory
+ * @returns {import('./types').ImageStore} - The image store
+ */
+export const createDeviceImageStore = () => withUploadImages(async (image, reportId, onProgress) => {
+  const { uri, mimeType = 'image/jpeg' } = toLocalImage(image);
+  const dir = `${LOCAL_IMAGES_DIR}${reportId}/`;
+  await makeDirectoryAsync(dir, { intermediates: true });
+
+  const stored = `${dir}${randomId(8)}.${EXTENSIONS[mimeType] || 'jpg'}`;
+  await copyAsync({ from: uri, to: stored });
+  if (onProgress) onProgress(1);
+  return stored;
+});
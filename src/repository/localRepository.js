@@ -0,0 +1,388 @@
+import 'react-native-get-random-values';
+import { EXPORT_FORMATS } from '../hazardExport';
+import { isPublicReport } from '../../functions/src/status';
+import { HttpError } from '../../functions/src/errors';
+import { toPublicReport, toPublicComment, publicChange } from '../../functions/src/reports';
+import { createMemoryStore } from '../../functions/src/store/memoryStore';
+import { createDuplicateFinder } from '../../functions/src/duplicates';
+import { createFlags } from '../../functions/src/flags';
+import { createModeration } from '../../functions/src/moderation';
+import { createAuthoring } from '../../functions/src/authoring';
+import { createAutoResolver } from '../../functions/src/autoResolve';
+import { parseExportQuery, checkExportArea, filterForExport, buildExport } from '../../functions/src/export';
+
+// The backend's own in-memory store and services (functions/src), so a local repository follows the same
+// limits and the same status, vote, duplicate, flagging, moderation and authoring rules. What the backend's
+// routes do around them (functions/src/app.js) is done here.
+
+// There is no one else to keep out on a local backend, so the moderator key is fixed,
+// as on the offline backend
+const LOCAL_MODERATOR_KEY = 'moderator';
+const LOCAL_MODERATOR_NAME = 'moderator';
+
+// Every report made with a reporter ID was submitted on this device, so there is no secret to prove it with:
+// such reports get this as their edit token and any token matches it. Seeded ones without a reporter ID
+// have none and can't be changed by their author.
+const LOCAL_EDIT_TOKEN = 'local';
+
+// Nothing here is shared with other devices, so edits aren't checked again; new reports on a local
+// backend are only checked by the app before they are saved
+const passScreening = async () => ({ valid: true, reasons: [] });
+
+// Everything in a local repository was made on this device, so reports and comments made with a reporter ID
+// are its own
+const localComment = (comment) => toPublicComment(comment, comment.authorId);
+
+const localReport = (report) => ({
+  ...toPublicReport(report, report.reporterId),
+  comments: (report.comments || []).map(localComment),
+});
+
+// What the backend's change feed and report lookups send: the report, or a stub for one that left the map
+const localChange = (report) => (isPublicReport(report) ? localReport(report) : publicChange(report, null));
+
+/**
+ * Create a repository that keeps hazards on this device, for running the app without the backend.
+ * It follows the backend's rules; nothing is shared with other devices. It also does moderation,
+ * with the moderator key "moderator".
+ * @param {Object} storage
+ * @param {Function} storage.load - Resolves to previously saved data, or null; omit to start empty
+ * @param {Function} storage.save - Called with the data after every change; omit to keep it in memory only
+ * @returns {import('./types').HazardRepository & import('./types').ModerationRepository} - The repository
+ */
+export const createLocalRepository = ({ load, save } = {}) => {
+  let loading = null;
+  const listeners = new Set();
+
+  // Probably resolved hazards that waited long enough are resolved when the repository loads,
+  // as the backend's scheduled sweep would
+  const ready = () => {
+    if (!loading) {
+      loading = (async () => {
+        const saved = load ? await load() : null;
+        const store = createMemoryStore(saved);
+        const services = {
+          store,
+          duplicates: createDuplicateFinder(store),
+          flags: createFlags(store),
+          moderation: createModeration(store),
+          authoring: createAuthoring(store, { matchesEditToken: () => true }),
+          autoResolver: createAutoResolver(store),
+        };
+        const { changed } = await services.autoResolver.sweep();
+        if (changed && save) await save(store.snapshot());
+        return services;
+      })();
+    }
+    return loading;
+  };
+
+  // Persist after a change and tell subscribers about the changed report, as the backend's change stream does
+  const commit = async (reportId, timestamp) => {
+    const { store } = await ready();
+    if (save) await save(store.snapshot());
+    const report = await store.getReport(reportId, timestamp);
+    if (report) {
+      const change = localChange(report);
+      listeners.forEach(listener => listener(change));
+    }
+    return report;
+  };
+
+  const saveReport = async (newReport) => {
+    const { store } = await ready();
+    const report = await store.saveReport(newReport, {
+      editTokenHash: newReport?.reporterId ? LOCAL_EDIT_TOKEN : null,
+    });
+    await commit(report.id, report.timestamp);
+    return localReport(report);
+  };
+
+  // Like the backend, lists leave out reports that aren't on the map
+  const getAllReports = async () => {
+    const { store } = await ready();
+    return (await store.getAllReports()).filter(isPublicReport).map(localReport);
+  };
+
+  const getReportsInRegion = async (region) => {
+    const { store } = await ready();
+    return (await store.getReportsInRegion(region)).filter(isPublicReport).map(localReport);
+  };
+
+  // Local writes are visible at once, so unlike the backend the cursor needs no overlap
+  const getReportChanges = async (since) => {
+    const cursor = new Date().toISOString();
+    if (!since) return { reports: [], cursor, reset: true };
+    const { store } = await ready();
+    const reports = await store.getReportsChangedSince(new Date(since));
+    return { reports: reports.map(localChange), cursor, reset: false };
+  };
+
+  // The filters are read as the backend reads its export query (GET /reports/export)
+  const exportReports = async ({ format, region, from, to, categories, statuses }) => {
+    const filters = parseExportQuery({
+      format,
+      from,
+      to,
+      categories: categories?.join(','),
+      statuses: statuses?.join(','),
+    });
+    const { store } = await ready();
+    const reports = await store.getReportsInRegion(checkExportArea(region));
+    const file = buildExport(filterForExport(reports, filters), filters.format);
+    return { filename: file.filename, mimeType: EXPORT_FORMATS[filters.format].mimeType, content: file.body };
+  };
+
+  const findDuplicateReports = async (params) => {
+    const { duplicates } = await ready();
+    return (await duplicates.findDuplicates(params)).map(localReport);
+  };
+
+  // The photos are added to the report and it gets the reporter's "still there" vote, which can reopen it
+  const confirmReport = async ({ reportId, timestamp, reporterId, images = [] }) => {
+    const { store, autoResolver } = await ready();
+    if (images.length) await store.addImages({ reportId, timestamp, images });
+    const { vote } = await store.castVote({ reportId, timestamp, voterId: reporterId, vote: 'up' });
+    await autoResolver.evaluate(reportId, timestamp);
+    const report = await commit(reportId, timestamp);
+    return { vote, report: report && localChange(report) };
+  };
+
+  const getReport = async (reportId, timestamp) => {
+    const { store } = await ready();
+    const report = await store.getReport(reportId, timestamp);
+    return report && localChange(report);
+  };
+
+  // Like the backend, a moderator's change is audited and anyone else's needs the report to be their own
+  const updateReportStatus = async ({ reportId, timestamp, status, note, moderatorKey }) => {
+    const { moderation, authoring } = await ready();
+    const change = { reportId, timestamp, status, note };
+    const report = moderatorKey
+      ? await moderation.setStatus({ ...change, moderator: requireModerator(moderatorKey) })
+      : await authoring.changeStatus({ ...change, editToken: LOCAL_EDIT_TOKEN });
+    await commit(reportId, timestamp);
+    return localReport(report);
+  };
+
+  // Photos are kept on this device, so there are none to check were uploaded for the report
+  const editReport = async ({ reportId, timestamp, title, description, category, images }) => {
+    const { authoring } = await ready();
+    const report = await authoring.editReport({
+      reportId,
+      timestamp,
+      editToken: LOCAL_EDIT_TOKEN,
+      title,
+      description,
+      category,
+      images,
+      validateImages: () => {},
+      screen: passScreening,
+    });
+    await commit(reportId, timestamp);
+    return localReport(report);
+  };
+
+  const retractReport = async ({ reportId, timestamp, note }) => {
+    const { authoring } = await ready();
+    const report = await authoring.retractReport({ reportId, timestamp, editToken: LOCAL_EDIT_TOKEN, note });
+    await commit(reportId, timestamp);
+    return localChange(report);
+  };
+
+  // Images are left alone; a local image store keeps them until the app's data is cleared
+  const deleteOwnReport = async ({ reportId, timestamp }) => {
+    const { authoring } = await ready();
+    await authoring.deleteReport({ reportId, timestamp, editToken: LOCAL_EDIT_TOKEN });
+    await commit(reportId, timestamp);
+  };
+
+  const getUserVote = async (reportId, voterId) => {
+    const { store } = await ready();
+    return store.getUserVote(reportId, voterId);
+  };
+
+  // Votes can resolve or reopen the report, as on the backend
+  const castVote = async ({ reportId, timestamp, voterId, vote }) => {
+    const { store, autoResolver } = await ready();
+    const result = await store.castVote({ reportId, timestamp, voterId, vote });
+    const report = await autoResolver.evaluate(reportId, timestamp);
+    await commit(reportId, timestamp);
+    return { ...result, status: report && report.status };
+  };
+
+  const addComment = async ({ reportId, timestamp, text, author, authorId }) => {
+    const { store } = await ready();
+    const comment = await store.addComment({ reportId, timestamp, text, author, authorId });
+    await commit(reportId, timestamp);
+    return localComment(comment);
+  };
+
+  const getComments = async (reportId, timestamp) => {
+    const { store } = await ready();
+    return (await store.getComments(reportId, timestamp)).map(localComment);
+  };
+
+  const getUserCommentVotes = async (reportId, commentIds, voterId) => {
+    const { store } = await ready();
+    return store.getUserCommentVotes(reportId, commentIds, voterId);
+  };
+
+  const castCommentVote = async ({ reportId, timestamp, commentId, voterId, vote }) => {
+    const { store } = await ready();
+    const result = await store.castCommentVote({ reportId, timestamp, commentId, voterId, vote });
+    await commit(reportId, timestamp);
+    return result;
+  };
+
+  const getUserFlags = async (reportId, commentIds, flaggerId) => {
+    const { flags } = await ready();
+    return flags.getUserFlags(reportId, commentIds, flaggerId);
+  };
+
+  // Enough flags take the report off the map until a moderator reviews it
+  const flagReport = async ({ reportId, timestamp, flaggerId, reason }) => {
+    const { flags } = await ready();
+    const result = await flags.flagReport({ reportId, timestamp, flaggerId, reason });
+    await commit(reportId, timestamp);
+    return result;
+  };
+
+  const flagComment = async ({ reportId, timestamp, commentId, flaggerId, reason }) => {
+    const { flags } = await ready();
+    const result = await flags.flagComment({ reportId, timestamp, commentId, flaggerId, reason });
+    await commit(reportId, timestamp);
+    return result;
+  };
+
+  const requireModerator = (moderatorKey) => {
+    if (!moderatorKey) throw new HttpError(401, 'A moderator key is required', 'moderator_required');
+    if (moderatorKey !== LOCAL_MODERATOR_KEY) {
+      throw new HttpError(403, 'That is not a moderator key', 'not_moderator');
+    }
+    return LOCAL_MODERATOR_NAME;
+  };
+
+  const getModeratorSession = async (moderatorKey) => ({ moderator: requireModerator(moderatorKey) });
+
+  const getModerationQueue = async (moderatorKey) => {
+    requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    return moderation.getQueue();
+  };
+
+  const getAuditLog = async ({ moderatorKey, reportId }) => {
+    requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    return moderation.getAuditLog({ reportId: reportId || null });
+  };
+
+  const approveReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    const report = await moderation.approve({ reportId, timestamp, moderator, note });
+    await commit(reportId, timestamp);
+    return report;
+  };
+
+  const rejectReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    const report = await moderation.reject({ reportId, timestamp, moderator, note });
+    await commit(reportId, timestamp);
+    return report;
+  };
+
+  const mergeReport = async ({ moderatorKey, reportId, timestamp, intoId, intoTimestamp, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    const result = await moderation.merge({ reportId, timestamp, intoId, intoTimestamp, moderator, note });
+    await commit(intoId, intoTimestamp);
+    await commit(reportId, timestamp);
+    return result;
+  };
+
+  const editReportCategory = async ({ moderatorKey, reportId, timestamp, category, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    const report = await moderation.editCategory({ reportId, timestamp, category, moderator, note });
+    await commit(reportId, timestamp);
+    return report;
+  };
+
+  const deleteReport = async ({ moderatorKey, reportId, timestamp, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    await moderation.deleteReport({ reportId, timestamp, moderator, note });
+    await commit(reportId, timestamp);
+  };
+
+  const deleteComment = async ({ moderatorKey, reportId, timestamp, commentId, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    await moderation.deleteComment({ reportId, timestamp, commentId, moderator, note });
+    await commit(reportId, timestamp);
+  };
+
+  const restoreComment = async ({ moderatorKey, reportId, timestamp, commentId, note }) => {
+    const moderator = requireModerator(moderatorKey);
+    const { moderation } = await ready();
+    const comment = await moderation.restoreComment({ reportId, timestamp, commentId, moderator, note });
+    await commit(reportId, timestamp);
+    return comment;
+  };
+
+  // Changes only come from this device, so there is never anything missed to catch up on;
+  // onOpen still fires once so callers behave as they do with the backend
+  const subscribeToChanges = ({ onReport, onOpen }) => {
+    const listener = (report) => {
+      try {
+        onReport(report);
+      } catch (error) {
+        console.error('Error handling local report change:', error);
+      }
+    };
+    listeners.add(listener);
+    const openTimer = onOpen ? setTimeout(onOpen, 0) : null;
+
+    return () => {
+      clearTimeout(openTimer);
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    saveReport,
+    getAllReports,
+    getReportsInRegion,
+    getReportChanges,
+    exportReports,
+    findDuplicateReports,
+    confirmReport,
+    getReport,
+    updateReportStatus,
+    editReport,
+    retractReport,
+    deleteOwnReport,
+    getUserVote,
+    castVote,
+    addComment,
+    getComments,
+    getUserCommentVotes,
+    castCommentVote,
+    getUserFlags,
+    flagReport,
+    flagComment,
+    subscribeToChanges,
+    getModeratorSession,
+    getModerationQueue,
+    getAuditLog,
+    approveReport,
+    rejectReport,
+    mergeReport,
+    editReportCategory,
+    deleteReport,
+    deleteComment,
+    restoreComment,
+  };
+};
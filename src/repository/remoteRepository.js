@@ -0,0 +1,85 @@
+import {
+  saveReport,
+  getAllReports,
+  getReportsInRegion,
+  getReportChanges,
+  exportReports,
+  findDuplicateReports,
+  confirmReport,
+  getReport,
+  updateReportStatus,
+  editReport,
+  retractReport,
+  deleteOwnReport,
+  getUserVote,
+  castVote,
+  addComment,
+  getComments,
+  getUserCommentVotes,
+  castCommentVote,
+  getUserFlags,
+  flagReport,
+  flagComment,
+} from '../dynamodb';
+import {
+  getModeratorSession,
+  getModerationQueue,
+  getAuditLog,
+  approveReport,
+  rejectReport,
+  mergeReport,
+  editReportCategory,
+  deleteReport,
+  deleteComment,
+  restoreComment,
+} from '../moderation';
+import { uploadImageToS3, uploadImagesToS3 } from '../s3Upload';
+import { subscribeToHazardEvents } from '../realtime';
+
+// The FlagIt backend (functions/): reports in DynamoDB, images in S3
+
+/** @type {import('./types').HazardRepository} */
+export const remoteRepository = {
+  saveReport,
+  getAllReports,
+  getReportsInRegion,
+  getReportChanges,
+  exportReports,
+  findDuplicateReports,
+  confirmReport,
+  getReport,
+  updateReportStatus,
+  editReport,
+  retractReport,
+  deleteOwnReport,
+  getUserVote,
+  castVote,
+  addComment,
+  getComments,
+  getUserCommentVotes,
+  castCommentVote,
+  getUserFlags,
+  flagReport,
+  flagComment,
+  subscribeToChanges: subscribeToHazardEvents,
+};
+
+/** @type {import('./types').ModerationRepository} */
+export const remoteModeration = {
+  getModeratorSession,
+  getModerationQueue,
+  getAuditLog,
+  approveReport,
+  rejectReport,
+  mergeReport,
+  editReportCategory,
+  deleteReport,
+  deleteComment,
+  restoreComment,
+};
+
+/** @type {import('./types').ImageStore} */
+export const remoteImageStore = {
+  uploadImage: uploadImageToS3,
+  uploadImages: uploadImagesToS3,
+};
@@ -0,0 +1,335 @@
+// Where the app keeps hazards and their images. App.js and the screens use
+// these interfaces only; src/repository/index.js picks the implementation.
+
+export type HazardStatus =
+  | 'active'
+  | 'acknowledged'
+  | 'in_progress'
+  | 'probably_resolved'
+  | 'resolved'
+  | 'false_report'
+  | 'pending_review'
+  // Hidden after enough people flagged it, until a moderator reviews it
+  | 'flagged'
+  | 'rejected'
+  | 'merged'
+  // Withdrawn by its author; it stays off the map
+  | 'retracted'
+  // A deleted report's stub, sent so apps take it off the map
+  | 'deleted';
+
+export type Vote = 'up' | 'down' | null;
+
+// Why someone reports a hazard or comment as abusive
+export type FlagReason = 'spam' | 'offensive' | 'private_property' | 'personal_info';
+
+// Who made a status change. Device IDs stay on the backend, so changes are told apart by role: the
+// report's author, a moderator, the community (anyone else, or votes and flags), the city it was sent
+// to, or the dataset an imported report came from.
+export type StatusChangeRole = 'author' | 'moderator' | 'community' | 'city' | 'source';
+
+export interface StatusChange {
+  from: HazardStatus | null;
+  to: HazardStatus;
+  role: StatusChangeRole;
+  changedByName: string | null;
+  note: string | null;
+  at: string;
+  automatic?: boolean;
+  // Votes behind an automatic resolution, the flags that hid the report, or the city's
+  // Open311 request that moved it along
+  snapshot?:
+    | { yes: number, no: number, yesVotes: number, noVotes: number }
+    | { flags: number, reasons: Partial<Record<FlagReason, number>> }
+    | { serviceRequestId: string, serviceStatus: string };
+}
+
+export interface Comment {
+  id: string;
+  text: string;
+  author: string;
+  // Whether this device wrote it
+  own: boolean;
+  timestamp: string;
+  upvotes: number;
+  downvotes: number;
+  // Set on comments flags hid, which only moderators see
+  hidden?: boolean;
+}
+
+// Sent with a report the hazard check rejected, asking a moderator to look at it instead
+export interface ReviewRequest {
+  aiReasons: string[];
+  justification: string;
+}
+
+// One contact of a jurisdiction a report was sent to
+export interface DispatchDelivery {
+  id: string;
+  type: 'webhook' | 'email' | 'open311';
+  status: 'pending' | 'delivered' | 'failed' | 'cancelled';
+  attempts: number;
+  lastAttemptAt: string | null;
+  // When a pending delivery is retried
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  // Open311 only: the city's service request and whether it is open or closed
+  serviceRequestId: string | null;
+  serviceStatus: string | null;
+}
+
+// Where the backend sent a report when it appeared on the map; the jurisdiction is null
+// when the report is in none of them
+export interface ReportDispatch {
+  jurisdictionId: string | null;
+  jurisdictionName: string | null;
+  routedAt: string;
+  deliveries: DispatchDelivery[];
+}
+
+// A change the author made to a report after submitting it: each changed field's old and new value
+export interface ReportEdit {
+  at: string;
+  changes: Partial<{
+    title: { from: string, to: string },
+    description: { from: string, to: string },
+    category: { from: string, to: string },
+    images: { from: string[], to: string[] },
+  }>;
+}
+
+// The dataset an imported report came from, and its record there
+export interface ReportSource {
+  name: string;
+  recordId: string;
+  importedAt: string;
+}
+
+export interface Report {
+  id: string;
+  title: string;
+  description: string;
+  images: string[];
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  category: string;
+  upvotes: number;
+  downvotes: number;
+  comments: Comment[];
+  status: HazardStatus;
+  statusHistory: StatusChange[];
+  // Oldest first
+  editHistory: ReportEdit[];
+  reporterName: string | null;
+  // Whether this device submitted it
+  own: boolean;
+  // Set when the report waits for a moderator: the reporter asked for it, or the backend's own hazard check
+  // didn't pass it, in which case there is no justification
+  review: { aiReasons: string[], justification: string | null, requestedAt: string } | null;
+  dispatch: ReportDispatch | null;
+  // Set on reports imported from an existing dataset rather than reported in the app
+  source: ReportSource | null;
+  updatedAt: string;
+}
+
+// A report as the app submits it; images are uploaded URLs
+export interface NewReport {
+  id: string;
+  title: string;
+  description: string;
+  images: string[];
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  category?: string;
+  reporterId?: string | null;
+  reporterName?: string | null;
+  // Set to submit the report for review; it starts in pending_review instead of active
+  review?: ReviewRequest;
+}
+
+export interface Region {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export type ExportFormat = 'geojson' | 'csv';
+
+// Which public reports an export holds: those in a map region (see canExportRegion), optionally filtered
+export interface ExportFilters {
+  format: ExportFormat;
+  region: Region;
+  // ISO dates bounding when reports were made
+  from?: string | null;
+  to?: string | null;
+  categories?: string[];
+  statuses?: HazardStatus[];
+}
+
+// An export file, ready to save or share
+export interface HazardExport {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface VoteResult {
+  vote: Vote;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface HazardRepository {
+  // editToken is the token made on this device for the report, sent with every attempt to save it
+  saveReport(report: NewReport, options?: { editToken?: string }): Promise<Report>;
+  getAllReports(): Promise<Report[]>;
+  getReportsInRegion(region: Region): Promise<Report[]>;
+  // reset means the cursor was missing or too old: reload, then sync from the new cursor
+  getReportChanges(since: string | null): Promise<{ reports: Report[], cursor: string, reset: boolean }>;
+  findDuplicateReports(params: { latitude: number, longitude: number, category: string }):
+    Promise<(Report & { distanceMeters: number })[]>;
+  confirmReport(params: { reportId: string, timestamp: string, reporterId: string, images: string[] }):
+    Promise<{ vote: Vote, report: Report | null }>;
+  getReport(reportId: string, timestamp: string): Promise<Report | null>;
+  updateReportStatus(params: {
+    reportId: string,
+    timestamp: string,
+    status: HazardStatus,
+    note?: string,
+    // Set for a moderator's change; otherwise it must be the user's own report, or it fails with status 403
+    moderatorKey?: string,
+  }): Promise<Report>;
+  getUserVote(reportId: string, voterId: string): Promise<Vote>;
+  castVote(params: { reportId: string, timestamp: string, voterId: string, vote: Vote }):
+    Promise<VoteResult & { status?: HazardStatus }>;
+  addComment(params: {
+    reportId: string,
+    timestamp: string,
+    text: string,
+    author: string,
+    authorId: string | null,
+  }): Promise<Comment>;
+  getComments(reportId: string, timestamp: string): Promise<Comment[]>;
+  getUserCommentVotes(reportId: string, commentIds: string[], voterId: string): Promise<Record<string, Vote>>;
+  castCommentVote(params: {
+    reportId: string,
+    timestamp: string,
+    commentId: string,
+    voterId: string,
+    vote: Vote,
+  }): Promise<VoteResult>;
+  // The reason the user flagged the report and each comment, if they did
+  getUserFlags(reportId: string, commentIds: string[], flaggerId: string):
+    Promise<{ report: FlagReason | null, comments: Record<string, FlagReason> }>;
+  // hidden is true when this flag hid the report or comment; reason is the user's first one if they flagged it before
+  flagReport(params: { reportId: string, timestamp: string, flaggerId: string, reason: FlagReason }):
+    Promise<{ reason: FlagReason, hidden: boolean }>;
+  flagComment(params: {
+    reportId: string,
+    timestamp: string,
+    commentId: string,
+    flaggerId: string,
+    reason: FlagReason,
+  }): Promise<{ reason: FlagReason, hidden: boolean }>;
+  // The author's changes to their own report, proven by the edit token kept when it was submitted on this
+  // device; they fail with status 403 for other reports. Edits take any of title, description, category and the full list of images
+  // (uploaded for the report first); a report hidden by flags can't be edited.
+  editReport(params: {
+    reportId: string,
+    timestamp: string,
+    title?: string,
+    description?: string,
+    category?: string,
+    images?: string[],
+  }): Promise<Report>;
+  // A retracted report leaves the map for good
+  retractReport(params: { reportId: string, timestamp: string, note?: string }): Promise<Report>;
+  // The backend also deletes the report's images
+  deleteOwnReport(params: { reportId: string, timestamp: string }): Promise<void>;
+  // Public reports as a GeoJSON or CSV file, for GIS tools and spreadsheets
+  exportReports(filters: ExportFilters): Promise<HazardExport>;
+  // Calls onReport with every created or changed report until the returned function is called.
+  // Changes made while disconnected are not replayed, so onOpen is the cue to catch up.
+  subscribeToChanges(handlers: { onReport: (report: Report) => void, onOpen?: () => void }): () => void;
+}
+
+// Why a report or comment is waiting for a moderator
+export type ModerationReason = 'pending_review' | 'flagged' | 'downvoted';
+
+// flags counts the flags a flagged report or comment had for each reason
+export interface ModerationQueue {
+  reports: { report: Report, reasons: ModerationReason[], flags: Partial<Record<FlagReason, number>> }[];
+  comments: {
+    reportId: string,
+    reportTimestamp: string,
+    reportTitle: string,
+    comment: Comment,
+    reasons: ModerationReason[],
+    flags: Partial<Record<FlagReason, number>>,
+  }[];
+}
+
+export type AuditAction =
+  | 'approve'
+  | 'reject'
+  | 'merge'
+  | 'change_status'
+  | 'edit_category'
+  | 'delete_report'
+  | 'delete_comment'
+  | 'restore_comment'
+  | 'import';
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  action: AuditAction;
+  moderator: string;
+  // For an import, the dataset as import:<source>
+  reportId: string;
+  reportTimestamp: string;
+  commentId: string | null;
+  note: string | null;
+  // What changed, e.g. { from, to } for a status or category, or an import's summary
+  details: Record<string, any>;
+}
+
+// A moderator action on one report
+export interface ModerationTarget {
+  moderatorKey: string;
+  reportId: string;
+  timestamp: string;
+  note?: string;
+}
+
+// Moderator mode. Every call takes the moderator's key and fails with status 401 or 403 without a valid one;
+// every action is recorded in the audit log.
+export interface ModerationRepository {
+  getModeratorSession(moderatorKey: string): Promise<{ moderator: string }>;
+  getModerationQueue(moderatorKey: string): Promise<ModerationQueue>;
+  getAuditLog(params: { moderatorKey: string, reportId?: string }): Promise<AuditEntry[]>;
+  approveReport(params: ModerationTarget): Promise<Report>;
+  rejectReport(params: ModerationTarget): Promise<Report>;
+  mergeReport(params: ModerationTarget & { intoId: string, intoTimestamp: string }):
+    Promise<{ report: Report, into: Report }>;
+  editReportCategory(params: ModerationTarget & { category: string }): Promise<Report>;
+  deleteReport(params: ModerationTarget): Promise<void>;
+  deleteComment(params: ModerationTarget & { commentId: string }): Promise<void>;
+  restoreComment(params: ModerationTarget & { commentId: string }): Promise<Comment>;
+}
+
+export interface LocalImage {
+  uri: string;
+  mimeType?: string;
+}
+
+export interface ImageStore {
+  // Resolves to the URL the report stores for the image
+  uploadImage(image: LocalImage | string, reportId: string, onProgress?: (fraction: number) => void): Promise<string>;
+  uploadImages(images: LocalImage[], reportId: string, onProgress?: (progress: number[]) => void): Promise<string[]>;
+}
+
+export type DataBackend = 'remote' | 'memory' | 'device';
@@ -0,0 +1,17 @@
+import { createRulesAnalyzer } from '../functions/src/rulesAnalyzer';
+
+// Keyword rules that classify a report without looking at its photos. The same input always
+// gets the same answer and no network is needed, so the report flow can be developed and
+// tested offline. The rules are the backend's offline analyzer (functions/src/rulesAnalyzer.js),
+// run on the device.
+
+const analyzer = createRulesAnalyzer();
+
+/** @type {import('./hazardAnalysis').HazardClassifier} */
+export const rulesClassifier = {
+  classify: ({ title = null, description, images = [] }) => analyzer.analyzeHazard({
+    title,
+    description,
+    images: images.map(({ image, imageMime }) => ({ data: image, mimeType: imageMime })),
+  }),
+};
@@ -1,55 +1,56 @@
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import Constants from 'expo-constants';
-import { readAsStringAsync } from 'expo-file-system/legacy';
-
-// Initialize S3 client
-const s3Client = new S3Client({
-  region: Constants.expoConfig?.extra?.awsRegion || process.env.AWS_REGION,
-  credentials: {
-    accessKeyId: Constants.expoConfig?.extra?.awsAccessKeyId || process.env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: Constants.expoConfig?.extra?.awsSecretAccessKey || process.env.AWS_SECRET_ACCESS_KEY,
-  },
-});
-
-const BUCKET_NAME = Constants.expoConfig?.extra?.s3BucketName || process.env.S3_BUCKET_NAME || 'flagit-images';
+import {
+  createUploadTask,
+  getInfoAsync,
+  FileSystemUploadType,
+} from 'expo-file-system/legacy';
+import { apiRequest } from './api';
 
 /**
- * Upload an image to S3
- * @param {string} imageUri - Local file URI of the image
+ * Upload an image to S3 using a pre-signed URL from the backend.
+ * The file is streamed from disk rather than loaded into JS memory.
+ * @param {Object} image - { uri, mimeType } of the local image
  * @param {string} reportId - Unique report ID for organizing images
+ * @param {Function} onProgress - Called with the fraction uploaded (0 to 1)
  * @returns {Promise<string>} - S3 URL of the uploaded image
  */
-export const uploadImageToS3 = async (imageUri, reportId) => {
-  try {
-    console.log('Uploading image to S3:', imageUri);
+export const uploadImageToS3 = async (image, reportId, onProgress) => {
+  const { uri, mimeType = 'image/jpeg' } = typeof image === 'string' ? { uri: image } : image;
 
-    // Read the file as base64
-    const base64 = await readAsStringAsync(imageUri, {
-      encoding: 'base64',
-    });
-
-    // Convert base64 to binary
-    const buffer = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  try {
+    console.log('Uploading image to S3:', uri);
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const filename = `${reportId}/${timestamp}.jpg`;
+    const info = await getInfoAsync(uri);
+    if (!info.exists) throw new Error(`Image not found: ${uri}`);
 
-    // Upload to S3
-    const command = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: filename,
-      Body: buffer,
-      ContentType: 'image/jpeg',
+    // The URL only accepts exactly this type and size
+    const target = await apiRequest('/uploads', {
+      method: 'POST',
+      body: { reportId, contentType: mimeType, size: info.size },
     });
 
-    await s3Client.send(command);
+    const task = createUploadTask(
+      target.uploadUrl,
+      uri,
+      {
+        httpMethod: 'PUT',
+        uploadType: FileSystemUploadType.BINARY_CONTENT,
+        headers: target.headers,
+      },
+      ({ totalBytesSent, totalBytesExpectedToSend }) => {
+        if (onProgress && totalBytesExpectedToSend > 0) {
+          onProgress(totalBytesSent / totalBytesExpectedToSend);
+        }
+      }
+    );
 
-    // Construct S3 URL
-    const s3Url = `https://${BUCKET_NAME}.s3.${Constants.expoConfig?.extra?.awsRegion || process.env.AWS_REGION}.amazonaws.com/${filename}`;
+    const result = await task.uploadAsync();
+    if (!result || result.status < 200 || result.status >= 300) {
+      throw new Error(`Upload failed with status ${result?.status}: ${result?.body?.slice(0, 200)}`);
+    }
+    if (onProgress) onProgress(1);
 
-    console.log('Image uploaded successfully to:', s3Url);
-    return s3Url;
+    console.log('Image uploaded successfully to:', target.url);
+    return target.url;
   } catch (error) {
     console.error('Error uploading image to S3:', error);
     throw error;
@@ -58,15 +59,22 @@ export const uploadImageToS3 = async (imageUri, reportId) => {
 
 /**
  * Upload multiple images to S3
- * @param {string[]} imageUris - Array of local file URIs
+ * @param {Object[]} images - Array of { uri, mimeType } local images
  * @param {string} reportId - Unique report ID for organizing images
+ * @param {Function} onProgress - Called with an array of per-image fractions uploaded
  * @returns {Promise<string[]>} - Array of S3 URLs
  */
-export const uploadImagesToS3 = async (imageUris, reportId) => {
+export const uploadImagesToS3 = async (images, reportId, onProgress) => {
   try {
-    console.log(`Uploading ${imageUris.length} images to S3...`);
+    console.log(`Uploading ${images.length} images to S3...`);
 
-    const uploadPromises = imageUris.map(uri => uploadImageToS3(uri, reportId));
+    const progress = images.map(() => 0);
+    const uploadPromises = images.map((image, index) =>
+      uploadImageToS3(image, reportId, (fraction) => {
+        progress[index] = fraction;
+        if (onProgress) onProgress([...progress]);
+      })
+    );
     const s3Urls = await Promise.all(uploadPromises);
 
     console.log('All images uploaded successfully');
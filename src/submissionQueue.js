@@ -0,0 +1,255 @@
+import {
+  documentDirectory,
+  copyAsync,
+  deleteAsync,
+  makeDirectoryAsync,
+} from 'expo-file-system/legacy';
+import NetInfo from '@react-native-community/netinfo';
+import { readJSON, writeJSON } from './deviceStorage';
+import { repository, imageStore } from './repository';
+import { randomId } from './ids';
+import { saveEditToken } from './editTokens';
+
+const QUEUE_KEY = 'submission-queue';
+const PENDING_IMAGES_DIR = `${documentDirectory}pending-uploads/`;
+
+// Retry delays double from 30 seconds up to 30 minutes
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Synced submissions are kept for the "My reports" list, up to this many
+const MAX_SYNCED_ENTRIES = 20;
+
+let entries = null;
+let isProcessing = false;
+const inFlight = new Set();
+const listeners = new Set();
+
+const loadEntries = async () => {
+  if (!entries) {
+    entries = await readJSON(QUEUE_KEY, []);
+  }
+  return entries;
+};
+
+const persist = async (event) => {
+  const synced = entries.filter(entry => entry.status === 'synced');
+  if (synced.length > MAX_SYNCED_ENTRIES) {
+    const dropped = new Set(synced.slice(0, synced.length - MAX_SYNCED_ENTRIES).map(entry => entry.id));
+    entries = entries.filter(entry => !dropped.has(entry.id));
+  }
+
+  await writeJSON(QUEUE_KEY, entries);
+  listeners.forEach(listener => listener([...entries], event));
+};
+
+const updateEntry = async (id, changes, event) => {
+  entries = entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+  await persist(event);
+  return entries.find(entry => entry.id === id);
+};
+
+// Errors worth retrying: no response at all, rate limiting, or a server-side failure
+const isRetryable = (error) =>
+  !error.status || error.status === 408 || error.status === 429 || error.status >= 500;
+
+const retryDelay = (attempts) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Copy picked images into app storage so they survive until the report is sent
+const keepImages = async (reportId, images) => {
+  const dir = `${PENDING_IMAGES_DIR}${reportId}/`;
+  await makeDirectoryAsync(dir, { intermediates: true });
+
+  return Promise.all(images.map(async (image, index) => {
+    const extension = image.uri.split('.').pop()?.split('?')[0] || 'jpg';
+    const uri = `${dir}${index}.${extension}`;
+    await copyAsync({ from: image.uri, to: uri });
+    return { uri, mimeType: image.mimeType, uploadedUrl: null };
+  }));
+};
+
+const sendEntry = async (entry, onUploadProgress) => {
+  const progress = entry.images.map(image => (image.uploadedUrl ? 1 : 0));
+  const reportProgress = () => onUploadProgress && onUploadProgress([...progress]);
+  reportProgress();
+
+  // Upload images one at a time, recording each URL so a retry skips it
+  let images = entry.images;
+  for (let index = 0; index < images.length; index++) {
+    if (images[index].uploadedUrl) continue;
+
+    const uploadedUrl = await imageStore.uploadImage(images[index], entry.id, (fraction) => {
+      progress[index] = fraction;
+      reportProgress();
+    });
+    images = images.map((image, i) => (i === index ? { ...image, uploadedUrl } : image));
+    await updateEntry(entry.id, { images });
+  }
+
+  const report = { ...entry.report, images: images.map(image => image.uploadedUrl) };
+  let saved;
+  try {
+    saved = await repository.saveReport(report, { editToken: entry.editToken });
+  } catch (error) {
+    // An earlier attempt already reached the server. What it stored is fetched rather than assumed,
+    // since the server may have held the report for review and it must not go on the map. The
+    // server never sends the edit token again, but it is the one this entry was sent with.
+    if (error.status !== 409) throw error;
+    saved = await repository.getReport(report.id, report.timestamp);
+    if (!saved) throw error;
+    if (entry.editToken) await saveEditToken(report.id, entry.editToken);
+  }
+
+  await deleteAsync(`${PENDING_IMAGES_DIR}${entry.id}/`, { idempotent: true }).catch(() => {});
+  return updateEntry(
+    entry.id,
+    { status: 'synced', report: { ...report, ...saved }, syncedAt: new Date().toISOString(), lastError: null },
+    { type: 'synced', report: { ...report, ...saved } }
+  );
+};
+
+const attemptEntry = async (entry, onUploadProgress) => {
+  if (inFlight.has(entry.id)) return entry;
+  inFlight.add(entry.id);
+
+  try {
+    return await sendEntry(entry, onUploadProgress);
+  } catch (error) {
+    const attempts = (entry.attempts || 0) + 1;
+    const retryable = isRetryable(error);
+    console.error(`Submission ${entry.id} failed (attempt ${attempts}):`, error);
+
+    const current = entries.find(e => e.id === entry.id) || entry;
+    return updateEntry(entry.id, {
+      images: current.images,
+      status: retryable ? 'pending' : 'failed',
+      attempts,
+      lastError: error?.message ? String(error.message) : 'Unknown error',
+      nextAttemptAt: retryable ? Date.now() + retryDelay(attempts) : null,
+    });
+  } finally {
+    inFlight.delete(entry.id);
+  }
+};
+
+/**
+ * Subscribe to submission queue changes
+ * @param {Function} listener - Called with (entries, event); event is { type: 'synced', report } when a report reaches the server
+ * @returns {Function} - Unsubscribe function
+ */
+export const subscribeToSubmissions = (listener) => {
+  listeners.add(listener);
+  loadEntries().then(loaded => listener([...loaded]));
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Submit a report. It is stored on the device first, so if the upload or save
+ * fails it stays queued and is retried later.
+ * @param {Object} report - The report without images
+ * @param {Object[]} images - Array of { uri, mimeType } local images
+ * @param {Function} onUploadProgress - Called with an array of per-image fractions uploaded
+ * @returns {Promise<Object>} - { status: 'synced' | 'pending' | 'failed', report, error }
+ */
+export const submitReport = async (report, images, onUploadProgress) => {
+  await loadEntries();
+
+  const entry = {
+    id: report.id,
+    report: { ...report, images: [] },
+    images: await keepImages(report.id, images),
+    // Made here rather than by the backend so every attempt sends the same one
+    editToken: randomId(32),
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  };
+  entries = [...entries, entry];
+  await persist();
+
+  const result = await attemptEntry(entry, onUploadProgress);
+  return {
+    status: result.status,
+    report: result.status === 'synced'
+      ? result.report
+      : { ...report, images: result.images.map(image => image.uri) },
+    error: result.lastError,
+  };
+};
+
+/**
+ * Retry every queued submission whose backoff has elapsed
+ * @param {Object} options
+ * @param {boolean} options.force - Ignore the backoff (e.g. connectivity just returned)
+ * @returns {Promise<void>}
+ */
+export const processSubmissionQueue = async ({ force = false } = {}) => {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    await loadEntries();
+    const due = entries.filter(entry =>
+      entry.status === 'pending' && (force || !entry.nextAttemptAt || entry.nextAttemptAt <= Date.now())
+    );
+
+    for (const entry of due) {
+      const result = await attemptEntry(entry);
+      // Stop early while offline; the rest would fail the same way
+      if (result.status === 'pending' && !(await NetInfo.fetch()).isConnected) break;
+    }
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Queue a failed submission for another attempt right away
+ * @param {string} id - The report ID
+ * @returns {Promise<void>}
+ */
+export const retrySubmission = async (id) => {
+  await loadEntries();
+  await updateEntry(id, { status: 'pending', nextAttemptAt: Date.now() });
+  await processSubmissionQueue({ force: true });
+};
+
+/**
+ * Remove a submission that has not synced, along with its stored images
+ * @param {string} id - The report ID
+ * @returns {Promise<void>}
+ */
+export const discardSubmission = async (id) => {
+  await loadEntries();
+  entries = entries.filter(entry => entry.id !== id);
+  await deleteAsync(`${PENDING_IMAGES_DIR}${id}/`, { idempotent: true }).catch(() => {});
+  await persist();
+};
+
+/**
+ * Retry queued submissions when connectivity returns and on an interval
+ * @param {number} intervalMs - How often to check for due retries
+ * @returns {Function} - Stop function
+ */
+export const startSubmissionQueue = (intervalMs = BASE_RETRY_DELAY_MS) => {
+  let wasConnected = true;
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const connected = !!state.isConnected;
+    if (connected && !wasConnected) {
+      console.log('Connectivity restored, retrying queued submissions');
+      processSubmissionQueue({ force: true });
+    }
+    wasConnected = connected;
+  });
+
+  const timer = setInterval(() => processSubmissionQueue(), intervalMs);
+  processSubmissionQueue();
+
+  return () => {
+    unsubscribeNetInfo();
+    clearInterval(timer);
+  };
+};